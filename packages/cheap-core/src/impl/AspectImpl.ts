@@ -5,6 +5,11 @@
 import { Aspect, AspectDef, Entity, Property } from "../interfaces/index.js";
 import { PropertyImpl } from "./PropertyImpl.js";
 
+/**
+ * Callback invoked after a property of an aspect is written, added or removed.
+ */
+export type AspectChangeListener = (aspect: Aspect, propName: string) => void;
+
 /**
  * Abstract base class for Aspect implementations providing common functionality.
  * This class manages the basic relationships between an aspect, its entity
@@ -14,6 +19,9 @@ export abstract class AspectBaseImpl implements Aspect {
   protected _entity: Entity | null;
   protected readonly _def: AspectDef;
 
+  /** Listeners notified of property changes; created when the first one is added. */
+  private _changeListeners: AspectChangeListener[] | null = null;
+
   /**
    * Creates a new AspectBaseImpl with the specified entity and aspect definition.
    */
@@ -54,6 +62,36 @@ export abstract class AspectBaseImpl implements Aspect {
     return false;
   }
 
+  /**
+   * Adds a listener to be notified after any property of this aspect is
+   * written, added or removed.
+   */
+  addChangeListener(listener: AspectChangeListener): void {
+    (this._changeListeners ??= []).push(listener);
+  }
+
+  /**
+   * Removes a listener added with addChangeListener.
+   */
+  removeChangeListener(listener: AspectChangeListener): void {
+    const index = this._changeListeners?.indexOf(listener) ?? -1;
+    if (index >= 0) {
+      this._changeListeners!.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notifies the change listeners that a property was written, added or removed.
+   * Subclasses must call this from every method that changes a property.
+   */
+  protected propertyChanged(propName: string): void {
+    if (this._changeListeners) {
+      for (const listener of this._changeListeners) {
+        listener(this, propName);
+      }
+    }
+  }
+
   // Abstract methods that subclasses must implement
   abstract unsafeReadObj(propName: string): unknown;
   abstract unsafeWrite(propName: string, value: unknown): void;
@@ -269,10 +307,12 @@ export class AspectPropertyMapImpl extends AspectBaseImpl {
       }
     }
     this.props.set(propName, prop);
+    this.propertyChanged(propName);
   }
 
   unsafeAdd(prop: Property): void {
     this.props.set(prop.def().name(), prop);
+    this.propertyChanged(prop.def().name());
   }
 
   unsafeWrite(propName: string, value: unknown): void {
@@ -289,10 +329,12 @@ export class AspectPropertyMapImpl extends AspectBaseImpl {
       }
       this.props.set(propName, new PropertyImpl(prop.def(), value));
     }
+    this.propertyChanged(propName);
   }
 
   unsafeRemove(propName: string): void {
     this.props.delete(propName);
+    this.propertyChanged(propName);
   }
 }
 
@@ -326,6 +368,7 @@ export class AspectObjectMapImpl extends AspectBaseImpl {
 
   unsafeAdd(prop: Property): void {
     this.props.set(prop.def().name(), prop.unsafeRead());
+    this.propertyChanged(prop.def().name());
   }
 
   unsafeWrite(propName: string, value: unknown): void {
@@ -335,9 +378,11 @@ export class AspectObjectMapImpl extends AspectBaseImpl {
       throw new Error(`Aspect '${def.name()}' does not contain prop named '${propName}'`);
     }
     this.props.set(propName, value);
+    this.propertyChanged(propName);
   }
 
   unsafeRemove(propName: string): void {
     this.props.delete(propName);
+    this.propertyChanged(propName);
   }
 }
@@ -0,0 +1,325 @@
+/**
+ * Unit tests for CatalogImpl
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { PropertyDef } from "../interfaces/index.js";
+import { CatalogSpecies, HierarchyType, PropertyType } from "../types.js";
+import { FullAspectDefImpl } from "./AspectDefImpl.js";
+import { CatalogDefImpl, CatalogImpl } from "./CatalogImpl.js";
+import { HierarchyDefImpl } from "./HierarchyDefImpl.js";
+import { AspectObjectMapImpl } from "./AspectImpl.js";
+import { EntityImpl } from "./EntityImpl.js";
+import {
+  AspectMapHierarchyImpl,
+  EntityDirectoryHierarchyImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchyImpl,
+} from "./HierarchyImpl.js";
+import { PropertyDefImpl } from "./PropertyImpl.js";
+
+const PERSON_ID = "a1000000-0000-4000-8000-000000000001";
+
+function personDef(extraProperty?: string): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  propDefs.set("name", new PropertyDefImpl("name", PropertyType.String));
+  if (extraProperty) {
+    propDefs.set(extraProperty, new PropertyDefImpl(extraProperty, PropertyType.Integer));
+  }
+  return new FullAspectDefImpl("person", PERSON_ID, propDefs, true, true, false, false);
+}
+
+function petDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  propDefs.set("species", new PropertyDefImpl("species", PropertyType.String));
+  return new FullAspectDefImpl("pet", crypto.randomUUID(), propDefs, true, true, false, false);
+}
+
+function peopleCatalogDef(): CatalogDefImpl {
+  return new CatalogDefImpl(
+    [
+      new HierarchyDefImpl("friends", HierarchyType.ENTITY_SET),
+      new HierarchyDefImpl("queue", HierarchyType.ENTITY_LIST),
+    ],
+    [personDef()],
+  );
+}
+
+describe("CatalogImpl", () => {
+  describe("when not strict", () => {
+    it("should not be strict", () => {
+      expect(new CatalogImpl().isStrict()).toBe(false);
+      expect(new CatalogImpl("c0000000-0000-4000-8000-000000000001", CatalogSpecies.SINK, null, 0).isStrict()).toBe(
+        false,
+      );
+    });
+
+    it("should describe its contents with its CatalogDef", () => {
+      const catalog = new CatalogImpl();
+      const def = catalog.catalogDef();
+      expect(Array.from(def.hierarchyDefs())).toEqual([]);
+
+      const person = catalog.extend(personDef()).aspectDef();
+      new EntitySetHierarchyImpl(catalog, "friends");
+
+      expect(def.aspectDef("person")).toBe(person);
+      expect(Array.from(def.aspectDefs())).toEqual([person]);
+      expect(def.hierarchyDef("friends")?.type()).toBe(HierarchyType.ENTITY_SET);
+      expect(def.hierarchyDef("person")).toBeNull();
+      expect(Array.from(def.hierarchyDefs(), (h) => h.name())).toEqual(["friends"]);
+      expect(def.hash()).toBe(new CatalogDefImpl(def).hash());
+    });
+
+    it("should accept any hierarchy and AspectDef", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), false);
+
+      expect(() => catalog.extend(petDef())).not.toThrow();
+      expect(() => new EntityDirectoryHierarchyImpl(catalog, "undeclared")).not.toThrow();
+      expect(() => new EntityListHierarchyImpl(catalog, "friends")).not.toThrow();
+    });
+  });
+
+  describe("when strict", () => {
+    it("should return its CatalogDef", () => {
+      const def = peopleCatalogDef();
+      const catalog = new CatalogImpl(def, true);
+
+      expect(catalog.catalogDef()).toBe(def);
+      expect(catalog.isStrict()).toBe(true);
+      expect(catalog.species()).toBe(CatalogSpecies.SINK);
+    });
+
+    it("should accept the full constructor arguments", () => {
+      const def = peopleCatalogDef();
+      const catalog = new CatalogImpl(
+        "c0000000-0000-4000-8000-000000000002",
+        CatalogSpecies.SOURCE,
+        null,
+        3,
+        def,
+        true,
+      );
+
+      expect(catalog.globalId()).toBe("c0000000-0000-4000-8000-000000000002");
+      expect(catalog.species()).toBe(CatalogSpecies.SOURCE);
+      expect(catalog.version()).toBe(3);
+      expect(catalog.catalogDef()).toBe(def);
+      expect(catalog.isStrict()).toBe(true);
+    });
+
+    it("should accept declared hierarchies and AspectDefs", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+
+      const people = catalog.extend(personDef());
+      const friends = new EntitySetHierarchyImpl(catalog, "friends");
+
+      expect(catalog.aspects("person")).toBe(people);
+      expect(catalog.hierarchy("friends")).toBe(friends);
+      expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["person", "friends", "queue"]);
+    });
+
+    it("should reject undeclared AspectDefs", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+
+      expect(() => catalog.extend(petDef())).toThrow("AspectDef 'pet' is not defined");
+      expect(() => new AspectMapHierarchyImpl(catalog, petDef())).toThrow("AspectDef 'pet' is not defined");
+      expect(catalog.aspects("pet")).toBeNull();
+    });
+
+    it("should reject AspectDefs that differ from the declared ones", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+
+      expect(() => catalog.extend(personDef("age"))).toThrow("is not identical");
+      expect(catalog.aspects("person")?.aspectDef().propertyDef("age")).toBeNull();
+    });
+
+    it("should reject undeclared hierarchies", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+
+      expect(() => new EntityDirectoryHierarchyImpl(catalog, "undeclared")).toThrow(
+        "Hierarchy 'undeclared' is not defined",
+      );
+      expect(catalog.hierarchy("undeclared")).toBeNull();
+    });
+
+    it("should reject hierarchies whose type differs from their HierarchyDef", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+
+      expect(() => new EntityListHierarchyImpl(catalog, "friends")).toThrow(
+        "Hierarchy 'friends' has type EL, but the CatalogDef of this catalog defines it as ES.",
+      );
+      expect(catalog.hierarchy("friends")).toBeInstanceOf(EntitySetHierarchyImpl);
+    });
+  });
+
+  describe("created from a CatalogDef", () => {
+    it("should have an empty hierarchy of the right class for each HierarchyDef and AspectDef", () => {
+      const def = new CatalogDefImpl(
+        [
+          new HierarchyDefImpl("queue", HierarchyType.ENTITY_LIST),
+          new HierarchyDefImpl("friends", HierarchyType.ENTITY_SET),
+          new HierarchyDefImpl("byName", HierarchyType.ENTITY_DIR),
+          new HierarchyDefImpl("tree", HierarchyType.ENTITY_TREE),
+          new HierarchyDefImpl("person", HierarchyType.ASPECT_MAP),
+        ],
+        [personDef(), petDef()],
+      );
+      const catalog = new CatalogImpl("c0000000-0000-4000-8000-000000000003", CatalogSpecies.SINK, null, 0, def, false);
+
+      expect(catalog.hierarchy("queue")).toBeInstanceOf(EntityListHierarchyImpl);
+      expect(catalog.hierarchy("friends")).toBeInstanceOf(EntitySetHierarchyImpl);
+      expect(catalog.hierarchy("byName")).toBeInstanceOf(EntityDirectoryHierarchyImpl);
+      expect(catalog.hierarchy("tree")).toBeInstanceOf(EntityTreeHierarchyImpl);
+      expect(catalog.aspects("person")?.aspectDef()).toBe(def.aspectDef("person"));
+      expect(catalog.aspects("pet")?.size).toBe(0);
+      expect(Array.from(catalog.hierarchies()).length).toBe(6);
+      expect((catalog.hierarchy("queue") as EntityListHierarchyImpl).length).toBe(0);
+    });
+
+    it("should reject an aspect map HierarchyDef without an AspectDef", () => {
+      const def = new CatalogDefImpl([new HierarchyDefImpl("pet", HierarchyType.ASPECT_MAP)], [personDef()]);
+
+      expect(() => new CatalogImpl(def, true)).toThrow("the CatalogDef has no AspectDef for it");
+    });
+
+    it("should reject a HierarchyDef named after an AspectDef", () => {
+      const def = new CatalogDefImpl([new HierarchyDefImpl("person", HierarchyType.ENTITY_SET)], [personDef()]);
+
+      expect(() => new CatalogImpl(def, false)).toThrow("has the name of an aspect map");
+    });
+  });
+
+  describe("reconcile", () => {
+    it("should add the new hierarchies and keep the existing ones and their contents", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+      const people = catalog.aspects("person")!;
+      const alice = new EntityImpl();
+      people.add(new AspectObjectMapImpl(alice, people.aspectDef()));
+      const friends = catalog.hierarchy("friends") as EntitySetHierarchyImpl;
+      friends.add(alice);
+
+      const updated = new CatalogDefImpl(
+        [...peopleCatalogDef().hierarchyDefs(), new HierarchyDefImpl("byName", HierarchyType.ENTITY_DIR)],
+        [personDef(), petDef()],
+      );
+      catalog.reconcile(updated);
+
+      expect(catalog.catalogDef()).toBe(updated);
+      expect(catalog.aspects("person")).toBe(people);
+      expect(people.get(alice)).toBeDefined();
+      expect(catalog.hierarchy("friends")).toBe(friends);
+      expect(friends.has(alice)).toBe(true);
+      expect(catalog.hierarchy("byName")).toBeInstanceOf(EntityDirectoryHierarchyImpl);
+      expect(catalog.aspects("pet")).not.toBeNull();
+      expect(() => new EntityDirectoryHierarchyImpl(catalog, "byName")).not.toThrow();
+    });
+
+    it("should reject hierarchies whose type changed and keep their entries", () => {
+      const def = peopleCatalogDef();
+      const catalog = new CatalogImpl(def, true);
+      const queue = catalog.hierarchy("queue") as EntityListHierarchyImpl;
+      queue.push(new EntityImpl());
+      const retyped = new CatalogDefImpl(
+        [
+          new HierarchyDefImpl("friends", HierarchyType.ENTITY_SET),
+          new HierarchyDefImpl("queue", HierarchyType.ENTITY_TREE),
+        ],
+        [personDef()],
+      );
+
+      expect(() => catalog.reconcile(retyped)).toThrow(
+        "Hierarchy 'queue' has type EL, but the new CatalogDef defines it as ET.",
+      );
+      expect(catalog.catalogDef()).toBe(def);
+      expect(catalog.hierarchy("queue")).toBe(queue);
+      expect(queue.length).toBe(1);
+    });
+
+    it("should reject an AspectDef named after a hierarchy that is not an aspect map", () => {
+      const def = peopleCatalogDef();
+      const catalog = new CatalogImpl(def, false);
+      const queue = catalog.hierarchy("queue") as EntityListHierarchyImpl;
+      queue.push(new EntityImpl());
+      const queueDef = new FullAspectDefImpl("queue", crypto.randomUUID(), new Map(), true, true, false, false);
+
+      expect(() => catalog.reconcile(new CatalogDefImpl([], [personDef(), queueDef]))).toThrow(
+        "Hierarchy 'queue' has type EL, but the new CatalogDef defines it as an aspect map.",
+      );
+      expect(catalog.catalogDef()).toBe(def);
+      expect(catalog.hierarchy("queue")).toBe(queue);
+      expect(queue.length).toBe(1);
+
+      catalog.reconcile(new CatalogDefImpl([], [personDef(), queueDef]), true);
+      expect(catalog.aspects("queue")!.aspectDef()).toBe(queueDef);
+    });
+
+    it("should replace hierarchies whose type changed when asked to", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), true);
+      const queue = catalog.hierarchy("queue");
+
+      catalog.reconcile(
+        new CatalogDefImpl(
+          [
+            new HierarchyDefImpl("friends", HierarchyType.ENTITY_SET),
+            new HierarchyDefImpl("queue", HierarchyType.ENTITY_TREE),
+          ],
+          [personDef()],
+        ),
+        true,
+      );
+
+      expect(catalog.hierarchy("queue")).not.toBe(queue);
+      expect(catalog.hierarchy("queue")).toBeInstanceOf(EntityTreeHierarchyImpl);
+    });
+
+    it("should record the new hierarchies as changes", () => {
+      const catalog = new CatalogImpl(peopleCatalogDef(), false);
+      const tracker = catalog.trackChanges();
+
+      catalog.reconcile(
+        new CatalogDefImpl(
+          [...peopleCatalogDef().hierarchyDefs(), new HierarchyDefImpl("byName", HierarchyType.ENTITY_DIR)],
+          [personDef()],
+        ),
+      );
+
+      expect(tracker.changedHierarchyNames()).toEqual(["byName"]);
+    });
+
+    it("should adopt a CatalogDef in a catalog created without one", () => {
+      const catalog = new CatalogImpl();
+      new EntityDirectoryHierarchyImpl(catalog, "extra");
+
+      catalog.reconcile(peopleCatalogDef());
+
+      expect(catalog.isStrict()).toBe(false);
+      expect(catalog.catalogDef().hierarchyDef("extra")).toBeNull();
+      expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["extra", "person", "friends", "queue"]);
+    });
+
+    it("should change nothing when the CatalogDef cannot be reconciled", () => {
+      const def = peopleCatalogDef();
+      const catalog = new CatalogImpl(def, true);
+      const names = Array.from(catalog.hierarchies(), (h) => h.name());
+
+      const changedAspectDef = new CatalogDefImpl(
+        [new HierarchyDefImpl("byName", HierarchyType.ENTITY_DIR)],
+        [personDef("age")],
+      );
+      expect(() => catalog.reconcile(changedAspectDef)).toThrow(
+        "AspectDef 'person' differs from the AspectDef of the existing aspect map.",
+      );
+      const missingHierarchy = new CatalogDefImpl(
+        [new HierarchyDefImpl("friends", HierarchyType.ENTITY_SET)],
+        [personDef(), petDef()],
+      );
+      expect(() => catalog.reconcile(missingHierarchy)).toThrow(
+        "Hierarchy 'queue' of this strict catalog is not defined in the new CatalogDef.",
+      );
+
+      expect(catalog.catalogDef()).toBe(def);
+      expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(names);
+    });
+  });
+});
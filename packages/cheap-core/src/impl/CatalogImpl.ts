@@ -5,9 +5,17 @@
 import { Catalog, CatalogDef } from "../interfaces/Catalog.js";
 import { Hierarchy, HierarchyDef, AspectMapHierarchy } from "../interfaces/Hierarchy.js";
 import { AspectDef } from "../interfaces/Aspect.js";
-import { CatalogSpecies } from "../types.js";
+import { CatalogSpecies, HierarchyType } from "../types.js";
 import { LocalEntityOneCatalogImpl } from "./EntityImpl.js";
-import { AspectMapHierarchyImpl } from "./HierarchyImpl.js";
+import {
+  AspectMapHierarchyImpl,
+  EntityDirectoryHierarchyImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchyImpl,
+} from "./HierarchyImpl.js";
+import { HierarchyDefImpl } from "./HierarchyDefImpl.js";
+import { ChangeTracker } from "./ChangeTracker.js";
 import { CheapHasher } from "../util/CheapHasher.js";
 import { randomUUID } from "crypto";
 
@@ -106,6 +114,50 @@ export class CatalogDefImpl implements CatalogDef {
   }
 }
 
+/**
+ * The CatalogDef of a catalog constructed without one, which describes
+ * whatever the catalog currently contains: its AspectDefs, and a HierarchyDef
+ * for each of its hierarchies other than its aspect maps.
+ */
+class CatalogWrapperDef implements CatalogDef {
+  private readonly _catalog: Catalog;
+
+  constructor(catalog: Catalog) {
+    this._catalog = catalog;
+  }
+
+  aspectDefs(): Iterable<AspectDef> {
+    return this._catalog.aspectDefs();
+  }
+
+  *hierarchyDefs(): Iterable<HierarchyDef> {
+    for (const hierarchy of this._catalog.hierarchies()) {
+      if (hierarchy.type() !== HierarchyType.ASPECT_MAP) {
+        yield new HierarchyDefImpl(hierarchy.name(), hierarchy.type());
+      }
+    }
+  }
+
+  hierarchyDef(name: string): HierarchyDef | null {
+    const hierarchy = this._catalog.hierarchy(name);
+    if (hierarchy === null || hierarchy.type() === HierarchyType.ASPECT_MAP) {
+      return null;
+    }
+    return new HierarchyDefImpl(hierarchy.name(), hierarchy.type());
+  }
+
+  aspectDef(name: string): AspectDef | null {
+    return this._catalog.aspects(name)?.aspectDef() ?? null;
+  }
+
+  /**
+   * Not cached, since the contents of the catalog may change.
+   */
+  hash(): bigint {
+    return new CatalogDefImpl(this).hash();
+  }
+}
+
 /**
  * Full implementation of a Catalog in the Cheap architecture. A catalog represents
  * either an external data source or a mirror/clone/fork of another catalog. A catalog
@@ -130,6 +182,12 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
   /** Directory of aspect definitions available in this catalog. */
   private readonly _aspectage = new Map<string, AspectDef>();
 
+  /** The definition of this catalog, or a wrapper that describes its contents. */
+  private _catalogDef: CatalogDef;
+
+  /** Whether this catalog may only contain the hierarchies and AspectDefs of its CatalogDef. */
+  private readonly _strict: boolean;
+
   /**
    * Creates a new non-strict SINK catalog with a wrapper CatalogDef that
    * fully delegates to this catalog.
@@ -161,18 +219,64 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
    */
   constructor(globalId: string, species: CatalogSpecies, upstream: string | null, version: number);
 
+  /**
+   * Creates a new SINK catalog with the specified definition, and an empty
+   * hierarchy for each of its HierarchyDefs and AspectDefs; see reconcile().
+   *
+   * @param catalogDef the definition of this catalog
+   * @param strict whether this catalog may only contain the hierarchies and
+   *   AspectDefs of its definition
+   */
+  constructor(catalogDef: CatalogDefImpl, strict: boolean);
+
+  /**
+   * Creates a new catalog with the specified definition and upstream catalog,
+   * and an empty hierarchy for each HierarchyDef and AspectDef of the
+   * definition; see reconcile().
+   *
+   * @param globalId the global ID for this catalog
+   * @param species the species of this catalog
+   * @param upstream the upstream catalog to mirror, or null for root catalogs
+   * @param version the version number of this catalog
+   * @param catalogDef the definition of this catalog
+   * @param strict whether this catalog may only contain the hierarchies and
+   *   AspectDefs of its definition
+   * @throws Error if a SOURCE/SINK catalog has an upstream; or for other species, if it lacks one;
+   *   or if the definition cannot be reconciled
+   */
+  constructor(
+    globalId: string,
+    species: CatalogSpecies,
+    upstream: string | null,
+    version: number,
+    catalogDef: CatalogDefImpl,
+    strict: boolean,
+  );
+
   constructor(
-    globalIdOrSpecies?: string | CatalogSpecies,
-    upstreamOrSpecies?: string | null | CatalogSpecies,
+    globalIdOrSpecies?: string | CatalogSpecies | CatalogDefImpl,
+    upstreamOrSpecies?: string | null | CatalogSpecies | boolean,
     upstream?: string | null,
     version?: number,
+    catalogDef?: CatalogDefImpl,
+    strict?: boolean,
   ) {
     let globalId: string;
     let species: CatalogSpecies;
     let upstreamId: string | null;
     let versionNum: number;
+    let def: CatalogDefImpl | null = null;
+    let isStrict = false;
 
-    if (globalIdOrSpecies === undefined) {
+    if (globalIdOrSpecies instanceof CatalogDefImpl && typeof upstreamOrSpecies === "boolean") {
+      // Constructor with a CatalogDef
+      globalId = randomUUID();
+      species = CatalogSpecies.SINK;
+      upstreamId = null;
+      versionNum = 0;
+      def = globalIdOrSpecies;
+      isStrict = upstreamOrSpecies;
+    } else if (globalIdOrSpecies === undefined) {
       // No-arg constructor
       globalId = randomUUID();
       species = CatalogSpecies.SINK;
@@ -190,11 +294,15 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
       upstream !== undefined &&
       version !== undefined
     ) {
-      // Full constructor
+      // Full constructor, with or without a CatalogDef
       globalId = globalIdOrSpecies;
       species = upstreamOrSpecies as CatalogSpecies;
       upstreamId = upstream;
       versionNum = version;
+      if (catalogDef !== undefined) {
+        def = catalogDef;
+        isStrict = strict ?? false;
+      }
     } else if (
       typeof globalIdOrSpecies === "string" &&
       typeof upstreamOrSpecies === "object" &&
@@ -228,9 +336,23 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
     this._species = species;
     this._upstream = upstreamId;
     this._version = versionNum;
+    this._catalogDef = def ?? new CatalogWrapperDef(this);
+    this._strict = isStrict;
 
     // Set catalog reference to self - CatalogImpl is its own catalog
     this._catalog = this;
+
+    if (def !== null) {
+      this.reconcile(def);
+    }
+  }
+
+  catalogDef(): CatalogDef {
+    return this._catalogDef;
+  }
+
+  isStrict(): boolean {
+    return this._strict;
   }
 
   species(): CatalogSpecies {
@@ -248,6 +370,7 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
    */
   setUri(uri: URL): void {
     this._uri = uri;
+    ChangeTracker.of(this)?.catalogChanged();
   }
 
   upstream(): string | null {
@@ -279,12 +402,16 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
         "A hierarchy may not be added to a Catalog with the same name as an existing AspectMapHierarchy.",
       );
     }
+    if (this._strict) {
+      this.checkDeclared(hierarchy);
+    }
     if (hierarchy instanceof AspectMapHierarchyImpl) {
       const aspectDef = hierarchy.aspectDef();
       this._aspectage.set(aspectDef.name(), aspectDef);
     }
     const replaced = this._hierarchies.get(hName) ?? null;
     this._hierarchies.set(hName, hierarchy);
+    ChangeTracker.of(this)?.hierarchyAdded(hName, replaced !== null);
     return replaced;
   }
 
@@ -315,4 +442,169 @@ export class CatalogImpl extends LocalEntityOneCatalogImpl implements Catalog {
     }
     return new AspectMapHierarchyImpl(this, aspectDef);
   }
+
+  /**
+   * Makes a CatalogDef the definition of this catalog, and brings the
+   * hierarchies of this catalog in line with it: an empty AspectMapHierarchy
+   * is added for each AspectDef this catalog does not have yet, and an empty
+   * hierarchy of the right class for each HierarchyDef this catalog has no
+   * hierarchy for. Other hierarchies, and their contents, are kept.
+   *
+   * A hierarchy whose type differs from its HierarchyDef, or that has the name
+   * of an AspectDef but is not an aspect map, is an error, since replacing it
+   * would discard its entries; pass replaceMismatched to replace such
+   * hierarchies with empty ones instead.
+   *
+   * Nothing is changed unless the whole CatalogDef can be reconciled.
+   *
+   * @param catalogDef the new definition of this catalog
+   * @param replaceMismatched whether to replace hierarchies whose type differs from their definition
+   * @throws Error if an AspectDef differs from the one of an existing aspect
+   *   map or names a hierarchy that is not an aspect map and replaceMismatched
+   *   is false, a HierarchyDef names an existing aspect map or an aspect map with
+   *   no AspectDef, a hierarchy has a different type than its HierarchyDef and
+   *   replaceMismatched is false, or this catalog is strict and has
+   *   hierarchies the CatalogDef does not define
+   */
+  reconcile(catalogDef: CatalogDefImpl, replaceMismatched: boolean = false): void {
+    for (const aspectDef of catalogDef.aspectDefs()) {
+      const aMap = this.aspects(aspectDef);
+      if (aMap !== null && !(aspectDef.fullyEquals(aMap.aspectDef()) && aMap.aspectDef().fullyEquals(aspectDef))) {
+        throw new Error(`AspectDef '${aspectDef.name()}' differs from the AspectDef of the existing aspect map.`);
+      }
+      const existing = this.hierarchy(aspectDef.name());
+      if (aMap === null && existing !== null && !replaceMismatched) {
+        throw new Error(
+          `Hierarchy '${aspectDef.name()}' has type ${existing.type()}, but the new CatalogDef defines it as an aspect map.`,
+        );
+      }
+    }
+    for (const hDef of catalogDef.hierarchyDefs()) {
+      if (hDef.type() === HierarchyType.ASPECT_MAP) {
+        if (catalogDef.aspectDef(hDef.name()) === null) {
+          throw new Error(
+            `HierarchyDef '${hDef.name()}' is an aspect map, but the CatalogDef has no AspectDef for it.`,
+          );
+        }
+      } else if (this.containsAspects(hDef.name()) || catalogDef.aspectDef(hDef.name()) !== null) {
+        throw new Error(`HierarchyDef '${hDef.name()}' has the name of an aspect map, but is not one.`);
+      } else {
+        const existing = this.hierarchy(hDef.name());
+        if (existing !== null && existing.type() !== hDef.type() && !replaceMismatched) {
+          throw new Error(
+            `Hierarchy '${hDef.name()}' has type ${existing.type()}, but the new CatalogDef defines it as ${hDef.type()}.`,
+          );
+        }
+      }
+    }
+    if (this._strict) {
+      for (const hierarchy of this._hierarchies.values()) {
+        const declared =
+          hierarchy instanceof AspectMapHierarchyImpl ?
+            catalogDef.aspectDef(hierarchy.name())
+          : catalogDef.hierarchyDef(hierarchy.name());
+        if (declared === null) {
+          throw new Error(
+            `Hierarchy '${hierarchy.name()}' of this strict catalog is not defined in the new CatalogDef.`,
+          );
+        }
+      }
+    }
+
+    this._catalogDef = catalogDef;
+    for (const aspectDef of catalogDef.aspectDefs()) {
+      this.extend(aspectDef);
+    }
+    for (const hDef of catalogDef.hierarchyDefs()) {
+      if (hDef.type() !== HierarchyType.ASPECT_MAP && this.hierarchy(hDef.name())?.type() !== hDef.type()) {
+        this.createHierarchy(hDef);
+      }
+    }
+  }
+
+  /**
+   * Creates an empty hierarchy of the class for the type of a HierarchyDef,
+   * which adds itself to this catalog.
+   *
+   * @param hierarchyDef the definition of the hierarchy, which must not be an aspect map
+   * @returns the new hierarchy
+   */
+  protected createHierarchy(hierarchyDef: HierarchyDef): Hierarchy {
+    const name = hierarchyDef.name();
+    switch (hierarchyDef.type()) {
+      case HierarchyType.ENTITY_LIST:
+        return new EntityListHierarchyImpl(this, name);
+      case HierarchyType.ENTITY_SET:
+        return new EntitySetHierarchyImpl(this, name);
+      case HierarchyType.ENTITY_DIR:
+        return new EntityDirectoryHierarchyImpl(this, name);
+      case HierarchyType.ENTITY_TREE:
+        return new EntityTreeHierarchyImpl(this, name);
+      case HierarchyType.ASPECT_MAP:
+        throw new Error(`Aspect map '${name}' must be created from its AspectDef.`);
+    }
+  }
+
+  /**
+   * Removes every hierarchy and AspectDef from this catalog and clears its
+   * URI, without recording the changes, so that a subclass can reload its
+   * contents from storage.
+   */
+  protected resetContents(): void {
+    this._hierarchies.clear();
+    this._aspectage.clear();
+    this._uri = null;
+  }
+
+  /**
+   * Starts recording the changes made to this catalog and its hierarchies and
+   * aspects, so that they can be saved incrementally. Changes made before this
+   * is called are not recorded.
+   *
+   * @returns the ChangeTracker of this catalog
+   */
+  trackChanges(): ChangeTracker {
+    return ChangeTracker.attach(this);
+  }
+
+  /**
+   * Returns the ChangeTracker of this catalog, or null if it does not track changes.
+   */
+  changeTracker(): ChangeTracker | null {
+    return ChangeTracker.of(this);
+  }
+
+  /**
+   * Throws unless the CatalogDef of this strict catalog declares a hierarchy:
+   * aspect maps must have a declared AspectDef, and other hierarchies a
+   * HierarchyDef of the same name. Either way, a HierarchyDef of the same name
+   * must have the type of the hierarchy.
+   */
+  private checkDeclared(hierarchy: Hierarchy): void {
+    const hName = hierarchy.name();
+    const hDef = this._catalogDef.hierarchyDef(hName);
+    if (hierarchy instanceof AspectMapHierarchyImpl) {
+      this.checkDeclaredAspectDef(hierarchy.aspectDef());
+    } else if (hDef === null) {
+      throw new Error(`Hierarchy '${hName}' is not defined in the CatalogDef of this strict catalog.`);
+    }
+    if (hDef !== null && hDef.type() !== hierarchy.type()) {
+      throw new Error(
+        `Hierarchy '${hName}' has type ${hierarchy.type()}, but the CatalogDef of this catalog defines it as ${hDef.type()}.`,
+      );
+    }
+  }
+
+  private checkDeclaredAspectDef(aspectDef: AspectDef): void {
+    const declared = this._catalogDef.aspectDef(aspectDef.name());
+    if (declared === null) {
+      throw new Error(`AspectDef '${aspectDef.name()}' is not defined in the CatalogDef of this strict catalog.`);
+    }
+    // fullyEquals() only checks the properties of the receiver, so compare both ways
+    if (declared !== aspectDef && !(declared.fullyEquals(aspectDef) && aspectDef.fullyEquals(declared))) {
+      throw new Error(
+        `AspectDef '${aspectDef.name()}' is not identical to the AspectDef of the same name in the CatalogDef of this strict catalog.`,
+      );
+    }
+  }
 }
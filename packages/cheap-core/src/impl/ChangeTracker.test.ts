@@ -0,0 +1,186 @@
+/**
+ * Unit tests for ChangeTracker
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { PropertyDef } from "../interfaces/index.js";
+import { ChangeType, PropertyType } from "../types.js";
+import { AspectObjectMapImpl } from "./AspectImpl.js";
+import { FullAspectDefImpl } from "./AspectDefImpl.js";
+import { CatalogImpl } from "./CatalogImpl.js";
+import { ChangeTracker } from "./ChangeTracker.js";
+import { EntityImpl } from "./EntityImpl.js";
+import {
+  AspectMapHierarchyImpl,
+  EntityDirectoryHierarchyImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+} from "./HierarchyImpl.js";
+import { PropertyDefImpl } from "./PropertyImpl.js";
+
+function personDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  propDefs.set("name", new PropertyDefImpl("name", PropertyType.String));
+  propDefs.set("age", new PropertyDefImpl("age", PropertyType.Integer));
+  return new FullAspectDefImpl("person", crypto.randomUUID(), propDefs, true, true, false, false);
+}
+
+describe("ChangeTracker", () => {
+  let catalog: CatalogImpl;
+  let people: AspectMapHierarchyImpl;
+  let alice: AspectObjectMapImpl;
+  let tracker: ChangeTracker;
+
+  beforeEach(() => {
+    catalog = new CatalogImpl();
+    people = new AspectMapHierarchyImpl(catalog, personDef());
+    alice = new AspectObjectMapImpl(new EntityImpl(), people.aspectDef());
+    alice.write("name", "Alice");
+    people.add(alice);
+    tracker = catalog.trackChanges();
+  });
+
+  it("should only track catalogs that asked for it", () => {
+    expect(ChangeTracker.of(new CatalogImpl())).toBeNull();
+    expect(catalog.changeTracker()).toBe(tracker);
+    expect(catalog.trackChanges()).toBe(tracker);
+    expect(tracker.isEmpty()).toBe(true);
+  });
+
+  it("should record catalog metadata and added hierarchies", () => {
+    catalog.setUri(new URL("https://example.com/catalog"));
+    new EntitySetHierarchyImpl(catalog, "set");
+    new EntitySetHierarchyImpl(catalog, "set");
+
+    expect(tracker.isCatalogChanged()).toBe(true);
+    expect(tracker.hierarchyChanges().get("set")).toBe(ChangeType.ADDED);
+
+    tracker.clear();
+    new EntitySetHierarchyImpl(catalog, "set");
+    expect(tracker.hierarchyChanges().get("set")).toBe(ChangeType.CHANGED);
+    expect(tracker.isCatalogChanged()).toBe(false);
+  });
+
+  it("should record added, replaced and removed aspects", () => {
+    const bob = new AspectObjectMapImpl(new EntityImpl(), people.aspectDef());
+    people.add(bob);
+    people.add(new AspectObjectMapImpl(alice.entity(), people.aspectDef()));
+
+    expect(tracker.aspectChange("person", bob.entity().globalId())).toMatchObject({
+      type: ChangeType.ADDED,
+      aspect: bob,
+    });
+    expect(tracker.aspectChange("person", alice.entity().globalId())).toMatchObject({
+      type: ChangeType.CHANGED,
+      properties: null,
+    });
+
+    people.delete(bob.entity());
+    people.delete(alice.entity());
+    expect(tracker.aspectChanges("person")).toEqual([
+      { type: ChangeType.REMOVED, entityId: alice.entity().globalId(), aspect: null, properties: null },
+    ]);
+    expect(tracker.changedHierarchyNames()).toEqual(["person"]);
+  });
+
+  it("should record the properties written on contained aspects", () => {
+    alice.write("age", 30);
+    alice.write("name", "Alicia");
+
+    const change = tracker.aspectChange("person", alice.entity().globalId())!;
+    expect(change.type).toBe(ChangeType.CHANGED);
+    expect(Array.from(change.properties!)).toEqual(["age", "name"]);
+
+    people.delete(alice.entity());
+    tracker.clear();
+    alice.write("age", 31);
+    expect(tracker.isEmpty()).toBe(true);
+  });
+
+  it("should watch aspects passed to the constructor", () => {
+    const other = new CatalogImpl();
+    const bob = new AspectObjectMapImpl(new EntityImpl(), people.aspectDef());
+    const map = new AspectMapHierarchyImpl(other, people.aspectDef(), [[bob.entity(), bob]]);
+    const otherTracker = other.trackChanges();
+
+    bob.write("age", 40);
+
+    expect(map.get(bob.entity())).toBe(bob);
+    expect(otherTracker.aspectChange("person", bob.entity().globalId())?.properties).toEqual(new Set(["age"]));
+  });
+
+  it("should record set and directory entries", () => {
+    const set = new EntitySetHierarchyImpl(catalog, "set");
+    const dir = new EntityDirectoryHierarchyImpl(catalog, "dir");
+    tracker.clear();
+    const e1 = new EntityImpl();
+    const e2 = new EntityImpl();
+
+    set.add(e1).add(e1).add(e2);
+    set.delete(e2);
+    dir.set("a", e1);
+    dir.set("a", e1);
+    tracker.clear();
+    dir.set("a", e2);
+    dir.set("b", e2);
+    dir.delete("b");
+    set.clear();
+
+    expect(tracker.entryChanges("dir")).toEqual([{ type: ChangeType.CHANGED, key: "a", entity: e2 }]);
+    expect(tracker.entryChanges("set")).toEqual([{ type: ChangeType.REMOVED, key: e1.globalId(), entity: null }]);
+  });
+
+  it("should record lists and trees as changed hierarchies", () => {
+    const list = new EntityListHierarchyImpl(catalog, "list");
+    const root = new EntityTreeNodeImpl(null);
+    const tree = new EntityTreeHierarchyImpl(catalog, "tree", root);
+    const child = new EntityTreeNodeImpl(new EntityImpl(), root);
+    root.set("child", child);
+    tracker.clear();
+
+    list.push(new EntityImpl());
+    child.setValue(new EntityImpl());
+    expect(tracker.hierarchyChanges()).toEqual(
+      new Map([
+        ["list", ChangeType.CHANGED],
+        ["tree", ChangeType.CHANGED],
+      ]),
+    );
+
+    tracker.clear();
+    tree.setRoot(new EntityTreeNodeImpl(null));
+    expect(tracker.hierarchyChanges().get("tree")).toBe(ChangeType.CHANGED);
+    expect(list.map((e) => e.globalId())).toBeInstanceOf(Array);
+  });
+
+  it("should record splices of lists, whose derived arrays are plain arrays", () => {
+    const e1 = new EntityImpl();
+    const e2 = new EntityImpl();
+    const list = new EntityListHierarchyImpl(catalog, "list");
+    list.push(e1, e2);
+    tracker.clear();
+
+    const removed = list.splice(0, 1);
+    expect(removed).toEqual([e1]);
+    expect(removed).not.toBeInstanceOf(EntityListHierarchyImpl);
+    expect(Array.from(list)).toEqual([e2]);
+    expect(tracker.hierarchyChanges().get("list")).toBe(ChangeType.CHANGED);
+
+    tracker.clear();
+    expect(list.filter((e) => e === e2)).toEqual([e2]);
+    expect(list.map((e) => e.globalId())).toEqual([e2.globalId()]);
+    expect(tracker.isEmpty()).toBe(true);
+  });
+
+  it("should let hierarchy-level changes supersede finer ones", () => {
+    alice.write("age", 30);
+    tracker.hierarchyChanged("person");
+    alice.write("age", 31);
+    people.delete(alice.entity());
+
+    expect(tracker.aspectChanges("person")).toEqual([]);
+    expect(tracker.hierarchyChanges().get("person")).toBe(ChangeType.CHANGED);
+  });
+});
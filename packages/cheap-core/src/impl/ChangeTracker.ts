@@ -0,0 +1,333 @@
+/**
+ * ChangeTracker implementation
+ */
+
+import { Aspect } from "../interfaces/Aspect.js";
+import { Catalog } from "../interfaces/Catalog.js";
+import { Entity } from "../interfaces/Entity.js";
+import { ChangeType } from "../types.js";
+
+/**
+ * A recorded change to the aspect of one entity in an AspectMapHierarchy.
+ */
+export interface AspectChange {
+  /** The kind of change. */
+  readonly type: ChangeType;
+
+  /** The global ID of the entity whose aspect changed. */
+  readonly entityId: string;
+
+  /** The current aspect, or null if it was removed. */
+  readonly aspect: Aspect | null;
+
+  /**
+   * For CHANGED aspects, the names of the properties that were written, added
+   * or removed; null if the aspect was replaced and every property may differ.
+   * Always null for ADDED and REMOVED aspects.
+   */
+  readonly properties: ReadonlySet<string> | null;
+}
+
+/**
+ * A recorded change to one entry of an EntitySetHierarchy or
+ * EntityDirectoryHierarchy.
+ */
+export interface EntryChange {
+  /** The kind of change. */
+  readonly type: ChangeType;
+
+  /** The key of the entry: the entity's global ID in a set, or the directory key. */
+  readonly key: string;
+
+  /** The entity of the entry, or null if the entry was removed. */
+  readonly entity: Entity | null;
+}
+
+interface MutableAspectChange {
+  type: ChangeType;
+  entityId: string;
+  aspect: Aspect | null;
+  properties: Set<string> | null;
+}
+
+/** The tracker of each catalog that tracks its changes. */
+const TRACKERS = new WeakMap<Catalog, ChangeTracker>();
+
+/**
+ * Records the changes made to a catalog's contents since they were last saved,
+ * so that a persistent catalog can write only what changed.
+ *
+ * Changes are recorded at the finest grain each hierarchy type supports:
+ * - AspectMap hierarchies record added, replaced and removed aspects, and the
+ *   names of properties written on aspects they contain.
+ * - EntitySet and EntityDirectory hierarchies record added, replaced and
+ *   removed entries.
+ * - EntityList and EntityTree hierarchies record that the hierarchy changed;
+ *   their entries are positional, so they are saved as a whole. Assigning a
+ *   list element by index cannot be observed; call hierarchyChanged() after
+ *   doing so.
+ *
+ * Added and replaced hierarchies are recorded at the hierarchy level, which
+ * supersedes any finer records for them.
+ *
+ * Successive changes to the same item are coalesced: an aspect added and then
+ * removed leaves no record, and one removed and then added again is recorded
+ * as CHANGED.
+ *
+ * A catalog starts tracking its changes with CatalogImpl.trackChanges(); its
+ * hierarchies find the tracker with ChangeTracker.of().
+ */
+export class ChangeTracker {
+  private _catalogChanged = false;
+  private readonly _hierarchies = new Map<string, ChangeType>();
+  private readonly _aspects = new Map<string, Map<string, MutableAspectChange>>();
+  private readonly _entries = new Map<string, Map<string, EntryChange>>();
+
+  /**
+   * Returns the tracker of a catalog, or null if it does not track changes.
+   *
+   * @param catalog the catalog
+   */
+  static of(catalog: Catalog): ChangeTracker | null {
+    return TRACKERS.get(catalog) ?? null;
+  }
+
+  /**
+   * Starts tracking the changes of a catalog, if it is not tracked yet.
+   *
+   * @param catalog the catalog
+   * @returns the tracker of the catalog
+   */
+  static attach(catalog: Catalog): ChangeTracker {
+    let tracker = TRACKERS.get(catalog);
+    if (!tracker) {
+      tracker = new ChangeTracker();
+      TRACKERS.set(catalog, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Returns whether no changes have been recorded.
+   */
+  isEmpty(): boolean {
+    return (
+      !this._catalogChanged && this._hierarchies.size === 0 && this._aspects.size === 0 && this._entries.size === 0
+    );
+  }
+
+  /**
+   * Returns whether the catalog's own metadata, such as its URI, changed.
+   */
+  isCatalogChanged(): boolean {
+    return this._catalogChanged;
+  }
+
+  /**
+   * Returns the hierarchies that were added or changed as a whole, by name.
+   */
+  hierarchyChanges(): ReadonlyMap<string, ChangeType> {
+    return this._hierarchies;
+  }
+
+  /**
+   * Returns the names of all hierarchies with recorded changes of any grain.
+   */
+  changedHierarchyNames(): string[] {
+    return Array.from(new Set([...this._hierarchies.keys(), ...this._aspects.keys(), ...this._entries.keys()]));
+  }
+
+  /**
+   * Returns the recorded aspect changes of an AspectMap hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   */
+  aspectChanges(hierarchyName: string): AspectChange[] {
+    return Array.from(this._aspects.get(hierarchyName)?.values() ?? []);
+  }
+
+  /**
+   * Returns the recorded change to one entity's aspect in an AspectMap hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param entityId the global ID of the entity
+   * @returns the change, or null if none is recorded
+   */
+  aspectChange(hierarchyName: string, entityId: string): AspectChange | null {
+    return this._aspects.get(hierarchyName)?.get(entityId) ?? null;
+  }
+
+  /**
+   * Returns the recorded entry changes of an EntitySet or EntityDirectory hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   */
+  entryChanges(hierarchyName: string): EntryChange[] {
+    return Array.from(this._entries.get(hierarchyName)?.values() ?? []);
+  }
+
+  /**
+   * Forgets all recorded changes; call this once they have been saved.
+   */
+  clear(): void {
+    this._catalogChanged = false;
+    this._hierarchies.clear();
+    this._aspects.clear();
+    this._entries.clear();
+  }
+
+  /**
+   * Records that the catalog's own metadata changed.
+   */
+  catalogChanged(): void {
+    this._catalogChanged = true;
+  }
+
+  /**
+   * Records that a hierarchy was added to the catalog.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param replaced whether it replaced a hierarchy with the same name
+   */
+  hierarchyAdded(hierarchyName: string, replaced: boolean): void {
+    const previous = this._hierarchies.get(hierarchyName);
+    this._hierarchies.set(
+      hierarchyName,
+      previous === ChangeType.ADDED || (previous === undefined && !replaced) ? ChangeType.ADDED : ChangeType.CHANGED,
+    );
+    this._aspects.delete(hierarchyName);
+    this._entries.delete(hierarchyName);
+  }
+
+  /**
+   * Records that a hierarchy changed in a way that requires saving it as a whole.
+   *
+   * @param hierarchyName the name of the hierarchy
+   */
+  hierarchyChanged(hierarchyName: string): void {
+    if (!this._hierarchies.has(hierarchyName)) {
+      this._hierarchies.set(hierarchyName, ChangeType.CHANGED);
+    }
+    this._aspects.delete(hierarchyName);
+    this._entries.delete(hierarchyName);
+  }
+
+  /**
+   * Records that an aspect was put in an AspectMap hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param entityId the global ID of the entity
+   * @param aspect the aspect
+   * @param replaced whether it replaced another aspect of the same entity
+   */
+  aspectAdded(hierarchyName: string, entityId: string, aspect: Aspect, replaced: boolean): void {
+    if (this._hierarchies.has(hierarchyName)) {
+      return;
+    }
+    const changes = this.aspectsOf(hierarchyName);
+    const previous = changes.get(entityId);
+    const type =
+      previous?.type === ChangeType.ADDED || (previous === undefined && !replaced) ?
+        ChangeType.ADDED
+      : ChangeType.CHANGED;
+    changes.set(entityId, { type, entityId, aspect, properties: null });
+  }
+
+  /**
+   * Records that an entity's aspect was removed from an AspectMap hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param entityId the global ID of the entity
+   */
+  aspectRemoved(hierarchyName: string, entityId: string): void {
+    if (this._hierarchies.has(hierarchyName)) {
+      return;
+    }
+    const changes = this.aspectsOf(hierarchyName);
+    if (changes.get(entityId)?.type === ChangeType.ADDED) {
+      changes.delete(entityId);
+    } else {
+      changes.set(entityId, { type: ChangeType.REMOVED, entityId, aspect: null, properties: null });
+    }
+  }
+
+  /**
+   * Records that a property of an aspect in an AspectMap hierarchy was
+   * written, added or removed.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param aspect the aspect
+   * @param propName the name of the property
+   */
+  propertyChanged(hierarchyName: string, aspect: Aspect, propName: string): void {
+    if (this._hierarchies.has(hierarchyName)) {
+      return;
+    }
+    const entityId = aspect.entity().globalId();
+    const changes = this.aspectsOf(hierarchyName);
+    const previous = changes.get(entityId);
+    if (previous === undefined) {
+      changes.set(entityId, { type: ChangeType.CHANGED, entityId, aspect, properties: new Set([propName]) });
+    } else if (previous.type !== ChangeType.REMOVED) {
+      previous.aspect = aspect;
+      previous.properties?.add(propName);
+    }
+  }
+
+  /**
+   * Records that an entry was put in an EntitySet or EntityDirectory hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param key the entity's global ID in a set, or the directory key
+   * @param entity the entity of the entry
+   * @param replaced whether it replaced an entry with the same key
+   */
+  entryAdded(hierarchyName: string, key: string, entity: Entity, replaced: boolean): void {
+    if (this._hierarchies.has(hierarchyName)) {
+      return;
+    }
+    const changes = this.entriesOf(hierarchyName);
+    const previous = changes.get(key);
+    const type =
+      previous?.type === ChangeType.ADDED || (previous === undefined && !replaced) ?
+        ChangeType.ADDED
+      : ChangeType.CHANGED;
+    changes.set(key, { type, key, entity });
+  }
+
+  /**
+   * Records that an entry was removed from an EntitySet or EntityDirectory hierarchy.
+   *
+   * @param hierarchyName the name of the hierarchy
+   * @param key the entity's global ID in a set, or the directory key
+   */
+  entryRemoved(hierarchyName: string, key: string): void {
+    if (this._hierarchies.has(hierarchyName)) {
+      return;
+    }
+    const changes = this.entriesOf(hierarchyName);
+    if (changes.get(key)?.type === ChangeType.ADDED) {
+      changes.delete(key);
+    } else {
+      changes.set(key, { type: ChangeType.REMOVED, key, entity: null });
+    }
+  }
+
+  private aspectsOf(hierarchyName: string): Map<string, MutableAspectChange> {
+    let changes = this._aspects.get(hierarchyName);
+    if (!changes) {
+      changes = new Map();
+      this._aspects.set(hierarchyName, changes);
+    }
+    return changes;
+  }
+
+  private entriesOf(hierarchyName: string): Map<string, EntryChange> {
+    let changes = this._entries.get(hierarchyName);
+    if (!changes) {
+      changes = new Map();
+      this._entries.set(hierarchyName, changes);
+    }
+    return changes;
+  }
+}
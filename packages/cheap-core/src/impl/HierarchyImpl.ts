@@ -14,6 +14,25 @@ import { Entity } from "../interfaces/Entity.js";
 import { Aspect, AspectDef } from "../interfaces/Aspect.js";
 import { Catalog } from "../interfaces/Catalog.js";
 import { HierarchyType } from "../types.js";
+import { AspectBaseImpl, AspectChangeListener } from "./AspectImpl.js";
+import { ChangeTracker } from "./ChangeTracker.js";
+
+/** The tree owning each root node, so changes anywhere in a tree can be traced to it. */
+const TREE_OF_ROOT = new WeakMap<EntityTreeNode, EntityTreeHierarchy>();
+
+/**
+ * Records with the catalog's ChangeTracker that the tree containing a node changed.
+ */
+function treeNodeChanged(node: EntityTreeNode): void {
+  let root = node;
+  for (let parent = root.getParent(); parent !== null; parent = parent.getParent()) {
+    root = parent;
+  }
+  const tree = TREE_OF_ROOT.get(root);
+  if (tree) {
+    ChangeTracker.of(tree.catalog())?.hierarchyChanged(tree.name());
+  }
+}
 
 /**
  * Basic implementation of an EntityListHierarchy using an Array.
@@ -93,6 +112,14 @@ export class EntityListHierarchyImpl extends Array<Entity> implements EntityList
     catalog.addHierarchy(this);
   }
 
+  /**
+   * Derived arrays, such as the results of map() and filter(), are plain arrays
+   * rather than new hierarchies.
+   */
+  static get [Symbol.species](): ArrayConstructor {
+    return Array;
+  }
+
   /**
    * Returns the Catalog that owns this hierarchy.
    */
@@ -120,6 +147,61 @@ export class EntityListHierarchyImpl extends Array<Entity> implements EntityList
   version(): number {
     return this._version;
   }
+
+  // Mutators record that the list changed. Assigning an element by index cannot be observed.
+
+  override push(...items: Entity[]): number {
+    this.changed();
+    return super.push(...items);
+  }
+
+  override pop(): Entity | undefined {
+    this.changed();
+    return super.pop();
+  }
+
+  override shift(): Entity | undefined {
+    this.changed();
+    return super.shift();
+  }
+
+  override unshift(...items: Entity[]): number {
+    this.changed();
+    return super.unshift(...items);
+  }
+
+  override splice(start: number, deleteCount?: number, ...items: Entity[]): Entity[] {
+    this.changed();
+    // An explicit undefined deleteCount would remove nothing
+    return deleteCount === undefined ? super.splice(start) : super.splice(start, deleteCount, ...items);
+  }
+
+  override sort(compareFn?: (a: Entity, b: Entity) => number): this {
+    this.changed();
+    return super.sort(compareFn);
+  }
+
+  override reverse(): Entity[] {
+    this.changed();
+    return super.reverse();
+  }
+
+  override fill(value: Entity, start?: number, end?: number): this {
+    this.changed();
+    return super.fill(value, start, end);
+  }
+
+  override copyWithin(target: number, start: number, end?: number): this {
+    this.changed();
+    return super.copyWithin(target, start, end);
+  }
+
+  private changed(): void {
+    // Fields are not yet assigned while the Array constructor runs
+    if (this._catalog) {
+      ChangeTracker.of(this._catalog)?.hierarchyChanged(this._name);
+    }
+  }
 }
 
 /**
@@ -215,6 +297,37 @@ export class EntitySetHierarchyImpl extends Set<Entity> implements EntitySetHier
   version(): number {
     return this._version;
   }
+
+  override add(entity: Entity): this {
+    if (!super.has(entity)) {
+      super.add(entity);
+      this.changeTracker()?.entryAdded(this._name, entity.globalId(), entity, false);
+    }
+    return this;
+  }
+
+  override delete(entity: Entity): boolean {
+    const deleted = super.delete(entity);
+    if (deleted) {
+      this.changeTracker()?.entryRemoved(this._name, entity.globalId());
+    }
+    return deleted;
+  }
+
+  override clear(): void {
+    const tracker = this.changeTracker();
+    if (tracker) {
+      for (const entity of this) {
+        tracker.entryRemoved(this._name, entity.globalId());
+      }
+    }
+    super.clear();
+  }
+
+  private changeTracker(): ChangeTracker | null {
+    // Fields are not yet assigned while the Set constructor adds the initial entities
+    return this._catalog ? ChangeTracker.of(this._catalog) : null;
+  }
 }
 
 /**
@@ -315,6 +428,38 @@ export class EntityDirectoryHierarchyImpl extends Map<string, Entity> implements
   version(): number {
     return this._version;
   }
+
+  override set(key: string, entity: Entity): this {
+    const replaced = super.has(key);
+    if (!replaced || super.get(key) !== entity) {
+      super.set(key, entity);
+      this.changeTracker()?.entryAdded(this._name, key, entity, replaced);
+    }
+    return this;
+  }
+
+  override delete(key: string): boolean {
+    const deleted = super.delete(key);
+    if (deleted) {
+      this.changeTracker()?.entryRemoved(this._name, key);
+    }
+    return deleted;
+  }
+
+  override clear(): void {
+    const tracker = this.changeTracker();
+    if (tracker) {
+      for (const key of this.keys()) {
+        tracker.entryRemoved(this._name, key);
+      }
+    }
+    super.clear();
+  }
+
+  private changeTracker(): ChangeTracker | null {
+    // Fields are not yet assigned while the Map constructor adds the initial entries
+    return this._catalog ? ChangeTracker.of(this._catalog) : null;
+  }
 }
 
 /**
@@ -373,6 +518,28 @@ export class EntityTreeNodeImpl extends Map<string, EntityTreeNode> implements E
    */
   setValue(entity: Entity | null): void {
     this._value = entity;
+    treeNodeChanged(this);
+  }
+
+  override set(key: string, node: EntityTreeNode): this {
+    super.set(key, node);
+    treeNodeChanged(this);
+    return this;
+  }
+
+  override delete(key: string): boolean {
+    const deleted = super.delete(key);
+    if (deleted) {
+      treeNodeChanged(this);
+    }
+    return deleted;
+  }
+
+  override clear(): void {
+    if (this.size > 0) {
+      super.clear();
+      treeNodeChanged(this);
+    }
   }
 }
 
@@ -430,6 +597,7 @@ export class EntityTreeLeafNodeImpl implements EntityTreeNode {
    */
   setValue(entity: Entity | null): void {
     this._value = entity;
+    treeNodeChanged(this);
   }
 
   // Map interface implementation for leaf nodes (empty)
@@ -533,6 +701,7 @@ export class EntityTreeHierarchyImpl implements EntityTreeHierarchy {
     } else {
       this._root = new EntityTreeNodeImpl(rootEntityOrNode);
     }
+    TREE_OF_ROOT.set(this._root, this);
 
     catalog.addHierarchy(this);
   }
@@ -578,7 +747,10 @@ export class EntityTreeHierarchyImpl implements EntityTreeHierarchy {
    * @param newRoot the new root
    */
   setRoot(newRoot: EntityTreeNode): void {
+    TREE_OF_ROOT.delete(this._root);
     this._root = newRoot;
+    TREE_OF_ROOT.set(newRoot, this);
+    ChangeTracker.of(this._catalog)?.hierarchyChanged(this._name);
   }
 }
 
@@ -599,6 +771,11 @@ export class AspectMapHierarchyImpl extends Map<Entity, Aspect> implements Aspec
   /** The version number of this hierarchy. */
   private readonly _version: number;
 
+  /** Records property changes of contained aspects with the catalog's ChangeTracker. */
+  private readonly _aspectListener: AspectChangeListener = (aspect, propName) => {
+    this.changeTracker()?.propertyChanged(this._name, aspect, propName);
+  };
+
   /**
    * Creates a new AspectMapHierarchyImpl to contain the given AspectDef.
    * A new HierarchyDef will be constructed.
@@ -645,12 +822,15 @@ export class AspectMapHierarchyImpl extends Map<Entity, Aspect> implements Aspec
     version?: number,
   ) {
     if (versionOrEntries !== undefined && typeof versionOrEntries === "object") {
-      // Iterable of entries provided
-      super(versionOrEntries);
+      // Iterable of entries provided; they are added after the fields are assigned, so set() can watch them
+      super();
       this._catalog = catalog;
       this._aspectDef = aspectDef;
       this._name = aspectDef.name();
       this._version = version ?? 0;
+      for (const [entity, aspect] of versionOrEntries) {
+        this.set(entity, aspect);
+      }
     } else {
       // No entries or just version
       super();
@@ -719,4 +899,64 @@ export class AspectMapHierarchyImpl extends Map<Entity, Aspect> implements Aspec
     this.set(entity, a);
     return previous ?? null;
   }
+
+  override set(entity: Entity, aspect: Aspect): this {
+    const replaced = super.has(entity);
+    const previous = super.get(entity);
+    if (!replaced || previous !== aspect) {
+      super.set(entity, aspect);
+      if (previous) {
+        this.unwatchAspect(previous);
+      }
+      this.watchAspect(aspect);
+      this.changeTracker()?.aspectAdded(this._name, entity.globalId(), aspect, replaced);
+    }
+    return this;
+  }
+
+  override delete(entity: Entity): boolean {
+    const previous = super.get(entity);
+    const deleted = super.delete(entity);
+    if (deleted) {
+      if (previous) {
+        this.unwatchAspect(previous);
+      }
+      this.changeTracker()?.aspectRemoved(this._name, entity.globalId());
+    }
+    return deleted;
+  }
+
+  override clear(): void {
+    const tracker = this.changeTracker();
+    for (const [entity, aspect] of super.entries()) {
+      this.unwatchAspect(aspect);
+      tracker?.aspectRemoved(this._name, entity.globalId());
+    }
+    super.clear();
+  }
+
+  /**
+   * Returns the ChangeTracker of the catalog, or null if it does not track changes.
+   */
+  protected changeTracker(): ChangeTracker | null {
+    return ChangeTracker.of(this._catalog);
+  }
+
+  /**
+   * Starts recording the property changes of an aspect added to this hierarchy.
+   */
+  protected watchAspect(aspect: Aspect): void {
+    if (aspect instanceof AspectBaseImpl) {
+      aspect.addChangeListener(this._aspectListener);
+    }
+  }
+
+  /**
+   * Stops recording the property changes of an aspect removed from this hierarchy.
+   */
+  protected unwatchAspect(aspect: Aspect): void {
+    if (aspect instanceof AspectBaseImpl) {
+      aspect.removeChangeListener(this._aspectListener);
+    }
+  }
 }
@@ -11,3 +11,4 @@ export * from "./EntityImpl.js";
 export * from "./HierarchyImpl.js";
 export * from "./HierarchyDefImpl.js";
 export * from "./CatalogImpl.js";
+export * from "./ChangeTracker.js";
@@ -83,6 +83,22 @@ export interface Catalog extends Entity {
    */
   species(): CatalogSpecies;
 
+  /**
+   * Returns the definition of this catalog. A catalog created without one has
+   * a CatalogDef that describes whatever it currently contains.
+   *
+   * @returns the CatalogDef of this catalog, never null
+   */
+  catalogDef(): CatalogDef;
+
+  /**
+   * Returns true if this catalog is strict, meaning that it may only contain
+   * the hierarchies and AspectDefs of its CatalogDef.
+   *
+   * @returns true if this catalog is strict
+   */
+  isStrict(): boolean;
+
   /**
    * The URI of this catalog. Usually a URL, but need not be.
    * Cheap is not concerned with network layers, only modeling.
@@ -129,6 +145,8 @@ export interface Catalog extends Entity {
    *
    * @param hierarchy the hierarchy to add
    * @returns the existing hierarchy that was replaced, or null
+   * @throws Error if we are strict and the hierarchy is not in our CatalogDef,
+   *   or its type differs from the one there
    */
   addHierarchy(hierarchy: Hierarchy): Hierarchy | null;
 
@@ -173,7 +191,8 @@ export interface Catalog extends Entity {
    * thrown. Otherwise, a new, empty AspectMapHierarchy is added to this catalog.
    *
    * @param aspectDef the type of aspect to add
-   * @throws Error if we are strict and the AspectDef is not in our CatalogDef
+   * @throws Error if we are strict and the AspectDef is not in our CatalogDef,
+   *   or differs from the one there
    * @returns the new or existing AspectMapHierarchy
    */
   extend(aspectDef: AspectDef): AspectMapHierarchy;
@@ -302,3 +302,24 @@ export enum LocalEntityType {
    */
   CACHING_MULTI_CATALOG = "CACHING_MULTI_CATALOG",
 }
+
+/**
+ * Kinds of change recorded by a ChangeTracker for catalog contents that have
+ * not yet been saved.
+ */
+export enum ChangeType {
+  /**
+   * The item is new since the last save.
+   */
+  ADDED = "ADDED",
+
+  /**
+   * The item existed at the last save and has been modified or replaced.
+   */
+  CHANGED = "CHANGED",
+
+  /**
+   * The item existed at the last save and has been removed.
+   */
+  REMOVED = "REMOVED",
+}
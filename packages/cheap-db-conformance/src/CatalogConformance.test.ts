@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the conformance suite and catalog contents snapshots
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { Catalog, CatalogImpl, CatalogSpecies, HierarchyType } from "@cheap-ts/core";
+import { catalogContents, comparableValue, contentsHash } from "./CatalogContents.js";
+import { ConformanceBackend, describeCatalogConformance } from "./CatalogConformance.js";
+import { CONFORMANCE_ENTITY_IDS, SCALARS, populateConformanceCatalog } from "./ConformanceFixtures.js";
+
+/**
+ * A backend that keeps saved catalogs in memory, so loading returns the very
+ * catalog that was saved. It checks that the fixtures hold together.
+ */
+function memoryBackend(): ConformanceBackend {
+  const saved = new Map<string, CatalogImpl>();
+  return {
+    createCatalog: async (globalId) => new CatalogImpl(globalId, CatalogSpecies.SINK, null, 0),
+    save: async (catalog) => {
+      saved.set(catalog.globalId(), catalog);
+    },
+    load: async (globalId): Promise<Catalog> => saved.get(globalId)!,
+    close: async () => saved.clear(),
+  };
+}
+
+describeCatalogConformance("In-memory", memoryBackend);
+
+describeCatalogConformance("In-memory with skipped values", memoryBackend, {
+  skippedValues: [
+    {
+      aspectMap: SCALARS,
+      entityId: CONFORMANCE_ENTITY_IDS[0],
+      property: "BLOB",
+      reason: "checks that skips hold together",
+    },
+  ],
+});
+
+describe("catalogContents", () => {
+  function populated(): CatalogImpl {
+    const catalog = new CatalogImpl("c2000000-0000-4000-8000-000000000002", CatalogSpecies.SINK, null, 0);
+    populateConformanceCatalog(catalog);
+    return catalog;
+  }
+
+  it("should list every hierarchy type in order", () => {
+    const contents = catalogContents(populated());
+
+    expect(contents.uri).toBe("https://example.com/catalogs/conformance");
+    expect(contents.hierarchies.map((h) => h.type)).toEqual([
+      HierarchyType.ASPECT_MAP,
+      HierarchyType.ASPECT_MAP,
+      HierarchyType.ENTITY_LIST,
+      HierarchyType.ENTITY_SET,
+      HierarchyType.ENTITY_DIR,
+      HierarchyType.ENTITY_TREE,
+    ]);
+  });
+
+  it("should tell catalogs with different contents apart", () => {
+    const original = populated();
+    const changed = populated();
+    const aspect = Array.from(changed.aspects(SCALARS)!.values())[1];
+    aspect.write("BigInteger", (aspect.readObj("BigInteger") as bigint) + 1n);
+
+    expect(catalogContents(populated())).toEqual(catalogContents(original));
+    expect(contentsHash(populated())).toBe(contentsHash(original));
+    expect(catalogContents(changed)).not.toEqual(catalogContents(original));
+    expect(contentsHash(changed)).not.toBe(contentsHash(original));
+  });
+
+  it("should convert values to comparable forms", () => {
+    expect(comparableValue(new Date("2025-06-01T12:00:00.123Z"))).toBe("2025-06-01T12:00:00.123Z");
+    expect(comparableValue(new URL("https://example.com"))).toBe("https://example.com/");
+    expect(comparableValue(Buffer.from([0, 255]))).toBe("00ff");
+    expect(comparableValue([new Uint8Array([16]), null])).toEqual(["10", null]);
+    expect(comparableValue(undefined)).toBeNull();
+    expect(comparableValue(12n)).toBe(12n);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * The catalog storage conformance suite
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { Catalog, CatalogImpl, HierarchyType, PropertyType } from "@cheap-ts/core";
+import { CatalogContents, catalogContents, contentsHash } from "./CatalogContents.js";
+import {
+  ALL_PROPERTY_TYPES,
+  CONFORMANCE_ENTITY_IDS,
+  MULTIVALUED,
+  SCALARS,
+  addEntityHierarchies,
+  addPropertyTypeAspects,
+  populateConformanceCatalog,
+} from "./ConformanceFixtures.js";
+
+/** The global ID of the catalogs the suite saves. */
+export const CONFORMANCE_CATALOG_ID = "c2000000-0000-4000-8000-000000000001";
+
+/** The JS type of the values of each PropertyType, by name; see jsType(). */
+const JS_TYPES: Record<string, string> = {
+  Integer: "number",
+  Float: "number",
+  Boolean: "boolean",
+  String: "string",
+  Text: "string",
+  BigInteger: "bigint",
+  BigDecimal: "string",
+  DateTime: "Date",
+  URI: "URL",
+  UUID: "string",
+  CLOB: "string",
+  BLOB: "Uint8Array",
+};
+
+/**
+ * A catalog storage backend under test. The suite creates a backend for each
+ * test, and closes it afterwards.
+ *
+ * @typeParam C the catalog class of the backend
+ */
+export interface ConformanceBackend<C extends CatalogImpl = CatalogImpl> {
+  /**
+   * Creates an empty catalog with the given global ID, ready to be filled and
+   * saved.
+   *
+   * @param globalId the global ID of the catalog
+   */
+  createCatalog(globalId: string): Promise<C>;
+
+  /**
+   * Saves a catalog made by createCatalog(), replacing whatever was stored
+   * for its global ID.
+   *
+   * @param catalog the catalog
+   */
+  save(catalog: C): Promise<void>;
+
+  /**
+   * Loads a saved catalog into a new catalog instance.
+   *
+   * @param globalId the global ID of the catalog
+   */
+  load(globalId: string): Promise<Catalog>;
+
+  /**
+   * Releases the storage and every catalog the backend made.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * A fixture value that a backend cannot store. The suite leaves it out of the
+ * catalogs it saves, and reports it as a skipped test, named with the reason.
+ */
+export interface SkippedValue {
+  /** The name of the aspect map holding the value: SCALARS or MULTIVALUED. */
+  readonly aspectMap: string;
+
+  /** The global ID of the entity whose aspect holds the value; see CONFORMANCE_ENTITY_IDS. */
+  readonly entityId: string;
+
+  /** The name of the property, which is the name of its PropertyType. */
+  readonly property: string;
+
+  /** Why the backend cannot store the value. */
+  readonly reason: string;
+}
+
+/**
+ * Options for the conformance suite of a backend.
+ */
+export interface ConformanceOptions {
+  /** The fixture values the backend cannot store; none by default. */
+  readonly skippedValues?: readonly SkippedValue[];
+}
+
+/**
+ * Registers the conformance suite for a catalog storage backend with Jest.
+ * Call it at the top level of a test file.
+ *
+ * The suite saves catalogs holding every PropertyType, in single-valued and
+ * multivalued properties, with nulls, huge BigIntegers and binary BLOBs, and
+ * all five hierarchy types, then loads them and compares the AspectDef hashes
+ * and catalogContents() of the loaded catalogs with the saved ones.
+ *
+ * Values the backend cannot store can be skipped one by one with
+ * options.skippedValues; everything else must still round-trip.
+ *
+ * @param name the name of the backend, used in the suite's name
+ * @param createBackend creates a backend with empty storage
+ * @param options the values to skip
+ */
+export function describeCatalogConformance<C extends CatalogImpl>(
+  name: string,
+  createBackend: () => ConformanceBackend<C> | Promise<ConformanceBackend<C>>,
+  options: ConformanceOptions = {},
+): void {
+  const skippedValues = options.skippedValues ?? [];
+
+  describe(`${name} catalog conformance`, () => {
+    let backend: ConformanceBackend<C>;
+
+    beforeEach(async () => {
+      backend = await createBackend();
+    });
+
+    afterEach(async () => {
+      await backend.close();
+    });
+
+    async function roundTrip(fill: (catalog: C) => void): Promise<[C, Catalog]> {
+      const catalog = await backend.createCatalog(CONFORMANCE_CATALOG_ID);
+      fill(catalog);
+      leaveOutSkippedValues(catalog, skippedValues);
+      await backend.save(catalog);
+      return [catalog, await backend.load(CONFORMANCE_CATALOG_ID)];
+    }
+
+    function hierarchy(contents: CatalogContents, name: string) {
+      return contents.hierarchies.find((h) => h.name === name);
+    }
+
+    it("should round-trip every PropertyType, including nulls", async () => {
+      const [saved, loaded] = await roundTrip((catalog) => addPropertyTypeAspects(catalog));
+
+      expect(hierarchy(catalogContents(loaded), SCALARS)).toEqual(hierarchy(catalogContents(saved), SCALARS));
+    });
+
+    it("should round-trip multivalued properties of every PropertyType", async () => {
+      const [saved, loaded] = await roundTrip((catalog) => addPropertyTypeAspects(catalog));
+
+      expect(hierarchy(catalogContents(loaded), MULTIVALUED)).toEqual(hierarchy(catalogContents(saved), MULTIVALUED));
+    });
+
+    it("should read values back with the JS types of their PropertyTypes", async () => {
+      const [, loaded] = await roundTrip((catalog) => addPropertyTypeAspects(catalog));
+      const aspects = loaded.aspects(SCALARS)!;
+      const typical = Array.from(aspects.values()).find((a) => a.entity().globalId() === CONFORMANCE_ENTITY_IDS[0])!;
+
+      const stored = ALL_PROPERTY_TYPES.map((type) => type.name()).filter((typeName) => typical.contains(typeName));
+      const jsTypes = stored.map((typeName) => [typeName, jsType(typical.readObj(typeName))]);
+      expect(Object.fromEntries(jsTypes)).toEqual(
+        Object.fromEntries(stored.map((typeName) => [typeName, JS_TYPES[typeName]])),
+      );
+    });
+
+    it("should round-trip all five hierarchy types", async () => {
+      const [saved, loaded] = await roundTrip((catalog) => populateConformanceCatalog(catalog));
+
+      expect(new Set(Array.from(loaded.hierarchies(), (h) => h.type()))).toEqual(new Set(Object.values(HierarchyType)));
+      expect(catalogContents(loaded)).toEqual(catalogContents(saved));
+    });
+
+    it("should keep the hashes of AspectDefs and contents", async () => {
+      const [saved, loaded] = await roundTrip((catalog) => populateConformanceCatalog(catalog));
+
+      for (const aspectDef of saved.aspectDefs()) {
+        expect(loaded.aspects(aspectDef.name())?.aspectDef().hash()).toBe(aspectDef.hash());
+      }
+      expect(contentsHash(loaded)).toBe(contentsHash(saved));
+    });
+
+    it("should replace the stored contents when saved again", async () => {
+      const catalog = await backend.createCatalog(CONFORMANCE_CATALOG_ID);
+      addPropertyTypeAspects(catalog);
+      leaveOutSkippedValues(catalog, skippedValues);
+      await backend.save(catalog);
+      const scalars = catalog.aspects(SCALARS)!;
+      const [first, second] = Array.from(scalars.keys());
+      scalars.get(first)!.write(PropertyType.String.name(), "changed");
+      scalars.delete(second);
+      addEntityHierarchies(catalog);
+      await backend.save(catalog);
+
+      const loaded = await backend.load(CONFORMANCE_CATALOG_ID);
+      expect(catalogContents(loaded)).toEqual(catalogContents(catalog));
+      expect(contentsHash(loaded)).toBe(contentsHash(catalog));
+    });
+
+    for (const skipped of skippedValues) {
+      it.skip(`should round-trip ${skipped.property} in ${skipped.aspectMap} of ${skipped.entityId}: ${skipped.reason}`, () => {
+        // Left out of the saved catalogs
+      });
+    }
+  });
+}
+
+/**
+ * Removes the skipped values from the aspects of a filled catalog.
+ */
+function leaveOutSkippedValues(catalog: Catalog, skippedValues: readonly SkippedValue[]): void {
+  for (const skipped of skippedValues) {
+    const aspects = catalog.aspects(skipped.aspectMap);
+    const aspect = aspects && Array.from(aspects.values()).find((a) => a.entity().globalId() === skipped.entityId);
+    aspect?.unsafeRemove(skipped.property);
+  }
+}
+
+/** Returns the typeof of a value, or the name of its class for Dates, URLs and byte arrays. */
+function jsType(value: unknown): string {
+  if (value instanceof Date) {
+    return "Date";
+  }
+  if (value instanceof URL) {
+    return "URL";
+  }
+  return value instanceof Uint8Array ? "Uint8Array" : typeof value;
+}
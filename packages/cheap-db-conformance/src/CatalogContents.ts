@@ -0,0 +1,168 @@
+/**
+ * Comparable snapshots of catalog contents
+ */
+
+import {
+  Aspect,
+  AspectMapHierarchy,
+  Catalog,
+  CheapHasher,
+  EntityDirectoryHierarchy,
+  EntityListHierarchy,
+  EntitySetHierarchy,
+  EntityTreeHierarchy,
+  EntityTreeNode,
+  Hierarchy,
+  HierarchyType,
+} from "@cheap-ts/core";
+
+/**
+ * A property value in a form that compares equal, with Jest's toEqual(), to
+ * the same value read from any backend.
+ */
+export type ComparableValue = string | number | boolean | bigint | null | ComparableValue[];
+
+/**
+ * A tree node, with the global ID of its entity and its children in order.
+ */
+export interface TreeNodeContents {
+  entity: string | null;
+  children: [string, TreeNodeContents][];
+}
+
+/**
+ * The contents of one hierarchy, in order. Entities are given by global ID.
+ */
+export type HierarchyContents =
+  | { name: string; type: HierarchyType.ENTITY_LIST | HierarchyType.ENTITY_SET; version: number; entities: string[] }
+  | { name: string; type: HierarchyType.ENTITY_DIR; version: number; entries: [string, string][] }
+  | { name: string; type: HierarchyType.ENTITY_TREE; version: number; root: TreeNodeContents }
+  | {
+      name: string;
+      type: HierarchyType.ASPECT_MAP;
+      version: number;
+      aspectDefHash: bigint;
+      aspects: [string, Record<string, ComparableValue>][];
+    };
+
+/**
+ * The metadata and contents of a catalog, as plain data that can be compared
+ * with Jest's toEqual() and hashed with contentsHash().
+ */
+export interface CatalogContents {
+  globalId: string;
+  uri: string | null;
+  hierarchies: HierarchyContents[];
+}
+
+/**
+ * Converts a property value to a ComparableValue: Dates become ISO strings,
+ * URLs their href, byte arrays lowercase hex, and arrays are converted
+ * element by element. Other values are kept.
+ *
+ * @param value the property value
+ */
+export function comparableValue(value: unknown): ComparableValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(comparableValue);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof URL) {
+    return value.href;
+  }
+  if (value instanceof Uint8Array) {
+    return Array.from(value, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  }
+  return value as ComparableValue;
+}
+
+/**
+ * Returns a snapshot of the contents of a catalog: its URI, and each of its
+ * hierarchies in order, with their names, types, versions and contents, and
+ * for aspect maps the hash of their AspectDef.
+ *
+ * Every property of an aspect is listed; a property holding null and one
+ * without a value both read as null, since backends store them alike.
+ *
+ * @param catalog the catalog
+ */
+export function catalogContents(catalog: Catalog): CatalogContents {
+  return {
+    globalId: catalog.globalId(),
+    uri: catalog.uri()?.toString() ?? null,
+    hierarchies: Array.from(catalog.hierarchies(), hierarchyContents),
+  };
+}
+
+/**
+ * Returns a hash of the snapshot of a catalog's contents, which is equal for
+ * catalogs whose catalogContents() are equal.
+ *
+ * @param catalog the catalog
+ */
+export function contentsHash(catalog: Catalog): bigint {
+  const json = JSON.stringify(catalogContents(catalog), (_key, value: unknown) => {
+    if (typeof value === "bigint") {
+      return `${value}n`;
+    }
+    // JSON would turn NaN and the infinities into null
+    return typeof value === "number" && !Number.isFinite(value) ? String(value) : value;
+  });
+  return new CheapHasher().updateString(json).getHash();
+}
+
+function hierarchyContents(hierarchy: Hierarchy): HierarchyContents {
+  const name = hierarchy.name();
+  const version = hierarchy.version();
+  const type = hierarchy.type();
+  switch (type) {
+    case HierarchyType.ENTITY_LIST:
+    case HierarchyType.ENTITY_SET:
+      return {
+        name,
+        type,
+        version,
+        entities: Array.from(hierarchy as EntityListHierarchy | EntitySetHierarchy, (e) => e.globalId()),
+      };
+    case HierarchyType.ENTITY_DIR:
+      return {
+        name,
+        type,
+        version,
+        entries: Array.from(hierarchy as EntityDirectoryHierarchy, ([key, e]) => [key, e.globalId()]),
+      };
+    case HierarchyType.ENTITY_TREE:
+      return { name, type, version, root: treeNodeContents((hierarchy as EntityTreeHierarchy).root()) };
+    case HierarchyType.ASPECT_MAP: {
+      const aspectMap = hierarchy as AspectMapHierarchy;
+      return {
+        name,
+        type,
+        version,
+        aspectDefHash: aspectMap.aspectDef().hash(),
+        aspects: Array.from(aspectMap, ([e, aspect]) => [e.globalId(), aspectContents(aspect)]),
+      };
+    }
+  }
+}
+
+function treeNodeContents(node: EntityTreeNode): TreeNodeContents {
+  return {
+    entity: node.value()?.globalId() ?? null,
+    children: Array.from(node, ([key, child]) => [key, treeNodeContents(child)]),
+  };
+}
+
+function aspectContents(aspect: Aspect): Record<string, ComparableValue> {
+  const properties: Record<string, ComparableValue> = {};
+  for (const propDef of aspect.def().propertyDefs()) {
+    properties[propDef.name()] =
+      aspect.contains(propDef.name()) ? comparableValue(aspect.readObj(propDef.name())) : null;
+  }
+  return properties;
+}
@@ -0,0 +1,227 @@
+/**
+ * The catalog contents that backends must round-trip
+ */
+
+import {
+  AspectDef,
+  AspectMapHierarchy,
+  AspectObjectMapImpl,
+  CatalogImpl,
+  Entity,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+
+/** The global IDs of the entities in the fixtures. */
+export const CONFORMANCE_ENTITY_IDS = [
+  "c0000000-0000-4000-8000-000000000001",
+  "c0000000-0000-4000-8000-000000000002",
+  "c0000000-0000-4000-8000-000000000003",
+  "c0000000-0000-4000-8000-000000000004",
+] as const;
+
+/** Every PropertyType, in the order of the properties of the fixture AspectDefs. */
+export const ALL_PROPERTY_TYPES: readonly PropertyType[] = [
+  PropertyType.Integer,
+  PropertyType.Float,
+  PropertyType.Boolean,
+  PropertyType.String,
+  PropertyType.Text,
+  PropertyType.BigInteger,
+  PropertyType.BigDecimal,
+  PropertyType.DateTime,
+  PropertyType.URI,
+  PropertyType.UUID,
+  PropertyType.CLOB,
+  PropertyType.BLOB,
+];
+
+/** The name of the aspect map with a single-valued property of every PropertyType. */
+export const SCALARS = "conformanceScalars";
+
+/** The name of the aspect map with a multivalued property of every PropertyType. */
+export const MULTIVALUED = "conformanceMultivalued";
+
+const SCALARS_ID = "c1000000-0000-4000-8000-000000000001";
+const MULTIVALUED_ID = "c1000000-0000-4000-8000-000000000002";
+
+/** Larger than any 64-bit integer, so it only survives storage that keeps every digit. */
+const HUGE = 2n ** 200n + 1n;
+
+/** Every byte value, so that no byte is mangled by text encodings. */
+const ALL_BYTES = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+/**
+ * The values the first entity's aspect holds, by PropertyType name: typical
+ * values, and some that are hard to store, such as huge BigIntegers and
+ * BigDecimals with more digits than a double holds.
+ */
+const TYPICAL_VALUES: Record<string, unknown> = {
+  Integer: 42,
+  Float: 2.5,
+  Boolean: true,
+  String: "plain",
+  Text: "line one\nline two",
+  BigInteger: HUGE,
+  BigDecimal: "12345678901234567890.123456789012345678901",
+  DateTime: new Date("2025-06-01T12:00:00.123Z"),
+  URI: new URL("https://example.com/path?query=1#fragment"),
+  UUID: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+  CLOB: "clob ".repeat(2000),
+  BLOB: ALL_BYTES,
+};
+
+/** The values the second entity's aspect holds: extremes and empty values. */
+const EXTREME_VALUES: Record<string, unknown> = {
+  Integer: Number.MIN_SAFE_INTEGER,
+  Float: -Infinity,
+  Boolean: false,
+  String: "",
+  Text: "héllo wörld 🌍",
+  BigInteger: -HUGE,
+  BigDecimal: "-0.000000000000000000001",
+  DateTime: new Date(0),
+  URI: new URL("urn:isbn:0451450523"),
+  UUID: "00000000-0000-0000-0000-000000000000",
+  CLOB: "",
+  BLOB: new Uint8Array([255, 0, 128]),
+};
+
+/** The values the first entity's multivalued aspect holds. */
+const MULTIVALUED_VALUES: Record<string, unknown[]> = {
+  Integer: [1, -2, Number.MAX_SAFE_INTEGER],
+  Float: [0.5, -1e300],
+  Boolean: [true, false, true],
+  String: ["a", "b", "a"],
+  Text: ["x\ny", "🌍"],
+  BigInteger: [HUGE, -1n],
+  BigDecimal: ["1.5", "-12345678901234567890.5"],
+  DateTime: [new Date("2001-02-03T04:05:06.007Z"), new Date(0)],
+  URI: [new URL("https://example.com/a"), new URL("https://example.com/b")],
+  UUID: ["6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f", "00000000-0000-0000-0000-000000000000"],
+  CLOB: ["c"],
+  BLOB: [new Uint8Array([0, 255]), ALL_BYTES],
+};
+
+function fixtureAspectDef(name: string, globalId: string, isMultivalued: boolean): AspectDef {
+  const propDefs = new Map<string, PropertyDef>();
+  for (const type of ALL_PROPERTY_TYPES) {
+    propDefs.set(
+      type.name(),
+      new PropertyDefBuilder().setName(type.name()).setType(type).setIsMultivalued(isMultivalued).build(),
+    );
+  }
+  return new FullAspectDefImpl(name, globalId, propDefs, true, true, false, false);
+}
+
+/**
+ * Returns the AspectDef with a nullable, single-valued property of every
+ * PropertyType, named after its type.
+ */
+export function scalarsAspectDef(): AspectDef {
+  return fixtureAspectDef(SCALARS, SCALARS_ID, false);
+}
+
+/**
+ * Returns the AspectDef with a nullable, multivalued property of every
+ * PropertyType, named after its type.
+ */
+export function multivaluedAspectDef(): AspectDef {
+  return fixtureAspectDef(MULTIVALUED, MULTIVALUED_ID, true);
+}
+
+/**
+ * Returns the entities of the fixtures, one per global ID in
+ * CONFORMANCE_ENTITY_IDS.
+ */
+export function conformanceEntities(): Entity[] {
+  return CONFORMANCE_ENTITY_IDS.map((id) => new EntityImpl(id));
+}
+
+/**
+ * Adds the aspect maps of scalarsAspectDef() and multivaluedAspectDef() to a
+ * catalog. The scalar aspects hold typical values, extreme values, a null
+ * for every property, and no values at all; the multivalued ones hold
+ * several elements, empty arrays, and a null for every property.
+ *
+ * @param catalog the catalog
+ * @param entities the entities of the aspects; defaults to new ones
+ */
+export function addPropertyTypeAspects(catalog: CatalogImpl, entities: Entity[] = conformanceEntities()): void {
+  const [e1, e2, e3, e4] = entities;
+  const scalars = catalog.extend(scalarsAspectDef());
+  addAspect(scalars, e1, TYPICAL_VALUES);
+  addAspect(scalars, e2, EXTREME_VALUES);
+  addAspect(scalars, e3, nulls());
+  addAspect(scalars, e4, {});
+
+  const multivalued = catalog.extend(multivaluedAspectDef());
+  addAspect(multivalued, e1, MULTIVALUED_VALUES);
+  addAspect(multivalued, e2, Object.fromEntries(ALL_PROPERTY_TYPES.map((type) => [type.name(), []])));
+  addAspect(multivalued, e3, nulls());
+}
+
+/**
+ * Adds a hierarchy of each entity hierarchy type to a catalog, each with a
+ * version of its own: a list with a repeated entity, a set, a directory whose
+ * keys are out of alphabetical order, and a tree with an empty folder node.
+ *
+ * @param catalog the catalog
+ * @param entities the entities of the hierarchies; defaults to new ones
+ */
+export function addEntityHierarchies(catalog: CatalogImpl, entities: Entity[] = conformanceEntities()): void {
+  const [e1, e2, e3, e4] = entities;
+  const list = new EntityListHierarchyImpl(catalog, "conformanceList", 0, 2);
+  list.push(e1, e2, e1, e4);
+  new EntitySetHierarchyImpl(catalog, "conformanceSet", [e3, e1], 1);
+  new EntityDirectoryHierarchyImpl(
+    catalog,
+    "conformanceDirectory",
+    [
+      ["carol", e3],
+      ["alice", e1],
+    ],
+    3,
+  );
+  const root = new EntityTreeNodeImpl(e1);
+  const folder = new EntityTreeNodeImpl(null, root);
+  root.set("folder", folder);
+  folder.set("report", new EntityTreeNodeImpl(e2, folder));
+  folder.set("empty", new EntityTreeNodeImpl(null, folder));
+  root.set("misc", new EntityTreeNodeImpl(e3, root));
+  new EntityTreeHierarchyImpl(catalog, "conformanceTree", root, 4);
+}
+
+/**
+ * Fills a catalog with everything backends must round-trip: a URI, the
+ * aspects of addPropertyTypeAspects() and the hierarchies of
+ * addEntityHierarchies(), which share their entities.
+ *
+ * @param catalog the catalog, which must not have hierarchies yet
+ */
+export function populateConformanceCatalog(catalog: CatalogImpl): void {
+  const entities = conformanceEntities();
+  catalog.setUri(new URL("https://example.com/catalogs/conformance"));
+  addPropertyTypeAspects(catalog, entities);
+  addEntityHierarchies(catalog, entities);
+}
+
+function nulls(): Record<string, unknown> {
+  return Object.fromEntries(ALL_PROPERTY_TYPES.map((type) => [type.name(), null]));
+}
+
+function addAspect(aspectMap: AspectMapHierarchy, entity: Entity, values: Record<string, unknown>): void {
+  const aspect = new AspectObjectMapImpl(entity, aspectMap.aspectDef());
+  for (const [name, value] of Object.entries(values)) {
+    aspect.write(name, value);
+  }
+  aspectMap.add(aspect);
+}
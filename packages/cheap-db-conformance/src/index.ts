@@ -0,0 +1,7 @@
+/**
+ * @cheap-ts/db-conformance - Conformance test kit for CHEAP catalog storage backends
+ */
+
+export * from "./CatalogContents.js";
+export * from "./ConformanceFixtures.js";
+export * from "./CatalogConformance.js";
@@ -0,0 +1,48 @@
+/**
+ * MariaDbAspectTable implementation
+ */
+
+import { AspectDef } from "@cheap-ts/core";
+import { SqlAspectTable } from "@cheap-ts/db";
+import { MariaDbDatabase } from "./MariaDbDatabase.js";
+import { MariaDbDialect } from "./MariaDbDialect.js";
+import { MariaDbMigrationConnection } from "./MariaDbMigrationConnection.js";
+import { MariaDbValueCodec } from "./MariaDbValueCodec.js";
+
+/**
+ * The table that stores the aspects of one AspectDef in a MariaDB database;
+ * see SqlAspectTable.
+ *
+ * Property columns have the native type for their PropertyType (see
+ * MariaDbValueCodec.columnType()). Multivalued properties are LONGTEXT
+ * columns holding JSON arrays, so null and empty arrays are kept apart.
+ *
+ * The DDL statements of create() and drop() commit implicitly, so they must
+ * not run in a transaction.
+ */
+export class MariaDbAspectTable extends SqlAspectTable {
+  /**
+   * Creates a new MariaDbAspectTable. This does not create the table; see create().
+   *
+   * @param db the pool or connection
+   * @param codec the codec that converts property values to column values
+   * @param aspectDef the AspectDef whose aspects the table stores
+   * @param tableName the name of the table
+   * @throws Error if the table name or a property name is longer than 64
+   *   characters, or a property name conflicts with a key column
+   */
+  constructor(db: MariaDbDatabase, codec: MariaDbValueCodec, aspectDef: AspectDef, tableName: string) {
+    super(new MariaDbMigrationConnection(db), new MariaDbDialect(), codec, aspectDef, tableName);
+  }
+
+  /**
+   * Returns the default table name for an AspectDef: "aspect_" followed by its
+   * name, with every character other than a letter, digit or underscore
+   * replaced by an underscore, cut to the 64 characters MariaDB allows.
+   *
+   * @param aspectDef the AspectDef
+   */
+  static defaultTableName(aspectDef: AspectDef): string {
+    return SqlAspectTable.defaultTableName(aspectDef, new MariaDbDialect());
+  }
+}
@@ -0,0 +1,750 @@
+/**
+ * Unit tests for MariaDbCatalog and MariaDbDao, run against MariaDbSqlHarness
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import type { Pool } from "mariadb";
+import {
+  AspectObjectMapImpl,
+  CatalogImpl,
+  CatalogSpecies,
+  EntityDirectoryHierarchy,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchy,
+  EntityListHierarchyImpl,
+  EntitySetHierarchy,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { SqlLazyAspectMapHierarchy } from "@cheap-ts/db";
+import { MariaDbAspectTable } from "./MariaDbAspectTable.js";
+import { MariaDbCatalog } from "./MariaDbCatalog.js";
+import { MariaDbDao } from "./MariaDbDao.js";
+import { MariaDbSqlHarness } from "./test-support/MariaDbSqlHarness.js";
+import { MariaDbValueCodec } from "./MariaDbValueCodec.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const UPSTREAM_ID = "10000000-0000-0000-0000-0000000000ff";
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+/** A BigInteger with all 65 digits that DECIMAL(65,0) holds. */
+const HUGE = 10n ** 64n + 12345678901234567890n;
+
+function allTypesAspectDef(extra: PropertyDef[] = []): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("int", PropertyType.Integer);
+  add("flt", PropertyType.Float);
+  add("bln", PropertyType.Boolean);
+  add("str", PropertyType.String);
+  add("txt", PropertyType.Text);
+  add("bgi", PropertyType.BigInteger);
+  add("bgf", PropertyType.BigDecimal);
+  add("dat", PropertyType.DateTime);
+  add("uri", PropertyType.URI);
+  add("uid", PropertyType.UUID);
+  add("clb", PropertyType.CLOB);
+  add("blb", PropertyType.BLOB);
+  add("tags", PropertyType.String, true);
+  propDefs.set(
+    "count",
+    new PropertyDefBuilder().setName("count").setType(PropertyType.BigInteger).setDefaultValue(5n).build(),
+  );
+  propDefs.set(
+    "stamps",
+    new PropertyDefBuilder()
+      .setName("stamps")
+      .setType(PropertyType.DateTime)
+      .setIsMultivalued(true)
+      .setDefaultValue([new Date("2000-01-01T00:00:00.000Z")])
+      .build(),
+  );
+  for (const propDef of extra) {
+    propDefs.set(propDef.name(), propDef);
+  }
+  return new FullAspectDefImpl("allTypes", ASPECT_DEF_ID, propDefs, true, true, false, true);
+}
+
+function populate(catalog: CatalogImpl): void {
+  catalog.setUri(new URL("https://example.com/catalogs/test"));
+  const e1 = new EntityImpl(ID1);
+  const e2 = new EntityImpl(ID2);
+  const e3 = new EntityImpl(ID3);
+
+  const aspectMap = catalog.extend(allTypesAspectDef());
+  const full = new AspectObjectMapImpl(e1, aspectMap.aspectDef());
+  full.write("int", 7);
+  full.write("flt", 2.5);
+  full.write("bln", false);
+  full.write("str", "short");
+  full.write("txt", "long text");
+  full.write("bgi", HUGE);
+  full.write("bgf", "3.14159265358979323846");
+  full.write("dat", new Date("2025-06-01T12:00:00.123Z"));
+  full.write("uri", new URL("https://example.com/x"));
+  full.write("uid", "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  full.write("clb", "clob");
+  full.write("blb", new Uint8Array([0, 1, 127, 128, 255]));
+  full.write("tags", ["a", "b"]);
+  full.write("stamps", [new Date("2001-02-03T04:05:06.007Z")]);
+  aspectMap.add(full);
+  const sparse = new AspectObjectMapImpl(e2, aspectMap.aspectDef());
+  sparse.write("tags", []);
+  aspectMap.add(sparse);
+
+  const list = new EntityListHierarchyImpl(catalog, "list", 0, 4);
+  list.push(e1, e2, e1);
+  new EntitySetHierarchyImpl(catalog, "set", [e3, e2], 1);
+  new EntityDirectoryHierarchyImpl(
+    catalog,
+    "dir",
+    [
+      ["first", e1],
+      ["third", e3],
+    ],
+    2,
+  );
+  const root = new EntityTreeNodeImpl(e1);
+  const folder = new EntityTreeNodeImpl(null, root);
+  root.set("folder", folder);
+  folder.set("leaf", new EntityTreeNodeImpl(e3, folder));
+  root.set("other", new EntityTreeNodeImpl(e2, root));
+  new EntityTreeHierarchyImpl(catalog, "tree", root, 5);
+}
+
+function expectPopulated(catalog: CatalogImpl): void {
+  expect(catalog.uri()?.toString()).toBe("https://example.com/catalogs/test");
+  expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["allTypes", "list", "set", "dir", "tree"]);
+  expect(Array.from(catalog.hierarchies(), (h) => h.version())).toEqual([0, 4, 1, 2, 5]);
+
+  const aspectMap = catalog.aspects("allTypes")!;
+  expect(aspectMap.aspectDef().hash()).toBe(allTypesAspectDef().hash());
+  expect(aspectMap.aspectDef().propertyDef("count")?.defaultValue()).toBe(5n);
+  expect(aspectMap.aspectDef().propertyDef("stamps")?.defaultValue()).toEqual([new Date("2000-01-01T00:00:00.000Z")]);
+  const [[e1, full], [e2, sparse]] = Array.from(aspectMap);
+  expect(e1.globalId()).toBe(ID1);
+  expect(full.readObj("int")).toBe(7);
+  expect(full.readObj("flt")).toBe(2.5);
+  expect(full.readObj("bln")).toBe(false);
+  expect(full.readObj("str")).toBe("short");
+  expect(full.readObj("txt")).toBe("long text");
+  expect(full.readObj("bgi")).toBe(HUGE);
+  expect(full.readObj("bgf")).toBe("3.14159265358979323846");
+  expect(full.readObj("dat")).toEqual(new Date("2025-06-01T12:00:00.123Z"));
+  expect(full.readObj("uri")).toEqual(new URL("https://example.com/x"));
+  expect(full.readObj("uid")).toBe("6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  expect(full.readObj("clb")).toBe("clob");
+  expect(full.readObj("blb")).toEqual(new Uint8Array([0, 1, 127, 128, 255]));
+  expect(full.readObj("tags")).toEqual(["a", "b"]);
+  expect(full.readObj("stamps")).toEqual([new Date("2001-02-03T04:05:06.007Z")]);
+  expect(full.readObj("count")).toBe(5n);
+
+  expect(e2.globalId()).toBe(ID2);
+  expect(sparse.readObj("tags")).toEqual([]);
+  expect(sparse.contains("int")).toBe(false);
+  expect(sparse.readObj("count")).toBe(5n);
+
+  const list = catalog.hierarchy("list") as EntityListHierarchy;
+  expect(Array.from(list, (e) => e.globalId())).toEqual([ID1, ID2, ID1]);
+  expect(list[0]).toBe(e1);
+
+  const set = catalog.hierarchy("set") as EntitySetHierarchy;
+  expect(Array.from(set, (e) => e.globalId())).toEqual([ID3, ID2]);
+  expect(set.has(e2)).toBe(true);
+
+  const dir = catalog.hierarchy("dir") as EntityDirectoryHierarchy;
+  expect(Array.from(dir.keys())).toEqual(["first", "third"]);
+  expect(dir.get("first")).toBe(e1);
+
+  const tree = catalog.hierarchy("tree") as EntityTreeHierarchy;
+  expect(tree.root().value()).toBe(e1);
+  expect(Array.from(tree.root().keys())).toEqual(["folder", "other"]);
+  expect(tree.root().get("folder")?.value()).toBeNull();
+  expect(tree.root().get("folder")?.get("leaf")?.value()?.globalId()).toBe(ID3);
+  expect(tree.root().get("folder")?.get("leaf")?.getParent()).toBe(tree.root().get("folder"));
+  expect(tree.root().get("other")?.value()).toBe(e2);
+}
+
+async function count(pool: Pool, table: string): Promise<number> {
+  const rows = await pool.query(`SELECT COUNT(*) AS n FROM ${table}`);
+  return Number(rows[0].n);
+}
+
+describe("MariaDbCatalog", () => {
+  let harness: MariaDbSqlHarness;
+  let pool: Pool;
+
+  beforeEach(() => {
+    harness = new MariaDbSqlHarness();
+    pool = harness.pool();
+  });
+
+  afterEach(() => {
+    harness.close();
+  });
+
+  it("should save and load every part of a catalog", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID, CatalogSpecies.CLONE, UPSTREAM_ID, 3);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    await catalog.close();
+
+    const loaded = await MariaDbCatalog.open(pool, CATALOG_ID);
+    expect(loaded.globalId()).toBe(CATALOG_ID);
+    expect(loaded.species()).toBe(CatalogSpecies.CLONE);
+    expect(loaded.upstream()).toBe(UPSTREAM_ID);
+    expect(loaded.version()).toBe(3);
+    expectPopulated(loaded);
+    await loaded.close();
+
+    const plain = await new MariaDbDao(harness.connection()).loadCatalog(CATALOG_ID);
+    expectPopulated(plain!);
+  });
+
+  it("should store property values in native columns", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const table = await new MariaDbDao(pool).aspectTable(allTypesAspectDef());
+    expect(table?.tableName()).toBe("aspect_allTypes");
+    expect(harness.statements().find((sql) => sql.startsWith("CREATE TABLE IF NOT EXISTS `aspect_allTypes`")))
+      .toBe(`CREATE TABLE IF NOT EXISTS \`aspect_allTypes\` (
+    catalog_id CHAR(36) NOT NULL,
+    entity_id CHAR(36) NOT NULL,
+    \`int\` BIGINT,
+    \`flt\` DOUBLE,
+    \`bln\` BOOLEAN,
+    \`str\` TEXT,
+    \`txt\` LONGTEXT,
+    \`bgi\` DECIMAL(65,0),
+    \`bgf\` DECIMAL(65,30),
+    \`dat\` DATETIME(6),
+    \`uri\` TEXT,
+    \`uid\` CHAR(36),
+    \`clb\` LONGTEXT,
+    \`blb\` LONGBLOB,
+    \`tags\` LONGTEXT,
+    \`count\` DECIMAL(65,0),
+    \`stamps\` LONGTEXT,
+    PRIMARY KEY (catalog_id, entity_id),
+    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE
+)`);
+    const rows = await pool.query(
+      "SELECT `int`, `bln`, `bgi`, `dat`, `blb`, `tags`, `stamps` FROM `aspect_allTypes` WHERE entity_id = ?",
+      [ID1],
+    );
+    expect(rows).toEqual([
+      {
+        int: 7n,
+        bln: 0,
+        bgi: HUGE.toString(),
+        dat: new Date("2025-06-01T12:00:00.123"),
+        blb: Buffer.from([0, 1, 127, 128, 255]),
+        tags: '["a","b"]',
+        stamps: '["2001-02-03T04:05:06.007Z"]',
+      },
+    ]);
+    const sparse = await pool.query({ sql: "SELECT `str`, `tags`, `dat` FROM `aspect_allTypes` WHERE entity_id = ?" }, [
+      ID2,
+    ]);
+    expect(sparse).toEqual([{ str: null, tags: "[]", dat: null }]);
+    const stamped = await pool.query(
+      { sql: "SELECT `dat` FROM `aspect_allTypes` WHERE entity_id = ?", dateStrings: true },
+      [ID1],
+    );
+    expect(stamped).toEqual([{ dat: "2025-06-01 12:00:00.123000" }]);
+  });
+
+  it("should save only the changes made since the last save", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const aspects = catalog.aspects("allTypes")!;
+    const [[e1, full], [e2]] = Array.from(aspects);
+    full.write("str", "changed");
+    aspects.delete(e2);
+    (catalog.hierarchy("set") as EntitySetHierarchy).add(e1);
+    (catalog.hierarchy("dir") as EntityDirectoryHierarchy).set("first", e2);
+    const statements = harness.statements().length;
+    await catalog.save();
+
+    const saved = harness.statements().slice(statements);
+    expect(saved.some((sql) => /\bhierarchy_entity_(?:list|tree)/.test(sql))).toBe(false);
+    expect(saved.some((sql) => sql.startsWith("INSERT INTO catalog "))).toBe(false);
+    expect(await count(pool, "`aspect_allTypes`")).toBe(1);
+    expect(await count(pool, "hierarchy")).toBe(5);
+    const loaded = await MariaDbCatalog.open(pool, CATALOG_ID);
+    expect(Array.from(loaded.aspects("allTypes")!)[0][1].readObj("str")).toBe("changed");
+    expect(Array.from(loaded.hierarchy("set") as EntitySetHierarchy, (e) => e.globalId())).toEqual([ID3, ID2, ID1]);
+    expect((loaded.hierarchy("dir") as EntityDirectoryHierarchy).get("first")?.globalId()).toBe(ID2);
+  });
+
+  it("should store aspects in the generic tables without the aspectTables option", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool, { aspectTables: false });
+    await catalog.save();
+
+    expect(await count(pool, "aspect_table")).toBe(0);
+    expect(await count(pool, "aspect")).toBe(2);
+    expectPopulated(await MariaDbCatalog.open(pool, CATALOG_ID));
+  });
+
+  it("should create aspect tables before the transaction that writes the rows", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    const statements = harness.statements().length;
+    await catalog.save();
+
+    // MariaDB would commit the save transaction at the first DDL statement inside it
+    const saved = harness.statements().slice(statements);
+    const lastDdl = saved.map((sql) => /^(?:CREATE|ALTER)\b/.test(sql)).lastIndexOf(true);
+    const firstRow = saved.findIndex((sql) => sql.startsWith("INSERT INTO catalog "));
+    expect(lastDdl).toBeGreaterThanOrEqual(0);
+    expect(lastDdl).toBeLessThan(firstRow);
+    await expect(new MariaDbDao(pool).transaction((dao) => dao.createAspectTable(allTypesAspectDef()))).rejects.toThrow(
+      "Cannot create an aspect table in a transaction",
+    );
+  });
+
+  it("should roll back a save that fails", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const broken = new MariaDbCatalog(CATALOG_ID);
+    populate(broken);
+    const aspect = Array.from(broken.aspects("allTypes")!.values())[0];
+    aspect.write("flt", Number.NaN);
+    await expect(broken.connect(pool).then(() => broken.save())).rejects.toThrow("cannot store NaN");
+
+    expect(harness.inTransaction()).toBe(false);
+    expect(await count(pool, "`aspect_allTypes`")).toBe(2);
+    expectPopulated(await MariaDbCatalog.open(pool, CATALOG_ID));
+  });
+
+  it("should roll back a transaction and the catalog when the function throws", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    await expect(
+      catalog.transaction(async (tx) => {
+        (tx.hierarchy("list") as EntityListHierarchy).push(new EntityImpl(ID3));
+        await tx.save();
+        throw new Error("abort");
+      }),
+    ).rejects.toThrow("abort");
+
+    expect(catalog.inTransaction()).toBe(false);
+    expect(harness.inTransaction()).toBe(false);
+    expect(await count(pool, "hierarchy_entity_list")).toBe(3);
+    expectPopulated(catalog);
+    await expect(
+      catalog.transaction(async () => {
+        await catalog.close();
+      }),
+    ).rejects.toThrow("while a transaction is in progress");
+  });
+
+  it("should map nested transactions to savepoints", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    await catalog.transaction(async (tx) => {
+      (tx.hierarchy("list") as EntityListHierarchy).push(new EntityImpl(ID3));
+      await expect(
+        tx.transaction(async (inner) => {
+          (inner.hierarchy("set") as EntitySetHierarchy).add(new EntityImpl(ID1));
+          throw new Error("inner");
+        }),
+      ).rejects.toThrow("inner");
+
+      // The changes of the enclosing transaction were saved before the savepoint
+      expect(Array.from(tx.hierarchy("list") as EntityListHierarchy, (e) => e.globalId())).toEqual([
+        ID1,
+        ID2,
+        ID1,
+        ID3,
+      ]);
+      expect((tx.hierarchy("set") as EntitySetHierarchy).size).toBe(2);
+    });
+
+    expect(harness.statements().some((sql) => sql.startsWith("ROLLBACK TO SAVEPOINT"))).toBe(true);
+    expect(await count(pool, "hierarchy_entity_list")).toBe(4);
+    expect(await count(pool, "hierarchy_entity_set")).toBe(2);
+  });
+
+  it("should store AspectDefs new to a transaction in the generic tables", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    await catalog.connect(pool);
+
+    // MariaDB would commit the transaction at a CREATE TABLE statement
+    await catalog.transaction(async (tx) => {
+      populate(tx);
+    });
+
+    expect(await count(pool, "aspect_table")).toBe(0);
+    expect(await count(pool, "aspect")).toBe(2);
+    expectPopulated(await MariaDbCatalog.open(pool, CATALOG_ID));
+  });
+
+  it("should store tree nodes with their closure", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    // Four nodes, each its own ancestor, with one ancestor each for folder and
+    // other, and two for leaf
+    expect(await count(pool, "hierarchy_entity_tree_node")).toBe(4);
+    const leaf = await pool.query(
+      `SELECT c.depth, a.node_key FROM hierarchy_entity_tree_closure c
+       JOIN hierarchy_entity_tree_node d ON d.node_id = c.descendant_node_id
+       JOIN hierarchy_entity_tree_node a ON a.node_id = c.ancestor_node_id
+       WHERE d.node_key = 'leaf' ORDER BY c.depth`,
+    );
+    expect(leaf).toEqual([
+      { depth: 0, node_key: "leaf" },
+      { depth: 1, node_key: "folder" },
+      { depth: 2, node_key: "" },
+    ]);
+    expect(await count(pool, "hierarchy_entity_tree_closure")).toBe(8);
+  });
+
+  it("should read and move tree nodes without loading the tree", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    const dao = new MariaDbDao(pool);
+
+    expect((await dao.loadTreeSubtree(CATALOG_ID, "tree", ["folder"]))?.get("leaf")?.value()?.globalId()).toBe(ID3);
+    const ancestors = await dao.loadTreeAncestors(CATALOG_ID, "tree", ["folder", "leaf"]);
+    expect(ancestors?.map((e) => e?.globalId() ?? null)).toEqual([ID1, null]);
+    expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["folder", "leaf"]]);
+
+    await dao.moveTreeNode(CATALOG_ID, "tree", ["folder"], ["other"]);
+    expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["other", "folder", "leaf"]]);
+    expect(await count(pool, "hierarchy_entity_tree_closure")).toBe(10);
+    const loaded = await MariaDbCatalog.open(pool, CATALOG_ID);
+    const root = (loaded.hierarchy("tree") as EntityTreeHierarchy).root();
+    expect(Array.from(root.keys())).toEqual(["other"]);
+    expect(root.get("other")?.get("folder")?.get("leaf")?.value()?.globalId()).toBe(ID3);
+    await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["other"], ["other", "folder"])).rejects.toThrow(
+      "into its own subtree",
+    );
+  });
+
+  it("should delete the rows of a deleted catalog", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    const dao = new MariaDbDao(pool);
+
+    expect(await dao.deleteCatalog(CATALOG_ID)).toBe(true);
+    expect(await dao.deleteCatalog(CATALOG_ID)).toBe(false);
+    expect(await count(pool, "`aspect_allTypes`")).toBe(0);
+    expect(await count(pool, "hierarchy_entity_tree_node")).toBe(0);
+    expect(await count(pool, "hierarchy_entity_tree_closure")).toBe(0);
+    expect(await count(pool, "aspect_def")).toBe(1);
+    await expect(MariaDbCatalog.open(pool, CATALOG_ID)).rejects.toThrow("is not stored in the database");
+  });
+
+  it("should add columns for properties added to the AspectDef", async () => {
+    const first = new MariaDbCatalog(CATALOG_ID);
+    populate(first);
+    await first.connect(pool);
+    await first.save();
+
+    // The catalog is the only one using the AspectDef, so it may change it
+    const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+    const second = new MariaDbCatalog(CATALOG_ID);
+    const aspects = second.extend(allTypesAspectDef([email]));
+    const carol = new AspectObjectMapImpl(new EntityImpl(ID3), aspects.aspectDef());
+    carol.write("email", "carol@example.com");
+    aspects.add(carol);
+    await second.connect(pool);
+    await second.save();
+
+    expect(await pool.query("SELECT email FROM `aspect_allTypes` WHERE entity_id = ?", [ID3])).toEqual([
+      { email: "carol@example.com" },
+    ]);
+    const reloaded = await MariaDbCatalog.open(pool, second.globalId());
+    expect(
+      reloaded
+        .aspects("allTypes")!
+        .get(Array.from(reloaded.aspects("allTypes")!.keys())[0])!
+        .readObj("email"),
+    ).toBe("carol@example.com");
+  });
+
+  it("should keep a chosen aspect table name", async () => {
+    const dao = new MariaDbDao(pool);
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await dao.createAspectTable(allTypesAspectDef(), "all_types");
+    await catalog.save();
+
+    expect(await count(pool, "all_types")).toBe(2);
+    await expect(dao.createAspectTable(allTypesAspectDef(), "other")).rejects.toThrow(
+      "is already stored in table 'all_types'",
+    );
+    const other = new FullAspectDefImpl("other", crypto.randomUUID(), new Map(), true, true, false, false);
+    await expect(dao.createAspectTable(other, "all_types")).rejects.toThrow("already stores the aspects");
+    await expect(dao.createAspectTable(other, "catalog")).rejects.toThrow("is not an aspect table");
+    await expect(dao.createAspectTable(other, "t".repeat(65))).rejects.toThrow("longer than 64 characters");
+  });
+
+  it("should list, create, open and delete catalogs by global ID", async () => {
+    const first = await MariaDbCatalog.create(pool, CATALOG_ID, CatalogSpecies.MIRROR, UPSTREAM_ID);
+    const second = await MariaDbCatalog.create(pool);
+    populate(second);
+    await second.save();
+
+    expect((await MariaDbCatalog.list(pool)).map((h) => h.globalId)).toEqual([CATALOG_ID, second.globalId()].sort());
+    expect((await MariaDbCatalog.list(pool)).find((h) => h.globalId === CATALOG_ID)).toEqual({
+      globalId: CATALOG_ID,
+      species: CatalogSpecies.MIRROR,
+      uri: null,
+      upstream: UPSTREAM_ID,
+      version: 0,
+    });
+    await expect(MariaDbCatalog.create(pool, CATALOG_ID)).rejects.toThrow("is already stored");
+    expect(first.isConnected()).toBe(true);
+
+    expect(await MariaDbCatalog.delete(pool, second.globalId())).toBe(true);
+    expect(await MariaDbCatalog.delete(pool, second.globalId())).toBe(false);
+    expect((await MariaDbCatalog.list(pool)).map((h) => h.globalId)).toEqual([CATALOG_ID]);
+    expect(await count(pool, "`aspect_allTypes`")).toBe(0);
+    expect(await count(pool, "aspect_def")).toBe(1);
+  });
+
+  it("should share AspectDefs whose hash matches", async () => {
+    const first = await MariaDbCatalog.create(pool);
+    populate(first);
+    await first.save();
+    // An unchanged AspectDef is not written again, so the stored copy keeps this edit
+    await pool.query("UPDATE property_def SET is_nullable = false WHERE name = 'int'");
+    const second = await MariaDbCatalog.create(pool);
+    second.extend(allTypesAspectDef());
+    await second.save();
+
+    const sql = "SELECT is_nullable FROM property_def WHERE name = 'int'";
+    expect(Number((await pool.query(sql))[0].is_nullable)).toBe(0);
+    expect(await count(pool, "aspect_def_hash")).toBe(1);
+  });
+
+  it("should only change an AspectDef that no other catalog uses", async () => {
+    const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+    const first = await MariaDbCatalog.create(pool);
+    populate(first);
+    await first.save();
+    const changed = new MariaDbCatalog(first.globalId());
+    changed.extend(allTypesAspectDef([email]));
+    await changed.connect(pool);
+    await changed.save();
+
+    const second = await MariaDbCatalog.create(pool);
+    second.extend(allTypesAspectDef());
+    await expect(second.save()).rejects.toThrow("used by another catalog");
+    const sql = "SELECT hash FROM aspect_def_hash";
+    expect((await pool.query(sql))[0].hash).toBe(allTypesAspectDef([email]).hash().toString());
+  });
+
+  it("should load aspects lazily when they are prefetched or paged through", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const loaded = await MariaDbCatalog.open(pool, CATALOG_ID, { lazy: true, cacheSize: 1, pageSize: 1 });
+    const aspectMap = loaded.aspects("allTypes") as SqlLazyAspectMapHierarchy;
+    expect(aspectMap).toBeInstanceOf(SqlLazyAspectMapHierarchy);
+    expect(aspectMap.size).toBe(2);
+    expect(aspectMap.cachedCount()).toBe(0);
+    expect(Array.from(aspectMap.keys(), (e) => e.globalId())).toEqual([ID1, ID2]);
+    expect(aspectMap.has(new EntityImpl(ID3))).toBe(false);
+    expect(aspectMap.get(new EntityImpl(ID3))).toBeUndefined();
+    expect(() => aspectMap.get(new EntityImpl(ID1))).toThrow("prefetch()");
+    expect(() => Array.from(aspectMap.values())).toThrow("pages()");
+
+    await aspectMap.prefetch([new EntityImpl(ID1)]);
+    expect(aspectMap.get(new EntityImpl(ID1))?.readObj("bgi")).toBe(HUGE);
+    const pages: string[][] = [];
+    for await (const page of aspectMap.pages()) {
+      pages.push(page.map((aspect) => aspect.entity().globalId()));
+    }
+    expect(pages).toEqual([[ID1], [ID2]]);
+    expect(aspectMap.cachedCount()).toBe(1);
+    await expect(MariaDbCatalog.open(pool, CATALOG_ID, { lazy: true, cacheSize: -1 })).rejects.toThrow(
+      "Invalid aspect cache size",
+    );
+  });
+
+  it("should save only the pending changes of a lazily loaded aspect map", async () => {
+    const catalog = new MariaDbCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const loaded = await MariaDbCatalog.open(pool, CATALOG_ID, { lazy: true });
+    const aspectMap = loaded.aspects("allTypes") as SqlLazyAspectMapHierarchy;
+    await aspectMap.prefetch([new EntityImpl(ID1)]);
+    aspectMap.get(new EntityImpl(ID1))!.write("int", 8);
+    aspectMap.delete(new EntityImpl(ID2));
+    const added = new AspectObjectMapImpl(new EntityImpl(ID3), aspectMap.aspectDef());
+    added.write("str", "added");
+    aspectMap.add(added);
+    expect(aspectMap.size).toBe(2);
+    await loaded.save();
+    expect(aspectMap.pendingChanges()).toEqual({ cleared: false, deletedEntityIds: [], changedAspects: [] });
+
+    await expect(
+      loaded.transaction(async () => {
+        aspectMap.clear();
+        throw new Error("rolled back");
+      }),
+    ).rejects.toThrow("rolled back");
+    expect(loaded.aspects("allTypes")).toBeInstanceOf(SqlLazyAspectMapHierarchy);
+    expect(loaded.aspects("allTypes")!.size).toBe(2);
+
+    const [[e1, full], [e3, other]] = Array.from((await MariaDbCatalog.open(pool, CATALOG_ID)).aspects("allTypes")!);
+    expect([e1.globalId(), e3.globalId()]).toEqual([ID1, ID3]);
+    expect(full.readObj("int")).toBe(8);
+    expect(full.readObj("bgi")).toBe(HUGE);
+    expect(other.readObj("str")).toBe("added");
+  });
+
+  it("should keep AspectDefs of the same name from different catalogs apart", async () => {
+    const person = (globalId: string, propName: string) =>
+      new FullAspectDefImpl(
+        "person",
+        globalId,
+        new Map([[propName, new PropertyDefBuilder().setName(propName).setType(PropertyType.String).build()]]),
+        true,
+        true,
+        false,
+        false,
+      );
+    const addPerson = (catalog: MariaDbCatalog, aspectDef: FullAspectDefImpl, value: string) => {
+      const aspect = new AspectObjectMapImpl(new EntityImpl(ID1), aspectDef);
+      aspect.write(aspectDef.propertyDefs()[0].name(), value);
+      catalog.extend(aspectDef).add(aspect);
+    };
+    const first = await MariaDbCatalog.create(pool);
+    addPerson(first, person("20000000-0000-0000-0000-000000000001", "name"), "Alice");
+    await first.save();
+    const second = await MariaDbCatalog.create(pool);
+    addPerson(second, person("20000000-0000-0000-0000-000000000002", "email"), "bob@example.com");
+    await expect(second.save()).rejects.toThrow(
+      "Table 'aspect_person' already stores the aspects of AspectDef 20000000-0000-0000-0000-000000000001; " +
+        "AspectDef 'person' (20000000-0000-0000-0000-000000000002) needs a table with another name.",
+    );
+    await second.close();
+    await second.connect(pool, { aspectTables: false });
+    await second.save();
+
+    const aspect = async (globalId: string) =>
+      Array.from((await MariaDbCatalog.open(pool, globalId)).aspects("person")!.values())[0];
+    expect((await aspect(first.globalId())).readObj("name")).toBe("Alice");
+    expect((await aspect(second.globalId())).readObj("email")).toBe("bob@example.com");
+  });
+
+  it("should require a connection", async () => {
+    const catalog = new MariaDbCatalog();
+    expect(catalog.isConnected()).toBe(false);
+    await expect(catalog.save()).rejects.toThrow("not connected");
+    await catalog.connect(pool);
+    await expect(catalog.connect(pool)).rejects.toThrow("already connected");
+    populate(catalog);
+    await expect(catalog.load()).rejects.toThrow("already has hierarchies");
+  });
+});
+
+describe("MariaDbValueCodec", () => {
+  const propDef = (type: PropertyType) => new PropertyDefBuilder().setName("p").setType(type).build();
+
+  it("should map property types to native column types", () => {
+    const codec = new MariaDbValueCodec();
+    const columnType = (type: PropertyType, isMultivalued: boolean = false) =>
+      codec.columnType(new PropertyDefBuilder().setName("p").setType(type).setIsMultivalued(isMultivalued).build());
+    expect(columnType(PropertyType.Integer)).toBe("BIGINT");
+    expect(columnType(PropertyType.Float)).toBe("DOUBLE");
+    expect(columnType(PropertyType.Boolean)).toBe("BOOLEAN");
+    expect(columnType(PropertyType.String)).toBe("TEXT");
+    expect(columnType(PropertyType.Text)).toBe("LONGTEXT");
+    expect(columnType(PropertyType.BigInteger)).toBe("DECIMAL(65,0)");
+    expect(columnType(PropertyType.BigDecimal)).toBe("DECIMAL(65,30)");
+    expect(columnType(PropertyType.DateTime)).toBe("DATETIME(6)");
+    expect(columnType(PropertyType.UUID)).toBe("CHAR(36)");
+    expect(columnType(PropertyType.BLOB)).toBe("LONGBLOB");
+    expect(columnType(PropertyType.CLOB)).toBe("LONGTEXT");
+    expect(columnType(PropertyType.URI)).toBe("TEXT");
+    expect(columnType(PropertyType.Integer, true)).toBe("LONGTEXT");
+  });
+
+  it("should read the values the connector returns", () => {
+    const codec = new MariaDbValueCodec();
+    expect(codec.fromNative(propDef(PropertyType.Integer), 42n)).toBe(42);
+    expect(codec.fromNative(propDef(PropertyType.Boolean), 1)).toBe(true);
+    expect(codec.fromNative(propDef(PropertyType.Boolean), 0)).toBe(false);
+    expect(codec.fromNative(propDef(PropertyType.BigInteger), "12345678901234567890123")).toBe(
+      12345678901234567890123n,
+    );
+    expect(codec.fromNative(propDef(PropertyType.BigDecimal), "3.250000000000000000000000000000")).toBe("3.25");
+    expect(codec.fromNative(propDef(PropertyType.BigDecimal), "7.000000000000000000000000000000")).toBe("7");
+    expect(codec.fromNative(propDef(PropertyType.BigDecimal), "100")).toBe("100");
+    expect(codec.fromNative(propDef(PropertyType.DateTime), "2025-06-01 12:00:00.123456")).toEqual(
+      new Date("2025-06-01T12:00:00.123Z"),
+    );
+  });
+
+  it("should write DateTimes as UTC DATETIME literals", () => {
+    const codec = new MariaDbValueCodec();
+    expect(codec.toNative(propDef(PropertyType.DateTime), new Date("2025-06-01T12:00:00.123Z"))).toBe(
+      "2025-06-01 12:00:00.123000",
+    );
+    expect(codec.toNative(propDef(PropertyType.BigInteger), HUGE)).toBe(HUGE.toString());
+  });
+
+  it("should reject Floats that DOUBLE columns cannot hold", () => {
+    const codec = new MariaDbValueCodec();
+    expect(() => codec.toNative(propDef(PropertyType.Float), Number.POSITIVE_INFINITY)).toThrow(
+      "cannot store Infinity",
+    );
+  });
+
+  it("should reject property names that clash with key columns", () => {
+    const propDefs = new Map<string, PropertyDef>([
+      ["entity_id", new PropertyDefBuilder().setName("entity_id").setType(PropertyType.String).build()],
+    ]);
+    const def = new FullAspectDefImpl("clash", crypto.randomUUID(), propDefs, true, true, false, false);
+    expect(() => new MariaDbAspectTable({} as Pool, new MariaDbValueCodec(), def, "clash")).toThrow(
+      "conflicts with a key column",
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for MariaDbCheapSchema migrations and MariaDbSqlHarness
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import type { Pool } from "mariadb";
+import { FullAspectDefImpl } from "@cheap-ts/core";
+import { DEFAULT_MIGRATION_TABLE } from "@cheap-ts/db";
+import { MariaDbCatalog } from "./MariaDbCatalog.js";
+import { MariaDbCheapSchema } from "./MariaDbCheapSchema.js";
+import { MariaDbSqlHarness } from "./test-support/MariaDbSqlHarness.js";
+
+async function tableNames(pool: Pool): Promise<string[]> {
+  const rows: { table_name: string }[] = await pool.query(
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = DATABASE() ORDER BY table_name",
+  );
+  return rows.map((row) => row.table_name);
+}
+
+describe("MariaDbCheapSchema migrations", () => {
+  let harness: MariaDbSqlHarness;
+  let pool: Pool;
+  const schema = new MariaDbCheapSchema();
+
+  beforeEach(() => {
+    harness = new MariaDbSqlHarness();
+    pool = harness.pool();
+  });
+
+  afterEach(() => {
+    harness.close();
+  });
+
+  it("should create the schema and record it in the migration history", async () => {
+    const applied = await schema.migrate(pool);
+
+    expect(applied.map((m) => m.name)).toEqual([
+      "create_main_schema",
+      "create_aspect_def_hash",
+      "create_generic_aspect_tables",
+      "drop_aspect_def_name_unique",
+    ]);
+    expect(await tableNames(pool)).toEqual([
+      "aspect",
+      "aspect_def",
+      "aspect_def_hash",
+      "aspect_table",
+      "catalog",
+      "catalog_aspect_def",
+      DEFAULT_MIGRATION_TABLE,
+      "hierarchy",
+      "hierarchy_aspect_map",
+      "hierarchy_entity_directory",
+      "hierarchy_entity_list",
+      "hierarchy_entity_set",
+      "hierarchy_entity_tree_closure",
+      "hierarchy_entity_tree_node",
+      "property_def",
+      "property_value",
+    ]);
+    expect(await schema.migrator(pool).currentVersion()).toBe(schema.migrations().at(-1)!.version);
+    expect(await schema.migrate(pool)).toEqual([]);
+  });
+
+  it("should adopt a schema created before migrations were tracked", async () => {
+    await schema.executeMainSchemaDdl(pool);
+    const catalog = new MariaDbCatalog();
+    await catalog.connect(pool);
+    await catalog.save();
+
+    expect(await schema.migrator(pool).currentVersion()).toBe(schema.migrations().at(-1)!.version);
+    expect(await pool.query("SELECT catalog_id FROM catalog")).toEqual([{ catalog_id: catalog.globalId() }]);
+  });
+
+  it("should refuse to connect to a database migrated by newer code", async () => {
+    await schema.migrate(pool);
+    await pool.query(`INSERT INTO ${DEFAULT_MIGRATION_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`, [
+      999,
+      "from_the_future",
+      new Date().toISOString(),
+    ]);
+
+    await expect(new MariaDbCatalog().connect(pool)).rejects.toThrow(
+      "Database schema version 999 is newer than the latest version",
+    );
+    await expect(MariaDbCatalog.open(pool, "10000000-0000-0000-0000-000000000000")).rejects.toThrow("newer");
+  });
+
+  it("should empty and drop the schema along with the aspect tables", async () => {
+    const catalog = new MariaDbCatalog();
+    catalog.extend(
+      new FullAspectDefImpl("thing", "20000000-0000-0000-0000-000000000000", new Map(), true, true, false, false),
+    );
+    await catalog.connect(pool);
+    await catalog.save();
+    expect(await tableNames(pool)).toContain("aspect_thing");
+
+    await schema.executeTruncateSchemaDdl(pool);
+    expect(await tableNames(pool)).not.toContain("aspect_thing");
+    expect(await pool.query("SELECT COUNT(*) AS n FROM catalog")).toEqual([{ n: 0n }]);
+
+    await schema.executeDropSchemaDdl(pool);
+    expect(await tableNames(pool)).toEqual([]);
+  });
+});
+
+describe("MariaDbSqlHarness", () => {
+  let harness: MariaDbSqlHarness;
+
+  beforeEach(() => {
+    harness = new MariaDbSqlHarness();
+  });
+
+  afterEach(() => {
+    harness.close();
+  });
+
+  it("should reject SQL from other dialects", () => {
+    expect(() => harness.query('SELECT "name" FROM t')).toThrow("double quotes delimit strings");
+    expect(() => harness.query("SELECT name FROM t WHERE id = $1")).toThrow("placeholders are '?'");
+    expect(() => harness.query("INSERT INTO t (a) VALUES (?) ON CONFLICT DO NOTHING")).toThrow("ON DUPLICATE KEY");
+    expect(() => harness.query("CREATE TABLE t (id uuid PRIMARY KEY)")).toThrow("the column type does not exist");
+    expect(() => harness.query("CREATE TABLE t (tags text[])")).toThrow("no array types");
+    // Quoted strings and identifiers may contain anything
+    expect(harness.query("SELECT 'uuid \"$1\"' AS `uuid`")).toEqual([{ uuid: 'uuid "$1"' }]);
+  });
+
+  it("should reject DDL that MariaDB would reject or misread", () => {
+    harness.query("CREATE TABLE parent (id CHAR(36) NOT NULL PRIMARY KEY)");
+    expect(() => harness.query("CREATE TABLE child (parent_id CHAR(36) REFERENCES parent(id))")).toThrow(
+      "REFERENCES on a column is ignored",
+    );
+    expect(() => harness.query("CREATE TABLE t (name TEXT PRIMARY KEY)")).toThrow("without a key length");
+    expect(() => harness.query("CREATE TABLE t (a VARCHAR(500), b VARCHAR(500), PRIMARY KEY (a, b))")).toThrow(
+      "key was too long",
+    );
+    expect(() => harness.query(`CREATE TABLE ${"t".repeat(65)} (id INTEGER)`)).toThrow("too long");
+    expect(() => harness.query("CREATE INDEX idx ON parent(missing)")).toThrow("doesn't exist");
+  });
+
+  it("should commit the running transaction before DDL", async () => {
+    const conn = harness.connection();
+    harness.query("CREATE TABLE t (id INTEGER NOT NULL PRIMARY KEY)");
+    await conn.beginTransaction();
+    await conn.query("INSERT INTO t (id) VALUES (?)", [1]);
+    await conn.query("CREATE TABLE u (id INTEGER)");
+    expect(harness.inTransaction()).toBe(false);
+    await conn.rollback();
+
+    expect(harness.query("SELECT id FROM t")).toEqual([{ id: 1 }]);
+  });
+
+  it("should add a column only if it does not exist", () => {
+    harness.query("CREATE TABLE t (id INTEGER)");
+    harness.query("ALTER TABLE t ADD COLUMN IF NOT EXISTS `total` DECIMAL(65,0)");
+    expect(harness.query("ALTER TABLE t ADD COLUMN IF NOT EXISTS `total` DECIMAL(65,0)")).toMatchObject({
+      affectedRows: 0,
+    });
+    expect(() => harness.query("ALTER TABLE t ADD COLUMN `total` BIGINT")).toThrow("Duplicate column name");
+
+    harness.query("INSERT INTO t (id, total) VALUES (?, ?)", [1, "123456789012345678901234567890"]);
+    expect(harness.query("SELECT total FROM t")).toEqual([{ total: "123456789012345678901234567890" }]);
+  });
+
+  it("should drop the index of a UNIQUE column, keeping the rows and other indexes", () => {
+    harness.query("CREATE TABLE t (id INTEGER NOT NULL PRIMARY KEY, name VARCHAR(255) NOT NULL UNIQUE, n INTEGER)");
+    harness.query("CREATE INDEX idx_n ON t(n)");
+    harness.query("INSERT INTO t (id, name, n) VALUES (?, ?, ?)", [1, "a", 1]);
+    expect(() => harness.query("INSERT INTO t (id, name, n) VALUES (?, ?, ?)", [2, "a", 2])).toThrow("UNIQUE");
+
+    harness.query("ALTER TABLE t DROP INDEX name");
+    harness.query("INSERT INTO t (id, name, n) VALUES (?, ?, ?)", [2, "a", 2]);
+    expect(harness.query("SELECT id FROM t WHERE name = 'a' ORDER BY id")).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(() => harness.query("ALTER TABLE t DROP INDEX name")).toThrow("Can't DROP INDEX 'name'");
+    expect(harness.query("ALTER TABLE t DROP INDEX IF EXISTS name")).toMatchObject({ affectedRows: 0 });
+    harness.query("ALTER TABLE t DROP INDEX idx_n");
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * MariaDbCheapSchema implementation
+ */
+
+import { DEFAULT_MIGRATION_TABLE, Migration, SchemaMigrator } from "@cheap-ts/db";
+import { MariaDbDatabase, execute, inTransaction, query } from "./MariaDbDatabase.js";
+import { MariaDbMigrationConnection } from "./MariaDbMigrationConnection.js";
+
+/**
+ * DDL for the main CHEAP schema: AspectDefs and their PropertyDefs, catalogs
+ * with their hierarchies, the contents of the four entity hierarchy types, and
+ * the registry of aspect tables. The generic aspect tables are added by a
+ * later migration.
+ *
+ * Table and column names are those of the other backends. MariaDB only has a
+ * uuid type from 10.7 on, so global IDs are CHAR(36); names and keys that take
+ * part in primary keys or indexes are VARCHAR(255), since TEXT columns cannot
+ * be indexed in full. Foreign keys are declared as table constraints, because
+ * MariaDB ignores REFERENCES clauses on columns.
+ */
+const MAIN_SCHEMA_STATEMENTS: readonly string[] = [
+  `CREATE TABLE IF NOT EXISTS aspect_def (
+    aspect_def_id CHAR(36) NOT NULL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    is_readable BOOLEAN NOT NULL DEFAULT TRUE,
+    is_writable BOOLEAN NOT NULL DEFAULT TRUE,
+    can_add_properties BOOLEAN NOT NULL DEFAULT FALSE,
+    can_remove_properties BOOLEAN NOT NULL DEFAULT FALSE
+  )`,
+  `CREATE TABLE IF NOT EXISTS property_def (
+    aspect_def_id CHAR(36) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    property_index INTEGER NOT NULL,
+    property_type CHAR(3) NOT NULL
+      CHECK (property_type IN ('INT', 'FLT', 'BLN', 'STR', 'TXT', 'BGI', 'BGF', 'DAT', 'URI', 'UID', 'CLB', 'BLB')),
+    default_value LONGTEXT,
+    has_default_value BOOLEAN NOT NULL DEFAULT FALSE,
+    is_readable BOOLEAN NOT NULL DEFAULT TRUE,
+    is_writable BOOLEAN NOT NULL DEFAULT TRUE,
+    is_nullable BOOLEAN NOT NULL DEFAULT FALSE,
+    is_removable BOOLEAN NOT NULL DEFAULT FALSE,
+    is_multivalued BOOLEAN NOT NULL DEFAULT FALSE,
+    PRIMARY KEY (aspect_def_id, name),
+    FOREIGN KEY (aspect_def_id) REFERENCES aspect_def(aspect_def_id) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS catalog (
+    catalog_id CHAR(36) NOT NULL PRIMARY KEY,
+    species VARCHAR(16) NOT NULL CHECK (species IN ('SOURCE', 'SINK', 'MIRROR', 'CACHE', 'CLONE', 'FORK')),
+    uri TEXT,
+    upstream_catalog_id CHAR(36),
+    version_number BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS catalog_aspect_def (
+    catalog_id CHAR(36) NOT NULL,
+    aspect_def_id CHAR(36) NOT NULL,
+    PRIMARY KEY (catalog_id, aspect_def_id),
+    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    FOREIGN KEY (aspect_def_id) REFERENCES aspect_def(aspect_def_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy (
+    catalog_id CHAR(36) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    hierarchy_index INTEGER NOT NULL,
+    hierarchy_type CHAR(2) NOT NULL CHECK (hierarchy_type IN ('EL', 'ES', 'ED', 'ET', 'AM')),
+    version_number BIGINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (catalog_id, name),
+    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_list (
+    catalog_id CHAR(36) NOT NULL,
+    hierarchy_name VARCHAR(255) NOT NULL,
+    entity_id CHAR(36) NOT NULL,
+    list_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, list_order),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_set (
+    catalog_id CHAR(36) NOT NULL,
+    hierarchy_name VARCHAR(255) NOT NULL,
+    entity_id CHAR(36) NOT NULL,
+    set_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_id),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_directory (
+    catalog_id CHAR(36) NOT NULL,
+    hierarchy_name VARCHAR(255) NOT NULL,
+    entity_key VARCHAR(255) NOT NULL,
+    entity_id CHAR(36) NOT NULL,
+    dir_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_key),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  // The parent has no foreign key: InnoDB stops cascading deletes 15 levels
+  // deep, so deep trees could not be deleted with their hierarchy
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_tree_node (
+    node_id CHAR(36) NOT NULL PRIMARY KEY,
+    catalog_id CHAR(36) NOT NULL,
+    hierarchy_name VARCHAR(255) NOT NULL,
+    parent_node_id CHAR(36),
+    node_key VARCHAR(255) NOT NULL,
+    entity_id CHAR(36),
+    node_order INTEGER NOT NULL,
+    UNIQUE (catalog_id, hierarchy_name, parent_node_id, node_key),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  // One row per pair of a tree node and one of its ancestors, or itself at depth 0
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_tree_closure (
+    ancestor_node_id CHAR(36) NOT NULL,
+    descendant_node_id CHAR(36) NOT NULL,
+    depth INTEGER NOT NULL,
+    PRIMARY KEY (ancestor_node_id, descendant_node_id),
+    FOREIGN KEY (ancestor_node_id) REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    FOREIGN KEY (descendant_node_id) REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_aspect_map (
+    catalog_id CHAR(36) NOT NULL,
+    hierarchy_name VARCHAR(255) NOT NULL,
+    entity_id CHAR(36) NOT NULL,
+    aspect_def_id CHAR(36) NOT NULL,
+    map_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_id),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE,
+    FOREIGN KEY (aspect_def_id) REFERENCES aspect_def(aspect_def_id)
+  )`,
+  // One row per AspectDef, naming the table that stores its aspects
+  `CREATE TABLE IF NOT EXISTS aspect_table (
+    table_name VARCHAR(64) NOT NULL PRIMARY KEY,
+    aspect_def_id CHAR(36) NOT NULL UNIQUE,
+    FOREIGN KEY (aspect_def_id) REFERENCES aspect_def(aspect_def_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_node_parent ON hierarchy_entity_tree_node(parent_node_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_node_entity ON hierarchy_entity_tree_node(catalog_id, hierarchy_name, entity_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_closure_descendant ON hierarchy_entity_tree_closure(descendant_node_id, depth)`,
+  `CREATE INDEX IF NOT EXISTS idx_aspect_map_order ON hierarchy_aspect_map(catalog_id, hierarchy_name, map_order)`,
+];
+
+/**
+ * The tables of the main schema, in an order that respects their foreign keys
+ * when dropping or truncating.
+ */
+const MAIN_SCHEMA_TABLES = [
+  "hierarchy_aspect_map",
+  "hierarchy_entity_tree_closure",
+  "hierarchy_entity_tree_node",
+  "hierarchy_entity_directory",
+  "hierarchy_entity_set",
+  "hierarchy_entity_list",
+  "property_value",
+  "aspect",
+  "hierarchy",
+  "catalog_aspect_def",
+  "catalog",
+  "aspect_table",
+  "aspect_def_hash",
+  "property_def",
+  "aspect_def",
+];
+
+/**
+ * The migrations that build the schema, in version order.
+ *
+ * The schema has the same tables as the PostgreSQL schema. Its DDL is
+ * idempotent, so that executeMainSchemaDdl() can apply it too.
+ */
+const MARIADB_MIGRATIONS: readonly Migration[] = [
+  { version: 1, name: "create_main_schema", up: MAIN_SCHEMA_STATEMENTS },
+  {
+    version: 2,
+    name: "create_aspect_def_hash",
+    up: [
+      // The hash() of each stored AspectDef, which tells catalogs sharing it whether their version matches
+      `CREATE TABLE IF NOT EXISTS aspect_def_hash (
+    aspect_def_id CHAR(36) NOT NULL PRIMARY KEY,
+    hash VARCHAR(20) NOT NULL,
+    FOREIGN KEY (aspect_def_id) REFERENCES aspect_def(aspect_def_id) ON DELETE CASCADE
+  )`,
+    ],
+  },
+  {
+    version: 3,
+    name: "create_generic_aspect_tables",
+    up: [
+      // The aspects of AspectDefs without a table of their own, laid out as in the other backends
+      `CREATE TABLE IF NOT EXISTS aspect (
+    entity_id CHAR(36) NOT NULL,
+    aspect_def_id CHAR(36) NOT NULL,
+    catalog_id CHAR(36) NOT NULL,
+    hierarchy_name VARCHAR(255) NOT NULL,
+    PRIMARY KEY (entity_id, aspect_def_id, catalog_id),
+    FOREIGN KEY (aspect_def_id) REFERENCES aspect_def(aspect_def_id),
+    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE
+  )`,
+      `CREATE TABLE IF NOT EXISTS property_value (
+    entity_id CHAR(36) NOT NULL,
+    aspect_def_id CHAR(36) NOT NULL,
+    catalog_id CHAR(36) NOT NULL,
+    property_name VARCHAR(255) NOT NULL,
+    value_index INTEGER NOT NULL DEFAULT 0,
+    value_text LONGTEXT,
+    value_binary LONGBLOB,
+    PRIMARY KEY (entity_id, aspect_def_id, catalog_id, property_name, value_index),
+    FOREIGN KEY (entity_id, aspect_def_id, catalog_id)
+      REFERENCES aspect(entity_id, aspect_def_id, catalog_id) ON DELETE CASCADE
+  )`,
+      "CREATE INDEX IF NOT EXISTS idx_aspect_catalog ON aspect(catalog_id, hierarchy_name)",
+      // Always null here; SQLite registers side tables for multivalued properties under their name
+      "ALTER TABLE aspect_table ADD COLUMN IF NOT EXISTS property_name VARCHAR(255)",
+    ],
+  },
+  {
+    version: 4,
+    name: "drop_aspect_def_name_unique",
+    up: [
+      // AspectDefs are identified by their global ID; catalogs may have AspectDefs of the same name.
+      // MariaDB names the index of a column's UNIQUE constraint after the column.
+      "ALTER TABLE aspect_def DROP INDEX IF EXISTS name",
+    ],
+  },
+];
+
+/**
+ * Creates, migrates, empties and drops the CHEAP schema in a MariaDB
+ * database. Emptying or dropping the schema also drops the aspect tables.
+ *
+ * Catalogs bring their database up to date with migrate() when they connect.
+ * The DDL of the main schema is idempotent, so executeMainSchemaDdl() can also
+ * be used directly, without recording a migration history.
+ */
+export class MariaDbCheapSchema {
+  /**
+   * Returns the migrations that build the schema, in version order.
+   */
+  migrations(): readonly Migration[] {
+    return MARIADB_MIGRATIONS;
+  }
+
+  /**
+   * Creates a SchemaMigrator for the schema in a database.
+   *
+   * @param db the pool or connection
+   */
+  migrator(db: MariaDbDatabase): SchemaMigrator {
+    return new SchemaMigrator(new MariaDbMigrationConnection(db), MARIADB_MIGRATIONS);
+  }
+
+  /**
+   * Applies all pending migrations to a database.
+   *
+   * @param db the pool or connection
+   * @returns the migrations that were applied
+   * @throws Error if the database schema is newer than this code, or a migration fails
+   */
+  async migrate(db: MariaDbDatabase): Promise<Migration[]> {
+    return this.migrator(db).migrate();
+  }
+
+  /**
+   * Creates the tables and indexes of the main schema, as of the latest
+   * migration, if they do not exist.
+   *
+   * @param db the pool or connection
+   */
+  async executeMainSchemaDdl(db: MariaDbDatabase): Promise<void> {
+    for (const migration of MARIADB_MIGRATIONS) {
+      for (const statement of migration.up) {
+        await execute(db, statement);
+      }
+    }
+  }
+
+  /**
+   * Deletes all rows from the tables of the main schema. The aspect tables are
+   * dropped first, since dropping a table commits implicitly.
+   *
+   * @param db the pool or connection
+   */
+  async executeTruncateSchemaDdl(db: MariaDbDatabase): Promise<void> {
+    await this.dropAspectTables(db);
+    await inTransaction(db, async (conn) => {
+      for (const table of MAIN_SCHEMA_TABLES) {
+        await execute(conn, `DELETE FROM ${table}`);
+      }
+    });
+  }
+
+  /**
+   * Drops all tables of the main schema, and the migration history.
+   *
+   * @param db the pool or connection
+   */
+  async executeDropSchemaDdl(db: MariaDbDatabase): Promise<void> {
+    await this.dropAspectTables(db);
+    for (const table of MAIN_SCHEMA_TABLES) {
+      await execute(db, `DROP TABLE IF EXISTS ${table}`);
+    }
+    await execute(db, `DROP TABLE IF EXISTS ${DEFAULT_MIGRATION_TABLE}`);
+  }
+
+  /**
+   * Drops the aspect tables listed in the aspect_table registry.
+   */
+  private async dropAspectTables(db: MariaDbDatabase): Promise<void> {
+    if (!(await new MariaDbMigrationConnection(db).tableExists("aspect_table"))) {
+      return;
+    }
+    const rows = await query<{ table_name: string }>(db, "SELECT table_name FROM aspect_table");
+    for (const row of rows) {
+      await execute(db, `DROP TABLE IF EXISTS \`${row.table_name.replace(/`/g, "``")}\``);
+    }
+  }
+}
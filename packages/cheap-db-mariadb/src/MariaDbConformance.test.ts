@@ -0,0 +1,42 @@
+/**
+ * Runs the catalog storage conformance suite against MariaDbCatalog, on the SQL harness
+ */
+
+import { CatalogSpecies } from "@cheap-ts/core";
+import { SqlConnectOptions } from "@cheap-ts/db";
+import {
+  CONFORMANCE_ENTITY_IDS,
+  ConformanceBackend,
+  SCALARS,
+  SkippedValue,
+  describeCatalogConformance,
+} from "@cheap-ts/db-conformance";
+import { MariaDbCatalog } from "./MariaDbCatalog.js";
+import { MariaDbSqlHarness } from "./test-support/MariaDbSqlHarness.js";
+
+/** The values that MariaDB cannot hold in native columns. */
+const COLUMN_SKIPPED_VALUES: readonly SkippedValue[] = [
+  {
+    aspectMap: SCALARS,
+    entityId: CONFORMANCE_ENTITY_IDS[1],
+    property: "Float",
+    reason: "MariaDB DOUBLE columns cannot hold infinities",
+  },
+];
+
+function mariaDbBackend(options: SqlConnectOptions): ConformanceBackend<MariaDbCatalog> {
+  const harness = new MariaDbSqlHarness();
+  const pool = harness.pool();
+  return {
+    createCatalog: (globalId) => MariaDbCatalog.create(pool, globalId, CatalogSpecies.SINK, null, options),
+    save: (catalog) => catalog.save(),
+    load: (globalId) => MariaDbCatalog.open(pool, globalId),
+    close: async () => {
+      harness.close();
+    },
+  };
+}
+
+describeCatalogConformance("MariaDB", () => mariaDbBackend({}), { skippedValues: COLUMN_SKIPPED_VALUES });
+
+describeCatalogConformance("MariaDB generic tables", () => mariaDbBackend({ aspectTables: false }));
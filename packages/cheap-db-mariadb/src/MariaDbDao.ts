@@ -0,0 +1,44 @@
+/**
+ * MariaDbDao implementation
+ */
+
+import { PropertyValueAdapter } from "@cheap-ts/core";
+import { SqlDao } from "@cheap-ts/db";
+import { MariaDbDatabase } from "./MariaDbDatabase.js";
+import { MariaDbDialect } from "./MariaDbDialect.js";
+import { MariaDbMigrationConnection } from "./MariaDbMigrationConnection.js";
+import { MariaDbValueCodec } from "./MariaDbValueCodec.js";
+
+export type { CatalogHeader } from "@cheap-ts/db";
+
+/**
+ * Reads and writes catalogs in a MariaDB database with the schema created by
+ * MariaDbCheapSchema; see SqlDao.
+ *
+ * AspectDefs given a table of their own store their aspects with a column of
+ * the native type for each property (see MariaDbValueCodec). MariaDB commits
+ * implicitly before DDL statements, so saving a catalog adds columns to the
+ * tables of its AspectDefs first, before the transaction that writes its rows
+ * begins.
+ */
+export class MariaDbDao extends SqlDao {
+  private readonly _db: MariaDbDatabase;
+
+  /**
+   * Creates a new MariaDbDao.
+   *
+   * @param db the pool or connection
+   * @param adapter the adapter used to coerce loaded values
+   */
+  constructor(db: MariaDbDatabase, adapter?: PropertyValueAdapter) {
+    super(new MariaDbMigrationConnection(db), new MariaDbDialect(), new MariaDbValueCodec(adapter));
+    this._db = db;
+  }
+
+  /**
+   * Returns the pool or connection.
+   */
+  database(): MariaDbDatabase {
+    return this._db;
+  }
+}
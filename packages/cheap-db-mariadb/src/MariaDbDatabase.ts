@@ -0,0 +1,97 @@
+/**
+ * MariaDB connection types and statement helpers
+ */
+
+import type { Connection, Pool, UpsertResult } from "mariadb";
+
+/**
+ * A mariadb connector pool, or a single connection, such as one obtained from
+ * a pool. Everything in this package that talks to the database accepts
+ * either; a connection is used as is, while a pool hands out a connection for
+ * each transaction.
+ */
+export type MariaDbDatabase = Pool | Connection;
+
+/**
+ * Returns whether a database is a pool rather than a single connection.
+ *
+ * @param db the pool or connection
+ */
+export function isPool(db: MariaDbDatabase): db is Pool {
+  return typeof (db as Partial<Pool>).getConnection === "function";
+}
+
+/**
+ * Runs a function with a single connection: the given connection itself, or a
+ * connection obtained from the given pool and released once the function
+ * settles.
+ *
+ * @param db the pool or connection
+ * @param fn the function to run
+ * @returns the result of fn
+ */
+export async function withConnection<T>(db: MariaDbDatabase, fn: (conn: Connection) => Promise<T>): Promise<T> {
+  if (!isPool(db)) {
+    return fn(db);
+  }
+  const conn = await db.getConnection();
+  try {
+    return await fn(conn);
+  } finally {
+    await conn.release();
+  }
+}
+
+/**
+ * Runs a function in a transaction on a single connection, committing if it
+ * resolves and rolling back if it rejects.
+ *
+ * MariaDB commits the running transaction implicitly before any DDL statement,
+ * so the function should only change rows.
+ *
+ * @param db the pool or connection
+ * @param fn the work to do in the transaction, on the connection that runs it
+ * @returns the result of fn
+ */
+export async function inTransaction<T>(db: MariaDbDatabase, fn: (conn: Connection) => Promise<T>): Promise<T> {
+  return withConnection(db, async (conn) => {
+    await conn.beginTransaction();
+    try {
+      const result = await fn(conn);
+      await conn.commit();
+      return result;
+    } catch (e) {
+      await conn.rollback();
+      throw e;
+    }
+  });
+}
+
+/**
+ * Runs a query and returns its rows as objects keyed by column name.
+ *
+ * DATETIME values are returned as the strings the server sends, rather than
+ * as Dates in the connection's time zone; BIGINT values come back as bigints
+ * and DECIMAL values as strings, as the connector does by default.
+ *
+ * @param db the pool or connection
+ * @param sql the query, with "?" placeholders
+ * @param values the values of the placeholders
+ * @returns the rows of the result
+ */
+export async function query<T>(db: MariaDbDatabase, sql: string, values: readonly unknown[] = []): Promise<T[]> {
+  return db.query<T[]>({ sql, dateStrings: true }, [...values]);
+}
+
+/**
+ * Executes a statement that returns no rows.
+ *
+ * @param db the pool or connection
+ * @param sql the statement, with "?" placeholders
+ * @param values the values of the placeholders
+ * @returns the number of rows the statement affected
+ */
+export async function execute(db: MariaDbDatabase, sql: string, values: readonly unknown[] = []): Promise<number> {
+  const result = await db.query<UpsertResult>({ sql }, [...values]);
+  return Number(result.affectedRows);
+}
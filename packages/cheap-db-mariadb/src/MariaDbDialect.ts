@@ -0,0 +1,44 @@
+/**
+ * MariaDbDialect implementation
+ */
+
+import { PropertyDef } from "@cheap-ts/core";
+import { SqlDialect } from "@cheap-ts/db";
+import { MariaDbValueCodec } from "./MariaDbValueCodec.js";
+
+/**
+ * The MariaDB dialect of SQL: backquoted identifiers, "?" placeholders,
+ * INSERT ... ON DUPLICATE KEY UPDATE upserts, CHAR(36) ids and the column
+ * types of MariaDbValueCodec. MariaDB commits implicitly before DDL
+ * statements, so a catalog save creates its aspect tables before the
+ * transaction that writes its rows.
+ */
+export class MariaDbDialect implements SqlDialect {
+  readonly name = "MariaDB";
+
+  readonly maxIdentifierLength = 64;
+
+  readonly transactionalDdl = false;
+
+  readonly idColumnType = "CHAR(36)";
+
+  private readonly _codec = new MariaDbValueCodec();
+
+  quoteIdentifier(identifier: string): string {
+    return `\`${identifier.replace(/`/g, "``")}\``;
+  }
+
+  placeholders(sql: string): string {
+    return sql;
+  }
+
+  upsert(table: string, keyColumns: readonly string[], columns: readonly string[]): string {
+    const allColumns = [...keyColumns, ...columns];
+    return `INSERT INTO ${table} (${allColumns.join(", ")}) VALUES (${allColumns.map(() => "?").join(", ")})
+       ON DUPLICATE KEY UPDATE ${columns.map((c) => `${c} = VALUES(${c})`).join(", ")}`;
+  }
+
+  columnType(propDef: PropertyDef): string {
+    return this._codec.columnType(propDef);
+  }
+}
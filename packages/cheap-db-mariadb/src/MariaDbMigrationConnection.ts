@@ -0,0 +1,77 @@
+/**
+ * MariaDbMigrationConnection implementation
+ */
+
+import { SqlConnection } from "@cheap-ts/db";
+import { MariaDbDatabase, execute, inTransaction, query } from "./MariaDbDatabase.js";
+
+/**
+ * SqlConnection over a mariadb connector pool or connection, used both to
+ * migrate the schema and by MariaDbDao.
+ *
+ * MariaDB uses "?" placeholders itself, so statements are passed through
+ * unchanged. A transaction runs on a single connection: on a pool, one is
+ * obtained for the duration of the transaction and every statement executed
+ * during it goes through that connection. Transactions begun while one is
+ * running join it.
+ *
+ * MariaDB commits implicitly before each DDL statement, so a migration that
+ * fails partway leaves its earlier DDL statements applied; the migration
+ * history is only updated once all of them have succeeded.
+ */
+export class MariaDbMigrationConnection implements SqlConnection {
+  private readonly _db: MariaDbDatabase;
+  private _transactionDb: MariaDbDatabase | null = null;
+
+  /**
+   * Creates a new MariaDbMigrationConnection.
+   *
+   * @param db the pool or connection to run statements on
+   */
+  constructor(db: MariaDbDatabase) {
+    this._db = db;
+  }
+
+  async execute(sql: string, params: readonly unknown[] = []): Promise<void> {
+    await execute(this.db(), sql, params);
+  }
+
+  async update(sql: string, params: readonly unknown[] = []): Promise<number> {
+    return execute(this.db(), sql, params);
+  }
+
+  async query<T>(sql: string, params: readonly unknown[] = []): Promise<T[]> {
+    return query<T>(this.db(), sql, params);
+  }
+
+  async tableExists(name: string): Promise<boolean> {
+    const rows = await query(
+      this.db(),
+      "SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?",
+      [name],
+    );
+    return rows.length > 0;
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this._transactionDb) {
+      return fn();
+    }
+    return inTransaction(this._db, async (conn) => {
+      this._transactionDb = conn;
+      try {
+        return await fn();
+      } finally {
+        this._transactionDb = null;
+      }
+    });
+  }
+
+  inTransaction(): boolean {
+    return this._transactionDb !== null;
+  }
+
+  private db(): MariaDbDatabase {
+    return this._transactionDb ?? this._db;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * MariaDbValueCodec implementation
+ */
+
+import { PropertyDef, PropertyType, PropertyValueAdapter } from "@cheap-ts/core";
+import { SqlValueCodec } from "@cheap-ts/db";
+
+/**
+ * Converts property values to and from the native MariaDB column types of
+ * aspect tables, according to their PropertyType:
+ * - Integer: BIGINT
+ * - Float: DOUBLE
+ * - Boolean: BOOLEAN, which MariaDB stores as TINYINT(1)
+ * - BigInteger: DECIMAL(65,0)
+ * - BigDecimal: DECIMAL(65,30)
+ * - DateTime: DATETIME(6), in UTC
+ * - UUID: CHAR(36), since MariaDB only has a uuid type from 10.7 on
+ * - BLOB: LONGBLOB
+ * - Text, CLOB: LONGTEXT
+ * - String, URI: TEXT
+ *
+ * DECIMAL columns hold at most 65 digits, so BigIntegers and BigDecimals
+ * beyond that do not fit, and BigDecimals are rounded to 30 decimal places.
+ * BigDecimals read back without the trailing zeros that DECIMAL(65,30) pads
+ * them with. DOUBLE columns cannot hold NaN or infinite Floats.
+ *
+ * MariaDB has no array types, so multivalued properties are stored in a
+ * LONGTEXT column as a JSON array of the text forms of their elements. The
+ * text form is also used for PropertyDef default values:
+ * - Integer, Float: decimal string (non-finite floats as "NaN", "Infinity", "-Infinity")
+ * - Boolean: "true" or "false"
+ * - BigInteger, BigDecimal: string of decimal digits
+ * - DateTime: ISO-8601 string in UTC
+ * - BLOB: lowercase hex digits
+ * - String, Text, CLOB, UUID, URI: the string itself
+ */
+export class MariaDbValueCodec implements SqlValueCodec {
+  private readonly _adapter: PropertyValueAdapter;
+
+  /**
+   * Creates a new MariaDbValueCodec.
+   *
+   * @param adapter the adapter used to coerce decoded values; defaults to a new adapter in the local time zone
+   */
+  constructor(adapter?: PropertyValueAdapter) {
+    this._adapter = adapter ?? new PropertyValueAdapter();
+  }
+
+  /**
+   * Returns the MariaDB column type that holds values of a property.
+   *
+   * @param propDef the PropertyDef
+   */
+  columnType(propDef: PropertyDef): string {
+    if (propDef.isMultivalued()) {
+      return "LONGTEXT";
+    }
+    switch (propDef.type()) {
+      case PropertyType.Integer:
+        return "BIGINT";
+      case PropertyType.Float:
+        return "DOUBLE";
+      case PropertyType.Boolean:
+        return "BOOLEAN";
+      case PropertyType.BigInteger:
+        return "DECIMAL(65,0)";
+      case PropertyType.BigDecimal:
+        return "DECIMAL(65,30)";
+      case PropertyType.DateTime:
+        return "DATETIME(6)";
+      case PropertyType.UUID:
+        return "CHAR(36)";
+      case PropertyType.BLOB:
+        return "LONGBLOB";
+      case PropertyType.Text:
+      case PropertyType.CLOB:
+        return "LONGTEXT";
+      default:
+        return "TEXT";
+    }
+  }
+
+  /**
+   * Converts a property value to the value bound to its column.
+   *
+   * @param propDef the PropertyDef
+   * @param value the value, which may be null
+   * @returns the column value
+   * @throws Error if a Float value is NaN or infinite
+   */
+  toNative(propDef: PropertyDef, value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const type = propDef.type();
+    if (propDef.isMultivalued()) {
+      return JSON.stringify(
+        (value as unknown[]).map((element) =>
+          element === null || element === undefined ? null : this.toText(type, element),
+        ),
+      );
+    }
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float: {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          throw new Error(`Property '${propDef.name()}' cannot store ${number} in a MariaDB column.`);
+        }
+        return number;
+      }
+      case PropertyType.Boolean:
+        return value === true || value === "true";
+      case PropertyType.DateTime:
+        return formatDateTime(this._adapter.coerceToDate(value));
+      case PropertyType.BLOB:
+        return Buffer.from(this._adapter.coerceToByteArray(value));
+      default:
+        // DECIMAL accepts the decimal string of a bigint or BigDecimal
+        return this.toText(type, value);
+    }
+  }
+
+  /**
+   * Converts a column value read from an aspect table back to a property
+   * value, coerced to the property's JS type.
+   *
+   * @param propDef the PropertyDef
+   * @param stored the column value
+   * @returns the value, or null if the column is null
+   */
+  fromNative(propDef: PropertyDef, stored: unknown): unknown {
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+    const type = propDef.type();
+    if (propDef.isMultivalued()) {
+      const elements = JSON.parse(String(stored)) as (string | null)[];
+      return this.coerce(
+        propDef,
+        elements.map((element) => (element === null ? null : this.fromText(type, element))),
+      );
+    }
+    let value: unknown;
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        // The connector returns BIGINT columns as bigints
+        value = Number(stored);
+        break;
+      case PropertyType.Boolean:
+        // BOOLEAN columns are TINYINT(1), read as 0 or 1
+        value = Number(stored) !== 0;
+        break;
+      case PropertyType.BigDecimal:
+        value = trimDecimal(String(stored));
+        break;
+      case PropertyType.DateTime:
+        value = stored instanceof Date ? stored : parseDateTime(String(stored));
+        break;
+      case PropertyType.BLOB:
+        value = new Uint8Array(stored as Uint8Array);
+        break;
+      default:
+        value = this.fromText(type, String(stored));
+    }
+    return this.coerce(propDef, value);
+  }
+
+  /**
+   * Converts a single (non-collection) non-null value to its text form.
+   *
+   * @param type the property type
+   * @param value the value
+   * @returns the text form of the value
+   */
+  toText(type: PropertyType, value: unknown): string {
+    switch (type) {
+      case PropertyType.DateTime:
+        return this._adapter.coerceToDate(value).toISOString();
+      case PropertyType.BLOB:
+        return Buffer.from(this._adapter.coerceToByteArray(value)).toString("hex");
+      default:
+        // Numbers, booleans, bigints, URLs and strings all have the right String() form
+        return String(value);
+    }
+  }
+
+  /**
+   * Converts the text form of a single (non-collection) value back to a value.
+   * The result still needs to be coerced to the property's JS type.
+   *
+   * @param type the property type
+   * @param text the text form
+   * @returns the value
+   */
+  fromText(type: PropertyType, text: string): unknown {
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        return Number(text);
+      default:
+        // The adapter parses booleans, bigints, dates, URLs and hex BLOBs from strings
+        return text;
+    }
+  }
+
+  /**
+   * Converts the default value of a PropertyDef to text. Multivalued defaults
+   * are written as a JSON array of the text forms of their elements.
+   *
+   * @param propDef the PropertyDef
+   * @returns the text form of the default, or null if it is null
+   */
+  defaultToText(propDef: PropertyDef): string | null {
+    const value = propDef.defaultValue();
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      return JSON.stringify(
+        (value as unknown[]).map((element) => (element === null ? null : this.toText(propDef.type(), element))),
+      );
+    }
+    return this.toText(propDef.type(), value);
+  }
+
+  /**
+   * Converts the text form of a default value back to a value of a PropertyDef.
+   *
+   * @param propDef a nullable PropertyDef with the type and multiplicity of the default
+   * @param text the text form, or null
+   * @returns the default value, coerced to the property's JS type
+   */
+  defaultFromText(propDef: PropertyDef, text: string | null): unknown {
+    if (text === null) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      const elements = JSON.parse(text) as (string | null)[];
+      return this.coerce(
+        propDef,
+        elements.map((element) => (element === null ? null : this.fromText(propDef.type(), element))),
+      );
+    }
+    return this.coerce(propDef, this.fromText(propDef.type(), text));
+  }
+
+  /**
+   * Coerces a decoded value to the JS type of a PropertyDef.
+   *
+   * @param propDef the PropertyDef
+   * @param value the decoded value
+   * @returns the coerced value
+   */
+  coerce(propDef: PropertyDef, value: unknown): unknown {
+    return this._adapter.coerce(propDef, value);
+  }
+}
+
+/**
+ * Formats a Date as a DATETIME(6) literal in UTC, such as "2025-06-01 12:00:00.123000".
+ */
+function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 23).replace("T", " ")}000`;
+}
+
+/**
+ * Parses a DATETIME literal in UTC. Digits beyond milliseconds are dropped.
+ */
+function parseDateTime(text: string): Date {
+  return new Date(`${text.replace(" ", "T")}Z`);
+}
+
+/**
+ * Removes the trailing zeros of the fractional part of a decimal string, and
+ * the decimal point if nothing is left after it.
+ */
+function trimDecimal(text: string): string {
+  return text.includes(".") ? text.replace(/\.?0+$/, "") : text;
+}
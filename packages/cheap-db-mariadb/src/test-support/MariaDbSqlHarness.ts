@@ -0,0 +1,536 @@
+/**
+ * MariaDbSqlHarness implementation
+ */
+
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import type { Connection, Pool, QueryOptions } from "mariadb";
+
+/** The maximum length of a MariaDB table, column or index name. */
+const MAX_IDENTIFIER_LENGTH = 64;
+
+/** The maximum total length in bytes of the columns of an InnoDB index. */
+const MAX_KEY_LENGTH = 3072;
+
+/** The schema name that DATABASE() returns. */
+const SCHEMA_NAME = "cheap";
+
+/** SQL that is valid in PostgreSQL or SQLite but not in MariaDB, with the reason. */
+const FOREIGN_SYNTAX: readonly [RegExp, string][] = [
+  [/"/, "double quotes delimit strings, not identifiers"],
+  [/\$\d/, "placeholders are '?', not numbered"],
+  [/\bON\s+CONFLICT\b/i, "upserts use ON DUPLICATE KEY UPDATE"],
+  [/\bINSERT\s+OR\b/i, "INSERT OR is SQLite syntax"],
+  [/::/, "casts use CAST()"],
+  [/\[\]/, "there are no array types"],
+  [/\b(?:uuid|timestamptz|bytea|jsonb|serial|bigserial)\b/i, "the column type does not exist"],
+  [/\bILIKE\b/i, "ILIKE does not exist"],
+];
+
+/**
+ * A MariaDB column type and how the connector reads it back.
+ */
+interface ColumnType {
+  /** The type as declared, in upper case, such as "DECIMAL(65,30)". */
+  declared: string;
+
+  /** The number of bytes the column takes in an index, or null if it cannot be indexed in full. */
+  keyBytes: number | null;
+}
+
+/**
+ * A stand-in for a MariaDB server, for tests that run without one. It checks
+ * every statement against the MariaDB dialect, and runs it on an in-memory
+ * SQLite database.
+ *
+ * Statements are rejected with an Error naming the problem if they use syntax
+ * MariaDB does not have (see FOREIGN_SYNTAX), declare foreign keys on columns
+ * (which MariaDB parses but ignores), index TEXT or BLOB columns without a key
+ * length, exceed the InnoDB key length, or use identifiers longer than 64
+ * characters. MariaDB column types, information_schema.tables, DATABASE(),
+ * ON DUPLICATE KEY UPDATE, ADD COLUMN IF NOT EXISTS and DROP INDEX are
+ * translated for SQLite.
+ *
+ * Results look like the connector's: rows are objects keyed by column name,
+ * with BIGINT values as bigints, DECIMAL values as strings, BOOLEAN and other
+ * integer values as numbers, DATETIME values as strings when the query asks
+ * for dateStrings and as Dates otherwise, and LONGBLOB values as Buffers.
+ * Other statements return an object with the number of affectedRows.
+ *
+ * Every pool and connection handed out shares the one database, and at most
+ * one transaction. As in MariaDB, a DDL statement or beginning a transaction
+ * commits the running transaction implicitly.
+ */
+export class MariaDbSqlHarness {
+  private readonly _sqlite: Database;
+  private readonly _statements: string[] = [];
+
+  /** The declared column types of each table, by table name and column name. */
+  private readonly _tables = new Map<string, Map<string, ColumnType>>();
+
+  private _inTransaction = false;
+
+  /**
+   * Creates a new harness with an empty database.
+   */
+  constructor() {
+    this._sqlite = new BetterSqlite3(":memory:");
+    this._sqlite.pragma("foreign_keys = ON");
+    this._sqlite.defaultSafeIntegers(true);
+  }
+
+  /**
+   * Returns every statement received so far, in order, as it was sent.
+   */
+  statements(): readonly string[] {
+    return this._statements;
+  }
+
+  /**
+   * Returns whether a transaction is in progress.
+   */
+  inTransaction(): boolean {
+    return this._inTransaction;
+  }
+
+  /**
+   * Returns an object that stands in for a connector pool. Its connections
+   * come from connection(); ending it does nothing.
+   */
+  pool(): Pool {
+    const pool = {
+      getConnection: async () => this.connection(),
+      query: async (sql: string | QueryOptions, values?: unknown) => this.query(sql, values),
+      end: async () => {},
+    };
+    return pool as unknown as Pool;
+  }
+
+  /**
+   * Returns an object that stands in for a connector connection. Releasing or
+   * ending it does nothing.
+   */
+  connection(): Connection {
+    const connection = {
+      query: async (sql: string | QueryOptions, values?: unknown) => this.query(sql, values),
+      beginTransaction: async () => {
+        this.commit();
+        this._sqlite.exec("BEGIN");
+        this._inTransaction = true;
+      },
+      commit: async () => this.commit(),
+      rollback: async () => {
+        if (this._inTransaction) {
+          this._sqlite.exec("ROLLBACK");
+          this._inTransaction = false;
+        }
+      },
+      release: async () => {},
+      end: async () => {},
+    };
+    return connection as unknown as Connection;
+  }
+
+  /**
+   * Closes the SQLite database.
+   */
+  close(): void {
+    this._sqlite.close();
+  }
+
+  /**
+   * Runs a single MariaDB statement.
+   *
+   * @param sql the statement, or query options holding it
+   * @param values the values of its "?" placeholders
+   * @returns the rows of a query, or the affected row count of another statement
+   * @throws Error if the statement is not valid MariaDB SQL, or fails
+   */
+  query(sql: string | QueryOptions, values?: unknown): unknown {
+    const options = typeof sql === "string" ? { sql } : sql;
+    const statement = options.sql.trim();
+    this._statements.push(statement);
+    checkSyntax(statement);
+
+    const isDdl = /^(?:CREATE|ALTER|DROP|TRUNCATE|RENAME)\b/i.test(statement);
+    if (isDdl) {
+      this.commit();
+    }
+    const translated = isDdl ? this.translateDdl(statement) : translateQuery(statement);
+    if (translated === null) {
+      return { affectedRows: 0, insertId: 0n, warningStatus: 1 };
+    }
+
+    const prepared = this._sqlite.prepare(translated);
+    const params = ((values ?? []) as unknown[]).map(toSqlite);
+    if (!prepared.reader) {
+      const info = prepared.run(...params);
+      return { affectedRows: isDdl ? 0 : info.changes, insertId: BigInt(info.lastInsertRowid), warningStatus: 0 };
+    }
+    const columns = prepared.columns();
+    const rows = prepared.all(...params) as Record<string, unknown>[];
+    return rows.map((row) => {
+      const result: Record<string, unknown> = {};
+      for (const column of columns) {
+        const type = column.table && column.column ? this._tables.get(column.table)?.get(column.column) : undefined;
+        result[column.name] = fromSqlite(row[column.name], type, options.dateStrings ?? false);
+      }
+      return result;
+    });
+  }
+
+  private commit(): void {
+    if (this._inTransaction) {
+      this._sqlite.exec("COMMIT");
+      this._inTransaction = false;
+    }
+  }
+
+  /**
+   * Checks a DDL statement and records the column types it declares.
+   *
+   * @returns the statement to run on SQLite, or null if there is nothing more to run
+   */
+  private translateDdl(statement: string): string | null {
+    let match = /^CREATE\s+TABLE\s+(IF\s+NOT\s+EXISTS\s+)?(\S+)\s*\(([\s\S]*)\)$/i.exec(statement);
+    if (match) {
+      const table = identifier(match[2]);
+      if (this._tables.has(table)) {
+        if (match[1]) {
+          return null;
+        }
+        throw new Error(`Table '${table}' already exists.`);
+      }
+      this._tables.set(table, this.checkTableBody(table, match[3]));
+      return translateTypes(statement);
+    }
+
+    match = /^ALTER\s+TABLE\s+(\S+)\s+ADD\s+COLUMN\s+(IF\s+NOT\s+EXISTS\s+)?(\S+)\s+([\s\S]+)$/i.exec(statement);
+    if (match) {
+      const table = identifier(match[1]);
+      const columns = this._tables.get(table);
+      if (!columns) {
+        throw new Error(`Table '${table}' doesn't exist.`);
+      }
+      const column = identifier(match[3]);
+      if (columns.has(column)) {
+        if (match[2]) {
+          return null;
+        }
+        throw new Error(`Duplicate column name '${column}'.`);
+      }
+      columns.set(column, checkColumn(column, match[4]));
+      return translateTypes(`ALTER TABLE ${match[1]} ADD COLUMN ${match[3]} ${match[4]}`);
+    }
+
+    match = /^CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?(\S+)\s+ON\s+(\S+?)\s*\(([^)]*)\)$/i.exec(
+      statement,
+    );
+    if (match) {
+      checkIdentifier(identifier(match[1]));
+      const table = identifier(match[2]);
+      const columns = this._tables.get(table);
+      if (!columns) {
+        throw new Error(`Table '${table}' doesn't exist.`);
+      }
+      checkKey(columns, match[3]);
+      return statement;
+    }
+
+    match = /^ALTER\s+TABLE\s+(\S+)\s+DROP\s+INDEX\s+(IF\s+EXISTS\s+)?(\S+)$/i.exec(statement);
+    if (match) {
+      const table = identifier(match[1]);
+      if (!this._tables.has(table)) {
+        throw new Error(`Table '${table}' doesn't exist.`);
+      }
+      const index = identifier(match[3]);
+      const indexes = this._sqlite
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL")
+        .pluck()
+        .all(table) as string[];
+      if (indexes.includes(index)) {
+        return `DROP INDEX ${index}`;
+      }
+      if (this.dropColumnUnique(table, index)) {
+        return null;
+      }
+      if (match[2]) {
+        return null;
+      }
+      throw new Error(`Can't DROP INDEX '${index}'; check that it exists.`);
+    }
+
+    match = /^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(\S+)$/i.exec(statement);
+    if (match) {
+      this._tables.delete(identifier(match[1]));
+      return statement;
+    }
+    throw new Error(`The harness does not support this DDL statement: ${statement}`);
+  }
+
+  /**
+   * Drops the UNIQUE constraint of a column, whose index MariaDB names after
+   * the column. SQLite cannot drop it, so the table is rebuilt without it.
+   *
+   * @returns whether the column had a UNIQUE constraint
+   */
+  private dropColumnUnique(table: string, column: string): boolean {
+    const ddl = this._sqlite
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .pluck()
+      .get(table) as string;
+    const unique = new RegExp(`((?:^|[(,])\\s*\`?${column}\`?\\s[^,]*?)\\s+UNIQUE\\b`, "im");
+    if (!unique.test(ddl)) {
+      return false;
+    }
+    const indexes = this._sqlite
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL")
+      .pluck()
+      .all(table) as string[];
+    const rebuilt = `${table}__rebuilt`;
+    this._sqlite.pragma("foreign_keys = OFF");
+    try {
+      this._sqlite.exec(
+        ddl.replace(unique, "$1").replace(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?\S+/i, `CREATE TABLE ${rebuilt}`),
+      );
+      this._sqlite.exec(`INSERT INTO ${rebuilt} SELECT * FROM ${table}`);
+      this._sqlite.exec(`DROP TABLE ${table}`);
+      this._sqlite.exec(`ALTER TABLE ${rebuilt} RENAME TO ${table}`);
+      for (const index of indexes) {
+        this._sqlite.exec(index);
+      }
+    } finally {
+      this._sqlite.pragma("foreign_keys = ON");
+    }
+    return true;
+  }
+
+  /**
+   * Checks the column definitions and constraints of a CREATE TABLE statement.
+   *
+   * @returns the declared column types
+   */
+  private checkTableBody(table: string, body: string): Map<string, ColumnType> {
+    checkIdentifier(table);
+    const columns = new Map<string, ColumnType>();
+    const constraints: string[] = [];
+    for (const item of splitTopLevel(body)) {
+      if (/^(?:PRIMARY\s+KEY|UNIQUE|FOREIGN\s+KEY|CHECK|CONSTRAINT|INDEX|KEY)\b/i.test(item)) {
+        constraints.push(item);
+        continue;
+      }
+      const match = /^(\S+)\s+([\s\S]+)$/.exec(item);
+      if (!match) {
+        throw new Error(`Cannot parse the column definition '${item}'.`);
+      }
+      const column = identifier(match[1]);
+      columns.set(column, checkColumn(column, match[2]));
+      if (/\b(?:PRIMARY\s+KEY|UNIQUE)\b/i.test(match[2])) {
+        checkKey(columns, match[1]);
+      }
+    }
+    for (const constraint of constraints) {
+      const keyColumns = /^(?:PRIMARY\s+KEY|UNIQUE|FOREIGN\s+KEY|INDEX|KEY)\s*\(([^)]*)\)/i.exec(constraint);
+      if (keyColumns) {
+        checkKey(columns, keyColumns[1]);
+      }
+      const references = /\bREFERENCES\s+(\S+?)\s*\(/i.exec(constraint);
+      if (references && identifier(references[1]) !== table && !this._tables.has(identifier(references[1]))) {
+        throw new Error(`Table '${table}' references '${identifier(references[1])}', which doesn't exist.`);
+      }
+    }
+    return columns;
+  }
+}
+
+/**
+ * Rejects a statement that uses syntax MariaDB does not have. String literals
+ * and backquoted identifiers are not checked.
+ */
+function checkSyntax(statement: string): void {
+  const code = statement.replace(/'(?:[^'\\]|''|\\.)*'/g, "''").replace(/`(?:[^`]|``)*`/g, "``");
+  for (const [pattern, reason] of FOREIGN_SYNTAX) {
+    if (pattern.test(code)) {
+      throw new Error(`Not MariaDB SQL (${reason}): ${statement}`);
+    }
+  }
+}
+
+/**
+ * Checks a column definition and returns its type.
+ */
+function checkColumn(column: string, definition: string): ColumnType {
+  checkIdentifier(column);
+  if (/\bREFERENCES\b/i.test(definition)) {
+    throw new Error(`Not MariaDB SQL (REFERENCES on a column is ignored): ${column} ${definition}`);
+  }
+  const match = /^([A-Za-z]+(?:\(\d+(?:,\d+)?\))?)/.exec(definition);
+  if (!match) {
+    throw new Error(`Cannot parse the type of column '${column}'.`);
+  }
+  const declared = match[1].toUpperCase();
+  return { declared, keyBytes: keyBytes(declared) };
+}
+
+/**
+ * Returns the number of bytes a column of a type takes in an index, counting
+ * four bytes per utf8mb4 character, or null for TEXT and BLOB types.
+ */
+function keyBytes(declared: string): number | null {
+  const base = declared.replace(/\(.*$/, "");
+  const length = Number(/\((\d+)/.exec(declared)?.[1] ?? 0);
+  switch (base) {
+    case "CHAR":
+    case "VARCHAR":
+      return 4 * length;
+    case "BOOLEAN":
+    case "TINYINT":
+      return 1;
+    case "INT":
+    case "INTEGER":
+      return 4;
+    case "BIGINT":
+    case "DOUBLE":
+    case "DATETIME":
+      return 8;
+    case "DECIMAL":
+      return 32;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks that the columns of a key exist, can be indexed in full, and fit
+ * within the InnoDB key length.
+ */
+function checkKey(columns: Map<string, ColumnType>, columnList: string): void {
+  let total = 0;
+  for (const name of columnList.split(",").map((column) => identifier(column))) {
+    const type = columns.get(name);
+    if (!type) {
+      throw new Error(`Key column '${name}' doesn't exist in table.`);
+    }
+    if (type.keyBytes === null) {
+      throw new Error(`BLOB/TEXT column '${name}' used in key specification without a key length.`);
+    }
+    total += type.keyBytes;
+  }
+  if (total > MAX_KEY_LENGTH) {
+    throw new Error(`Specified key was too long; max key length is ${MAX_KEY_LENGTH} bytes.`);
+  }
+}
+
+function checkIdentifier(name: string): void {
+  if (name.length > MAX_IDENTIFIER_LENGTH) {
+    throw new Error(`Identifier name '${name}' is too long.`);
+  }
+}
+
+/**
+ * Removes the backquotes and surrounding whitespace of an identifier.
+ */
+function identifier(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.startsWith("`") ? trimmed.slice(1, -1).replace(/``/g, "`") : trimmed;
+}
+
+/**
+ * Splits the body of a CREATE TABLE statement at the commas that are not
+ * inside parentheses.
+ */
+function splitTopLevel(body: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c === "(") {
+      depth++;
+    } else if (c === ")") {
+      depth--;
+    } else if (c === "," && depth === 0) {
+      items.push(body.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  items.push(body.slice(start).trim());
+  return items.filter((item) => item.length > 0);
+}
+
+/**
+ * Replaces MariaDB column types whose SQLite type affinity would change the
+ * stored values: DECIMAL values stay exact strings, and DATETIME values stay
+ * text.
+ */
+function translateTypes(statement: string): string {
+  return statement
+    .replace(/\bDECIMAL\(\d+,\d+\)/gi, "TEXT")
+    .replace(/\bDATETIME\(\d\)/gi, "TEXT")
+    .replace(/\b(?:LONG|MEDIUM)TEXT\b/gi, "TEXT")
+    .replace(/\bLONGBLOB\b/gi, "BLOB");
+}
+
+/**
+ * Maps information_schema.tables and DATABASE() onto the SQLite catalog, and
+ * ON DUPLICATE KEY UPDATE onto an SQLite upsert.
+ */
+function translateQuery(statement: string): string {
+  const upsert = /\bON\s+DUPLICATE\s+KEY\s+UPDATE\b/i.exec(statement);
+  if (upsert) {
+    // SQLite resolves a conflict on any unique key when the upsert names no conflict target
+    const assignments = statement
+      .slice(upsert.index + upsert[0].length)
+      .replace(/\bVALUES\((`?)(\w+)\1\)/gi, "excluded.$2");
+    statement = `${statement.slice(0, upsert.index)}ON CONFLICT DO UPDATE SET${assignments}`;
+  }
+  return statement
+    .replace(
+      /\binformation_schema\.tables\b/gi,
+      `(SELECT name AS table_name, '${SCHEMA_NAME}' AS table_schema FROM sqlite_master WHERE type = 'table')`,
+    )
+    .replace(/\bDATABASE\(\)/gi, `'${SCHEMA_NAME}'`);
+}
+
+/**
+ * Converts a statement parameter the way the connector sends it.
+ */
+function toSqlite(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 23).replace("T", " ");
+  }
+  return value;
+}
+
+/**
+ * Converts a column value read from SQLite the way the connector would
+ * return a value of the column's MariaDB type.
+ */
+function fromSqlite(value: unknown, type: ColumnType | undefined, dateStrings: boolean): unknown {
+  if (value === null || type === undefined) {
+    return value;
+  }
+  const base = type.declared.replace(/\(.*$/, "");
+  switch (base) {
+    case "BIGINT":
+      return BigInt(value as bigint);
+    case "BOOLEAN":
+    case "TINYINT":
+    case "INT":
+    case "INTEGER":
+    case "DOUBLE":
+      return Number(value);
+    case "DECIMAL":
+      return String(value);
+    case "DATETIME":
+      return dateStrings ? String(value) : new Date(String(value).replace(" ", "T"));
+    default:
+      return value;
+  }
+}
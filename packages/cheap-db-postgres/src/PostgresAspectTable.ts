@@ -0,0 +1,45 @@
+/**
+ * PostgresAspectTable implementation
+ */
+
+import { AspectDef } from "@cheap-ts/core";
+import { SqlAspectTable } from "@cheap-ts/db";
+import { PostgresDatabase } from "./PostgresDatabase.js";
+import { PostgresDialect } from "./PostgresDialect.js";
+import { PostgresMigrationConnection } from "./PostgresMigrationConnection.js";
+import { PostgresValueCodec } from "./PostgresValueCodec.js";
+
+/**
+ * The table that stores the aspects of one AspectDef in a PostgreSQL
+ * database; see SqlAspectTable.
+ *
+ * Property columns have the native type for their PropertyType (see
+ * PostgresValueCodec.columnType()). Multivalued properties are text[]
+ * columns, so null and empty arrays are kept apart.
+ */
+export class PostgresAspectTable extends SqlAspectTable {
+  /**
+   * Creates a new PostgresAspectTable. This does not create the table; see create().
+   *
+   * @param db the pool or client
+   * @param codec the codec that converts property values to column values
+   * @param aspectDef the AspectDef whose aspects the table stores
+   * @param tableName the name of the table
+   * @throws Error if the table name or a property name is longer than 63
+   *   characters, or a property name conflicts with a key column
+   */
+  constructor(db: PostgresDatabase, codec: PostgresValueCodec, aspectDef: AspectDef, tableName: string) {
+    super(new PostgresMigrationConnection(db), new PostgresDialect(), codec, aspectDef, tableName);
+  }
+
+  /**
+   * Returns the default table name for an AspectDef: "aspect_" followed by its
+   * name, with every character other than a letter, digit or underscore
+   * replaced by an underscore, cut to 63 characters.
+   *
+   * @param aspectDef the AspectDef
+   */
+  static defaultTableName(aspectDef: AspectDef): string {
+    return SqlAspectTable.defaultTableName(aspectDef, new PostgresDialect());
+  }
+}
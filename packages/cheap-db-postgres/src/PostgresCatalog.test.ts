@@ -0,0 +1,786 @@
+/**
+ * Unit tests for PostgresCatalog and PostgresDao, run against pg-mem
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import type { Pool } from "pg";
+import { newDb } from "pg-mem";
+import {
+  AspectObjectMapImpl,
+  CatalogImpl,
+  CatalogSpecies,
+  EntityDirectoryHierarchy,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchy,
+  EntityListHierarchyImpl,
+  EntitySetHierarchy,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { PostgresAspectTable } from "./PostgresAspectTable.js";
+import { PostgresCatalog } from "./PostgresCatalog.js";
+import { PostgresDao } from "./PostgresDao.js";
+import { JsonbPropertyFilter, PostgresJsonbAspectTable } from "./PostgresJsonbAspectTable.js";
+import { PostgresValueCodec } from "./PostgresValueCodec.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const UPSTREAM_ID = "10000000-0000-0000-0000-0000000000ff";
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+function allTypesAspectDef(extra: PropertyDef[] = []): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("int", PropertyType.Integer);
+  add("flt", PropertyType.Float);
+  add("bln", PropertyType.Boolean);
+  add("str", PropertyType.String);
+  add("txt", PropertyType.Text);
+  add("bgi", PropertyType.BigInteger);
+  add("bgf", PropertyType.BigDecimal);
+  add("dat", PropertyType.DateTime);
+  add("uri", PropertyType.URI);
+  add("uid", PropertyType.UUID);
+  add("clb", PropertyType.CLOB);
+  add("blb", PropertyType.BLOB);
+  add("tags", PropertyType.String, true);
+  propDefs.set(
+    "count",
+    new PropertyDefBuilder().setName("count").setType(PropertyType.BigInteger).setDefaultValue(5n).build(),
+  );
+  propDefs.set(
+    "stamps",
+    new PropertyDefBuilder()
+      .setName("stamps")
+      .setType(PropertyType.DateTime)
+      .setIsMultivalued(true)
+      .setDefaultValue([new Date("2000-01-01T00:00:00.000Z")])
+      .build(),
+  );
+  for (const propDef of extra) {
+    propDefs.set(propDef.name(), propDef);
+  }
+  return new FullAspectDefImpl("allTypes", ASPECT_DEF_ID, propDefs, true, true, false, true);
+}
+
+function populate(catalog: CatalogImpl): void {
+  catalog.setUri(new URL("https://example.com/catalogs/test"));
+  const e1 = new EntityImpl(ID1);
+  const e2 = new EntityImpl(ID2);
+  const e3 = new EntityImpl(ID3);
+
+  const aspectMap = catalog.extend(allTypesAspectDef());
+  const full = new AspectObjectMapImpl(e1, aspectMap.aspectDef());
+  full.write("int", 7);
+  full.write("flt", 2.5);
+  full.write("bln", false);
+  full.write("str", "short");
+  full.write("txt", "long text");
+  // pg-mem keeps numeric values as doubles, and bytea values as UTF-8 strings,
+  // so these stay within what it can round-trip; see the PostgresValueCodec tests for the full ranges
+  full.write("bgi", 1234567890123n);
+  full.write("bgf", "3.25");
+  full.write("dat", new Date("2025-06-01T12:00:00.123Z"));
+  full.write("uri", new URL("https://example.com/x"));
+  full.write("uid", "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  full.write("clb", "clob");
+  full.write("blb", new Uint8Array([0, 1, 127]));
+  full.write("tags", ["a", "b"]);
+  full.write("stamps", [new Date("2001-02-03T04:05:06.007Z")]);
+  aspectMap.add(full);
+  const sparse = new AspectObjectMapImpl(e2, aspectMap.aspectDef());
+  sparse.write("tags", []);
+  aspectMap.add(sparse);
+
+  const list = new EntityListHierarchyImpl(catalog, "list", 0, 4);
+  list.push(e1, e2, e1);
+  new EntitySetHierarchyImpl(catalog, "set", [e3, e2], 1);
+  new EntityDirectoryHierarchyImpl(
+    catalog,
+    "dir",
+    [
+      ["first", e1],
+      ["third", e3],
+    ],
+    2,
+  );
+  const root = new EntityTreeNodeImpl(e1);
+  const folder = new EntityTreeNodeImpl(null, root);
+  root.set("folder", folder);
+  folder.set("leaf", new EntityTreeNodeImpl(e3, folder));
+  root.set("other", new EntityTreeNodeImpl(e2, root));
+  new EntityTreeHierarchyImpl(catalog, "tree", root, 5);
+}
+
+function expectPopulated(catalog: CatalogImpl): void {
+  expect(catalog.uri()?.toString()).toBe("https://example.com/catalogs/test");
+  expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["allTypes", "list", "set", "dir", "tree"]);
+  expect(Array.from(catalog.hierarchies(), (h) => h.version())).toEqual([0, 4, 1, 2, 5]);
+
+  const aspectMap = catalog.aspects("allTypes")!;
+  expect(aspectMap.aspectDef().hash()).toBe(allTypesAspectDef().hash());
+  expect(aspectMap.aspectDef().propertyDef("count")?.defaultValue()).toBe(5n);
+  expect(aspectMap.aspectDef().propertyDef("stamps")?.defaultValue()).toEqual([new Date("2000-01-01T00:00:00.000Z")]);
+  const [[e1, full], [e2, sparse]] = Array.from(aspectMap);
+  expect(e1.globalId()).toBe(ID1);
+  expect(full.readObj("int")).toBe(7);
+  expect(full.readObj("flt")).toBe(2.5);
+  expect(full.readObj("bln")).toBe(false);
+  expect(full.readObj("str")).toBe("short");
+  expect(full.readObj("txt")).toBe("long text");
+  expect(full.readObj("bgi")).toBe(1234567890123n);
+  expect(full.readObj("bgf")).toBe("3.25");
+  expect(full.readObj("dat")).toEqual(new Date("2025-06-01T12:00:00.123Z"));
+  expect(full.readObj("uri")).toEqual(new URL("https://example.com/x"));
+  expect(full.readObj("uid")).toBe("6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  expect(full.readObj("clb")).toBe("clob");
+  expect(full.readObj("blb")).toEqual(new Uint8Array([0, 1, 127]));
+  expect(full.readObj("tags")).toEqual(["a", "b"]);
+  expect(full.readObj("stamps")).toEqual([new Date("2001-02-03T04:05:06.007Z")]);
+  expect(full.readObj("count")).toBe(5n);
+
+  expect(e2.globalId()).toBe(ID2);
+  expect(sparse.readObj("tags")).toEqual([]);
+  expect(sparse.contains("int")).toBe(false);
+  expect(sparse.readObj("count")).toBe(5n);
+
+  const list = catalog.hierarchy("list") as EntityListHierarchy;
+  expect(Array.from(list, (e) => e.globalId())).toEqual([ID1, ID2, ID1]);
+  expect(list[0]).toBe(e1);
+
+  const set = catalog.hierarchy("set") as EntitySetHierarchy;
+  expect(Array.from(set, (e) => e.globalId())).toEqual([ID3, ID2]);
+  expect(set.has(e2)).toBe(true);
+
+  const dir = catalog.hierarchy("dir") as EntityDirectoryHierarchy;
+  expect(Array.from(dir.keys())).toEqual(["first", "third"]);
+  expect(dir.get("first")).toBe(e1);
+
+  const tree = catalog.hierarchy("tree") as EntityTreeHierarchy;
+  expect(tree.root().value()).toBe(e1);
+  expect(Array.from(tree.root().keys())).toEqual(["folder", "other"]);
+  expect(tree.root().get("folder")?.value()).toBeNull();
+  expect(tree.root().get("folder")?.get("leaf")?.value()?.globalId()).toBe(ID3);
+  expect(tree.root().get("folder")?.get("leaf")?.getParent()).toBe(tree.root().get("folder"));
+  expect(tree.root().get("other")?.value()).toBe(e2);
+}
+
+async function count(pool: Pool, table: string): Promise<number> {
+  const result = await pool.query(`SELECT COUNT(*) AS n FROM ${table}`);
+  return Number(result.rows[0].n);
+}
+
+describe("PostgresCatalog", () => {
+  let pool: Pool;
+
+  beforeEach(() => {
+    // pg-mem refuses CREATE TABLE IF NOT EXISTS for an existing table unless this check is off
+    const { Pool: MemPool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+    pool = new MemPool() as Pool;
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it("should save and load every part of a catalog", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID, CatalogSpecies.CLONE, UPSTREAM_ID, 3);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    await catalog.close();
+
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    expect(loaded.globalId()).toBe(CATALOG_ID);
+    expect(loaded.species()).toBe(CatalogSpecies.CLONE);
+    expect(loaded.upstream()).toBe(UPSTREAM_ID);
+    expect(loaded.version()).toBe(3);
+    expectPopulated(loaded);
+    await loaded.close();
+
+    const plain = await new PostgresDao(pool).loadCatalog(CATALOG_ID);
+    expectPopulated(plain!);
+  });
+
+  it("should store property values in native columns", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const table = await new PostgresDao(pool).aspectTable(allTypesAspectDef());
+    expect(table?.tableName()).toBe("aspect_allTypes");
+    const result = await pool.query(
+      `SELECT "int", "bln", "dat", "uid", "blb", "tags", "stamps" FROM "aspect_allTypes" WHERE entity_id = $1`,
+      [ID1],
+    );
+    expect(result.rows).toEqual([
+      {
+        int: 7,
+        bln: false,
+        dat: new Date("2025-06-01T12:00:00.123Z"),
+        uid: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+        blb: Buffer.from([0, 1, 127]),
+        tags: ["a", "b"],
+        stamps: ["2001-02-03T04:05:06.007Z"],
+      },
+    ]);
+    const sparse = await pool.query(`SELECT "str", "tags", "stamps" FROM "aspect_allTypes" WHERE entity_id = $1`, [
+      ID2,
+    ]);
+    expect(sparse.rows).toEqual([{ str: null, tags: [], stamps: ["2000-01-01T00:00:00.000Z"] }]);
+  });
+
+  it("should save only the changes made since the last save", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    const listNodes = await pool.query("SELECT entity_id, list_order FROM hierarchy_entity_list ORDER BY list_order");
+
+    const aspects = catalog.aspects("allTypes")!;
+    const [[e1, full], [e2]] = Array.from(aspects);
+    full.write("str", "changed");
+    aspects.delete(e2);
+    const e3 = new EntityImpl(ID3);
+    const added = new AspectObjectMapImpl(e3, aspects.aspectDef());
+    added.write("int", 9);
+    aspects.add(added);
+    (catalog.hierarchy("set") as EntitySetHierarchy).delete(e2);
+    (catalog.hierarchy("set") as EntitySetHierarchy).add(e1);
+    (catalog.hierarchy("dir") as EntityDirectoryHierarchy).set("first", e2);
+    (catalog.hierarchy("dir") as EntityDirectoryHierarchy).set("fourth", e1);
+    await catalog.save();
+
+    expect(await count(pool, '"aspect_allTypes"')).toBe(2);
+    expect(await count(pool, "hierarchy")).toBe(5);
+    // Hierarchies without changes keep their rows
+    expect(
+      (await pool.query("SELECT entity_id, list_order FROM hierarchy_entity_list ORDER BY list_order")).rows,
+    ).toEqual(listNodes.rows);
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    const loadedAspects = Array.from(loaded.aspects("allTypes")!);
+    expect(loadedAspects.map(([entity]) => entity.globalId())).toEqual([ID1, ID3]);
+    expect(loadedAspects[0][1].readObj("str")).toBe("changed");
+    expect(loadedAspects[0][1].readObj("int")).toBe(7);
+    expect(loadedAspects[1][1].readObj("int")).toBe(9);
+    expect(Array.from(loaded.hierarchy("set") as EntitySetHierarchy, (e) => e.globalId())).toEqual([ID3, ID1]);
+    expect(Array.from(loaded.hierarchy("dir") as EntityDirectoryHierarchy, ([key, e]) => [key, e.globalId()])).toEqual([
+      ["first", ID2],
+      ["third", ID3],
+      ["fourth", ID1],
+    ]);
+  });
+
+  it("should rewrite a hierarchy that was replaced", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    const list = new EntityListHierarchyImpl(catalog, "list", 0, 7);
+    list.push(new EntityImpl(ID3));
+    await catalog.save();
+
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    expect(Array.from(loaded.hierarchies(), (h) => h.name())).toEqual(["allTypes", "list", "set", "dir", "tree"]);
+    expect(loaded.hierarchy("list")!.version()).toBe(7);
+    expect(Array.from(loaded.hierarchy("list") as EntityListHierarchy, (e) => e.globalId())).toEqual([ID3]);
+  });
+
+  it("should store aspects in the generic tables without the aspectTables option", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool, { aspectTables: false });
+    await catalog.save();
+
+    expect(await count(pool, "aspect_table")).toBe(0);
+    expect(await count(pool, "aspect")).toBe(2);
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    expectPopulated(loaded);
+
+    const [[, full]] = Array.from(loaded.aspects("allTypes")!);
+    full.write("tags", ["c"]);
+    await loaded.save();
+    const reloaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    expect(Array.from(reloaded.aspects("allTypes")!)[0][1].readObj("tags")).toEqual(["c"]);
+    await expect(new PostgresDao(pool).createAspectTable(allTypesAspectDef())).rejects.toThrow(
+      "are already stored in the generic tables",
+    );
+  });
+
+  it("should save the changes made in a transaction when it commits", async () => {
+    // pg-mem ignores ROLLBACK, so rolling back is tested against the MariaDB harness
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+
+    const result = await catalog.transaction(async (tx) => {
+      expect(tx.inTransaction()).toBe(true);
+      (tx.hierarchy("list") as EntityListHierarchy).push(new EntityImpl(ID3));
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(catalog.inTransaction()).toBe(false);
+    expect(await count(pool, "hierarchy_entity_list")).toBe(4);
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    expect(Array.from(loaded.hierarchy("list") as EntityListHierarchy, (e) => e.globalId())).toEqual([
+      ID1,
+      ID2,
+      ID1,
+      ID3,
+    ]);
+  });
+
+  it("should store tree nodes with their closure", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+
+    // Four nodes, each its own ancestor, with one ancestor each for folder and
+    // other, and two for leaf
+    expect(await count(pool, "hierarchy_entity_tree_node")).toBe(4);
+    const leaf = await pool.query(
+      `SELECT c.depth, a.node_key FROM hierarchy_entity_tree_closure c
+       JOIN hierarchy_entity_tree_node d ON d.node_id = c.descendant_node_id
+       JOIN hierarchy_entity_tree_node a ON a.node_id = c.ancestor_node_id
+       WHERE d.node_key = 'leaf' ORDER BY c.depth`,
+    );
+    expect(leaf.rows).toEqual([
+      { depth: 0, node_key: "leaf" },
+      { depth: 1, node_key: "folder" },
+      { depth: 2, node_key: "" },
+    ]);
+    expect(await count(pool, "hierarchy_entity_tree_closure")).toBe(8);
+  });
+
+  it("should read and move tree nodes without loading the tree", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    const dao = new PostgresDao(pool);
+
+    const folder = await dao.loadTreeSubtree(CATALOG_ID, "tree", ["folder"]);
+    expect(folder?.value()).toBeNull();
+    expect(folder?.get("leaf")?.value()?.globalId()).toBe(ID3);
+    expect(await dao.loadTreeSubtree(CATALOG_ID, "tree", ["missing"])).toBeNull();
+    const ancestors = await dao.loadTreeAncestors(CATALOG_ID, "tree", ["folder", "leaf"]);
+    expect(ancestors?.map((e) => e?.globalId() ?? null)).toEqual([ID1, null]);
+    expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["folder", "leaf"]]);
+
+    await dao.moveTreeNode(CATALOG_ID, "tree", ["folder", "leaf"], ["other"], "moved");
+    expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["other", "moved"]]);
+    expect(await count(pool, "hierarchy_entity_tree_closure")).toBe(8);
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    const root = (loaded.hierarchy("tree") as EntityTreeHierarchy).root();
+    expect(Array.from(root.get("folder")!.keys())).toEqual([]);
+    expect(root.get("other")?.get("moved")?.value()?.globalId()).toBe(ID3);
+
+    await expect(dao.moveTreeNode(CATALOG_ID, "tree", [], ["other"])).rejects.toThrow("Cannot move the root");
+    await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["missing"], [])).rejects.toThrow("has no node at /missing");
+    await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["other"], ["other", "moved"])).rejects.toThrow(
+      "into its own subtree",
+    );
+    await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["other", "moved"], [], "folder")).rejects.toThrow(
+      "already has a child 'folder'",
+    );
+  });
+
+  it("should delete the rows of a deleted catalog", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await catalog.save();
+    const dao = new PostgresDao(pool);
+
+    expect(await dao.deleteCatalog(CATALOG_ID)).toBe(true);
+    expect(await dao.deleteCatalog(CATALOG_ID)).toBe(false);
+    expect(await count(pool, '"aspect_allTypes"')).toBe(0);
+    expect(await count(pool, "hierarchy_entity_tree_node")).toBe(0);
+    expect(await count(pool, "aspect_def")).toBe(1);
+    await expect(PostgresCatalog.open(pool, CATALOG_ID)).rejects.toThrow("is not stored in the database");
+  });
+
+  it("should add columns for properties added to the AspectDef", async () => {
+    const first = new PostgresCatalog(CATALOG_ID);
+    populate(first);
+    await first.connect(pool);
+    await first.save();
+
+    // The catalog is the only one using the AspectDef, so it may change it
+    const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+    const second = new PostgresCatalog(CATALOG_ID);
+    const aspects = second.extend(allTypesAspectDef([email]));
+    const carol = new AspectObjectMapImpl(new EntityImpl(ID3), aspects.aspectDef());
+    carol.write("email", "carol@example.com");
+    aspects.add(carol);
+    await second.connect(pool);
+    await second.save();
+
+    const result = await pool.query(`SELECT email FROM "aspect_allTypes" WHERE entity_id = $1`, [ID3]);
+    expect(result.rows).toEqual([{ email: "carol@example.com" }]);
+    const reloaded = await PostgresCatalog.open(pool, second.globalId());
+    expect(
+      reloaded
+        .aspects("allTypes")!
+        .get(Array.from(reloaded.aspects("allTypes")!.keys())[0])!
+        .readObj("email"),
+    ).toBe("carol@example.com");
+  });
+
+  it("should keep a chosen aspect table name", async () => {
+    const dao = new PostgresDao(pool);
+    const catalog = new PostgresCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(pool);
+    await dao.createAspectTable(allTypesAspectDef(), "all_types");
+    await catalog.save();
+
+    expect(await count(pool, "all_types")).toBe(2);
+    await expect(dao.createAspectTable(allTypesAspectDef(), "other")).rejects.toThrow(
+      "is already stored in table 'all_types'",
+    );
+    const other = new FullAspectDefImpl("other", crypto.randomUUID(), new Map(), true, true, false, false);
+    await expect(dao.createAspectTable(other, "all_types")).rejects.toThrow("already stores the aspects");
+    await expect(dao.createAspectTable(other, "catalog")).rejects.toThrow("is not an aspect table");
+  });
+
+  it("should list, create, open and delete catalogs by global ID", async () => {
+    const first = await PostgresCatalog.create(pool, CATALOG_ID, CatalogSpecies.MIRROR, UPSTREAM_ID);
+    const second = await PostgresCatalog.create(pool);
+    populate(second);
+    await second.save();
+
+    expect((await PostgresCatalog.list(pool)).map((h) => h.globalId)).toEqual([CATALOG_ID, second.globalId()].sort());
+    expect((await PostgresCatalog.list(pool)).find((h) => h.globalId === CATALOG_ID)).toEqual({
+      globalId: CATALOG_ID,
+      species: CatalogSpecies.MIRROR,
+      uri: null,
+      upstream: UPSTREAM_ID,
+      version: 0,
+    });
+    await expect(PostgresCatalog.create(pool, CATALOG_ID)).rejects.toThrow("is already stored");
+    expect(first.isConnected()).toBe(true);
+
+    expect(await PostgresCatalog.delete(pool, second.globalId())).toBe(true);
+    expect(await PostgresCatalog.delete(pool, second.globalId())).toBe(false);
+    expect((await PostgresCatalog.list(pool)).map((h) => h.globalId)).toEqual([CATALOG_ID]);
+    expect(await count(pool, '"aspect_allTypes"')).toBe(0);
+    expect(await count(pool, "aspect_def")).toBe(1);
+  });
+
+  it("should share AspectDefs whose hash matches", async () => {
+    const first = await PostgresCatalog.create(pool);
+    populate(first);
+    await first.save();
+    // An unchanged AspectDef is not written again, so the stored copy keeps this edit
+    await pool.query("UPDATE property_def SET is_nullable = false WHERE name = 'int'");
+    const second = await PostgresCatalog.create(pool);
+    second.extend(allTypesAspectDef());
+    await second.save();
+
+    const sql = "SELECT is_nullable FROM property_def WHERE name = 'int'";
+    expect(Number((await pool.query(sql)).rows[0].is_nullable)).toBe(0);
+    expect(await count(pool, "aspect_def_hash")).toBe(1);
+  });
+
+  it("should only change an AspectDef that no other catalog uses", async () => {
+    const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+    const first = await PostgresCatalog.create(pool);
+    populate(first);
+    await first.save();
+    const changed = new PostgresCatalog(first.globalId());
+    changed.extend(allTypesAspectDef([email]));
+    await changed.connect(pool);
+    await changed.save();
+
+    const second = await PostgresCatalog.create(pool);
+    second.extend(allTypesAspectDef());
+    await expect(second.save()).rejects.toThrow("used by another catalog");
+    const sql = "SELECT hash FROM aspect_def_hash";
+    expect((await pool.query(sql)).rows[0].hash).toBe(allTypesAspectDef([email]).hash().toString());
+  });
+
+  it("should keep AspectDefs of the same name from different catalogs apart", async () => {
+    const person = (globalId: string, propName: string) =>
+      new FullAspectDefImpl(
+        "person",
+        globalId,
+        new Map([[propName, new PropertyDefBuilder().setName(propName).setType(PropertyType.String).build()]]),
+        true,
+        true,
+        false,
+        false,
+      );
+    const addPerson = (catalog: PostgresCatalog, aspectDef: FullAspectDefImpl, value: string) => {
+      const aspect = new AspectObjectMapImpl(new EntityImpl(ID1), aspectDef);
+      aspect.write(aspectDef.propertyDefs()[0].name(), value);
+      catalog.extend(aspectDef).add(aspect);
+    };
+    const first = await PostgresCatalog.create(pool);
+    addPerson(first, person("20000000-0000-0000-0000-000000000001", "name"), "Alice");
+    await first.save();
+    const second = await PostgresCatalog.create(pool);
+    addPerson(second, person("20000000-0000-0000-0000-000000000002", "email"), "bob@example.com");
+    await expect(second.save()).rejects.toThrow(
+      "Table 'aspect_person' already stores the aspects of AspectDef 20000000-0000-0000-0000-000000000001; " +
+        "AspectDef 'person' (20000000-0000-0000-0000-000000000002) needs a table with another name.",
+    );
+    await second.close();
+    await second.connect(pool, { aspectTables: false });
+    await second.save();
+
+    const aspect = async (globalId: string) =>
+      Array.from((await PostgresCatalog.open(pool, globalId)).aspects("person")!.values())[0];
+    expect((await aspect(first.globalId())).readObj("name")).toBe("Alice");
+    expect((await aspect(second.globalId())).readObj("email")).toBe("bob@example.com");
+  });
+
+  it("should require a connection", async () => {
+    const catalog = new PostgresCatalog();
+    expect(catalog.isConnected()).toBe(false);
+    await expect(catalog.save()).rejects.toThrow("not connected");
+    await catalog.connect(pool);
+    await expect(catalog.connect(pool)).rejects.toThrow("already connected");
+    populate(catalog);
+    await expect(catalog.load()).rejects.toThrow("already has hierarchies");
+  });
+});
+
+describe("PostgresCatalog JSONB storage", () => {
+  let pool: Pool;
+
+  beforeEach(() => {
+    const { Pool: MemPool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+    pool = new MemPool() as Pool;
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it("should save and load every part of a catalog as JSONB documents", async () => {
+    const catalog = new PostgresCatalog(CATALOG_ID, CatalogSpecies.CLONE, UPSTREAM_ID, 3);
+    populate(catalog);
+    await catalog.connect(pool, { jsonb: true });
+    await catalog.save();
+    await catalog.save();
+    await catalog.close();
+
+    expect((await pool.query("SELECT table_name, storage FROM aspect_table")).rows).toEqual([
+      { table_name: "aspect_allTypes", storage: "jsonb" },
+    ]);
+    const documents = await pool.query(`SELECT entity_id, aspect FROM "aspect_allTypes" ORDER BY entity_id`);
+    expect(documents.rows[0].aspect).toMatchObject({
+      int: 7,
+      bln: false,
+      bgi: "1234567890123",
+      dat: "2025-06-01T12:00:00.123Z",
+      blb: "00017f",
+      tags: ["a", "b"],
+    });
+    expect(documents.rows[1].aspect).toEqual({ tags: [], count: "5", stamps: ["2000-01-01T00:00:00.000Z"] });
+
+    const loaded = await PostgresCatalog.open(pool, CATALOG_ID);
+    expectPopulated(loaded);
+    expect(await new PostgresDao(pool).aspectTable(allTypesAspectDef())).toBeInstanceOf(PostgresJsonbAspectTable);
+  });
+
+  it("should store properties added to the AspectDef without DDL", async () => {
+    const first = await PostgresCatalog.create(pool, CATALOG_ID, CatalogSpecies.SINK, null, { jsonb: true });
+    populate(first);
+    await first.save();
+
+    const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+    const second = new PostgresCatalog(CATALOG_ID);
+    const aspects = second.extend(allTypesAspectDef([email]));
+    const carol = new AspectObjectMapImpl(new EntityImpl(ID3), aspects.aspectDef());
+    carol.write("email", "carol@example.com");
+    aspects.add(carol);
+    await second.connect(pool);
+    await second.save();
+
+    const result = await pool.query(`SELECT aspect FROM "aspect_allTypes" WHERE entity_id = $1`, [ID3]);
+    expect(result.rows).toEqual([
+      { aspect: { email: "carol@example.com", count: "5", stamps: ["2000-01-01T00:00:00.000Z"] } },
+    ]);
+    const reloaded = await PostgresCatalog.open(pool, second.globalId());
+    expect(Array.from(reloaded.aspects("allTypes")!.values())[0].readObj("email")).toBe("carol@example.com");
+  });
+
+  it("should keep a property named __proto__ in the JSONB documents", async () => {
+    const proto = new PropertyDefBuilder().setName("__proto__").setType(PropertyType.String).build();
+    const catalog = await PostgresCatalog.create(pool, CATALOG_ID, CatalogSpecies.SINK, null, { jsonb: true });
+    const aspects = catalog.extend(allTypesAspectDef([proto]));
+    const aspect = new AspectObjectMapImpl(new EntityImpl(ID1), aspects.aspectDef());
+    aspect.write("__proto__", "kept");
+    aspects.add(aspect);
+    await catalog.save();
+
+    // Read the document as text: pg-mem, unlike node-postgres, drops a "__proto__" key when it parses JSONB
+    const result = await pool.query(`SELECT aspect::text AS aspect FROM "aspect_allTypes"`);
+    const document = JSON.parse(result.rows[0].aspect);
+    expect(Object.keys(document)).toContain("__proto__");
+    expect(Object.getOwnPropertyDescriptor(document, "__proto__")?.value).toBe("kept");
+  });
+
+  it("should push property filters down to the JSONB documents", async () => {
+    const catalog = await PostgresCatalog.create(pool, CATALOG_ID, CatalogSpecies.SINK, null, { jsonb: true });
+    populate(catalog);
+    await catalog.save();
+    const found = async (...filters: JsonbPropertyFilter[]) =>
+      (await catalog.findAspects("allTypes", filters)).map((aspect) => aspect.entity().globalId());
+
+    expect(await found()).toEqual([ID1, ID2]);
+    expect(await found({ property: "int", value: 7 })).toEqual([ID1]);
+    expect(await found({ property: "int", operator: "<>", value: 7 })).toEqual([ID2]);
+    expect(await found({ property: "str", value: null })).toEqual([ID2]);
+    expect(await found({ property: "str", operator: "<>", value: null })).toEqual([ID1]);
+    expect(await found({ property: "tags", operator: "contains", value: "b" })).toEqual([ID1]);
+    expect(await found({ property: "tags", value: [] })).toEqual([ID2]);
+    expect(await found({ property: "tags", value: ["b", "a"] })).toEqual([]);
+    expect(await found({ property: "bgi", operator: ">", value: 1000n })).toEqual([ID1]);
+    expect(await found({ property: "flt", operator: "<=", value: 2 })).toEqual([]);
+    expect(
+      await found(
+        { property: "dat", operator: ">=", value: new Date("2025-01-01T00:00:00.000Z") },
+        { property: "bln", value: false },
+      ),
+    ).toEqual([ID1]);
+
+    // An opened catalog resolves the entities of the aspects it finds to its own
+    const opened = await PostgresCatalog.open(pool, CATALOG_ID);
+    const [full] = await opened.findAspects(opened.aspects("allTypes")!.aspectDef(), [
+      { property: "uid", value: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f" },
+    ]);
+    expect(full.entity()).toBe(Array.from(opened.aspects("allTypes")!.keys())[0]);
+    expect(full.readObj("dat")).toEqual(new Date("2025-06-01T12:00:00.123Z"));
+    expect(full.readObj("bgi")).toBe(1234567890123n);
+    expect(full.readObj("blb")).toEqual(new Uint8Array([0, 1, 127]));
+
+    await expect(found({ property: "nope", value: 1 })).rejects.toThrow("has no property 'nope'");
+    await expect(found({ property: "bln", operator: ">", value: true })).rejects.toThrow("have no order");
+    await expect(found({ property: "str", operator: "contains", value: "s" })).rejects.toThrow("not multivalued");
+    await expect(found({ property: "int", operator: "<", value: null })).rejects.toThrow("with null");
+    await expect(catalog.findAspects("missing", [])).rejects.toThrow("has no aspects of AspectDef 'missing'");
+  });
+
+  it("should keep the storage of stored AspectDefs", async () => {
+    const columns = await PostgresCatalog.create(pool);
+    populate(columns);
+    await columns.save();
+    const jsonb = await PostgresCatalog.create(pool, CATALOG_ID, CatalogSpecies.SINK, null, { jsonb: true });
+    populate(jsonb);
+    await jsonb.save();
+
+    expect((await pool.query("SELECT storage FROM aspect_table")).rows).toEqual([{ storage: "columns" }]);
+    await expect(jsonb.findAspects("allTypes", [])).rejects.toThrow("are not stored as JSONB");
+    await expect(new PostgresDao(pool).createJsonbAspectTable(allTypesAspectDef())).rejects.toThrow(
+      "is already stored in the columns of table 'aspect_allTypes'",
+    );
+  });
+});
+
+describe("PostgresValueCodec", () => {
+  it("should map property types to native column types", () => {
+    const codec = new PostgresValueCodec();
+    const columnType = (type: PropertyType, isMultivalued: boolean = false) =>
+      codec.columnType(new PropertyDefBuilder().setName("p").setType(type).setIsMultivalued(isMultivalued).build());
+    expect(columnType(PropertyType.Integer)).toBe("bigint");
+    expect(columnType(PropertyType.Float)).toBe("double precision");
+    expect(columnType(PropertyType.Boolean)).toBe("boolean");
+    expect(columnType(PropertyType.BigInteger)).toBe("numeric");
+    expect(columnType(PropertyType.BigDecimal)).toBe("numeric");
+    expect(columnType(PropertyType.DateTime)).toBe("timestamptz");
+    expect(columnType(PropertyType.UUID)).toBe("uuid");
+    expect(columnType(PropertyType.BLOB)).toBe("bytea");
+    expect(columnType(PropertyType.CLOB)).toBe("text");
+    expect(columnType(PropertyType.URI)).toBe("text");
+    expect(columnType(PropertyType.Integer, true)).toBe("text[]");
+    expect(columnType(PropertyType.BLOB, true)).toBe("text[]");
+  });
+
+  it("should read the strings node-postgres returns for bigint and numeric columns", () => {
+    const codec = new PostgresValueCodec();
+    const propDef = (type: PropertyType) => new PropertyDefBuilder().setName("p").setType(type).build();
+    expect(codec.fromNative(propDef(PropertyType.Integer), "42")).toBe(42);
+    expect(codec.fromNative(propDef(PropertyType.BigInteger), "12345678901234567890123")).toBe(
+      12345678901234567890123n,
+    );
+    expect(codec.fromNative(propDef(PropertyType.BigDecimal), "3.14159265358979323846")).toBe("3.14159265358979323846");
+    expect(codec.toNative(propDef(PropertyType.BigInteger), 12345678901234567890123n)).toBe("12345678901234567890123");
+  });
+
+  it("should convert values to and from JSON", () => {
+    const codec = new PostgresValueCodec();
+    const propDef = (type: PropertyType, isMultivalued: boolean = false) =>
+      new PropertyDefBuilder().setName("p").setType(type).setIsMultivalued(isMultivalued).build();
+    expect(codec.toJson(propDef(PropertyType.Float), NaN)).toBe("NaN");
+    expect(codec.fromJson(propDef(PropertyType.Float), "-Infinity")).toBe(-Infinity);
+    expect(codec.toJson(propDef(PropertyType.BigInteger), 12345678901234567890123n)).toBe("12345678901234567890123");
+    expect(codec.fromJson(propDef(PropertyType.BigInteger), "12345678901234567890123")).toBe(12345678901234567890123n);
+    expect(codec.toJson(propDef(PropertyType.BLOB), new Uint8Array([255, 0]))).toBe("ff00");
+    expect(codec.fromJson(propDef(PropertyType.BLOB), "ff00")).toEqual(new Uint8Array([255, 0]));
+    expect(codec.toJson(propDef(PropertyType.Integer, true), [1, null])).toEqual([1, null]);
+    expect(codec.fromJson(propDef(PropertyType.Boolean), true)).toBe(true);
+    expect(codec.fromJson(propDef(PropertyType.String), null)).toBeNull();
+  });
+
+  it("should round-trip values beyond what pg-mem can store, as node-postgres reads them back", () => {
+    const codec = new PostgresValueCodec();
+    const propDef = (type: PropertyType, isMultivalued: boolean = false) =>
+      new PropertyDefBuilder().setName("p").setType(type).setIsMultivalued(isMultivalued).setIsNullable(true).build();
+    // node-postgres sends numbers in their String() form, and reads double precision back as a number, bytea as a
+    // Buffer, and numeric and text[] as the strings PostgreSQL stored
+    const readBack = (native: unknown) =>
+      Buffer.isBuffer(native) ? Buffer.from(native)
+      : typeof native === "number" ? parseFloat(String(native))
+      : native;
+    const viaColumn = (def: PropertyDef, value: unknown) => codec.fromNative(def, readBack(codec.toNative(def, value)));
+    const viaJsonb = (def: PropertyDef, value: unknown) =>
+      codec.fromJson(def, JSON.parse(JSON.stringify(codec.toJson(def, value))));
+    const allBytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const values: [PropertyDef, unknown][] = [
+      [propDef(PropertyType.BigInteger), 2n ** 64n + 1n],
+      [propDef(PropertyType.BigInteger), -(10n ** 40n) - 7n],
+      [propDef(PropertyType.BigInteger, true), [2n ** 53n + 1n, -(2n ** 63n)]],
+      [propDef(PropertyType.BigDecimal), "123456789012345678901234567890.000000000000000000001"],
+      [propDef(PropertyType.BigDecimal), "-0.00000000000000000000000000000000000001"],
+      [propDef(PropertyType.BLOB), allBytes],
+      [propDef(PropertyType.BLOB, true), [allBytes, new Uint8Array(0)]],
+      [propDef(PropertyType.Float), NaN],
+      [propDef(PropertyType.Float), Infinity],
+      [propDef(PropertyType.Float), -Infinity],
+      [propDef(PropertyType.Float, true), [NaN, Infinity, -Infinity, 1.5]],
+    ];
+    for (const [def, value] of values) {
+      expect(viaColumn(def, value)).toEqual(value);
+      expect(viaJsonb(def, value)).toEqual(value);
+    }
+    expect(codec.toNative(propDef(PropertyType.BigInteger), 2n ** 64n + 1n)).toBe("18446744073709551617");
+    expect(codec.toNative(propDef(PropertyType.BLOB), allBytes)).toEqual(Buffer.from(allBytes));
+  });
+
+  it("should reject property names that clash with key columns", () => {
+    const propDefs = new Map<string, PropertyDef>([
+      ["entity_id", new PropertyDefBuilder().setName("entity_id").setType(PropertyType.String).build()],
+    ]);
+    const def = new FullAspectDefImpl("clash", crypto.randomUUID(), propDefs, true, true, false, false);
+    expect(() => new PostgresAspectTable({} as Pool, new PostgresValueCodec(), def, "clash")).toThrow(
+      "conflicts with a key column",
+    );
+  });
+});
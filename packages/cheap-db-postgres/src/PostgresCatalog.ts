@@ -0,0 +1,218 @@
+/**
+ * PostgresCatalog implementation
+ */
+
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { Aspect, AspectDef, CatalogSpecies } from "@cheap-ts/core";
+import { CatalogHeader, SqlCatalogBase, SqlConnectOptions, SqlLoadOptions } from "@cheap-ts/db";
+import { PostgresCheapSchema } from "./PostgresCheapSchema.js";
+import { PostgresDao } from "./PostgresDao.js";
+import { PostgresDatabase, isPool } from "./PostgresDatabase.js";
+import { JsonbPropertyFilter } from "./PostgresJsonbAspectTable.js";
+
+/**
+ * Options for connecting a PostgresCatalog to a database.
+ */
+export interface PostgresConnectOptions extends SqlConnectOptions {
+  /**
+   * Whether the tables given to AspectDefs new to the database store their
+   * aspects as JSONB documents (see PostgresDao.createJsonbAspectTable()),
+   * rather than in a column per property; defaults to false. AspectDefs
+   * already stored keep their storage either way.
+   */
+  jsonb?: boolean;
+}
+
+/**
+ * PostgreSQL-backed catalog implementation; see SqlCatalogBase.
+ *
+ * Property values are stored in columns of their native PostgreSQL types, in
+ * a table per AspectDef, unless the catalog connects with the aspectTables
+ * option turned off; see PostgresValueCodec for the mapping. Every save runs
+ * in a single transaction, and writes only the changes made since the
+ * catalog was last loaded or saved.
+ *
+ * Connecting with the jsonb option stores the aspects of new AspectDefs as
+ * JSONB documents instead, which findAspects() can filter in the database.
+ * Opening with the lazy option leaves aspects in the database until they are
+ * prefetched or paged through; see SqlLazyAspectMapHierarchy.
+ *
+ * A database holds any number of catalogs, which can be listed, created,
+ * opened and deleted by global ID with the static methods.
+ *
+ * A connection string passed to connect(), open() or create() opens a pool,
+ * which close() ends; list() and delete() end theirs when done.
+ */
+export class PostgresCatalog extends SqlCatalogBase<PostgresDatabase> {
+  private _jsonb = false;
+
+  /**
+   * Creates a new SINK catalog with a random global ID.
+   */
+  constructor();
+
+  /**
+   * Creates a new SINK catalog with the given global ID.
+   *
+   * @param globalId the global ID of the catalog
+   */
+  constructor(globalId: string);
+
+  /**
+   * Creates a new catalog with the given metadata.
+   *
+   * @param globalId the global ID of the catalog
+   * @param species the species of the catalog
+   * @param upstream the upstream catalog to mirror, or null for root catalogs
+   * @param version the version number of the catalog
+   */
+  constructor(globalId: string, species: CatalogSpecies, upstream: string | null, version: number);
+
+  constructor(globalId?: string, species?: CatalogSpecies, upstream?: string | null, version?: number) {
+    super(globalId, species, upstream, version);
+  }
+
+  /**
+   * Opens a stored catalog: connects to the database, creates a catalog with
+   * the stored metadata and loads its contents.
+   *
+   * @param database a connection string, or an open pool or client
+   * @param globalId the global ID of the catalog
+   * @param options whether and how to load aspects lazily, and how to store new AspectDefs
+   * @returns the loaded catalog, still connected to the database
+   * @throws Error if the catalog is not stored in the database
+   */
+  static async open(
+    database: string | PostgresDatabase,
+    globalId: string,
+    options: PostgresConnectOptions & SqlLoadOptions = {},
+  ): Promise<PostgresCatalog> {
+    const catalog = await SqlCatalogBase.openStored(
+      database,
+      globalId,
+      (header) => new PostgresCatalog(header.globalId, header.species, header.upstream, header.version),
+      options,
+    );
+    catalog._jsonb = options.jsonb ?? false;
+    return catalog;
+  }
+
+  /**
+   * Creates a catalog in a database and registers it there, with no
+   * hierarchies yet.
+   *
+   * @param database a connection string, or an open pool or client
+   * @param globalId the global ID of the catalog; defaults to a random UUID
+   * @param species the species of the catalog; defaults to SINK
+   * @param upstream the upstream catalog to mirror, or null for root catalogs
+   * @param options how to store AspectDefs new to the database
+   * @returns the catalog, connected to the database
+   * @throws Error if a catalog with the same global ID is already stored
+   */
+  static async create(
+    database: string | PostgresDatabase,
+    globalId: string = randomUUID(),
+    species: CatalogSpecies = CatalogSpecies.SINK,
+    upstream: string | null = null,
+    options: PostgresConnectOptions = {},
+  ): Promise<PostgresCatalog> {
+    return SqlCatalogBase.createStored(database, new PostgresCatalog(globalId, species, upstream, 0), options);
+  }
+
+  /**
+   * Returns the metadata of every catalog stored in a database, ordered by
+   * global ID.
+   *
+   * @param database a connection string, or an open pool or client
+   */
+  static async list(database: string | PostgresDatabase): Promise<CatalogHeader[]> {
+    return SqlCatalogBase.listStored(database, () => new PostgresCatalog());
+  }
+
+  /**
+   * Deletes a stored catalog and all of its hierarchies and aspects. Its
+   * AspectDefs are kept, since other catalogs may use them.
+   *
+   * @param database a connection string, or an open pool or client
+   * @param globalId the global ID of the catalog
+   * @returns whether the catalog was stored
+   */
+  static async delete(database: string | PostgresDatabase, globalId: string): Promise<boolean> {
+    return SqlCatalogBase.deleteStored(database, globalId, () => new PostgresCatalog());
+  }
+
+  /**
+   * Connect to a PostgreSQL database, creating or migrating the CHEAP schema as needed.
+   *
+   * @param database a connection string, or an open pool or client; a pool
+   *   or client passed in is not closed by close()
+   * @param options how to store AspectDefs new to the database
+   * @throws Error if this catalog is already connected, or the database
+   *   schema is newer than this code
+   */
+  async connect(database: string | PostgresDatabase, options: PostgresConnectOptions = {}): Promise<void> {
+    await super.connect(database, options);
+    this._jsonb = options.jsonb ?? false;
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    this._jsonb = false;
+  }
+
+  /**
+   * Finds the aspects of an AspectDef saved for this catalog whose properties
+   * match every filter, which the database evaluates on their JSONB
+   * documents; see PostgresJsonbAspectTable.find(). Unsaved changes are not
+   * searched.
+   *
+   * @param aspectDefOrName the AspectDef, or its name
+   * @param filters the conditions the aspects must meet
+   * @returns new aspects with the stored property values, ordered by entity global ID
+   * @throws Error if this catalog is not connected, has no aspects of the
+   *   AspectDef, or they are not stored as JSONB, or a filter is invalid
+   */
+  async findAspects(aspectDefOrName: AspectDef | string, filters: readonly JsonbPropertyFilter[]): Promise<Aspect[]> {
+    const name = typeof aspectDefOrName === "string" ? aspectDefOrName : aspectDefOrName.name();
+    const aspectDef = this.aspects(name)?.aspectDef();
+    if (!aspectDef) {
+      throw new Error(`Catalog ${this.globalId()} has no aspects of AspectDef '${name}'.`);
+    }
+    return this.dao().findAspects(this.globalId(), aspectDef, filters, this.factory());
+  }
+
+  protected dao(): PostgresDao {
+    return super.dao() as PostgresDao;
+  }
+
+  /**
+   * Gives an AspectDef not yet stored a table of its own: a JSONB table if
+   * this catalog connected with the jsonb option.
+   */
+  protected async createAspectTable(aspectDef: AspectDef): Promise<void> {
+    if (this._jsonb) {
+      await this.dao().createJsonbAspectTable(aspectDef);
+    } else {
+      await super.createAspectTable(aspectDef);
+    }
+  }
+
+  protected openDatabase(location: string): PostgresDatabase {
+    return new pg.Pool({ connectionString: location });
+  }
+
+  protected async closeDatabase(db: PostgresDatabase): Promise<void> {
+    if (isPool(db)) {
+      await db.end();
+    }
+  }
+
+  protected async migrateSchema(db: PostgresDatabase): Promise<void> {
+    await new PostgresCheapSchema().migrate(db);
+  }
+
+  protected createDao(db: PostgresDatabase): PostgresDao {
+    return new PostgresDao(db);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for PostgresCheapSchema migrations, run against pg-mem
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import type { Pool } from "pg";
+import { newDb } from "pg-mem";
+import { FullAspectDefImpl } from "@cheap-ts/core";
+import { DEFAULT_MIGRATION_TABLE } from "@cheap-ts/db";
+import { PostgresCatalog } from "./PostgresCatalog.js";
+import { PostgresCheapSchema } from "./PostgresCheapSchema.js";
+import { numberPlaceholders } from "./PostgresMigrationConnection.js";
+
+async function tableNames(pool: Pool): Promise<string[]> {
+  const result = await pool.query(
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = current_schema() ORDER BY table_name",
+  );
+  return (result.rows as { table_name: string }[]).map((row) => row.table_name);
+}
+
+describe("PostgresCheapSchema migrations", () => {
+  let pool: Pool;
+  const schema = new PostgresCheapSchema();
+
+  beforeEach(() => {
+    // pg-mem refuses CREATE TABLE IF NOT EXISTS for an existing table unless this check is off
+    const { Pool: MemPool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+    pool = new MemPool() as Pool;
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it("should create the schema and record it in the migration history", async () => {
+    const applied = await schema.migrate(pool);
+
+    expect(applied.map((m) => m.name)).toEqual([
+      "create_main_schema",
+      "create_aspect_def_hash",
+      "add_aspect_table_storage",
+      "create_generic_aspect_tables",
+      "drop_aspect_def_name_unique",
+    ]);
+    expect(await tableNames(pool)).toEqual([
+      "aspect",
+      "aspect_def",
+      "aspect_def_hash",
+      "aspect_table",
+      "catalog",
+      "catalog_aspect_def",
+      DEFAULT_MIGRATION_TABLE,
+      "hierarchy",
+      "hierarchy_aspect_map",
+      "hierarchy_entity_directory",
+      "hierarchy_entity_list",
+      "hierarchy_entity_set",
+      "hierarchy_entity_tree_closure",
+      "hierarchy_entity_tree_node",
+      "property_def",
+      "property_value",
+    ]);
+    expect(await schema.migrator(pool).currentVersion()).toBe(schema.migrations().at(-1)!.version);
+    expect(await schema.migrate(pool)).toEqual([]);
+  });
+
+  it("should adopt a schema created before migrations were tracked", async () => {
+    await schema.executeMainSchemaDdl(pool);
+    const catalog = new PostgresCatalog();
+    await catalog.connect(pool);
+    await catalog.save();
+
+    expect(await schema.migrator(pool).currentVersion()).toBe(schema.migrations().at(-1)!.version);
+    expect((await pool.query("SELECT catalog_id FROM catalog")).rows).toEqual([{ catalog_id: catalog.globalId() }]);
+  });
+
+  it("should refuse to connect to a database migrated by newer code", async () => {
+    await schema.migrate(pool);
+    await pool.query(`INSERT INTO ${DEFAULT_MIGRATION_TABLE} (version, name, applied_at) VALUES ($1, $2, $3)`, [
+      999,
+      "from_the_future",
+      new Date().toISOString(),
+    ]);
+
+    await expect(new PostgresCatalog().connect(pool)).rejects.toThrow(
+      "Database schema version 999 is newer than the latest version",
+    );
+    await expect(PostgresCatalog.open(pool, "10000000-0000-0000-0000-000000000000")).rejects.toThrow("newer");
+  });
+
+  it("should empty and drop the schema along with the aspect tables", async () => {
+    const catalog = new PostgresCatalog();
+    catalog.extend(
+      new FullAspectDefImpl("thing", "20000000-0000-0000-0000-000000000000", new Map(), true, true, false, false),
+    );
+    await catalog.connect(pool);
+    await catalog.save();
+    expect(await tableNames(pool)).toContain("aspect_thing");
+
+    await schema.executeTruncateSchemaDdl(pool);
+    expect(await tableNames(pool)).not.toContain("aspect_thing");
+    expect((await pool.query("SELECT COUNT(*) AS n FROM catalog")).rows[0].n).toBe(0);
+
+    await schema.executeDropSchemaDdl(pool);
+    expect(await tableNames(pool)).toEqual([]);
+  });
+
+  it("should number the placeholders of migration statements", () => {
+    expect(numberPlaceholders("INSERT INTO t (a, b) VALUES (?, ?)")).toBe("INSERT INTO t (a, b) VALUES ($1, $2)");
+    expect(numberPlaceholders("SELECT '?', 'it''s ?' FROM t WHERE a = ?")).toBe(
+      "SELECT '?', 'it''s ?' FROM t WHERE a = $1",
+    );
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * PostgresCheapSchema implementation
+ */
+
+import { DEFAULT_MIGRATION_TABLE, Migration, SchemaMigrator } from "@cheap-ts/db";
+import { PostgresDatabase, inTransaction } from "./PostgresDatabase.js";
+import { PostgresMigrationConnection } from "./PostgresMigrationConnection.js";
+
+/**
+ * DDL for the main CHEAP schema: AspectDefs and their PropertyDefs, catalogs
+ * with their hierarchies, the contents of the four entity hierarchy types, and
+ * the registry of aspect tables. The generic aspect tables are added by a
+ * later migration.
+ *
+ * Table and column names are those of the SQLite schema, with native column
+ * types: global IDs are uuid and flags are boolean, while PropertyDef
+ * default values are kept in the same text form.
+ */
+const MAIN_SCHEMA_STATEMENTS: readonly string[] = [
+  `CREATE TABLE IF NOT EXISTS aspect_def (
+    aspect_def_id uuid PRIMARY KEY,
+    name text NOT NULL UNIQUE,
+    is_readable boolean NOT NULL DEFAULT true,
+    is_writable boolean NOT NULL DEFAULT true,
+    can_add_properties boolean NOT NULL DEFAULT false,
+    can_remove_properties boolean NOT NULL DEFAULT false
+  )`,
+  `CREATE TABLE IF NOT EXISTS property_def (
+    aspect_def_id uuid NOT NULL REFERENCES aspect_def(aspect_def_id) ON DELETE CASCADE,
+    name text NOT NULL,
+    property_index integer NOT NULL,
+    property_type text NOT NULL
+      CHECK (property_type IN ('INT', 'FLT', 'BLN', 'STR', 'TXT', 'BGI', 'BGF', 'DAT', 'URI', 'UID', 'CLB', 'BLB')),
+    default_value text,
+    has_default_value boolean NOT NULL DEFAULT false,
+    is_readable boolean NOT NULL DEFAULT true,
+    is_writable boolean NOT NULL DEFAULT true,
+    is_nullable boolean NOT NULL DEFAULT false,
+    is_removable boolean NOT NULL DEFAULT false,
+    is_multivalued boolean NOT NULL DEFAULT false,
+    PRIMARY KEY (aspect_def_id, name)
+  )`,
+  `CREATE TABLE IF NOT EXISTS catalog (
+    catalog_id uuid PRIMARY KEY,
+    species text NOT NULL CHECK (species IN ('SOURCE', 'SINK', 'MIRROR', 'CACHE', 'CLONE', 'FORK')),
+    uri text,
+    upstream_catalog_id uuid,
+    version_number bigint NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS catalog_aspect_def (
+    catalog_id uuid NOT NULL REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    aspect_def_id uuid NOT NULL REFERENCES aspect_def(aspect_def_id),
+    PRIMARY KEY (catalog_id, aspect_def_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy (
+    catalog_id uuid NOT NULL REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    name text NOT NULL,
+    hierarchy_index integer NOT NULL,
+    hierarchy_type text NOT NULL CHECK (hierarchy_type IN ('EL', 'ES', 'ED', 'ET', 'AM')),
+    version_number bigint NOT NULL DEFAULT 0,
+    PRIMARY KEY (catalog_id, name)
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_list (
+    catalog_id uuid NOT NULL,
+    hierarchy_name text NOT NULL,
+    entity_id uuid NOT NULL,
+    list_order integer NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, list_order),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_set (
+    catalog_id uuid NOT NULL,
+    hierarchy_name text NOT NULL,
+    entity_id uuid NOT NULL,
+    set_order integer NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_id),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_directory (
+    catalog_id uuid NOT NULL,
+    hierarchy_name text NOT NULL,
+    entity_key text NOT NULL,
+    entity_id uuid NOT NULL,
+    dir_order integer NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_key),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_tree_node (
+    node_id uuid PRIMARY KEY,
+    catalog_id uuid NOT NULL,
+    hierarchy_name text NOT NULL,
+    parent_node_id uuid REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    node_key text NOT NULL,
+    entity_id uuid,
+    node_order integer NOT NULL,
+    UNIQUE (catalog_id, hierarchy_name, parent_node_id, node_key),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  // One row per pair of a tree node and one of its ancestors, or itself at depth 0
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_tree_closure (
+    ancestor_node_id uuid NOT NULL REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    descendant_node_id uuid NOT NULL REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    depth integer NOT NULL,
+    PRIMARY KEY (ancestor_node_id, descendant_node_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_aspect_map (
+    catalog_id uuid NOT NULL,
+    hierarchy_name text NOT NULL,
+    entity_id uuid NOT NULL,
+    aspect_def_id uuid NOT NULL REFERENCES aspect_def(aspect_def_id),
+    map_order integer NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_id),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  // One row per AspectDef, naming the table that stores its aspects
+  `CREATE TABLE IF NOT EXISTS aspect_table (
+    table_name text PRIMARY KEY,
+    aspect_def_id uuid NOT NULL UNIQUE REFERENCES aspect_def(aspect_def_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_node_parent ON hierarchy_entity_tree_node(parent_node_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_node_entity ON hierarchy_entity_tree_node(catalog_id, hierarchy_name, entity_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_closure_descendant ON hierarchy_entity_tree_closure(descendant_node_id, depth)`,
+  `CREATE INDEX IF NOT EXISTS idx_aspect_map_order ON hierarchy_aspect_map(catalog_id, hierarchy_name, map_order)`,
+];
+
+/**
+ * The tables of the main schema, in an order that respects their foreign keys
+ * when dropping or truncating.
+ */
+const MAIN_SCHEMA_TABLES = [
+  "hierarchy_aspect_map",
+  "hierarchy_entity_tree_closure",
+  "hierarchy_entity_tree_node",
+  "hierarchy_entity_directory",
+  "hierarchy_entity_set",
+  "hierarchy_entity_list",
+  "property_value",
+  "aspect",
+  "hierarchy",
+  "catalog_aspect_def",
+  "catalog",
+  "aspect_table",
+  "aspect_def_hash",
+  "property_def",
+  "aspect_def",
+];
+
+/**
+ * The migrations that build the schema, in version order.
+ *
+ * The schema starts out with everything the SQLite schema gained over its
+ * first migrations, except for the generic aspect tables, which come later
+ * with the same layout, and full-text search. Its DDL is idempotent, so that
+ * executeMainSchemaDdl() can apply it too.
+ */
+const POSTGRES_MIGRATIONS: readonly Migration[] = [
+  { version: 1, name: "create_main_schema", up: MAIN_SCHEMA_STATEMENTS },
+  {
+    version: 2,
+    name: "create_aspect_def_hash",
+    up: [
+      // The hash() of each stored AspectDef, which tells catalogs sharing it whether their version matches
+      `CREATE TABLE IF NOT EXISTS aspect_def_hash (
+    aspect_def_id uuid PRIMARY KEY REFERENCES aspect_def(aspect_def_id) ON DELETE CASCADE,
+    hash text NOT NULL
+  )`,
+    ],
+  },
+  {
+    version: 3,
+    name: "add_aspect_table_storage",
+    up: [
+      // How each aspect table stores its aspects: "columns" (a column per property) or "jsonb" (one document each)
+      "ALTER TABLE aspect_table ADD COLUMN IF NOT EXISTS storage text NOT NULL DEFAULT 'columns'",
+    ],
+  },
+  {
+    version: 4,
+    name: "create_generic_aspect_tables",
+    up: [
+      // The aspects of AspectDefs without a table of their own, laid out as in the SQLite schema
+      `CREATE TABLE IF NOT EXISTS aspect (
+    entity_id uuid NOT NULL,
+    aspect_def_id uuid NOT NULL REFERENCES aspect_def(aspect_def_id),
+    catalog_id uuid NOT NULL REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    hierarchy_name text NOT NULL,
+    PRIMARY KEY (entity_id, aspect_def_id, catalog_id)
+  )`,
+      `CREATE TABLE IF NOT EXISTS property_value (
+    entity_id uuid NOT NULL,
+    aspect_def_id uuid NOT NULL,
+    catalog_id uuid NOT NULL,
+    property_name text NOT NULL,
+    value_index integer NOT NULL DEFAULT 0,
+    value_text text,
+    value_binary bytea,
+    PRIMARY KEY (entity_id, aspect_def_id, catalog_id, property_name, value_index),
+    FOREIGN KEY (entity_id, aspect_def_id, catalog_id)
+      REFERENCES aspect(entity_id, aspect_def_id, catalog_id) ON DELETE CASCADE
+  )`,
+      "CREATE INDEX IF NOT EXISTS idx_aspect_catalog ON aspect(catalog_id, hierarchy_name)",
+      // Always null here; SQLite registers side tables for multivalued properties under their name
+      "ALTER TABLE aspect_table ADD COLUMN IF NOT EXISTS property_name text",
+    ],
+  },
+  {
+    version: 5,
+    name: "drop_aspect_def_name_unique",
+    up: [
+      // AspectDefs are identified by their global ID; catalogs may have AspectDefs of the same name
+      "ALTER TABLE aspect_def DROP CONSTRAINT IF EXISTS aspect_def_name_key",
+    ],
+  },
+];
+
+/**
+ * Creates, migrates, empties and drops the CHEAP schema in a PostgreSQL
+ * database. Emptying or dropping the schema also drops the aspect tables.
+ *
+ * Catalogs bring their database up to date with migrate() when they connect.
+ * The DDL of the main schema is idempotent, so executeMainSchemaDdl() can also
+ * be used directly, without recording a migration history.
+ */
+export class PostgresCheapSchema {
+  /**
+   * Returns the migrations that build the schema, in version order.
+   */
+  migrations(): readonly Migration[] {
+    return POSTGRES_MIGRATIONS;
+  }
+
+  /**
+   * Creates a SchemaMigrator for the schema in a database.
+   *
+   * @param db the pool or client
+   */
+  migrator(db: PostgresDatabase): SchemaMigrator {
+    return new SchemaMigrator(new PostgresMigrationConnection(db), POSTGRES_MIGRATIONS);
+  }
+
+  /**
+   * Applies all pending migrations to a database.
+   *
+   * @param db the pool or client
+   * @returns the migrations that were applied
+   * @throws Error if the database schema is newer than this code, or a migration fails
+   */
+  async migrate(db: PostgresDatabase): Promise<Migration[]> {
+    return this.migrator(db).migrate();
+  }
+
+  /**
+   * Creates the tables and indexes of the main schema, as of the latest
+   * migration, if they do not exist.
+   *
+   * @param db the pool or client
+   */
+  async executeMainSchemaDdl(db: PostgresDatabase): Promise<void> {
+    for (const migration of POSTGRES_MIGRATIONS) {
+      for (const statement of migration.up) {
+        await db.query(statement);
+      }
+    }
+  }
+
+  /**
+   * Deletes all rows from the tables of the main schema.
+   *
+   * @param db the pool or client
+   */
+  async executeTruncateSchemaDdl(db: PostgresDatabase): Promise<void> {
+    await inTransaction(db, async (client) => {
+      await this.dropAspectTables(client);
+      for (const table of MAIN_SCHEMA_TABLES) {
+        await client.query(`DELETE FROM ${table}`);
+      }
+    });
+  }
+
+  /**
+   * Drops all tables of the main schema, and the migration history.
+   *
+   * @param db the pool or client
+   */
+  async executeDropSchemaDdl(db: PostgresDatabase): Promise<void> {
+    await inTransaction(db, async (client) => {
+      await this.dropAspectTables(client);
+      for (const table of MAIN_SCHEMA_TABLES) {
+        // CASCADE drops the self-referencing foreign key of the tree node table along with it
+        await client.query(`DROP TABLE IF EXISTS ${table} CASCADE`);
+      }
+      await client.query(`DROP TABLE IF EXISTS ${DEFAULT_MIGRATION_TABLE}`);
+    });
+  }
+
+  /**
+   * Drops the aspect tables listed in the aspect_table registry.
+   */
+  private async dropAspectTables(db: PostgresDatabase): Promise<void> {
+    if (!(await new PostgresMigrationConnection(db).tableExists("aspect_table"))) {
+      return;
+    }
+    const result = await db.query("SELECT table_name FROM aspect_table");
+    for (const row of result.rows as { table_name: string }[]) {
+      await db.query(`DROP TABLE IF EXISTS "${row.table_name.replace(/"/g, '""')}"`);
+    }
+  }
+}
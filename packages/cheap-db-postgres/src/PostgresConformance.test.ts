@@ -0,0 +1,46 @@
+/**
+ * Runs the catalog storage conformance suite against PostgresCatalog, on pg-mem
+ */
+
+import type { Pool } from "pg";
+import { newDb } from "pg-mem";
+import { CatalogSpecies } from "@cheap-ts/core";
+import {
+  CONFORMANCE_ENTITY_IDS,
+  ConformanceBackend,
+  SCALARS,
+  SkippedValue,
+  describeCatalogConformance,
+} from "@cheap-ts/db-conformance";
+import { PostgresCatalog, PostgresConnectOptions } from "./PostgresCatalog.js";
+
+const [TYPICAL, EXTREME] = CONFORMANCE_ENTITY_IDS;
+
+/**
+ * The scalar values that pg-mem cannot hold in native columns, which a real
+ * server stores; the PostgresValueCodec tests cover them without a database.
+ */
+const PG_MEM_SKIPPED_VALUES: readonly SkippedValue[] = [
+  { aspectMap: SCALARS, entityId: EXTREME, property: "Float", reason: "pg-mem rejects infinite doubles" },
+  { aspectMap: SCALARS, entityId: TYPICAL, property: "BigInteger", reason: "pg-mem keeps numeric values as doubles" },
+  { aspectMap: SCALARS, entityId: EXTREME, property: "BigInteger", reason: "pg-mem keeps numeric values as doubles" },
+  { aspectMap: SCALARS, entityId: TYPICAL, property: "BigDecimal", reason: "pg-mem keeps numeric values as doubles" },
+  { aspectMap: SCALARS, entityId: EXTREME, property: "BigDecimal", reason: "pg-mem keeps numeric values as doubles" },
+  { aspectMap: SCALARS, entityId: TYPICAL, property: "BLOB", reason: "pg-mem mangles bytea bytes above 127" },
+  { aspectMap: SCALARS, entityId: EXTREME, property: "BLOB", reason: "pg-mem mangles bytea bytes above 127" },
+];
+
+function postgresBackend(options: PostgresConnectOptions): ConformanceBackend<PostgresCatalog> {
+  const { Pool: MemPool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+  const pool = new MemPool() as Pool;
+  return {
+    createCatalog: (globalId) => PostgresCatalog.create(pool, globalId, CatalogSpecies.SINK, null, options),
+    save: (catalog) => catalog.save(),
+    load: (globalId) => PostgresCatalog.open(pool, globalId),
+    close: () => pool.end(),
+  };
+}
+
+describeCatalogConformance("PostgreSQL", () => postgresBackend({}), { skippedValues: PG_MEM_SKIPPED_VALUES });
+
+describeCatalogConformance("PostgreSQL JSONB", () => postgresBackend({ jsonb: true }));
@@ -0,0 +1,131 @@
+/**
+ * PostgresDao implementation
+ */
+
+import { Aspect, AspectDef, CheapFactory, PropertyValueAdapter } from "@cheap-ts/core";
+import { SqlAspectTable, SqlDao } from "@cheap-ts/db";
+import { PostgresDatabase } from "./PostgresDatabase.js";
+import { PostgresDialect } from "./PostgresDialect.js";
+import { JsonbPropertyFilter, PostgresJsonbAspectTable } from "./PostgresJsonbAspectTable.js";
+import { PostgresMigrationConnection } from "./PostgresMigrationConnection.js";
+import { PostgresValueCodec } from "./PostgresValueCodec.js";
+
+export type { CatalogHeader } from "@cheap-ts/db";
+
+/**
+ * Reads and writes catalogs in a PostgreSQL database with the schema created
+ * by PostgresCheapSchema; see SqlDao.
+ *
+ * AspectDefs given a table of their own store their aspects with a column of
+ * the native type for each property (see PostgresValueCodec). DDL is
+ * transactional, so saving a catalog adds columns to the tables of its
+ * AspectDefs in the same transaction as its rows.
+ *
+ * AspectDefs that change often can store their aspects as JSONB documents
+ * instead, which needs no DDL when properties are added or removed; see
+ * createJsonbAspectTable(). Such aspects can be filtered by property in the
+ * database with findAspects().
+ */
+export class PostgresDao extends SqlDao {
+  private readonly _db: PostgresDatabase;
+  private readonly _valueCodec: PostgresValueCodec;
+
+  /**
+   * Creates a new PostgresDao.
+   *
+   * @param db the pool or client
+   * @param adapter the adapter used to coerce loaded values
+   */
+  constructor(db: PostgresDatabase, adapter?: PropertyValueAdapter) {
+    const codec = new PostgresValueCodec(adapter);
+    super(new PostgresMigrationConnection(db), new PostgresDialect(), codec);
+    this._db = db;
+    this._valueCodec = codec;
+  }
+
+  /**
+   * Returns the pool or client.
+   */
+  database(): PostgresDatabase {
+    return this._db;
+  }
+
+  /**
+   * Returns the table that stores the aspects of an AspectDef, or null if
+   * they are stored in the generic tables. Tables registered with the storage "jsonb" are returned as
+   * PostgresJsonbAspectTables.
+   *
+   * @param aspectDef the AspectDef
+   */
+  async aspectTable(aspectDef: AspectDef): Promise<SqlAspectTable | null> {
+    const rows = await this.connection().query<{ table_name: string; storage: string }>(
+      "SELECT table_name, storage FROM aspect_table WHERE aspect_def_id = ? AND property_name IS NULL",
+      [aspectDef.globalId()],
+    );
+    if (rows.length > 0 && rows[0].storage === "jsonb") {
+      return new PostgresJsonbAspectTable(this.connection(), this._valueCodec, aspectDef, rows[0].table_name);
+    }
+    return super.aspectTable(aspectDef);
+  }
+
+  /**
+   * Saves an AspectDef and creates the table that stores its aspects as JSONB
+   * documents, in a single transaction. Once created, saving a catalog keeps
+   * the AspectDef's aspects there.
+   *
+   * @param aspectDef the AspectDef
+   * @param tableName the name of the table; defaults to defaultTableName()
+   * @returns the table
+   * @throws Error if the AspectDef already has a table with another name or
+   *   that stores its aspects in columns, aspects of the AspectDef are already
+   *   stored in the generic tables, or the table name is taken
+   */
+  async createJsonbAspectTable(
+    aspectDef: AspectDef,
+    tableName: string = this.defaultTableName(aspectDef),
+  ): Promise<PostgresJsonbAspectTable> {
+    const existing = await this.aspectTable(aspectDef);
+    if (existing && !(existing instanceof PostgresJsonbAspectTable)) {
+      throw new Error(
+        `AspectDef '${aspectDef.name()}' is already stored in the columns of table '${existing.tableName()}'.`,
+      );
+    }
+    if (existing && existing.tableName() !== tableName) {
+      throw new Error(
+        `AspectDef '${aspectDef.name()}' is already stored in table '${existing.tableName()}', not '${tableName}'.`,
+      );
+    }
+    await this.checkNotStoredGenerically(aspectDef);
+    const table = existing ?? new PostgresJsonbAspectTable(this.connection(), this._valueCodec, aspectDef, tableName);
+    await this.transaction(async (dao) => {
+      await dao.saveAspectDef(aspectDef);
+      await table.create();
+    });
+    return table;
+  }
+
+  /**
+   * Finds the stored aspects of an AspectDef in a catalog whose properties
+   * match every filter; see PostgresJsonbAspectTable.find().
+   *
+   * @param catalogId the global ID of the catalog
+   * @param aspectDef the AspectDef, whose aspects must be stored as JSONB
+   * @param filters the conditions the aspects must meet
+   * @param factory the factory that resolves entities
+   * @returns new aspects with the stored property values, ordered by entity global ID
+   * @throws Error if the aspects of the AspectDef are not stored as JSONB, or
+   *   a filter is invalid for its property
+   */
+  async findAspects(
+    catalogId: string,
+    aspectDef: AspectDef,
+    filters: readonly JsonbPropertyFilter[],
+    factory: CheapFactory = new CheapFactory(),
+  ): Promise<Aspect[]> {
+    const table = await this.aspectTable(aspectDef);
+    if (!(table instanceof PostgresJsonbAspectTable)) {
+      throw new Error(`The aspects of AspectDef '${aspectDef.name()}' are not stored as JSONB.`);
+    }
+    return table.find(catalogId, filters, factory);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * PostgreSQL connection types
+ */
+
+import type { Pool, PoolClient } from "pg";
+
+/**
+ * A node-postgres pool, or a client checked out of one. Everything in this
+ * package that talks to the database accepts either; a client is used as is,
+ * while a pool hands out a client for each transaction.
+ */
+export type PostgresDatabase = Pool | PoolClient;
+
+/**
+ * Returns whether a database is a pool rather than a single client.
+ *
+ * @param db the pool or client
+ */
+export function isPool(db: PostgresDatabase): db is Pool {
+  // Only clients checked out of a pool can be released back into it
+  return typeof (db as Partial<PoolClient>).release !== "function";
+}
+
+/**
+ * Runs a function with a single client: the given client itself, or a client
+ * checked out of the given pool and released once the function settles.
+ *
+ * @param db the pool or client
+ * @param fn the function to run
+ * @returns the result of fn
+ */
+export async function withClient<T>(db: PostgresDatabase, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  if (!isPool(db)) {
+    return fn(db);
+  }
+  const client = await db.connect();
+  try {
+    return await fn(client);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Runs a function in a transaction on a single client, committing if it
+ * resolves and rolling back if it rejects.
+ *
+ * @param db the pool or client
+ * @param fn the work to do in the transaction, on the client that runs it
+ * @returns the result of fn
+ */
+export async function inTransaction<T>(db: PostgresDatabase, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  return withClient(db, async (client) => {
+    await client.query("BEGIN");
+    try {
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    }
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * PostgresDialect implementation
+ */
+
+import { PropertyDef } from "@cheap-ts/core";
+import { SqlDialect } from "@cheap-ts/db";
+import { numberPlaceholders } from "./PostgresMigrationConnection.js";
+import { PostgresValueCodec } from "./PostgresValueCodec.js";
+
+/**
+ * The PostgreSQL dialect of SQL: double-quoted identifiers, numbered "$1"
+ * placeholders, INSERT ... ON CONFLICT upserts, uuid ids and the column types
+ * of PostgresValueCodec. DDL is transactional, so a catalog save creates its
+ * aspect tables in the same transaction as its rows.
+ */
+export class PostgresDialect implements SqlDialect {
+  readonly name = "PostgreSQL";
+
+  /** PostgreSQL silently truncates longer names to 63 bytes. */
+  readonly maxIdentifierLength = 63;
+
+  readonly transactionalDdl = true;
+
+  readonly idColumnType = "uuid";
+
+  private readonly _codec = new PostgresValueCodec();
+
+  quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  placeholders(sql: string): string {
+    return numberPlaceholders(sql);
+  }
+
+  upsert(table: string, keyColumns: readonly string[], columns: readonly string[]): string {
+    const allColumns = [...keyColumns, ...columns];
+    return `INSERT INTO ${table} (${allColumns.join(", ")}) VALUES (${allColumns.map(() => "?").join(", ")})
+       ON CONFLICT (${keyColumns.join(", ")}) DO UPDATE SET ${columns.map((c) => `${c} = excluded.${c}`).join(", ")}`;
+  }
+
+  columnType(propDef: PropertyDef): string {
+    return this._codec.columnType(propDef);
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * PostgresJsonbAspectTable implementation
+ */
+
+import { Aspect, AspectDef, CheapFactory, PropertyDef, PropertyType } from "@cheap-ts/core";
+import { SqlAspectTable, SqlConnection } from "@cheap-ts/db";
+import { PostgresDialect } from "./PostgresDialect.js";
+import { PostgresValueCodec } from "./PostgresValueCodec.js";
+
+/**
+ * How a JsonbPropertyFilter compares a property with its value.
+ */
+export type JsonbFilterOperator = "=" | "<>" | "<" | "<=" | ">" | ">=" | "contains";
+
+/**
+ * A condition on one property of the aspects found by
+ * PostgresJsonbAspectTable.find().
+ */
+export interface JsonbPropertyFilter {
+  /** The name of the property. */
+  property: string;
+
+  /** How to compare the property with the value; defaults to "=". */
+  operator?: JsonbFilterOperator;
+
+  /**
+   * The value to compare the property with, or for "contains" an element of a
+   * multivalued property. With null, "=" matches properties that are null or
+   * missing, and "<>" the others.
+   */
+  value: unknown;
+}
+
+interface DocumentRow {
+  entity_id: string;
+  aspect: Record<string, unknown>;
+}
+
+interface Condition {
+  sql: string;
+  params: unknown[];
+}
+
+const OPERATORS: readonly JsonbFilterOperator[] = ["=", "<>", "<", "<=", ">", ">=", "contains"];
+
+/** The most entity IDs listed in the IN clause of one read statement. */
+const READ_BATCH_SIZE = 500;
+
+/** The types whose values are ordered as numbers; the others with an order are ordered by their text form. */
+const NUMERIC_TYPES = [PropertyType.Integer, PropertyType.Float, PropertyType.BigInteger, PropertyType.BigDecimal];
+
+/** The types whose values have no order. */
+const UNORDERED_TYPES = [PropertyType.Boolean, PropertyType.BLOB];
+
+/**
+ * The table that stores the aspects of one AspectDef in a PostgreSQL database
+ * as JSONB documents, one per aspect, rather than in a column per property;
+ * see SqlAspectTable.
+ *
+ * Each document maps the names of the properties an aspect contains to their
+ * JSON values (see PostgresValueCodec.toJson()), so properties can be added to
+ * or removed from the AspectDef without any DDL; the values of properties the
+ * AspectDef no longer has are ignored when loading.
+ *
+ * The documents have a GIN index with the jsonb_path_ops operator class, which
+ * serves the containment (@>) tests that find() uses for equality filters.
+ *
+ * The table is registered in aspect_table with the storage "jsonb", which tells
+ * PostgresDao to load it with this class.
+ */
+export class PostgresJsonbAspectTable extends SqlAspectTable {
+  private readonly _valueCodec: PostgresValueCodec;
+
+  /**
+   * Creates a new PostgresJsonbAspectTable. This does not create the table; see create().
+   *
+   * @param connection the connection to the database
+   * @param codec the codec that converts property values to JSON values
+   * @param aspectDef the AspectDef whose aspects the table stores
+   * @param tableName the name of the table
+   * @throws Error if the table name or a property name is longer than 63
+   *   characters, or a property name conflicts with a key column
+   */
+  constructor(connection: SqlConnection, codec: PostgresValueCodec, aspectDef: AspectDef, tableName: string) {
+    super(connection, new PostgresDialect(), codec, aspectDef, tableName);
+    this._valueCodec = codec;
+  }
+
+  /**
+   * Returns the statement that creates the aspect table.
+   */
+  ddl(): string {
+    return [
+      `CREATE TABLE IF NOT EXISTS ${this.quotedName()} (`,
+      "    catalog_id uuid NOT NULL,",
+      "    entity_id uuid NOT NULL,",
+      "    aspect jsonb NOT NULL,",
+      "    PRIMARY KEY (catalog_id, entity_id),",
+      "    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE",
+      ")",
+    ].join("\n");
+  }
+
+  /**
+   * Inserts the document of an aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   */
+  async insert(catalogId: string, aspect: Aspect): Promise<void> {
+    await this._connection.execute(
+      `INSERT INTO ${this.quotedName()} (catalog_id, entity_id, aspect) VALUES (?, ?, ?::jsonb)`,
+      [catalogId, aspect.entity().globalId(), this.document(aspect)],
+    );
+  }
+
+  /**
+   * Rewrites the document of a stored aspect. The document is replaced as a
+   * whole, whichever properties changed.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   * @param _propNames the names of the changed properties
+   */
+  async update(catalogId: string, aspect: Aspect, _propNames: Iterable<string>): Promise<void> {
+    await this._connection.execute(
+      `UPDATE ${this.quotedName()} SET aspect = ?::jsonb WHERE catalog_id = ? AND entity_id = ?`,
+      [this.document(aspect), catalogId, aspect.entity().globalId()],
+    );
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it. Aspects that
+   * are not stored are left unchanged.
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their documents
+   */
+  async readInto(catalogId: string, aspects: Aspect[]): Promise<void> {
+    const rows: DocumentRow[] = [];
+    for (let start = 0; start < aspects.length; start += READ_BATCH_SIZE) {
+      const entityIds = aspects.slice(start, start + READ_BATCH_SIZE).map((aspect) => aspect.entity().globalId());
+      rows.push(
+        ...(await this._connection.query<DocumentRow>(
+          `SELECT entity_id, aspect FROM ${this.quotedName()}
+           WHERE catalog_id = ? AND entity_id IN (${entityIds.map(() => "?").join(", ")})`,
+          [catalogId, ...entityIds],
+        )),
+      );
+    }
+    const documents = new Map(rows.map((row) => [row.entity_id, row.aspect]));
+    for (const aspect of aspects) {
+      const document = documents.get(aspect.entity().globalId());
+      if (document) {
+        this.decodeInto(aspect, document);
+      }
+    }
+  }
+
+  /**
+   * Finds the stored aspects of a catalog whose properties match every filter,
+   * ordered by entity global ID. The filters are evaluated by the database,
+   * on the JSONB documents.
+   *
+   * Equality filters and "contains" become containment tests, which the GIN
+   * index serves. The other comparisons order Integer, Float, BigInteger and
+   * BigDecimal values as numbers, and String, Text, CLOB, DateTime, UUID and
+   * URI values by their text form; Boolean, BLOB and multivalued properties
+   * cannot be ordered.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param filters the conditions the aspects must meet
+   * @param factory the factory that resolves entities
+   * @returns new aspects with the stored property values
+   * @throws Error if a filter names a property the AspectDef does not have,
+   *   or uses an operator its property does not support
+   */
+  async find(
+    catalogId: string,
+    filters: readonly JsonbPropertyFilter[],
+    factory: CheapFactory = new CheapFactory(),
+  ): Promise<Aspect[]> {
+    const conditions = filters.map((filter) => this.condition(filter));
+    const where = ["catalog_id = ?", ...conditions.map((condition) => condition.sql)].join(" AND ");
+    const rows = await this._connection.query<DocumentRow>(
+      `SELECT entity_id, aspect FROM ${this.quotedName()} WHERE ${where} ORDER BY entity_id`,
+      [catalogId, ...conditions.flatMap((condition) => condition.params)],
+    );
+    return rows.map((row) => {
+      const aspect = factory.createObjectMapAspect(factory.getOrRegisterNewEntity(row.entity_id), this._aspectDef);
+      this.decodeInto(aspect, row.aspect);
+      return aspect;
+    });
+  }
+
+  /**
+   * Creates the GIN index on the documents. Properties are keys of the
+   * documents, so there are no columns to add.
+   */
+  protected async extend(): Promise<void> {
+    const indexName = this._dialect.quoteIdentifier(`${this._tableName.slice(0, 59)}_gin`);
+    await this._connection.execute(
+      `CREATE INDEX IF NOT EXISTS ${indexName} ON ${this.quotedName()} USING GIN (aspect jsonb_path_ops)`,
+    );
+  }
+
+  /**
+   * Records the table in the aspect_table registry, with the storage "jsonb".
+   */
+  protected async register(): Promise<void> {
+    await this._connection.execute(
+      "INSERT INTO aspect_table (table_name, aspect_def_id, storage) VALUES (?, ?, 'jsonb')",
+      [this._tableName, this._aspectDef.globalId()],
+    );
+  }
+
+  /**
+   * Returns the JSON text of an aspect's document.
+   */
+  private document(aspect: Aspect): string {
+    const document: Record<string, unknown> = {};
+    for (const propDef of this._aspectDef.propertyDefs()) {
+      if (aspect.contains(propDef.name())) {
+        // Define the member rather than assign it, so that a "__proto__" property is kept
+        Object.defineProperty(document, propDef.name(), {
+          value: this._valueCodec.toJson(propDef, aspect.unsafeReadObj(propDef.name())),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+    }
+    return JSON.stringify(document);
+  }
+
+  private decodeInto(aspect: Aspect, document: Record<string, unknown>): void {
+    for (const propDef of this._aspectDef.propertyDefs()) {
+      const stored = document[propDef.name()];
+      if (stored === null || stored === undefined) {
+        continue;
+      }
+      aspect.unsafeWrite(propDef.name(), this._valueCodec.fromJson(propDef, stored));
+    }
+  }
+
+  private condition(filter: JsonbPropertyFilter): Condition {
+    const propDef = this._aspectDef.propertyDef(filter.property);
+    if (!propDef) {
+      throw new Error(`AspectDef '${this._aspectDef.name()}' has no property '${filter.property}'.`);
+    }
+    const operator = filter.operator ?? "=";
+    if (!OPERATORS.includes(operator)) {
+      throw new Error(`Unknown filter operator '${operator}'.`);
+    }
+    const name = propDef.name();
+
+    if (filter.value === null || filter.value === undefined) {
+      if (operator !== "=" && operator !== "<>") {
+        throw new Error(`Cannot compare property '${name}' with null using '${operator}'.`);
+      }
+      // ->> yields null for JSON nulls and missing keys alike
+      return { sql: `aspect ->> ? IS ${operator === "=" ? "" : "NOT "}NULL`, params: [name] };
+    }
+    if (operator === "=" || operator === "<>") {
+      const equal = this.equality(propDef, filter.value);
+      return operator === "=" ? equal : { sql: `NOT (${equal.sql})`, params: equal.params };
+    }
+    if (operator === "contains") {
+      if (!propDef.isMultivalued()) {
+        throw new Error(`Property '${name}' is not multivalued, so it cannot be filtered with 'contains'.`);
+      }
+      return {
+        sql: "aspect @> ?::jsonb",
+        params: [JSON.stringify({ [name]: this._valueCodec.toJson(propDef, [filter.value]) })],
+      };
+    }
+
+    const type = propDef.type();
+    if (propDef.isMultivalued() || UNORDERED_TYPES.includes(type)) {
+      throw new Error(`Property '${name}' cannot be compared with '${operator}', since its values have no order.`);
+    }
+    const text = this._valueCodec.toText(type, filter.value);
+    if (NUMERIC_TYPES.includes(type)) {
+      return { sql: `(aspect ->> ?)::numeric ${operator} ?::numeric`, params: [name, text] };
+    }
+    return { sql: `aspect ->> ? ${operator} ?`, params: [name, text] };
+  }
+
+  private equality(propDef: PropertyDef, value: unknown): Condition {
+    const json = this._valueCodec.toJson(propDef, value);
+    const contains: Condition = { sql: "aspect @> ?::jsonb", params: [JSON.stringify({ [propDef.name()]: json })] };
+    if (!propDef.isMultivalued()) {
+      // Containment of a scalar is equality
+      return contains;
+    }
+    // Containment ignores the order and repetition of array elements, so the index only narrows the search
+    return {
+      sql: `(${contains.sql} AND aspect -> ? = ?::jsonb)`,
+      params: [...contains.params, propDef.name(), JSON.stringify(json)],
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * PostgresMigrationConnection implementation
+ */
+
+import { SqlConnection } from "@cheap-ts/db";
+import { PostgresDatabase, inTransaction } from "./PostgresDatabase.js";
+
+/**
+ * SqlConnection over a node-postgres pool or client, used both to migrate the
+ * schema and by PostgresDao.
+ *
+ * Statements are written with "?" placeholders, which are translated to the
+ * numbered "$1" placeholders that PostgreSQL expects. A transaction runs on a
+ * single client: on a pool, one is checked out for the duration of the
+ * transaction and every statement executed during it goes through that client.
+ * Transactions begun while one is running join it.
+ */
+export class PostgresMigrationConnection implements SqlConnection {
+  private readonly _db: PostgresDatabase;
+  private _transactionDb: PostgresDatabase | null = null;
+
+  /**
+   * Creates a new PostgresMigrationConnection.
+   *
+   * @param db the pool or client to run statements on
+   */
+  constructor(db: PostgresDatabase) {
+    this._db = db;
+  }
+
+  async execute(sql: string, params: readonly unknown[] = []): Promise<void> {
+    await this.db().query(numberPlaceholders(sql), [...params]);
+  }
+
+  async update(sql: string, params: readonly unknown[] = []): Promise<number> {
+    const result = await this.db().query(numberPlaceholders(sql), [...params]);
+    return result.rowCount ?? 0;
+  }
+
+  async query<T>(sql: string, params: readonly unknown[] = []): Promise<T[]> {
+    const result = await this.db().query(numberPlaceholders(sql), [...params]);
+    return result.rows as T[];
+  }
+
+  async tableExists(name: string): Promise<boolean> {
+    const result = await this.db().query(
+      "SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = $1",
+      [name],
+    );
+    return result.rows.length > 0;
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this._transactionDb) {
+      return fn();
+    }
+    return inTransaction(this._db, async (client) => {
+      this._transactionDb = client;
+      try {
+        return await fn();
+      } finally {
+        this._transactionDb = null;
+      }
+    });
+  }
+
+  inTransaction(): boolean {
+    return this._transactionDb !== null;
+  }
+
+  private db(): PostgresDatabase {
+    return this._transactionDb ?? this._db;
+  }
+}
+
+/**
+ * Replaces the "?" placeholders of a statement with "$1", "$2" and so on.
+ * Question marks inside string literals and quoted identifiers are left alone.
+ */
+export function numberPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|\?/g, (match) => (match === "?" ? `$${++index}` : match));
+}
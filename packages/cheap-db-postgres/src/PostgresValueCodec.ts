@@ -0,0 +1,299 @@
+/**
+ * PostgresValueCodec implementation
+ */
+
+import { PropertyDef, PropertyType, PropertyValueAdapter } from "@cheap-ts/core";
+import { SqlValueCodec } from "@cheap-ts/db";
+
+/**
+ * Converts property values to and from the native PostgreSQL column types of
+ * aspect tables, according to their PropertyType:
+ * - Integer: bigint
+ * - Float: double precision
+ * - Boolean: boolean
+ * - BigInteger, BigDecimal: numeric, so that no digits are lost
+ * - DateTime: timestamptz
+ * - UUID: uuid
+ * - BLOB: bytea
+ * - String, Text, CLOB, URI: text
+ *
+ * Multivalued properties are stored as text[], each element in its text form.
+ * The text form is also used for PropertyDef default values:
+ * - Integer, Float: decimal string (non-finite floats as "NaN", "Infinity", "-Infinity")
+ * - Boolean: "true" or "false"
+ * - BigInteger, BigDecimal: string of decimal digits
+ * - DateTime: ISO-8601 string in UTC
+ * - BLOB: lowercase hex digits
+ * - String, Text, CLOB, UUID, URI: the string itself
+ *
+ * Aspects stored as JSONB documents (see PostgresJsonbAspectTable) hold each
+ * value as JSON: Integer and Float values as numbers (non-finite ones in their
+ * text form), Boolean values as booleans, every other type in its text form,
+ * and multivalued properties as arrays of those.
+ */
+export class PostgresValueCodec implements SqlValueCodec {
+  private readonly _adapter: PropertyValueAdapter;
+
+  /**
+   * Creates a new PostgresValueCodec.
+   *
+   * @param adapter the adapter used to coerce decoded values; defaults to a new adapter in the local time zone
+   */
+  constructor(adapter?: PropertyValueAdapter) {
+    this._adapter = adapter ?? new PropertyValueAdapter();
+  }
+
+  /**
+   * Returns the PostgreSQL column type that holds values of a property.
+   *
+   * @param propDef the PropertyDef
+   */
+  columnType(propDef: PropertyDef): string {
+    if (propDef.isMultivalued()) {
+      return "text[]";
+    }
+    switch (propDef.type()) {
+      case PropertyType.Integer:
+        return "bigint";
+      case PropertyType.Float:
+        return "double precision";
+      case PropertyType.Boolean:
+        return "boolean";
+      case PropertyType.BigInteger:
+      case PropertyType.BigDecimal:
+        return "numeric";
+      case PropertyType.DateTime:
+        return "timestamptz";
+      case PropertyType.UUID:
+        return "uuid";
+      case PropertyType.BLOB:
+        return "bytea";
+      default:
+        return "text";
+    }
+  }
+
+  /**
+   * Converts a property value to the value bound to its column.
+   *
+   * @param propDef the PropertyDef
+   * @param value the value, which may be null
+   * @returns the column value
+   */
+  toNative(propDef: PropertyDef, value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const type = propDef.type();
+    if (propDef.isMultivalued()) {
+      return (value as unknown[]).map((element) =>
+        element === null || element === undefined ? null : this.toText(type, element),
+      );
+    }
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        return Number(value);
+      case PropertyType.Boolean:
+        return value === true || value === "true";
+      case PropertyType.DateTime:
+        return this._adapter.coerceToDate(value);
+      case PropertyType.BLOB:
+        return Buffer.from(this._adapter.coerceToByteArray(value));
+      default:
+        // numeric accepts the decimal string of a bigint or BigDecimal
+        return this.toText(type, value);
+    }
+  }
+
+  /**
+   * Converts a column value read from an aspect table back to a property
+   * value, coerced to the property's JS type.
+   *
+   * @param propDef the PropertyDef
+   * @param stored the column value
+   * @returns the value, or null if the column is null
+   */
+  fromNative(propDef: PropertyDef, stored: unknown): unknown {
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+    const type = propDef.type();
+    if (propDef.isMultivalued()) {
+      return this.coerce(
+        propDef,
+        (stored as (string | null)[]).map((element) => (element === null ? null : this.fromText(type, element))),
+      );
+    }
+    let value: unknown;
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        // node-postgres returns bigint columns as strings
+        value = Number(stored);
+        break;
+      case PropertyType.Boolean:
+      case PropertyType.DateTime:
+        value = stored;
+        break;
+      case PropertyType.BLOB:
+        value = new Uint8Array(stored as Uint8Array);
+        break;
+      default:
+        value = this.fromText(type, String(stored));
+    }
+    return this.coerce(propDef, value);
+  }
+
+  /**
+   * Converts a property value to the JSON value stored for it in a JSONB
+   * document.
+   *
+   * @param propDef the PropertyDef
+   * @param value the value, which may be null
+   * @returns the JSON value
+   */
+  toJson(propDef: PropertyDef, value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const type = propDef.type();
+    if (propDef.isMultivalued()) {
+      return (value as unknown[]).map((element) =>
+        element === null || element === undefined ? null : this.toJsonElement(type, element),
+      );
+    }
+    return this.toJsonElement(type, value);
+  }
+
+  /**
+   * Converts a JSON value read from a JSONB document back to a property value,
+   * coerced to the property's JS type.
+   *
+   * @param propDef the PropertyDef
+   * @param stored the JSON value
+   * @returns the value, or null if the JSON value is null or missing
+   */
+  fromJson(propDef: PropertyDef, stored: unknown): unknown {
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+    const type = propDef.type();
+    if (propDef.isMultivalued()) {
+      return this.coerce(
+        propDef,
+        (stored as unknown[]).map((element) => (element === null ? null : this.fromJsonElement(type, element))),
+      );
+    }
+    return this.coerce(propDef, this.fromJsonElement(type, stored));
+  }
+
+  /**
+   * Converts a single (non-collection) non-null value to its text form.
+   *
+   * @param type the property type
+   * @param value the value
+   * @returns the text form of the value
+   */
+  toText(type: PropertyType, value: unknown): string {
+    switch (type) {
+      case PropertyType.DateTime:
+        return this._adapter.coerceToDate(value).toISOString();
+      case PropertyType.BLOB:
+        return Buffer.from(this._adapter.coerceToByteArray(value)).toString("hex");
+      default:
+        // Numbers, booleans, bigints, URLs and strings all have the right String() form
+        return String(value);
+    }
+  }
+
+  /**
+   * Converts the text form of a single (non-collection) value back to a value.
+   * The result still needs to be coerced to the property's JS type.
+   *
+   * @param type the property type
+   * @param text the text form
+   * @returns the value
+   */
+  fromText(type: PropertyType, text: string): unknown {
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        return Number(text);
+      default:
+        // The adapter parses booleans, bigints, dates, URLs and hex BLOBs from strings
+        return text;
+    }
+  }
+
+  /**
+   * Converts the default value of a PropertyDef to text. Multivalued defaults
+   * are written as a JSON array of the text forms of their elements.
+   *
+   * @param propDef the PropertyDef
+   * @returns the text form of the default, or null if it is null
+   */
+  defaultToText(propDef: PropertyDef): string | null {
+    const value = propDef.defaultValue();
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      return JSON.stringify(
+        (value as unknown[]).map((element) => (element === null ? null : this.toText(propDef.type(), element))),
+      );
+    }
+    return this.toText(propDef.type(), value);
+  }
+
+  /**
+   * Converts the text form of a default value back to a value of a PropertyDef.
+   *
+   * @param propDef a nullable PropertyDef with the type and multiplicity of the default
+   * @param text the text form, or null
+   * @returns the default value, coerced to the property's JS type
+   */
+  defaultFromText(propDef: PropertyDef, text: string | null): unknown {
+    if (text === null) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      const elements = JSON.parse(text) as (string | null)[];
+      return this.coerce(
+        propDef,
+        elements.map((element) => (element === null ? null : this.fromText(propDef.type(), element))),
+      );
+    }
+    return this.coerce(propDef, this.fromText(propDef.type(), text));
+  }
+
+  private toJsonElement(type: PropertyType, value: unknown): unknown {
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float: {
+        const number = Number(value);
+        // JSON has no NaN or infinities
+        return Number.isFinite(number) ? number : String(number);
+      }
+      case PropertyType.Boolean:
+        return value === true || value === "true";
+      default:
+        return this.toText(type, value);
+    }
+  }
+
+  private fromJsonElement(type: PropertyType, element: unknown): unknown {
+    return typeof element === "string" ? this.fromText(type, element) : element;
+  }
+
+  /**
+   * Coerces a decoded value to the JS type of a PropertyDef.
+   *
+   * @param propDef the PropertyDef
+   * @param value the decoded value
+   * @returns the coerced value
+   */
+  coerce(propDef: PropertyDef, value: unknown): unknown {
+    return this._adapter.coerce(propDef, value);
+  }
+}
@@ -3,6 +3,9 @@ export default {
   testEnvironment: 'node',
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
+    '^@cheap-ts/core$': '<rootDir>/../cheap-core/src/index.ts',
+    '^@cheap-ts/db$': '<rootDir>/../cheap-db/src/index.ts',
+    '^@cheap-ts/db-conformance$': '<rootDir>/../cheap-db-conformance/src/index.ts',
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   transform: {
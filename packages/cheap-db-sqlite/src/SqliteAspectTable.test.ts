@@ -0,0 +1,235 @@
+/**
+ * Unit tests for SqliteAspectTable and table-per-AspectDef storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import {
+  AspectObjectMapImpl,
+  EntityImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { SqliteAspectTable } from "./SqliteAspectTable.js";
+import { SqliteCatalog } from "./SqliteCatalog.js";
+import { SqliteCheapSchema } from "./SqliteCheapSchema.js";
+import { SqliteDao } from "./SqliteDao.js";
+import { SqliteValueCodec } from "./SqliteValueCodec.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const PERSON_DEF_ID = "20000000-0000-0000-0000-000000000001";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+
+function personDef(extra: PropertyDef[] = []): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("name", PropertyType.String);
+  add("age", PropertyType.Integer);
+  add("height", PropertyType.Float);
+  add("active", PropertyType.Boolean);
+  add("born", PropertyType.DateTime);
+  add("balance", PropertyType.BigInteger);
+  add("photo", PropertyType.BLOB);
+  add("order", PropertyType.String);
+  add("nicknames", PropertyType.String, true);
+  for (const propDef of extra) {
+    propDefs.set(propDef.name(), propDef);
+  }
+  return new FullAspectDefImpl("person", PERSON_DEF_ID, propDefs, true, true, false, true);
+}
+
+function tableColumns(db: Database, table: string): Record<string, string> {
+  const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string; type: string }[];
+  return Object.fromEntries(columns.map((c) => [c.name, c.type]));
+}
+
+describe("SqliteAspectTable", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new BetterSqlite3(":memory:");
+    await new SqliteCheapSchema().migrate(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should create typed columns and a side table per multivalued property", async () => {
+    const table = await new SqliteDao(db).createAspectTable(personDef());
+
+    expect(table.tableName()).toBe("aspect_person");
+    expect(tableColumns(db, "aspect_person")).toEqual({
+      catalog_id: "TEXT",
+      entity_id: "TEXT",
+      name: "TEXT",
+      age: "INTEGER",
+      height: "REAL",
+      active: "INTEGER",
+      born: "TEXT",
+      balance: "TEXT",
+      photo: "BLOB",
+      order: "TEXT",
+      nicknames: "INTEGER",
+    });
+    expect(tableColumns(db, "aspect_person__nicknames")).toEqual({
+      catalog_id: "TEXT",
+      entity_id: "TEXT",
+      value_index: "INTEGER",
+      value: "TEXT",
+    });
+    expect(db.prepare("SELECT table_name, property_name FROM aspect_table ORDER BY table_name").all()).toEqual([
+      { table_name: "aspect_person", property_name: null },
+      { table_name: "aspect_person__nicknames", property_name: "nicknames" },
+    ]);
+  });
+
+  it("should reject property names that clash with key columns", () => {
+    const propDefs = new Map<string, PropertyDef>([
+      ["entity_id", new PropertyDefBuilder().setName("entity_id").setType(PropertyType.String).build()],
+    ]);
+    const def = new FullAspectDefImpl("clash", crypto.randomUUID(), propDefs, true, true, false, false);
+    expect(() => new SqliteAspectTable(db, new SqliteValueCodec(), def, "clash")).toThrow(
+      "conflicts with a key column",
+    );
+  });
+
+  it("should refuse tables that exist or belong to another AspectDef", async () => {
+    const dao = new SqliteDao(db);
+    db.exec("CREATE TABLE taken (id INTEGER)");
+    await expect(dao.createAspectTable(personDef(), "taken")).rejects.toThrow("is not an aspect table");
+
+    await dao.createAspectTable(personDef());
+    const other = new FullAspectDefImpl("other", crypto.randomUUID(), new Map(), true, true, false, false);
+    await expect(dao.createAspectTable(other, "aspect_person")).rejects.toThrow("already stores the aspects");
+    await expect(dao.createAspectTable(personDef(), "people")).rejects.toThrow(
+      "is already stored in table 'aspect_person'",
+    );
+  });
+
+  describe("in a catalog", () => {
+    async function saveCatalog(): Promise<SqliteCatalog> {
+      const catalog = new SqliteCatalog(CATALOG_ID);
+      const people = catalog.extend(personDef());
+      const alice = new AspectObjectMapImpl(new EntityImpl(ID1), people.aspectDef());
+      alice.write("name", "Alice");
+      alice.write("age", 42);
+      alice.write("height", 1.75);
+      alice.write("active", true);
+      alice.write("born", new Date("1983-04-05T06:07:08.090Z"));
+      alice.write("balance", 12345678901234567890n);
+      alice.write("photo", new Uint8Array([1, 2, 3]));
+      alice.write("order", "first");
+      alice.write("nicknames", ["Al", "Ally"]);
+      people.add(alice);
+      const bob = new AspectObjectMapImpl(new EntityImpl(ID2), people.aspectDef());
+      bob.write("name", "Bob");
+      people.add(bob);
+      await catalog.connect(db, { aspectTables: true });
+      await catalog.save();
+      return catalog;
+    }
+
+    it("should store aspects in plain SQL rows and load them back", async () => {
+      await saveCatalog();
+
+      expect(db.prepare("SELECT COUNT(*) FROM aspect").pluck().get()).toBe(0);
+      expect(db.prepare("SELECT COUNT(*) FROM property_value").pluck().get()).toBe(0);
+      expect(db.prepare('SELECT name, age, height, active, "order" FROM aspect_person ORDER BY name').all()).toEqual([
+        { name: "Alice", age: 42, height: 1.75, active: 1, order: "first" },
+        { name: "Bob", age: null, height: null, active: null, order: null },
+      ]);
+      expect(
+        db
+          .prepare(
+            `SELECT p.name, n.value FROM aspect_person p
+             JOIN aspect_person__nicknames n ON n.catalog_id = p.catalog_id AND n.entity_id = p.entity_id
+             ORDER BY n.value_index`,
+          )
+          .all(),
+      ).toEqual([
+        { name: "Alice", value: "Al" },
+        { name: "Alice", value: "Ally" },
+      ]);
+
+      for (const lazy of [false, true]) {
+        const loaded = await SqliteCatalog.open(db, CATALOG_ID, { lazy });
+        const people = loaded.aspects("person")!;
+        const [[e1, alice], [, bob]] = Array.from(people);
+        expect(e1.globalId()).toBe(ID1);
+        expect(alice.readObj("name")).toBe("Alice");
+        expect(alice.readObj("age")).toBe(42);
+        expect(alice.readObj("height")).toBe(1.75);
+        expect(alice.readObj("active")).toBe(true);
+        expect(alice.readObj("born")).toEqual(new Date("1983-04-05T06:07:08.090Z"));
+        expect(alice.readObj("balance")).toBe(12345678901234567890n);
+        expect(alice.readObj("photo")).toEqual(new Uint8Array([1, 2, 3]));
+        expect(alice.readObj("nicknames")).toEqual(["Al", "Ally"]);
+        expect(bob.readObj("name")).toBe("Bob");
+        expect(bob.contains("age")).toBe(false);
+        expect(people.get(e1)?.readObj("nicknames")).toEqual(["Al", "Ally"]);
+        await loaded.close();
+      }
+    });
+
+    it("should update only the changed columns on incremental saves", async () => {
+      const catalog = await saveCatalog();
+      const people = catalog.aspects("person")!;
+      const [[, alice], [bobEntity]] = Array.from(people);
+      alice.write("age", 43);
+      alice.write("nicknames", ["Lissy"]);
+      people.delete(bobEntity);
+
+      await catalog.save();
+
+      expect(db.prepare("SELECT entity_id, name, age, nicknames FROM aspect_person").all()).toEqual([
+        { entity_id: ID1, name: "Alice", age: 43, nicknames: 1 },
+      ]);
+      expect(db.prepare("SELECT value FROM aspect_person__nicknames").pluck().all()).toEqual(["Lissy"]);
+    });
+
+    it("should delete the rows of a deleted catalog", async () => {
+      await saveCatalog();
+
+      expect(await new SqliteDao(db).deleteCatalog(CATALOG_ID)).toBe(true);
+
+      expect(db.prepare("SELECT COUNT(*) FROM aspect_person").pluck().get()).toBe(0);
+      expect(db.prepare("SELECT COUNT(*) FROM aspect_person__nicknames").pluck().get()).toBe(0);
+    });
+
+    it("should add columns for properties added to the AspectDef", async () => {
+      await saveCatalog();
+      const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+      const catalog = new SqliteCatalog(CATALOG_ID);
+      const people = catalog.extend(personDef([email]));
+      const carol = new AspectObjectMapImpl(new EntityImpl(ID1), people.aspectDef());
+      carol.write("email", "carol@example.com");
+      people.add(carol);
+      await catalog.connect(db);
+      await catalog.save();
+
+      expect(tableColumns(db, "aspect_person").email).toBe("TEXT");
+      expect(db.prepare("SELECT entity_id, name, email FROM aspect_person").all()).toEqual([
+        { entity_id: ID1, name: null, email: "carol@example.com" },
+      ]);
+    });
+
+    it("should refuse a table for an AspectDef stored in the generic tables", async () => {
+      const catalog = new SqliteCatalog(CATALOG_ID);
+      const people = catalog.extend(personDef());
+      people.add(new AspectObjectMapImpl(new EntityImpl(ID1), people.aspectDef()));
+      await catalog.connect(db);
+      await catalog.save();
+
+      await expect(new SqliteDao(db).createAspectTable(personDef())).rejects.toThrow(
+        "already stored in the generic tables",
+      );
+      expect(await new SqliteDao(db).aspectTable(personDef())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * SqliteAspectTable implementation
+ */
+
+import type { Database } from "better-sqlite3";
+import { Aspect, AspectDef, PropertyDef } from "@cheap-ts/core";
+import { SqlAspectTable } from "@cheap-ts/db";
+import { SqliteDialect } from "./SqliteDialect.js";
+import { SqliteMigrationConnection } from "./SqliteMigrationConnection.js";
+import { SqliteValueCodec } from "./SqliteValueCodec.js";
+
+/**
+ * The table that stores the aspects of one AspectDef in a SQLite database;
+ * see SqlAspectTable.
+ *
+ * Property columns have the native type for their PropertyType (see
+ * SqliteValueCodec.columnType()). Each multivalued property has a side table,
+ * named after the aspect table and the property, with one row per element;
+ * its column in the aspect table holds the number of elements, or null if
+ * the value is null. Side tables are registered in aspect_table with the name
+ * of their property.
+ *
+ * Float NaN is stored as null. Side table rows are deleted along with their
+ * aspect, which relies on foreign key enforcement; see SqliteDao.
+ */
+export class SqliteAspectTable extends SqlAspectTable {
+  private readonly _db: Database;
+  private readonly _valueCodec: SqliteValueCodec;
+
+  /**
+   * Creates a new SqliteAspectTable. This does not create the table; see create().
+   *
+   * @param db the database connection
+   * @param codec the codec that converts property values to column values
+   * @param aspectDef the AspectDef whose aspects the table stores
+   * @param tableName the name of the table
+   * @throws Error if a property name conflicts with a key column
+   */
+  constructor(db: Database, codec: SqliteValueCodec, aspectDef: AspectDef, tableName: string) {
+    super(new SqliteMigrationConnection(db), new SqliteDialect(), codec, aspectDef, tableName);
+    this._db = db;
+    this._valueCodec = codec;
+  }
+
+  /**
+   * Returns the default table name for an AspectDef: "aspect_" followed by its
+   * name, with every character other than a letter, digit or underscore
+   * replaced by an underscore.
+   *
+   * @param aspectDef the AspectDef
+   */
+  static defaultTableName(aspectDef: AspectDef): string {
+    return SqlAspectTable.defaultTableName(aspectDef, new SqliteDialect());
+  }
+
+  /**
+   * Returns the name of the side table of a multivalued property.
+   *
+   * @param propName the name of the property
+   */
+  sideTableName(propName: string): string {
+    return `${this._tableName}__${propName.replace(/[^A-Za-z0-9_]/g, "_")}`;
+  }
+
+  /**
+   * Creates the aspect table and its side tables if they do not exist, and
+   * records them in the aspect_table registry; see SqlAspectTable.create().
+   *
+   * @throws Error if one of the tables exists but is not registered for this AspectDef
+   */
+  async create(): Promise<void> {
+    const aspectDefId = this._aspectDef.globalId();
+    for (const propDef of this.multivaluedDefs()) {
+      const sideTable = this.sideTableName(propDef.name());
+      const owner = await this._connection.query<{ aspect_def_id: string }>(
+        "SELECT aspect_def_id FROM aspect_table WHERE table_name = ?",
+        [sideTable],
+      );
+      const ownerId = owner[0]?.aspect_def_id;
+      if (ownerId !== undefined && ownerId !== aspectDefId) {
+        throw new Error(
+          `Table '${sideTable}' already stores the aspects of AspectDef ${ownerId}; ` +
+            `AspectDef '${this._aspectDef.name()}' (${aspectDefId}) needs a table with another name.`,
+        );
+      }
+      if (ownerId === undefined && (await this._connection.tableExists(sideTable))) {
+        throw new Error(`Table '${sideTable}' already exists and is not an aspect table.`);
+      }
+    }
+    await super.create();
+  }
+
+  /**
+   * Drops the aspect table and its side tables, and removes them from the
+   * aspect_table registry.
+   */
+  async drop(): Promise<void> {
+    const sideTables = await this._connection.query<{ table_name: string }>(
+      "SELECT table_name FROM aspect_table WHERE aspect_def_id = ? AND property_name IS NOT NULL",
+      [this._aspectDef.globalId()],
+    );
+    for (const { table_name } of sideTables) {
+      await this._connection.execute(`DROP TABLE IF EXISTS ${this._dialect.quoteIdentifier(table_name)}`);
+      await this._connection.execute("DELETE FROM aspect_table WHERE table_name = ?", [table_name]);
+    }
+    await super.drop();
+  }
+
+  /**
+   * Inserts the row of an aspect and the side table rows of its multivalued properties.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   */
+  async insert(catalogId: string, aspect: Aspect): Promise<void> {
+    await super.insert(catalogId, aspect);
+    for (const propDef of this.multivaluedDefs()) {
+      await this.insertElements(catalogId, aspect, propDef);
+    }
+  }
+
+  /**
+   * Rewrites the columns and side table rows of some properties of a stored aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   * @param propNames the names of the properties to rewrite; names not in the AspectDef are ignored
+   */
+  async update(catalogId: string, aspect: Aspect, propNames: Iterable<string>): Promise<void> {
+    const names = Array.from(propNames);
+    await super.update(catalogId, aspect, names);
+    for (const propName of names) {
+      const propDef = this._aspectDef.propertyDef(propName);
+      if (propDef?.isMultivalued()) {
+        await this._connection.execute(
+          `DELETE FROM ${this._dialect.quoteIdentifier(this.sideTableName(propName))}
+           WHERE catalog_id = ? AND entity_id = ?`,
+          [catalogId, aspect.entity().globalId()],
+        );
+        await this.insertElements(catalogId, aspect, propDef);
+      }
+    }
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it; see readIntoSync().
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their rows
+   */
+  async readInto(catalogId: string, aspects: Aspect[]): Promise<void> {
+    this.readIntoSync(catalogId, aspects);
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it, reading them
+   * synchronously. Aspects that are not stored are left unchanged.
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their rows
+   */
+  readIntoSync(catalogId: string, aspects: Aspect[]): void {
+    if (aspects.length === 0) {
+      return;
+    }
+    const entityIds = JSON.stringify(aspects.map((aspect) => aspect.entity().globalId()));
+    const rows = this._db
+      .prepare(
+        `SELECT * FROM ${this.quotedName()}
+         WHERE catalog_id = ? AND entity_id IN (SELECT value FROM json_each(?))`,
+      )
+      .all(catalogId, entityIds) as Record<string, unknown>[];
+    const rowsByEntity = new Map(rows.map((row) => [row.entity_id as string, row]));
+
+    const elementsByProperty = new Map<string, Map<string, unknown[]>>();
+    for (const propDef of this.multivaluedDefs()) {
+      const elementRows = this._db
+        .prepare(
+          `SELECT entity_id, value FROM ${this._dialect.quoteIdentifier(this.sideTableName(propDef.name()))}
+           WHERE catalog_id = ? AND entity_id IN (SELECT value FROM json_each(?)) ORDER BY entity_id, value_index`,
+        )
+        .all(catalogId, entityIds) as { entity_id: string; value: unknown }[];
+      const elementsByEntity = new Map<string, unknown[]>();
+      for (const elementRow of elementRows) {
+        const elements = elementsByEntity.get(elementRow.entity_id) ?? [];
+        elements.push(elementRow.value);
+        elementsByEntity.set(elementRow.entity_id, elements);
+      }
+      elementsByProperty.set(propDef.name(), elementsByEntity);
+    }
+
+    for (const aspect of aspects) {
+      const entityId = aspect.entity().globalId();
+      const row = rowsByEntity.get(entityId);
+      if (!row) {
+        continue;
+      }
+      for (const propDef of this._aspectDef.propertyDefs()) {
+        const stored = row[propDef.name()];
+        if (stored === null || stored === undefined) {
+          continue;
+        }
+        const column = propDef.isMultivalued() ? (elementsByProperty.get(propDef.name())!.get(entityId) ?? []) : stored;
+        aspect.unsafeWrite(propDef.name(), this._valueCodec.fromNative(propDef, column));
+      }
+    }
+  }
+
+  /**
+   * Adds columns for properties added to the AspectDef since the table was
+   * created, since SQLite has no ADD COLUMN IF NOT EXISTS, and creates and
+   * registers the side tables of new multivalued properties.
+   */
+  protected async extend(): Promise<void> {
+    const columns = await this._connection.query<{ name: string }>(`PRAGMA table_info(${this.quotedName()})`);
+    const existing = new Set(columns.map((column) => column.name));
+    for (const propDef of this._aspectDef.propertyDefs()) {
+      if (!existing.has(propDef.name())) {
+        await this._connection.execute(
+          `ALTER TABLE ${this.quotedName()} ADD COLUMN ${this._dialect.quoteIdentifier(propDef.name())} ` +
+            this._dialect.columnType(propDef),
+        );
+      }
+    }
+    for (const propDef of this.multivaluedDefs()) {
+      await this._connection.execute(this.sideTableDdl(propDef));
+      await this._connection.execute(
+        "INSERT INTO aspect_table (table_name, aspect_def_id, property_name) VALUES (?, ?, ?) ON CONFLICT DO NOTHING",
+        [this.sideTableName(propDef.name()), this._aspectDef.globalId(), propDef.name()],
+      );
+    }
+  }
+
+  /**
+   * Returns the statement that creates the side table of a multivalued property.
+   */
+  private sideTableDdl(propDef: PropertyDef): string {
+    return [
+      `CREATE TABLE IF NOT EXISTS ${this._dialect.quoteIdentifier(this.sideTableName(propDef.name()))} (`,
+      "    catalog_id TEXT NOT NULL,",
+      "    entity_id TEXT NOT NULL,",
+      "    value_index INTEGER NOT NULL,",
+      `    value ${this._valueCodec.columnType(propDef.type())},`,
+      "    PRIMARY KEY (catalog_id, entity_id, value_index),",
+      `    FOREIGN KEY (catalog_id, entity_id) REFERENCES ${this.quotedName()}(catalog_id, entity_id) ON DELETE CASCADE`,
+      ")",
+    ].join("\n");
+  }
+
+  private async insertElements(catalogId: string, aspect: Aspect, propDef: PropertyDef): Promise<void> {
+    const value = aspect.contains(propDef.name()) ? aspect.unsafeReadObj(propDef.name()) : null;
+    if (value === null || value === undefined) {
+      return;
+    }
+    const elements = value as unknown[];
+    for (let i = 0; i < elements.length; i++) {
+      await this._connection.execute(
+        `INSERT INTO ${this._dialect.quoteIdentifier(this.sideTableName(propDef.name()))}
+           (catalog_id, entity_id, value_index, value) VALUES (?, ?, ?, ?)`,
+        [catalogId, aspect.entity().globalId(), i, this._valueCodec.elementToNative(propDef.type(), elements[i])],
+      );
+    }
+  }
+
+  private multivaluedDefs(): PropertyDef[] {
+    return this._aspectDef.propertyDefs().filter((propDef) => propDef.isMultivalued());
+  }
+}
@@ -0,0 +1,786 @@
+/**
+ * Unit tests for SqliteCatalog and SqliteDao
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import {
+  AspectMapHierarchyImpl,
+  AspectObjectMapImpl,
+  CatalogImpl,
+  CatalogSpecies,
+  Entity,
+  EntityDirectoryHierarchy,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchy,
+  EntityListHierarchyImpl,
+  EntitySetHierarchy,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { SqliteCatalog } from "./SqliteCatalog.js";
+import { SqliteDao } from "./SqliteDao.js";
+import { SqliteCheapSchema } from "./SqliteCheapSchema.js";
+import { SqliteLazyAspectMapHierarchy } from "./SqliteLazyAspectMapHierarchy.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const UPSTREAM_ID = "10000000-0000-0000-0000-0000000000ff";
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+function allTypesAspectDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("int", PropertyType.Integer);
+  add("flt", PropertyType.Float);
+  add("bln", PropertyType.Boolean);
+  add("str", PropertyType.String);
+  add("txt", PropertyType.Text);
+  add("bgi", PropertyType.BigInteger);
+  add("bgf", PropertyType.BigDecimal);
+  add("dat", PropertyType.DateTime);
+  add("uri", PropertyType.URI);
+  add("uid", PropertyType.UUID);
+  add("clb", PropertyType.CLOB);
+  add("blb", PropertyType.BLOB);
+  add("tags", PropertyType.String, true);
+  propDefs.set(
+    "count",
+    new PropertyDefBuilder().setName("count").setType(PropertyType.BigInteger).setDefaultValue(5n).build(),
+  );
+  propDefs.set(
+    "stamps",
+    new PropertyDefBuilder()
+      .setName("stamps")
+      .setType(PropertyType.DateTime)
+      .setIsMultivalued(true)
+      .setDefaultValue([new Date("2000-01-01T00:00:00.000Z")])
+      .build(),
+  );
+  return new FullAspectDefImpl("allTypes", ASPECT_DEF_ID, propDefs, true, true, false, true);
+}
+
+function populate(catalog: CatalogImpl): void {
+  catalog.setUri(new URL("https://example.com/catalogs/test"));
+  const e1 = new EntityImpl(ID1);
+  const e2 = new EntityImpl(ID2);
+  const e3 = new EntityImpl(ID3);
+
+  const aspectMap = catalog.extend(allTypesAspectDef());
+  const full = new AspectObjectMapImpl(e1, aspectMap.aspectDef());
+  full.write("int", 7);
+  full.write("flt", -Infinity);
+  full.write("bln", false);
+  full.write("str", "short");
+  full.write("txt", "long text");
+  full.write("bgi", 12345678901234567890123n);
+  full.write("bgf", "3.14159265358979323846");
+  full.write("dat", new Date("2025-06-01T12:00:00.123Z"));
+  full.write("uri", new URL("https://example.com/x"));
+  full.write("uid", "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  full.write("clb", "clob");
+  full.write("blb", new Uint8Array([0, 1, 255]));
+  full.write("tags", ["a", "b"]);
+  aspectMap.add(full);
+  const sparse = new AspectObjectMapImpl(e2, aspectMap.aspectDef());
+  sparse.write("str", null);
+  sparse.write("tags", []);
+  sparse.write("stamps", null);
+  aspectMap.add(sparse);
+
+  const list = new EntityListHierarchyImpl(catalog, "list", 0, 4);
+  list.push(e1, e2, e1);
+  new EntitySetHierarchyImpl(catalog, "set", [e3, e2], 1);
+  new EntityDirectoryHierarchyImpl(
+    catalog,
+    "dir",
+    [
+      ["first", e1],
+      ["third", e3],
+    ],
+    2,
+  );
+  const root = new EntityTreeNodeImpl(e1);
+  const folder = new EntityTreeNodeImpl(null, root);
+  root.set("folder", folder);
+  folder.set("leaf", new EntityTreeNodeImpl(e3, folder));
+  root.set("other", new EntityTreeNodeImpl(e2, root));
+  new EntityTreeHierarchyImpl(catalog, "tree", root, 5);
+}
+
+function expectPopulated(catalog: CatalogImpl): void {
+  expect(catalog.uri()?.toString()).toBe("https://example.com/catalogs/test");
+  expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["allTypes", "list", "set", "dir", "tree"]);
+  expect(Array.from(catalog.hierarchies(), (h) => h.version())).toEqual([0, 4, 1, 2, 5]);
+
+  const aspectMap = catalog.aspects("allTypes")!;
+  expect(aspectMap).toBeInstanceOf(AspectMapHierarchyImpl);
+  expect(aspectMap.aspectDef().hash()).toBe(allTypesAspectDef().hash());
+  expect(aspectMap.aspectDef().propertyDef("count")?.defaultValue()).toBe(5n);
+  expect(aspectMap.aspectDef().propertyDef("stamps")?.defaultValue()).toEqual([new Date("2000-01-01T00:00:00.000Z")]);
+  const [[e1, full], [e2, sparse]] = Array.from(aspectMap);
+  expect(e1.globalId()).toBe(ID1);
+  expect(full.readObj("int")).toBe(7);
+  expect(full.readObj("flt")).toBe(-Infinity);
+  expect(full.readObj("bln")).toBe(false);
+  expect(full.readObj("str")).toBe("short");
+  expect(full.readObj("txt")).toBe("long text");
+  expect(full.readObj("bgi")).toBe(12345678901234567890123n);
+  expect(full.readObj("bgf")).toBe("3.14159265358979323846");
+  expect(full.readObj("dat")).toEqual(new Date("2025-06-01T12:00:00.123Z"));
+  expect(full.readObj("uri")).toEqual(new URL("https://example.com/x"));
+  expect(full.readObj("uid")).toBe("6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  expect(full.readObj("clb")).toBe("clob");
+  expect(full.readObj("blb")).toEqual(new Uint8Array([0, 1, 255]));
+  expect(full.readObj("tags")).toEqual(["a", "b"]);
+  expect(full.readObj("count")).toBe(5n);
+
+  expect(e2.globalId()).toBe(ID2);
+  expect(sparse.contains("str")).toBe(true);
+  expect(sparse.readObj("str")).toBeNull();
+  expect(sparse.readObj("tags")).toEqual([]);
+  expect(sparse.contains("stamps")).toBe(true);
+  expect(sparse.readObj("stamps")).toBeNull();
+  expect(sparse.contains("int")).toBe(false);
+
+  const list = catalog.hierarchy("list") as EntityListHierarchy;
+  expect(list).toBeInstanceOf(EntityListHierarchyImpl);
+  expect(Array.from(list, (e) => e.globalId())).toEqual([ID1, ID2, ID1]);
+  expect(list[0]).toBe(e1);
+
+  const set = catalog.hierarchy("set") as EntitySetHierarchy;
+  expect(Array.from(set, (e) => e.globalId())).toEqual([ID3, ID2]);
+  expect(set.has(e2)).toBe(true);
+
+  const dir = catalog.hierarchy("dir") as EntityDirectoryHierarchy;
+  expect(Array.from(dir.keys())).toEqual(["first", "third"]);
+  expect(dir.get("first")).toBe(e1);
+
+  const tree = catalog.hierarchy("tree") as EntityTreeHierarchy;
+  expect(tree.root().value()).toBe(e1);
+  expect(Array.from(tree.root().keys())).toEqual(["folder", "other"]);
+  expect(tree.root().get("folder")?.value()).toBeNull();
+  expect(tree.root().get("folder")?.get("leaf")?.value()?.globalId()).toBe(ID3);
+  expect(tree.root().get("folder")?.get("leaf")?.getParent()).toBe(tree.root().get("folder"));
+  expect(tree.root().get("other")?.value()).toBe(e2);
+}
+
+describe("SqliteCatalog", () => {
+  describe("in memory", () => {
+    let db: Database;
+
+    beforeEach(() => {
+      db = new BetterSqlite3(":memory:");
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it("should save and load every part of a catalog", async () => {
+      const catalog = new SqliteCatalog(CATALOG_ID, CatalogSpecies.CLONE, UPSTREAM_ID, 3);
+      populate(catalog);
+      await catalog.connect(db);
+      await catalog.save();
+      await catalog.close();
+
+      const loaded = await SqliteCatalog.open(db, CATALOG_ID);
+      expect(loaded.species()).toBe(CatalogSpecies.CLONE);
+      expect(loaded.upstream()).toBe(UPSTREAM_ID);
+      expect(loaded.version()).toBe(3);
+      expectPopulated(loaded);
+      expect(db.open).toBe(true);
+    });
+
+    it("should store the changes made since the last save", async () => {
+      const catalog = new SqliteCatalog(CATALOG_ID);
+      populate(catalog);
+      await catalog.connect(db);
+      await catalog.save();
+      (catalog.hierarchy("list") as EntityListHierarchy).pop();
+      await catalog.save();
+
+      const loaded = await SqliteCatalog.open(db, CATALOG_ID);
+      expect((loaded.hierarchy("list") as EntityListHierarchy).length).toBe(2);
+      expect(db.prepare("SELECT COUNT(*) FROM aspect_def").pluck().get()).toBe(1);
+    });
+
+    it("should keep catalogs sharing a database apart", async () => {
+      const first = new SqliteCatalog(CATALOG_ID);
+      populate(first);
+      await first.connect(db);
+      await first.save();
+      const second = new SqliteCatalog();
+      second.extend(allTypesAspectDef());
+      await second.connect(db);
+      await second.save();
+
+      const dao = new SqliteDao(db);
+      expect((await dao.loadCatalog(second.globalId()))!.aspects("allTypes")!.size).toBe(0);
+      expect((await dao.loadCatalog(CATALOG_ID))!.aspects("allTypes")!.size).toBe(2);
+
+      expect(await dao.deleteCatalog(CATALOG_ID)).toBe(true);
+      expect(await dao.catalogExists(CATALOG_ID)).toBe(false);
+      expect(db.prepare("SELECT COUNT(*) FROM property_value").pluck().get()).toBe(0);
+      expect(await dao.catalogExists(second.globalId())).toBe(true);
+    });
+
+    it("should refuse to load into a catalog with hierarchies", async () => {
+      const catalog = new SqliteCatalog(CATALOG_ID);
+      populate(catalog);
+      await catalog.connect(db);
+      await catalog.save();
+
+      await expect(catalog.load()).rejects.toThrow("already has hierarchies");
+    });
+
+    it("should reject operations on a catalog that is not connected or not stored", async () => {
+      await expect(new SqliteCatalog().save()).rejects.toThrow("not connected");
+      await expect(SqliteCatalog.open(db, CATALOG_ID)).rejects.toThrow("is not stored");
+    });
+  });
+
+  describe("many catalogs", () => {
+    let db: Database;
+
+    beforeEach(() => {
+      db = new BetterSqlite3(":memory:");
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it("should list, create, open and delete catalogs by global ID", async () => {
+      const first = await SqliteCatalog.create(db, CATALOG_ID, CatalogSpecies.MIRROR, UPSTREAM_ID);
+      const second = await SqliteCatalog.create(db);
+      populate(second);
+      await second.save();
+
+      expect((await SqliteCatalog.list(db)).map((h) => h.globalId)).toEqual([CATALOG_ID, second.globalId()].sort());
+      expect((await SqliteCatalog.list(db)).find((h) => h.globalId === CATALOG_ID)).toEqual({
+        globalId: CATALOG_ID,
+        species: CatalogSpecies.MIRROR,
+        uri: null,
+        upstream: UPSTREAM_ID,
+        version: 0,
+      });
+      await expect(SqliteCatalog.create(db, CATALOG_ID)).rejects.toThrow("is already stored");
+      expect(first.isConnected()).toBe(true);
+
+      expect(await SqliteCatalog.delete(db, second.globalId())).toBe(true);
+      expect(await SqliteCatalog.delete(db, second.globalId())).toBe(false);
+      expect((await SqliteCatalog.list(db)).map((h) => h.globalId)).toEqual([CATALOG_ID]);
+      expect(db.prepare("SELECT COUNT(*) FROM aspect").pluck().get()).toBe(0);
+      expect(Array.from((await SqliteCatalog.open(db, CATALOG_ID)).hierarchies())).toEqual([]);
+    });
+
+    it("should share AspectDefs whose hash matches", async () => {
+      const first = await SqliteCatalog.create(db);
+      populate(first);
+      await first.save();
+      // An unchanged AspectDef is not written again, so the stored copy keeps this edit
+      db.prepare("UPDATE property_def SET is_nullable = 0 WHERE name = 'int'").run();
+      const second = await SqliteCatalog.create(db);
+      second.extend(allTypesAspectDef());
+      await second.save();
+
+      expect(db.prepare("SELECT is_nullable FROM property_def WHERE name = 'int'").pluck().get()).toBe(0);
+      expect(db.prepare("SELECT hash FROM aspect_def_hash").pluck().all()).toEqual([
+        allTypesAspectDef().hash().toString(),
+      ]);
+
+      const email = new PropertyDefBuilder().setName("email").setType(PropertyType.String).build();
+      const changed = new FullAspectDefImpl(
+        "allTypes",
+        ASPECT_DEF_ID,
+        new Map([...allTypesAspectDef().propertyDefs(), email].map((propDef) => [propDef.name(), propDef])),
+        true,
+        true,
+        false,
+        true,
+      );
+      const third = await SqliteCatalog.create(db);
+      third.extend(changed);
+      await expect(third.save()).rejects.toThrow("used by another catalog");
+
+      expect(db.prepare("SELECT hash FROM aspect_def_hash").pluck().all()).toEqual([
+        allTypesAspectDef().hash().toString(),
+      ]);
+      const reloaded = await SqliteCatalog.open(db, first.globalId());
+      expect(reloaded.aspects("allTypes")!.aspectDef().propertyDef("email")).toBeNull();
+    });
+
+    it("should keep AspectDefs of the same name from different catalogs apart", async () => {
+      const person = (globalId: string, propName: string) =>
+        new FullAspectDefImpl(
+          "person",
+          globalId,
+          new Map([[propName, new PropertyDefBuilder().setName(propName).setType(PropertyType.String).build()]]),
+          true,
+          true,
+          false,
+          false,
+        );
+      const addPerson = (catalog: SqliteCatalog, aspectDef: FullAspectDefImpl, value: string) => {
+        const aspect = new AspectObjectMapImpl(new EntityImpl(ID1), aspectDef);
+        aspect.write(aspectDef.propertyDefs()[0].name(), value);
+        catalog.extend(aspectDef).add(aspect);
+      };
+      const first = await SqliteCatalog.create(db);
+      addPerson(first, person("20000000-0000-0000-0000-000000000001", "name"), "Alice");
+      await first.save();
+      const second = await SqliteCatalog.create(db);
+      addPerson(second, person("20000000-0000-0000-0000-000000000002", "email"), "bob@example.com");
+      await second.save();
+
+      const aspect = async (globalId: string) =>
+        Array.from((await SqliteCatalog.open(db, globalId)).aspects("person")!.values())[0];
+      expect((await aspect(first.globalId())).readObj("name")).toBe("Alice");
+      expect((await aspect(second.globalId())).readObj("email")).toBe("bob@example.com");
+
+      // Tables named after the AspectDef clash, unless one of them is given another name
+      const third = await SqliteCatalog.create(db, undefined, undefined, null, { aspectTables: true });
+      addPerson(third, person("20000000-0000-0000-0000-000000000003", "phone"), "555-0100");
+      await third.save();
+      const fourthDef = person("20000000-0000-0000-0000-000000000004", "title");
+      const fourth = await SqliteCatalog.create(db, undefined, undefined, null, { aspectTables: true });
+      addPerson(fourth, fourthDef, "Dr");
+      await expect(fourth.save()).rejects.toThrow(
+        "Table 'aspect_person' already stores the aspects of AspectDef 20000000-0000-0000-0000-000000000003; " +
+          "AspectDef 'person' (20000000-0000-0000-0000-000000000004) needs a table with another name.",
+      );
+      await new SqliteDao(db).createAspectTable(fourthDef, "aspect_person_title");
+      await fourth.save();
+      expect((await aspect(third.globalId())).readObj("phone")).toBe("555-0100");
+      expect((await aspect(fourth.globalId())).readObj("title")).toBe("Dr");
+    });
+  });
+
+  describe("incremental save", () => {
+    let db: Database;
+    let catalog: SqliteCatalog;
+
+    beforeEach(async () => {
+      db = new BetterSqlite3(":memory:");
+      const original = new SqliteCatalog(CATALOG_ID);
+      populate(original);
+      await original.connect(db);
+      await original.save();
+      catalog = await SqliteCatalog.open(db, CATALOG_ID);
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    function valueRowIds(): Map<string, number> {
+      const rows = db.prepare("SELECT rowid, entity_id, property_name, value_index FROM property_value").all() as {
+        rowid: number;
+        entity_id: string;
+        property_name: string;
+        value_index: number;
+      }[];
+      return new Map(rows.map((r) => [`${r.entity_id}/${r.property_name}/${r.value_index}`, r.rowid]));
+    }
+
+    it("should rewrite only the rows of changed properties", async () => {
+      const before = valueRowIds();
+      const [[, full]] = Array.from(catalog.aspects("allTypes")!);
+      full.write("int", 8);
+      full.write("tags", ["c"]);
+      expect(catalog.changeTracker()!.isEmpty()).toBe(false);
+
+      await catalog.save();
+
+      const after = valueRowIds();
+      const rewritten = Array.from(after.keys()).filter((key) => before.get(key) !== after.get(key));
+      expect(rewritten.sort()).toEqual([`${ID1}/int/0`, `${ID1}/tags/-1`, `${ID1}/tags/0`]);
+      expect(after.has(`${ID1}/tags/1`)).toBe(false);
+      expect(catalog.changeTracker()!.isEmpty()).toBe(true);
+      const reloaded = (await new SqliteDao(db).loadCatalog(CATALOG_ID))!;
+      const [, aspect] = Array.from(reloaded.aspects("allTypes")!)[0];
+      expect(aspect.readObj("int")).toBe(8);
+      expect(aspect.readObj("tags")).toEqual(["c"]);
+      expect(aspect.readObj("txt")).toBe("long text");
+    });
+
+    it("should save added, replaced and removed aspects, entries and hierarchies", async () => {
+      const aspects = catalog.aspects("allTypes")!;
+      const [e1, e2] = Array.from(aspects.keys());
+      const e3 = new EntityImpl(ID3);
+      const added = new AspectObjectMapImpl(e3, aspects.aspectDef());
+      added.write("str", "added");
+      aspects.add(added);
+      aspects.delete(e2);
+      const set = catalog.hierarchy("set") as EntitySetHierarchy;
+      set.delete(Array.from(set)[0]);
+      set.add(e1);
+      const dir = catalog.hierarchy("dir") as EntityDirectoryHierarchy;
+      dir.set("third", e2);
+      dir.set("fourth", e3);
+      dir.delete("first");
+      (catalog.hierarchy("list") as EntityListHierarchy).reverse();
+      (catalog.hierarchy("tree") as EntityTreeHierarchy).root().delete("other");
+      new EntitySetHierarchyImpl(catalog, "newSet", [e3]);
+      catalog.setUri(new URL("https://example.com/catalogs/moved"));
+
+      await catalog.save();
+
+      const reloaded = (await new SqliteDao(db).loadCatalog(CATALOG_ID))!;
+      expect(reloaded.uri()?.toString()).toBe("https://example.com/catalogs/moved");
+      expect(Array.from(reloaded.aspects("allTypes")!.values(), (a) => a.readObj("str"))).toEqual(["short", "added"]);
+      expect(db.prepare("SELECT COUNT(*) FROM aspect").pluck().get()).toBe(2);
+      expect(Array.from(reloaded.hierarchy("set") as EntitySetHierarchy, (e) => e.globalId())).toEqual([ID2, ID1]);
+      const reloadedDir = reloaded.hierarchy("dir") as EntityDirectoryHierarchy;
+      expect(Array.from(reloadedDir, ([key, e]) => [key, e.globalId()])).toEqual([
+        ["third", ID2],
+        ["fourth", ID3],
+      ]);
+      expect(Array.from(reloaded.hierarchy("list") as EntityListHierarchy, (e) => e.globalId())).toEqual([
+        ID1,
+        ID2,
+        ID1,
+      ]);
+      expect(Array.from((reloaded.hierarchy("tree") as EntityTreeHierarchy).root().keys())).toEqual(["folder"]);
+      expect(Array.from(reloaded.hierarchy("newSet") as EntitySetHierarchy, (e) => e.globalId())).toEqual([ID3]);
+    });
+
+    it("should keep the changes when the save fails", async () => {
+      db.exec("CREATE TRIGGER refuse BEFORE INSERT ON hierarchy_entity_set BEGIN SELECT RAISE(ABORT, 'refused'); END");
+      Array.from(catalog.aspects("allTypes")!.values())[0].write("int", 9);
+      (catalog.hierarchy("set") as EntitySetHierarchy).add(new EntityImpl(ID1));
+
+      // SqliteError may come from another test file's realm, so match its message rather than using toThrow
+      await expect(catalog.save()).rejects.toMatchObject({ message: expect.stringContaining("refused") });
+      expect(catalog.changeTracker()!.isEmpty()).toBe(false);
+      expect(db.prepare("SELECT value_text FROM property_value WHERE property_name = 'int'").pluck().get()).toBe("7");
+
+      db.exec("DROP TRIGGER refuse");
+      await catalog.save();
+      expect(db.prepare("SELECT value_text FROM property_value WHERE property_name = 'int'").pluck().get()).toBe("9");
+      expect(db.prepare("SELECT COUNT(*) FROM hierarchy_entity_set").pluck().get()).toBe(3);
+    });
+
+    it("should save lazily loaded aspects changed in place", async () => {
+      const lazy = await SqliteCatalog.open(db, CATALOG_ID, { lazy: true, cacheSize: 0 });
+      lazy.aspects("allTypes")!.get(new EntityImpl(ID2))!.write("str", "changed");
+
+      await lazy.save();
+
+      const reloaded = (await new SqliteDao(db).loadCatalog(CATALOG_ID))!;
+      expect(Array.from(reloaded.aspects("allTypes")!.values(), (a) => a.readObj("str"))).toEqual(["short", "changed"]);
+    });
+  });
+
+  describe("transactions", () => {
+    let db: Database;
+    let catalog: SqliteCatalog;
+
+    beforeEach(async () => {
+      db = new BetterSqlite3(":memory:");
+      catalog = new SqliteCatalog(CATALOG_ID);
+      populate(catalog);
+      await catalog.connect(db);
+      await catalog.save();
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    const storedInts = () =>
+      db.prepare("SELECT value_text FROM property_value WHERE property_name = 'int' ORDER BY entity_id").pluck().all();
+    const listIds = (c: CatalogImpl) => Array.from(c.hierarchy("list") as EntityListHierarchy, (e) => e.globalId());
+
+    it("should commit the changes made in a transaction together", async () => {
+      const result = await catalog.transaction(async (tx) => {
+        expect(tx).toBe(catalog);
+        expect(tx.inTransaction()).toBe(true);
+        Array.from(tx.aspects("allTypes")!.values())[0].write("int", 8);
+        (tx.hierarchy("list") as EntityListHierarchy).pop();
+        expect(db.inTransaction).toBe(true);
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(catalog.inTransaction()).toBe(false);
+      expect(db.inTransaction).toBe(false);
+      expect(catalog.changeTracker()!.isEmpty()).toBe(true);
+      expect(storedInts()).toEqual(["8"]);
+      expect(listIds((await new SqliteDao(db).loadCatalog(CATALOG_ID))!)).toEqual([ID1, ID2]);
+    });
+
+    it("should roll back the database and the catalog when the function throws", async () => {
+      const failure = new Error("failed");
+
+      await expect(
+        catalog.transaction(async (tx) => {
+          Array.from(tx.aspects("allTypes")!.values())[0].write("int", 8);
+          (tx.hierarchy("list") as EntityListHierarchy).pop();
+          new EntitySetHierarchyImpl(tx, "added");
+          await tx.save();
+          expect(storedInts()).toEqual(["8"]);
+          throw failure;
+        }),
+      ).rejects.toBe(failure);
+
+      expect(db.inTransaction).toBe(false);
+      expect(storedInts()).toEqual(["7"]);
+      expect(catalog.hierarchy("added")).toBeNull();
+      expect(Array.from(catalog.aspects("allTypes")!.values())[0].readObj("int")).toBe(7);
+      expect(listIds(catalog)).toEqual([ID1, ID2, ID1]);
+      expect(catalog.changeTracker()!.isEmpty()).toBe(true);
+      expect(listIds((await new SqliteDao(db).loadCatalog(CATALOG_ID))!)).toEqual([ID1, ID2, ID1]);
+    });
+
+    it("should keep changes made before a transaction that rolls back", async () => {
+      (catalog.hierarchy("set") as EntitySetHierarchy).add(new EntityImpl(ID1));
+      const failure = new Error("failed");
+
+      await expect(
+        catalog.transaction(async (tx) => {
+          Array.from(tx.aspects("allTypes")!.values())[0].write("int", 8);
+          throw failure;
+        }),
+      ).rejects.toBe(failure);
+
+      expect(storedInts()).toEqual(["7"]);
+      expect(Array.from(catalog.aspects("allTypes")!.values())[0].readObj("int")).toBe(7);
+      expect((catalog.hierarchy("set") as EntitySetHierarchy).size).toBe(3);
+      expect(db.prepare("SELECT COUNT(*) FROM hierarchy_entity_set").pluck().get()).toBe(3);
+      expect(catalog.changeTracker()!.isEmpty()).toBe(true);
+    });
+
+    it("should save changes made before the transaction when it begins", async () => {
+      (catalog.hierarchy("set") as EntitySetHierarchy).add(new EntityImpl(ID1));
+
+      await catalog.transaction(async () => {
+        expect(db.prepare("SELECT COUNT(*) FROM hierarchy_entity_set").pluck().get()).toBe(3);
+      });
+
+      expect(db.inTransaction).toBe(false);
+      expect(catalog.changeTracker()!.isEmpty()).toBe(true);
+      expect(((await new SqliteDao(db).loadCatalog(CATALOG_ID))!.hierarchy("set") as EntitySetHierarchy).size).toBe(3);
+    });
+
+    it("should roll back when saving the changes fails", async () => {
+      db.exec("CREATE TRIGGER refuse BEFORE INSERT ON hierarchy_entity_set BEGIN SELECT RAISE(ABORT, 'refused'); END");
+
+      // SqliteError may come from another test file's realm, so match its message rather than using toThrow
+      await expect(
+        catalog.transaction(async (tx) => {
+          Array.from(tx.aspects("allTypes")!.values())[0].write("int", 8);
+          (tx.hierarchy("set") as EntitySetHierarchy).add(new EntityImpl(ID1));
+        }),
+      ).rejects.toMatchObject({ message: expect.stringContaining("refused") });
+
+      expect(storedInts()).toEqual(["7"]);
+      expect(Array.from(catalog.aspects("allTypes")!.values())[0].readObj("int")).toBe(7);
+      expect((catalog.hierarchy("set") as EntitySetHierarchy).size).toBe(2);
+    });
+
+    it("should map nested transactions to savepoints", async () => {
+      await catalog.transaction(async (outer) => {
+        (outer.hierarchy("list") as EntityListHierarchy).pop();
+        await expect(
+          outer.transaction(async (inner) => {
+            Array.from(inner.aspects("allTypes")!.values())[0].write("int", 8);
+            throw new Error("inner");
+          }),
+        ).rejects.toThrow("inner");
+        expect(outer.inTransaction()).toBe(true);
+        expect(listIds(outer)).toEqual([ID1, ID2]);
+        await outer.transaction(async (inner) => {
+          Array.from(inner.aspects("allTypes")!.values())[0].write("int", 9);
+        });
+      });
+
+      expect(storedInts()).toEqual(["9"]);
+      expect(listIds((await new SqliteDao(db).loadCatalog(CATALOG_ID))!)).toEqual([ID1, ID2]);
+
+      await expect(
+        catalog.transaction(async (outer) => {
+          await outer.transaction(async (inner) => {
+            Array.from(inner.aspects("allTypes")!.values())[0].write("int", 10);
+          });
+          await expect(outer.close()).rejects.toThrow("while a transaction is in progress");
+          throw new Error("outer");
+        }),
+      ).rejects.toThrow("outer");
+      expect(storedInts()).toEqual(["9"]);
+      expect(Array.from(catalog.aspects("allTypes")!.values())[0].readObj("int")).toBe(9);
+    });
+
+    it("should restore lazily loaded aspect maps lazily", async () => {
+      const lazy = await SqliteCatalog.open(db, CATALOG_ID, { lazy: true });
+
+      await expect(
+        lazy.transaction(async (tx) => {
+          tx.aspects("allTypes")!.clear();
+          throw new Error("failed");
+        }),
+      ).rejects.toThrow("failed");
+
+      expect(lazy.aspects("allTypes")).toBeInstanceOf(SqliteLazyAspectMapHierarchy);
+      expect(lazy.aspects("allTypes")!.size).toBe(2);
+    });
+  });
+
+  describe("tree queries", () => {
+    let db: Database;
+    let dao: SqliteDao;
+
+    beforeEach(async () => {
+      db = new BetterSqlite3(":memory:");
+      const catalog = new SqliteCatalog(CATALOG_ID);
+      populate(catalog);
+      await catalog.connect(db);
+      await catalog.save();
+      dao = new SqliteDao(db);
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    const ids = (entities: (Entity | null)[] | null) => entities?.map((e) => e?.globalId() ?? null);
+
+    it("should load subtrees and ancestors without the rest of the tree", async () => {
+      const folder = (await dao.loadTreeSubtree(CATALOG_ID, "tree", ["folder"]))!;
+      expect(folder.value()).toBeNull();
+      expect(folder.getParent()).toBeNull();
+      expect(Array.from(folder.keys())).toEqual(["leaf"]);
+      expect(folder.get("leaf")?.value()?.globalId()).toBe(ID3);
+      expect(await dao.loadTreeSubtree(CATALOG_ID, "tree", ["folder", "missing"])).toBeNull();
+      expect(await dao.loadTreeSubtree(CATALOG_ID, "other", [])).toBeNull();
+
+      expect(ids(await dao.loadTreeAncestors(CATALOG_ID, "tree", ["folder", "leaf"]))).toEqual([ID1, null]);
+      expect(await dao.loadTreeAncestors(CATALOG_ID, "tree", [])).toEqual([]);
+      expect(await dao.loadTreeAncestors(CATALOG_ID, "tree", ["leaf"])).toBeNull();
+
+      expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["folder", "leaf"]]);
+      expect(await dao.findTreePaths(CATALOG_ID, "tree", ID1)).toEqual([[]]);
+      expect(await dao.findTreePaths(CATALOG_ID, "list", ID1)).toEqual([]);
+    });
+
+    it("should move a subtree in the database", async () => {
+      await dao.moveTreeNode(CATALOG_ID, "tree", ["folder"], ["other"], "moved");
+
+      expect(ids(await dao.loadTreeAncestors(CATALOG_ID, "tree", ["other", "moved", "leaf"]))).toEqual([
+        ID1,
+        ID2,
+        null,
+      ]);
+      expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["other", "moved", "leaf"]]);
+      const tree = (await dao.loadCatalog(CATALOG_ID))!.hierarchy("tree") as EntityTreeHierarchy;
+      expect(Array.from(tree.root().keys())).toEqual(["other"]);
+      expect(tree.root().get("other")?.get("moved")?.get("leaf")?.value()?.globalId()).toBe(ID3);
+
+      await dao.moveTreeNode(CATALOG_ID, "tree", ["other", "moved"], []);
+      expect(Array.from((await dao.loadTreeSubtree(CATALOG_ID, "tree", []))!.keys())).toEqual(["other", "moved"]);
+    });
+
+    it("should refuse invalid moves", async () => {
+      await expect(dao.moveTreeNode(CATALOG_ID, "tree", [], ["other"])).rejects.toThrow("Cannot move the root");
+      await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["folder"], ["folder", "leaf"])).rejects.toThrow(
+        "its own subtree",
+      );
+      await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["missing"], [])).rejects.toThrow("has no node at /missing");
+      await expect(dao.moveTreeNode(CATALOG_ID, "tree", ["folder", "leaf"], [], "other")).rejects.toThrow(
+        "already has a child 'other'",
+      );
+      expect(await dao.findTreePaths(CATALOG_ID, "tree", ID3)).toEqual([["folder", "leaf"]]);
+    });
+
+    it("should fill in the closure of trees stored before it existed", async () => {
+      db.exec("DELETE FROM hierarchy_entity_tree_closure");
+      new SqliteCheapSchema().executeMainSchemaDdl(db);
+
+      expect(ids(await dao.loadTreeAncestors(CATALOG_ID, "tree", ["folder", "leaf"]))).toEqual([ID1, null]);
+      expectPopulated((await dao.loadCatalog(CATALOG_ID))!);
+    });
+  });
+
+  describe("on disk", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "cheap-sqlite-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should load a saved catalog from a new connection", async () => {
+      const path = join(dir, "catalog.db");
+      const catalog = new SqliteCatalog(CATALOG_ID, CatalogSpecies.SINK, null, 9);
+      populate(catalog);
+      await catalog.connect(path);
+      await catalog.save();
+      await catalog.close();
+
+      const loaded = await SqliteCatalog.open(path, CATALOG_ID);
+      expect(loaded.species()).toBe(CatalogSpecies.SINK);
+      expect(loaded.version()).toBe(9);
+      expectPopulated(loaded);
+      const db = loaded.database();
+      await loaded.close();
+      expect(db.open).toBe(false);
+    });
+
+    it("should create the schema only once", () => {
+      const db = new BetterSqlite3(join(dir, "schema.db"));
+      const schema = new SqliteCheapSchema();
+      schema.executeMainSchemaDdl(db);
+      schema.executeMainSchemaDdl(db);
+      const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")
+        .pluck()
+        .all() as string[];
+      expect(tables).toEqual([
+        "aspect",
+        "aspect_def",
+        "aspect_def_hash",
+        "aspect_table",
+        "catalog",
+        "catalog_aspect_def",
+        "hierarchy",
+        "hierarchy_aspect_map",
+        "hierarchy_entity_directory",
+        "hierarchy_entity_list",
+        "hierarchy_entity_set",
+        "hierarchy_entity_tree_closure",
+        "hierarchy_entity_tree_node",
+        "property_def",
+        "property_value",
+        "text_search",
+        "text_search_config",
+        "text_search_content",
+        "text_search_data",
+        "text_search_docsize",
+        "text_search_document",
+        "text_search_idx",
+        "text_search_property",
+      ]);
+      schema.executeDropSchemaDdl(db);
+      expect(db.prepare("SELECT COUNT(*) FROM sqlite_master WHERE type = 'table'").pluck().get()).toBe(0);
+      db.close();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * SqliteCatalog implementation
+ */
+
+import { randomUUID } from "crypto";
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import { CatalogSpecies } from "@cheap-ts/core";
+import { CatalogHeader, SqlCatalogBase, SqlConnectOptions, SqlLoadOptions } from "@cheap-ts/db";
+import { SqliteCheapSchema } from "./SqliteCheapSchema.js";
+import { SqliteDao } from "./SqliteDao.js";
+import { TextSearchHit, TextSearchOptions } from "./SqliteTextSearch.js";
+
+/**
+ * SQLite-backed catalog implementation; see SqlCatalogBase.
+ *
+ * Aspects are stored in the generic aspect and property_value tables, unless
+ * the catalog connects with the aspectTables option, which gives AspectDefs
+ * new to the database a table of their own; see SqliteAspectTable. Every save
+ * writes only the changes made since the catalog was last loaded or saved,
+ * in a single transaction.
+ *
+ * Opening with the lazy option leaves aspects in the database until they are
+ * asked for; since SQLite is read synchronously, get() and iteration load
+ * them on demand (see SqliteLazyAspectMapHierarchy). Text and CLOB properties
+ * can be indexed for full-text search with enableTextSearch().
+ *
+ * A database holds any number of catalogs, which can be listed, created,
+ * opened and deleted by global ID with the static methods.
+ *
+ * A path passed to connect(), open() or create() opens a connection, which
+ * close() closes; list() and delete() close theirs when done.
+ */
+export class SqliteCatalog extends SqlCatalogBase<Database> {
+  /**
+   * Creates a new SINK catalog with a random global ID.
+   */
+  constructor();
+
+  /**
+   * Creates a new SINK catalog with the given global ID.
+   *
+   * @param globalId the global ID of the catalog
+   */
+  constructor(globalId: string);
+
+  /**
+   * Creates a new catalog with the given metadata.
+   *
+   * @param globalId the global ID of the catalog
+   * @param species the species of the catalog
+   * @param upstream the upstream catalog to mirror, or null for root catalogs
+   * @param version the version number of the catalog
+   */
+  constructor(globalId: string, species: CatalogSpecies, upstream: string | null, version: number);
+
+  constructor(globalId?: string, species?: CatalogSpecies, upstream?: string | null, version?: number) {
+    super(globalId, species, upstream, version);
+  }
+
+  /**
+   * Opens a stored catalog: connects to the database, creates a catalog with
+   * the stored metadata and loads its contents.
+   *
+   * @param database the path of the database file, ":memory:", or an open connection
+   * @param globalId the global ID of the catalog
+   * @param options whether and how to load aspects lazily, and how to store new AspectDefs
+   * @returns the loaded catalog, still connected to the database
+   * @throws Error if the catalog is not stored in the database
+   */
+  static async open(
+    database: string | Database,
+    globalId: string,
+    options: SqlConnectOptions & SqlLoadOptions = {},
+  ): Promise<SqliteCatalog> {
+    return SqlCatalogBase.openStored(
+      database,
+      globalId,
+      (header) => new SqliteCatalog(header.globalId, header.species, header.upstream, header.version),
+      options,
+    );
+  }
+
+  /**
+   * Creates a catalog in a database and registers it there, with no
+   * hierarchies yet.
+   *
+   * @param database the path of the database file, ":memory:", or an open connection
+   * @param globalId the global ID of the catalog; defaults to a random UUID
+   * @param species the species of the catalog; defaults to SINK
+   * @param upstream the upstream catalog to mirror, or null for root catalogs
+   * @param options how to store AspectDefs new to the database
+   * @returns the catalog, connected to the database
+   * @throws Error if a catalog with the same global ID is already stored
+   */
+  static async create(
+    database: string | Database,
+    globalId: string = randomUUID(),
+    species: CatalogSpecies = CatalogSpecies.SINK,
+    upstream: string | null = null,
+    options: SqlConnectOptions = {},
+  ): Promise<SqliteCatalog> {
+    return SqlCatalogBase.createStored(database, new SqliteCatalog(globalId, species, upstream, 0), options);
+  }
+
+  /**
+   * Returns the metadata of every catalog stored in a database, ordered by
+   * global ID.
+   *
+   * @param database the path of the database file, or an open connection
+   */
+  static async list(database: string | Database): Promise<CatalogHeader[]> {
+    return SqlCatalogBase.listStored(database, () => new SqliteCatalog());
+  }
+
+  /**
+   * Deletes a stored catalog and all of its hierarchies and aspects. Its
+   * AspectDefs are kept, since other catalogs may use them.
+   *
+   * @param database the path of the database file, or an open connection
+   * @param globalId the global ID of the catalog
+   * @returns whether the catalog was stored
+   */
+  static async delete(database: string | Database, globalId: string): Promise<boolean> {
+    return SqlCatalogBase.deleteStored(database, globalId, () => new SqliteCatalog());
+  }
+
+  /**
+   * Starts indexing Text and CLOB properties of one of this catalog's
+   * AspectDefs for full-text search. The index covers the values stored in the
+   * database, for every catalog in it, and is kept up to date by every save.
+   *
+   * @param aspectDefName the name of the AspectDef
+   * @param propNames the names of the properties to index
+   * @throws Error if this catalog is not connected or has no such AspectDef, or
+   *   a property does not exist or is not a Text or CLOB property
+   */
+  async enableTextSearch(aspectDefName: string, propNames: Iterable<string>): Promise<void> {
+    const aspectDef = Array.from(this.aspectDefs()).find((def) => def.name() === aspectDefName);
+    if (!aspectDef) {
+      throw new Error(`Catalog ${this.globalId()} has no AspectDef '${aspectDefName}'.`);
+    }
+    await this.dao().transaction(async (dao) => {
+      await this.prepareAspectTable(aspectDef);
+      await dao.enableTextSearch(aspectDef, propNames);
+    });
+  }
+
+  /**
+   * Searches the indexed property values saved for this catalog. Changes that
+   * have not been saved are not searched.
+   *
+   * @param query the FTS5 query, such as "sqlite AND (fts5 OR search*)"
+   * @param options which properties to search, and how many entities to return
+   * @returns the matching entities, best match first, each with the rank and a
+   *   snippet of its best matching value
+   * @throws Error if this catalog is not connected, or the query is invalid
+   */
+  async searchText(query: string, options: TextSearchOptions = {}): Promise<TextSearchHit[]> {
+    return this.dao().searchText(this.globalId(), query, options, this.factory());
+  }
+
+  protected dao(): SqliteDao {
+    return super.dao() as SqliteDao;
+  }
+
+  protected aspectTablesByDefault(): boolean {
+    return false;
+  }
+
+  protected openDatabase(location: string): Database {
+    return new BetterSqlite3(location);
+  }
+
+  protected async closeDatabase(db: Database): Promise<void> {
+    db.close();
+  }
+
+  protected async migrateSchema(db: Database): Promise<void> {
+    await new SqliteCheapSchema().migrate(db);
+  }
+
+  protected createDao(db: Database): SqliteDao {
+    return new SqliteDao(db);
+  }
+}
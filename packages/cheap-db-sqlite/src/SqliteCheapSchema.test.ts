@@ -0,0 +1,120 @@
+/**
+ * Unit tests for SqliteCheapSchema migrations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import { DEFAULT_MIGRATION_TABLE, SchemaMigrator } from "@cheap-ts/db";
+import { SqliteCheapSchema } from "./SqliteCheapSchema.js";
+import { SqliteMigrationConnection } from "./SqliteMigrationConnection.js";
+import { SqliteCatalog } from "./SqliteCatalog.js";
+
+function tableNames(db: Database): string[] {
+  return db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").pluck().all() as string[];
+}
+
+describe("SqliteCheapSchema migrations", () => {
+  let db: Database;
+  const schema = new SqliteCheapSchema();
+
+  beforeEach(() => {
+    db = new BetterSqlite3(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should create the schema and record it in the migration history", async () => {
+    const applied = await schema.migrate(db);
+
+    expect(applied.map((m) => m.name)).toEqual([
+      "create_main_schema",
+      "index_aspect_map_order",
+      "create_aspect_table_registry",
+      "create_tree_closure",
+      "create_text_search",
+      "create_aspect_def_hash",
+      "drop_aspect_def_name_unique",
+    ]);
+    expect(tableNames(db)).toContain("aspect_def");
+    expect(tableNames(db)).toContain(DEFAULT_MIGRATION_TABLE);
+    expect(await schema.migrator(db).currentVersion()).toBe(schema.migrations().at(-1)!.version);
+    expect(await schema.migrate(db)).toEqual([]);
+  });
+
+  it("should adopt a schema created before migrations were tracked", async () => {
+    schema.executeMainSchemaDdl(db);
+    const catalog = new SqliteCatalog();
+    await catalog.connect(db);
+    await catalog.save();
+
+    expect(await schema.migrator(db).currentVersion()).toBe(schema.migrations().at(-1)!.version);
+    expect(db.prepare("SELECT COUNT(*) FROM catalog").pluck().get()).toBe(1);
+  });
+
+  it("should drop the uniqueness of AspectDef names, keeping the rows that reference them", async () => {
+    db.pragma("foreign_keys = ON");
+    await new SchemaMigrator(new SqliteMigrationConnection(db), schema.migrations().slice(0, -1)).migrate();
+    db.exec(`INSERT INTO aspect_def (aspect_def_id, name) VALUES ('a', 'person')`);
+    db.exec(
+      `INSERT INTO property_def (aspect_def_id, name, property_index, property_type) VALUES ('a', 'x', 0, 'INT')`,
+    );
+    db.exec(`INSERT INTO aspect_def_hash (aspect_def_id, hash) VALUES ('a', '1')`);
+    expect(() => db.exec(`INSERT INTO aspect_def (aspect_def_id, name) VALUES ('b', 'person')`)).toThrow("UNIQUE");
+
+    expect((await schema.migrate(db)).map((m) => m.name)).toEqual(["drop_aspect_def_name_unique"]);
+    db.exec(`INSERT INTO aspect_def (aspect_def_id, name) VALUES ('b', 'person')`);
+    expect(db.prepare("SELECT COUNT(*) FROM property_def").pluck().get()).toBe(1);
+    expect(db.prepare("SELECT COUNT(*) FROM aspect_def_hash").pluck().get()).toBe(1);
+    expect(db.pragma("foreign_keys", { simple: true })).toBe(1);
+    expect(db.pragma("foreign_key_check")).toEqual([]);
+    schema.executeMainSchemaDdl(db);
+    expect(db.prepare("SELECT COUNT(*) FROM aspect_def").pluck().get()).toBe(2);
+  });
+
+  it("should refuse to migrate in a transaction while foreign keys are enforced", async () => {
+    db.pragma("foreign_keys = ON");
+    db.exec("BEGIN");
+    await expect(schema.migrate(db)).rejects.toThrow("Cannot migrate the schema in a transaction");
+    db.exec("ROLLBACK");
+  });
+
+  it("should refuse to connect to a database migrated by newer code", async () => {
+    await schema.migrate(db);
+    db.prepare(`INSERT INTO ${DEFAULT_MIGRATION_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`).run(
+      999,
+      "from_the_future",
+      new Date().toISOString(),
+    );
+
+    await expect(new SqliteCatalog().connect(db)).rejects.toThrow(
+      "Database schema version 999 is newer than the latest version",
+    );
+    await expect(SqliteCatalog.open(db, "10000000-0000-0000-0000-000000000000")).rejects.toThrow("newer");
+  });
+
+  it("should print the pending SQL in a dry run without creating anything", async () => {
+    let printed = "";
+    const script = await schema.migrator(db).dryRun((s) => (printed = s));
+
+    expect(printed).toBe(script);
+    expect(script).toContain("-- Migration 1: create_main_schema");
+    expect(script).toContain("CREATE TABLE IF NOT EXISTS property_value (");
+    expect(tableNames(db)).toEqual([]);
+  });
+
+  it("should roll back the DDL of a failed migration", async () => {
+    const migrator = new SchemaMigrator(new SqliteMigrationConnection(db), [
+      { version: 1, name: "good", up: ["CREATE TABLE good (id INTEGER)"] },
+      { version: 2, name: "bad", up: ["CREATE TABLE partial (id INTEGER)", "CREATE TABLE good (id INTEGER)"] },
+    ]);
+
+    // SqliteError may come from another test file's realm, so match its message rather than using toThrow
+    await expect(migrator.migrate()).rejects.toMatchObject({ message: expect.stringContaining("already exists") });
+    expect(tableNames(db)).toEqual([DEFAULT_MIGRATION_TABLE, "good"]);
+    expect(await migrator.currentVersion()).toBe(1);
+    expect(db.inTransaction).toBe(false);
+  });
+});
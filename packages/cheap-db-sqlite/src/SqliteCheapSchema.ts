@@ -0,0 +1,429 @@
+/**
+ * SqliteCheapSchema implementation
+ */
+
+import type { Database } from "better-sqlite3";
+import { DEFAULT_MIGRATION_TABLE, Migration, SchemaMigrator } from "@cheap-ts/db";
+import { SqliteMigrationConnection } from "./SqliteMigrationConnection.js";
+
+/**
+ * DDL for the main CHEAP schema: AspectDefs and their PropertyDefs, catalogs
+ * with their hierarchies, aspects with their property values, and the
+ * contents of the four entity hierarchy types.
+ *
+ * Table and column names follow the Java SqliteCheapSchema, so that both
+ * implementations can open the same database files.
+ */
+const MAIN_SCHEMA_STATEMENTS: readonly string[] = [
+  `CREATE TABLE IF NOT EXISTS aspect_def (
+    aspect_def_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    is_readable INTEGER NOT NULL DEFAULT 1,
+    is_writable INTEGER NOT NULL DEFAULT 1,
+    can_add_properties INTEGER NOT NULL DEFAULT 0,
+    can_remove_properties INTEGER NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS property_def (
+    aspect_def_id TEXT NOT NULL REFERENCES aspect_def(aspect_def_id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    property_index INTEGER NOT NULL,
+    property_type TEXT NOT NULL
+      CHECK (property_type IN ('INT', 'FLT', 'BLN', 'STR', 'TXT', 'BGI', 'BGF', 'DAT', 'URI', 'UID', 'CLB', 'BLB')),
+    default_value TEXT,
+    has_default_value INTEGER NOT NULL DEFAULT 0,
+    is_readable INTEGER NOT NULL DEFAULT 1,
+    is_writable INTEGER NOT NULL DEFAULT 1,
+    is_nullable INTEGER NOT NULL DEFAULT 0,
+    is_removable INTEGER NOT NULL DEFAULT 0,
+    is_multivalued INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (aspect_def_id, name)
+  )`,
+  `CREATE TABLE IF NOT EXISTS catalog (
+    catalog_id TEXT PRIMARY KEY,
+    species TEXT NOT NULL CHECK (species IN ('SOURCE', 'SINK', 'MIRROR', 'CACHE', 'CLONE', 'FORK')),
+    uri TEXT,
+    upstream_catalog_id TEXT,
+    version_number INTEGER NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS catalog_aspect_def (
+    catalog_id TEXT NOT NULL REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    aspect_def_id TEXT NOT NULL REFERENCES aspect_def(aspect_def_id),
+    PRIMARY KEY (catalog_id, aspect_def_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy (
+    catalog_id TEXT NOT NULL REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    hierarchy_index INTEGER NOT NULL,
+    hierarchy_type TEXT NOT NULL CHECK (hierarchy_type IN ('EL', 'ES', 'ED', 'ET', 'AM')),
+    version_number INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (catalog_id, name)
+  )`,
+  `CREATE TABLE IF NOT EXISTS aspect (
+    entity_id TEXT NOT NULL,
+    aspect_def_id TEXT NOT NULL REFERENCES aspect_def(aspect_def_id),
+    catalog_id TEXT NOT NULL REFERENCES catalog(catalog_id) ON DELETE CASCADE,
+    hierarchy_name TEXT NOT NULL,
+    PRIMARY KEY (entity_id, aspect_def_id, catalog_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS property_value (
+    entity_id TEXT NOT NULL,
+    aspect_def_id TEXT NOT NULL,
+    catalog_id TEXT NOT NULL,
+    property_name TEXT NOT NULL,
+    value_index INTEGER NOT NULL DEFAULT 0,
+    value_text TEXT,
+    value_binary BLOB,
+    PRIMARY KEY (entity_id, aspect_def_id, catalog_id, property_name, value_index),
+    FOREIGN KEY (entity_id, aspect_def_id, catalog_id)
+      REFERENCES aspect(entity_id, aspect_def_id, catalog_id) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_list (
+    catalog_id TEXT NOT NULL,
+    hierarchy_name TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    list_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, list_order),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_set (
+    catalog_id TEXT NOT NULL,
+    hierarchy_name TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    set_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_id),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_directory (
+    catalog_id TEXT NOT NULL,
+    hierarchy_name TEXT NOT NULL,
+    entity_key TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    dir_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_key),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_entity_tree_node (
+    node_id TEXT PRIMARY KEY,
+    catalog_id TEXT NOT NULL,
+    hierarchy_name TEXT NOT NULL,
+    parent_node_id TEXT REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    node_key TEXT NOT NULL,
+    entity_id TEXT,
+    node_order INTEGER NOT NULL,
+    UNIQUE (catalog_id, hierarchy_name, parent_node_id, node_key),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE IF NOT EXISTS hierarchy_aspect_map (
+    catalog_id TEXT NOT NULL,
+    hierarchy_name TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    aspect_def_id TEXT NOT NULL REFERENCES aspect_def(aspect_def_id),
+    map_order INTEGER NOT NULL,
+    PRIMARY KEY (catalog_id, hierarchy_name, entity_id),
+    FOREIGN KEY (catalog_id, hierarchy_name) REFERENCES hierarchy(catalog_id, name) ON DELETE CASCADE
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_aspect_catalog ON aspect(catalog_id, hierarchy_name)`,
+  `CREATE INDEX IF NOT EXISTS idx_tree_node_parent ON hierarchy_entity_tree_node(parent_node_id)`,
+];
+
+/**
+ * The tables of the main schema, in an order that respects their foreign keys
+ * when dropping or truncating.
+ */
+const MAIN_SCHEMA_TABLES = [
+  "text_search",
+  "text_search_document",
+  "text_search_property",
+  "hierarchy_aspect_map",
+  "hierarchy_entity_tree_closure",
+  "hierarchy_entity_tree_node",
+  "hierarchy_entity_directory",
+  "hierarchy_entity_set",
+  "hierarchy_entity_list",
+  "property_value",
+  "aspect",
+  "hierarchy",
+  "catalog_aspect_def",
+  "catalog",
+  "aspect_table",
+  "aspect_def_hash",
+  "property_def",
+  "aspect_def",
+];
+
+/**
+ * The migrations that build the schema, in version order.
+ *
+ * The first migration creates the main schema with IF NOT EXISTS clauses, so
+ * that databases created before migrations were tracked adopt it unchanged.
+ * Later migrations are idempotent too, so that executeMainSchemaDdl() can
+ * apply all of them.
+ */
+const SQLITE_MIGRATIONS: readonly Migration[] = [
+  { version: 1, name: "create_main_schema", up: MAIN_SCHEMA_STATEMENTS },
+  {
+    version: 2,
+    name: "index_aspect_map_order",
+    up: [
+      `CREATE INDEX IF NOT EXISTS idx_aspect_map_order
+         ON hierarchy_aspect_map(catalog_id, hierarchy_name, map_order)`,
+    ],
+  },
+  {
+    version: 3,
+    name: "create_aspect_table_registry",
+    up: [
+      // One row per table of an AspectDef stored table-per-AspectDef: its aspect
+      // table, with a null property_name, and a side table per multivalued property
+      `CREATE TABLE IF NOT EXISTS aspect_table (
+    table_name TEXT PRIMARY KEY,
+    aspect_def_id TEXT NOT NULL REFERENCES aspect_def(aspect_def_id),
+    property_name TEXT
+  )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_aspect_table_def
+         ON aspect_table(aspect_def_id, COALESCE(property_name, ''))`,
+    ],
+  },
+  {
+    version: 4,
+    name: "create_tree_closure",
+    up: [
+      // One row per pair of a tree node and one of its ancestors, or itself at depth 0
+      `CREATE TABLE IF NOT EXISTS hierarchy_entity_tree_closure (
+    ancestor_node_id TEXT NOT NULL REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    descendant_node_id TEXT NOT NULL REFERENCES hierarchy_entity_tree_node(node_id) ON DELETE CASCADE,
+    depth INTEGER NOT NULL,
+    PRIMARY KEY (ancestor_node_id, descendant_node_id)
+  )`,
+      `CREATE INDEX IF NOT EXISTS idx_tree_closure_descendant
+         ON hierarchy_entity_tree_closure(descendant_node_id, depth)`,
+      `CREATE INDEX IF NOT EXISTS idx_tree_node_entity
+         ON hierarchy_entity_tree_node(catalog_id, hierarchy_name, entity_id)`,
+      // Fill in the closure of trees stored before it existed
+      `WITH RECURSIVE paths(ancestor_node_id, descendant_node_id, depth) AS (
+         SELECT node_id, node_id, 0 FROM hierarchy_entity_tree_node
+         UNION ALL
+         SELECT p.ancestor_node_id, n.node_id, p.depth + 1
+         FROM paths p JOIN hierarchy_entity_tree_node n ON n.parent_node_id = p.descendant_node_id
+       )
+       INSERT OR IGNORE INTO hierarchy_entity_tree_closure (ancestor_node_id, descendant_node_id, depth)
+       SELECT ancestor_node_id, descendant_node_id, depth FROM paths`,
+    ],
+  },
+  {
+    version: 5,
+    name: "create_text_search",
+    up: [
+      // The properties whose values are indexed for full-text search
+      `CREATE TABLE IF NOT EXISTS text_search_property (
+    aspect_def_id TEXT NOT NULL REFERENCES aspect_def(aspect_def_id),
+    property_name TEXT NOT NULL,
+    PRIMARY KEY (aspect_def_id, property_name)
+  )`,
+      // One row per indexed value; its document_id is the rowid of the value in text_search
+      `CREATE TABLE IF NOT EXISTS text_search_document (
+    document_id INTEGER PRIMARY KEY,
+    catalog_id TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    aspect_def_id TEXT NOT NULL,
+    property_name TEXT NOT NULL,
+    value_index INTEGER NOT NULL,
+    UNIQUE (catalog_id, aspect_def_id, entity_id, property_name, value_index)
+  )`,
+      `CREATE VIRTUAL TABLE IF NOT EXISTS text_search USING fts5(content)`,
+      // Values in the generic tables are indexed by triggers; aspect tables get their own
+      `CREATE TRIGGER IF NOT EXISTS property_value_text_search_insert AFTER INSERT ON property_value
+       WHEN NEW.value_index >= 0 AND NEW.value_text IS NOT NULL AND EXISTS (
+         SELECT 1 FROM text_search_property
+         WHERE aspect_def_id = NEW.aspect_def_id AND property_name = NEW.property_name
+       )
+       BEGIN
+         INSERT INTO text_search_document (catalog_id, entity_id, aspect_def_id, property_name, value_index)
+         VALUES (NEW.catalog_id, NEW.entity_id, NEW.aspect_def_id, NEW.property_name, NEW.value_index);
+         INSERT INTO text_search (rowid, content) VALUES (last_insert_rowid(), NEW.value_text);
+       END`,
+      `CREATE TRIGGER IF NOT EXISTS property_value_text_search_delete AFTER DELETE ON property_value
+       WHEN OLD.value_index >= 0
+       BEGIN
+         DELETE FROM text_search WHERE rowid = (
+           SELECT document_id FROM text_search_document
+           WHERE catalog_id = OLD.catalog_id AND aspect_def_id = OLD.aspect_def_id AND entity_id = OLD.entity_id
+             AND property_name = OLD.property_name AND value_index = OLD.value_index
+         );
+         DELETE FROM text_search_document
+         WHERE catalog_id = OLD.catalog_id AND aspect_def_id = OLD.aspect_def_id AND entity_id = OLD.entity_id
+           AND property_name = OLD.property_name AND value_index = OLD.value_index;
+       END`,
+    ],
+  },
+  {
+    version: 6,
+    name: "create_aspect_def_hash",
+    up: [
+      // The hash() of each stored AspectDef, which tells catalogs sharing it whether their
+      // version matches; a table of its own, since SQLite cannot add a column idempotently
+      `CREATE TABLE IF NOT EXISTS aspect_def_hash (
+    aspect_def_id TEXT PRIMARY KEY REFERENCES aspect_def(aspect_def_id) ON DELETE CASCADE,
+    hash TEXT NOT NULL
+  )`,
+    ],
+  },
+  {
+    version: 7,
+    name: "drop_aspect_def_name_unique",
+    up: [
+      // AspectDefs are identified by their global ID, and catalogs in the same database may have
+      // AspectDefs of the same name. SQLite cannot drop a UNIQUE constraint, so the table is rebuilt
+      // without it, with foreign keys off (see migrate()), so that rows referencing it are kept.
+      "DROP TABLE IF EXISTS aspect_def_rebuilt",
+      `CREATE TABLE aspect_def_rebuilt (
+    aspect_def_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    is_readable INTEGER NOT NULL DEFAULT 1,
+    is_writable INTEGER NOT NULL DEFAULT 1,
+    can_add_properties INTEGER NOT NULL DEFAULT 0,
+    can_remove_properties INTEGER NOT NULL DEFAULT 0
+  )`,
+      `INSERT INTO aspect_def_rebuilt
+       SELECT aspect_def_id, name, is_readable, is_writable, can_add_properties, can_remove_properties
+       FROM aspect_def`,
+      "DROP TABLE aspect_def",
+      "ALTER TABLE aspect_def_rebuilt RENAME TO aspect_def",
+    ],
+  },
+];
+
+/**
+ * Creates, migrates, empties and drops the CHEAP schema in a SQLite database.
+ * Emptying or dropping the schema also drops the tables of AspectDefs stored
+ * table-per-AspectDef.
+ *
+ * Catalogs bring their database up to date with migrate() when they connect.
+ * The DDL of the main schema is idempotent, so executeMainSchemaDdl() can also
+ * be used directly, without recording a migration history. Both turn foreign
+ * key enforcement off while they run, since a migration rebuilds a table that
+ * other tables reference; they cannot run in a transaction with it on.
+ */
+export class SqliteCheapSchema {
+  /**
+   * Returns the migrations that build the schema, in version order.
+   */
+  migrations(): readonly Migration[] {
+    return SQLITE_MIGRATIONS;
+  }
+
+  /**
+   * Creates a SchemaMigrator for the schema in a database.
+   *
+   * @param db the database connection
+   */
+  migrator(db: Database): SchemaMigrator {
+    return new SchemaMigrator(new SqliteMigrationConnection(db), SQLITE_MIGRATIONS);
+  }
+
+  /**
+   * Applies all pending migrations to a database.
+   *
+   * @param db the database connection
+   * @returns the migrations that were applied
+   * @throws Error if the database schema is newer than this code, a migration
+   *   fails, or migrations are pending in a transaction with foreign keys enforced
+   */
+  async migrate(db: Database): Promise<Migration[]> {
+    const migrator = this.migrator(db);
+    if ((await migrator.pendingMigrations()).length === 0) {
+      return [];
+    }
+    const restoreForeignKeys = suspendForeignKeys(db);
+    try {
+      return await migrator.migrate();
+    } finally {
+      restoreForeignKeys();
+    }
+  }
+
+  /**
+   * Creates the tables and indexes of the main schema, as of the latest
+   * migration, if they do not exist.
+   *
+   * @param db the database connection
+   * @throws Error if a transaction with foreign keys enforced is in progress
+   */
+  executeMainSchemaDdl(db: Database): void {
+    const restoreForeignKeys = suspendForeignKeys(db);
+    try {
+      for (const migration of SQLITE_MIGRATIONS) {
+        for (const statement of migration.up) {
+          db.exec(statement);
+        }
+      }
+    } finally {
+      restoreForeignKeys();
+    }
+  }
+
+  /**
+   * Deletes all rows from the tables of the main schema.
+   *
+   * @param db the database connection
+   */
+  executeTruncateSchemaDdl(db: Database): void {
+    db.transaction(() => {
+      this.dropAspectTables(db);
+      for (const table of MAIN_SCHEMA_TABLES) {
+        db.exec(`DELETE FROM ${table}`);
+      }
+    })();
+  }
+
+  /**
+   * Drops all tables of the main schema, and the migration history.
+   *
+   * @param db the database connection
+   */
+  executeDropSchemaDdl(db: Database): void {
+    db.transaction(() => {
+      this.dropAspectTables(db);
+      for (const table of MAIN_SCHEMA_TABLES) {
+        db.exec(`DROP TABLE IF EXISTS ${table}`);
+      }
+      db.exec(`DROP TABLE IF EXISTS ${DEFAULT_MIGRATION_TABLE}`);
+    })();
+  }
+
+  /**
+   * Drops the tables of AspectDefs stored table-per-AspectDef, side tables first.
+   */
+  private dropAspectTables(db: Database): void {
+    const registered =
+      db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'aspect_table'").get() !== undefined;
+    if (!registered) {
+      return;
+    }
+    const tables = db
+      .prepare("SELECT table_name FROM aspect_table ORDER BY property_name IS NULL")
+      .pluck()
+      .all() as string[];
+    for (const table of tables) {
+      db.exec(`DROP TABLE IF EXISTS "${table.replace(/"/g, '""')}"`);
+    }
+  }
+}
+
+/**
+ * Turns foreign key enforcement off, which SQLite only allows outside of a
+ * transaction.
+ *
+ * @returns a function that turns it back on if it was on
+ * @throws Error if foreign keys are enforced and a transaction is in progress
+ */
+function suspendForeignKeys(db: Database): () => void {
+  if (db.pragma("foreign_keys", { simple: true }) === 0) {
+    return () => {};
+  }
+  if (db.inTransaction) {
+    throw new Error("Cannot migrate the schema in a transaction while foreign keys are enforced.");
+  }
+  db.pragma("foreign_keys = OFF");
+  return () => db.pragma("foreign_keys = ON");
+}
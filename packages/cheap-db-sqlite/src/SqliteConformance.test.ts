@@ -0,0 +1,25 @@
+/**
+ * Runs the catalog storage conformance suite against SqliteCatalog
+ */
+
+import BetterSqlite3 from "better-sqlite3";
+import { CatalogSpecies } from "@cheap-ts/core";
+import { ConformanceBackend, describeCatalogConformance } from "@cheap-ts/db-conformance";
+import { SqlConnectOptions } from "@cheap-ts/db";
+import { SqliteCatalog } from "./SqliteCatalog.js";
+
+function sqliteBackend(options: SqlConnectOptions): ConformanceBackend<SqliteCatalog> {
+  const db = new BetterSqlite3(":memory:");
+  return {
+    createCatalog: (globalId) => SqliteCatalog.create(db, globalId, CatalogSpecies.SINK, null, options),
+    save: (catalog) => catalog.save(),
+    load: (globalId) => SqliteCatalog.open(db, globalId),
+    close: async () => {
+      db.close();
+    },
+  };
+}
+
+describeCatalogConformance("SQLite", () => sqliteBackend({}));
+
+describeCatalogConformance("SQLite aspect table", () => sqliteBackend({ aspectTables: true }));
@@ -0,0 +1,197 @@
+/**
+ * SqliteDao implementation
+ */
+
+import type { Database } from "better-sqlite3";
+import { Aspect, AspectDef, Catalog, CheapFactory, Entity, PropertyValueAdapter } from "@cheap-ts/core";
+import { SqlDao, SqlLazyAspectOptions } from "@cheap-ts/db";
+import { SqliteAspectTable } from "./SqliteAspectTable.js";
+import { SqliteDialect } from "./SqliteDialect.js";
+import { SqliteLazyAspectMapHierarchy } from "./SqliteLazyAspectMapHierarchy.js";
+import { SqliteMigrationConnection } from "./SqliteMigrationConnection.js";
+import { SqlitePropertyValueStore } from "./SqlitePropertyValueStore.js";
+import { SqliteTextSearch, TextSearchHit, TextSearchOptions } from "./SqliteTextSearch.js";
+import { SqliteValueCodec } from "./SqliteValueCodec.js";
+
+export type { CatalogHeader } from "@cheap-ts/db";
+
+/**
+ * Reads and writes catalogs in a SQLite database with the schema created by
+ * SqliteCheapSchema; see SqlDao.
+ *
+ * AspectDefs given a table of their own store their aspects with a column of
+ * the native type for each property, and a side table for each multivalued
+ * property (see SqliteAspectTable).
+ *
+ * Text and CLOB properties can be indexed for full-text search with
+ * enableTextSearch(); triggers keep the index in sync with the stored values.
+ *
+ * better-sqlite3 is synchronous, so aspects can also be read synchronously
+ * with loadAspectBatchSync(), which lets lazily loaded aspect maps load
+ * aspects on demand; see SqliteLazyAspectMapHierarchy.
+ */
+export class SqliteDao extends SqlDao {
+  private readonly _db: Database;
+  private readonly _valueCodec: SqliteValueCodec;
+  private readonly _textSearch: SqliteTextSearch;
+
+  /**
+   * Creates a new SqliteDao and enables foreign key enforcement on the
+   * connection, which deleting a catalog relies on.
+   *
+   * @param db the database connection
+   * @param adapter the adapter used to coerce loaded values
+   */
+  constructor(db: Database, adapter?: PropertyValueAdapter) {
+    const codec = new SqliteValueCodec(adapter);
+    super(new SqliteMigrationConnection(db), new SqliteDialect(), codec);
+    this._db = db;
+    this._valueCodec = codec;
+    this._textSearch = new SqliteTextSearch(db);
+    db.pragma("foreign_keys = ON");
+  }
+
+  /**
+   * Returns the database connection.
+   */
+  database(): Database {
+    return this._db;
+  }
+
+  async aspectTable(aspectDef: AspectDef): Promise<SqliteAspectTable | null> {
+    return (await super.aspectTable(aspectDef)) as SqliteAspectTable | null;
+  }
+
+  /**
+   * Stores the aspects of an AspectDef in a table of its own, with one typed
+   * column per property and a side table per multivalued property; see
+   * SqlDao.createAspectTable(). Indexed properties of the AspectDef are
+   * indexed from the table as well.
+   *
+   * @param aspectDef the AspectDef
+   * @param tableName the name of the table; defaults to defaultTableName()
+   * @returns the table
+   * @throws Error if aspects of the AspectDef are already stored in the generic
+   *   tables, or the table name is taken
+   */
+  async createAspectTable(
+    aspectDef: AspectDef,
+    tableName: string = this.defaultTableName(aspectDef),
+  ): Promise<SqliteAspectTable> {
+    return this.transaction(async () => {
+      const table = (await super.createAspectTable(aspectDef, tableName)) as SqliteAspectTable;
+      this._textSearch.attach(table);
+      return table;
+    });
+  }
+
+  /**
+   * Starts maintaining a full-text index of Text and CLOB properties of an
+   * AspectDef, in every catalog in the database. Saves the AspectDef and
+   * indexes the values already stored, in a single transaction; from then on
+   * the index is updated whenever values are saved or deleted.
+   *
+   * @param aspectDef the AspectDef
+   * @param propNames the names of the properties to index
+   * @throws Error if a property does not exist or is not a Text or CLOB property
+   */
+  async enableTextSearch(aspectDef: AspectDef, propNames: Iterable<string>): Promise<void> {
+    await this.transaction(async (dao) => {
+      await dao.saveAspectDef(aspectDef);
+      const table = await dao.aspectTable(aspectDef);
+      await table?.create();
+      this._textSearch.enable(aspectDef, propNames, table);
+    });
+  }
+
+  /**
+   * Stops maintaining the full-text index of properties of an AspectDef, and
+   * removes their values from it.
+   *
+   * @param aspectDef the AspectDef
+   * @param propNames the names of the properties; defaults to every indexed property
+   */
+  async disableTextSearch(aspectDef: AspectDef, propNames: Iterable<string> | null = null): Promise<void> {
+    await this.transaction(async (dao) => {
+      this._textSearch.disable(aspectDef, propNames, await dao.aspectTable(aspectDef));
+    });
+  }
+
+  /**
+   * Returns the names of the indexed properties of an AspectDef.
+   *
+   * @param aspectDef the AspectDef
+   */
+  async textSearchProperties(aspectDef: AspectDef): Promise<string[]> {
+    return this._textSearch.indexedProperties(aspectDef);
+  }
+
+  /**
+   * Searches the full-text index of a catalog's stored values; see SqliteTextSearch.search().
+   *
+   * @param catalogId the global ID of the catalog
+   * @param query the FTS5 query
+   * @param options which properties to search, and how many entities to return
+   * @param factory the factory used to resolve entities
+   * @returns the matching entities, best match first
+   */
+  async searchText(
+    catalogId: string,
+    query: string,
+    options: TextSearchOptions = {},
+    factory: CheapFactory = new CheapFactory(),
+  ): Promise<TextSearchHit[]> {
+    return this._textSearch.search(catalogId, query, options, factory);
+  }
+
+  /**
+   * Loads the stored aspects of some entities in a catalog synchronously, in
+   * the given order; see loadAspectBatch(). Each entity must have a stored
+   * aspect of the AspectDef.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param aspectDef the AspectDef of the aspects
+   * @param entityIds the global IDs of the entities
+   * @param factory the factory used to create the aspects and resolve their entities
+   * @returns the aspects
+   */
+  loadAspectBatchSync(
+    catalogId: string,
+    aspectDef: AspectDef,
+    entityIds: string[],
+    factory: CheapFactory = new CheapFactory(),
+  ): Aspect[] {
+    const aspects = entityIds.map((entityId) =>
+      factory.createObjectMapAspect(factory.getOrRegisterNewEntity(entityId), aspectDef),
+    );
+    if (aspects.length > 0) {
+      const tableName = this._db
+        .prepare("SELECT table_name FROM aspect_table WHERE aspect_def_id = ? AND property_name IS NULL")
+        .pluck()
+        .get(aspectDef.globalId()) as string | undefined;
+      const store =
+        tableName === undefined ? this.newPropertyValueStore(aspectDef) : this.newAspectTable(aspectDef, tableName);
+      store.readIntoSync(catalogId, aspects);
+    }
+    return aspects;
+  }
+
+  protected newAspectTable(aspectDef: AspectDef, tableName: string): SqliteAspectTable {
+    return new SqliteAspectTable(this._db, this._valueCodec, aspectDef, tableName);
+  }
+
+  protected newPropertyValueStore(aspectDef: AspectDef): SqlitePropertyValueStore {
+    return new SqlitePropertyValueStore(this._db, this._valueCodec, aspectDef);
+  }
+
+  protected newLazyAspectMap(
+    catalog: Catalog,
+    aspectDef: AspectDef,
+    version: number,
+    factory: CheapFactory,
+    storedEntities: Entity[],
+    options: SqlLazyAspectOptions,
+  ): SqliteLazyAspectMapHierarchy {
+    return new SqliteLazyAspectMapHierarchy(catalog, aspectDef, version, this, factory, storedEntities, options);
+  }
+}
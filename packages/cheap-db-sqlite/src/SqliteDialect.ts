@@ -0,0 +1,48 @@
+/**
+ * SqliteDialect implementation
+ */
+
+import { PropertyDef } from "@cheap-ts/core";
+import { SqlDialect } from "@cheap-ts/db";
+import { SqliteValueCodec } from "./SqliteValueCodec.js";
+
+/**
+ * The SQLite dialect of SQL: double-quoted identifiers, "?" placeholders,
+ * INSERT ... ON CONFLICT upserts, TEXT ids and the column types of
+ * SqliteValueCodec. DDL is transactional.
+ */
+export class SqliteDialect implements SqlDialect {
+  readonly name = "SQLite";
+
+  /** SQLite does not limit the length of names. */
+  readonly maxIdentifierLength = Number.POSITIVE_INFINITY;
+
+  readonly transactionalDdl = true;
+
+  readonly idColumnType = "TEXT";
+
+  private readonly _codec = new SqliteValueCodec();
+
+  quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  placeholders(sql: string): string {
+    return sql;
+  }
+
+  upsert(table: string, keyColumns: readonly string[], columns: readonly string[]): string {
+    const allColumns = [...keyColumns, ...columns];
+    return `INSERT INTO ${table} (${allColumns.join(", ")}) VALUES (${allColumns.map(() => "?").join(", ")})
+       ON CONFLICT (${keyColumns.join(", ")}) DO UPDATE SET ${columns.map((c) => `${c} = excluded.${c}`).join(", ")}`;
+  }
+
+  /**
+   * Returns the column type of a property in its aspect table. A multivalued
+   * property's column holds its element count; the elements are stored in a
+   * side table.
+   */
+  columnType(propDef: PropertyDef): string {
+    return propDef.isMultivalued() ? "INTEGER" : this._codec.columnType(propDef.type());
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for SqliteLazyAspectMapHierarchy
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import {
+  AspectObjectMapImpl,
+  EntityImpl,
+  EntityListHierarchy,
+  EntityListHierarchyImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { SqliteCatalog } from "./SqliteCatalog.js";
+import { SqliteDao } from "./SqliteDao.js";
+import { SqliteLazyAspectMapHierarchy } from "./SqliteLazyAspectMapHierarchy.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const COUNT = 25;
+
+function entityId(i: number): string {
+  return `00000000-0000-0000-0000-${String(i).padStart(12, "0")}`;
+}
+
+function personDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  propDefs.set("name", new PropertyDefBuilder().setName("name").setType(PropertyType.String).build());
+  propDefs.set("age", new PropertyDefBuilder().setName("age").setType(PropertyType.Integer).build());
+  return new FullAspectDefImpl("person", "20000000-0000-0000-0000-000000000000", propDefs, true, true, false, false);
+}
+
+function person(id: string, name: string, age: number): AspectObjectMapImpl {
+  const aspect = new AspectObjectMapImpl(new EntityImpl(id), personDef());
+  aspect.write("name", name);
+  aspect.write("age", age);
+  return aspect;
+}
+
+describe("SqliteLazyAspectMapHierarchy", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new BetterSqlite3(":memory:");
+    const catalog = new SqliteCatalog(CATALOG_ID);
+    const people = catalog.extend(personDef());
+    for (let i = 1; i <= COUNT; i++) {
+      people.add(person(entityId(i), `person ${i}`, i));
+    }
+    const list = new EntityListHierarchyImpl(catalog, "friends", 0, 0);
+    list.push(new EntityImpl(entityId(2)), new EntityImpl(entityId(7)));
+    await catalog.connect(db);
+    await catalog.save();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+  });
+
+  async function openLazy(cacheSize = 10, pageSize = 4) {
+    const catalog = await SqliteCatalog.open(db, CATALOG_ID, { lazy: true, cacheSize, pageSize });
+    return { catalog, people: catalog.aspects("person") as SqliteLazyAspectMapHierarchy };
+  }
+
+  it("should load only hierarchy headers and AspectDefs up front", async () => {
+    const { catalog, people } = await openLazy();
+
+    expect(people).toBeInstanceOf(SqliteLazyAspectMapHierarchy);
+    expect(people.cachedCount()).toBe(0);
+    expect(people.size).toBe(COUNT);
+    expect(Array.from(catalog.aspectDefs(), (d) => d.name())).toEqual(["person"]);
+    expect((catalog.hierarchy("friends") as EntityListHierarchy).length).toBe(2);
+  });
+
+  it("should load an aspect on demand through Entity.getAspect and AspectMapHierarchy.get", async () => {
+    const { catalog, people } = await openLazy();
+    const friend = (catalog.hierarchy("friends") as EntityListHierarchy)[1];
+
+    const aspect = friend.getAspect(people.aspectDef(), catalog)!;
+    expect(aspect.readObj("name")).toBe("person 7");
+    expect(aspect.readObj("age")).toBe(7);
+    expect(aspect.entity()).toBe(friend);
+    expect(people.get(friend)).toBe(aspect);
+    expect(people.cachedCount()).toBe(1);
+
+    const stranger = new EntityImpl(entityId(99));
+    expect(people.get(stranger)).toBeUndefined();
+    expect(people.has(stranger)).toBe(false);
+    expect(people.has(new EntityImpl(entityId(3)))).toBe(true);
+  });
+
+  it("should keep at most cacheSize loaded aspects", async () => {
+    const { people } = await openLazy(3);
+
+    const first = people.get(new EntityImpl(entityId(1)))!;
+    for (let i = 2; i <= 10; i++) {
+      people.get(new EntityImpl(entityId(i)));
+    }
+
+    expect(people.cachedCount()).toBe(3);
+    const reloaded = people.get(new EntityImpl(entityId(1)))!;
+    expect(reloaded).not.toBe(first);
+    expect(reloaded.readObj("name")).toBe("person 1");
+  });
+
+  it("should page through stored aspects in map order when iterating", async () => {
+    const { people } = await openLazy(2, 4);
+    const loadBatch = jest.spyOn(SqliteDao.prototype, "loadAspectBatchSync");
+
+    const names = Array.from(people.values(), (aspect) => aspect.readObj("name"));
+
+    expect(names).toEqual(Array.from({ length: COUNT }, (_, i) => `person ${i + 1}`));
+    expect(loadBatch).toHaveBeenCalledTimes(Math.ceil(COUNT / 4));
+    expect(loadBatch.mock.calls.every((call) => call[2].length <= 4)).toBe(true);
+    expect(people.cachedCount()).toBe(0);
+    expect(Array.from(people.keys())).toHaveLength(COUNT);
+  });
+
+  it("should save only pending changes and keep unchanged stored aspects", async () => {
+    const { catalog, people } = await openLazy();
+    people.add(person(entityId(3), "renamed", 33));
+    people.delete(new EntityImpl(entityId(4)));
+    people.add(person(entityId(100), "newcomer", 100));
+
+    expect(people.size).toBe(COUNT);
+    expect(people.get(new EntityImpl(entityId(3)))!.readObj("name")).toBe("renamed");
+    expect(people.has(new EntityImpl(entityId(4)))).toBe(false);
+    expect(people.pendingChanges().changedAspects).toHaveLength(2);
+
+    await catalog.save();
+    expect(people.pendingChanges()).toEqual({ cleared: false, deletedEntityIds: [], changedAspects: [] });
+
+    const reloaded = (await new SqliteDao(db).loadCatalog(CATALOG_ID))!;
+    const ids = Array.from(reloaded.aspects("person")!.keys(), (e) => e.globalId());
+    expect(ids).toHaveLength(COUNT);
+    expect(ids).not.toContain(entityId(4));
+    expect(ids[ids.length - 1]).toBe(entityId(100));
+    expect(reloaded.aspects("person")!.get(new EntityImpl(entityId(3)))).toBeUndefined();
+    const renamed = Array.from(reloaded.aspects("person")!.values()).find((a) => a.entity().globalId() === entityId(3));
+    expect(renamed?.readObj("age")).toBe(33);
+    expect((reloaded.hierarchy("friends") as EntityListHierarchy).length).toBe(2);
+  });
+
+  it("should delete every stored aspect when a cleared map is saved", async () => {
+    const { catalog, people } = await openLazy();
+    people.clear();
+    people.add(person(entityId(5), "survivor", 5));
+
+    expect(people.size).toBe(1);
+    expect(people.get(new EntityImpl(entityId(6)))).toBeUndefined();
+    await catalog.save();
+
+    const reloaded = (await new SqliteDao(db).loadCatalog(CATALOG_ID))!;
+    expect(Array.from(reloaded.aspects("person")!.values(), (a) => a.readObj("name"))).toEqual(["survivor"]);
+    expect(db.prepare("SELECT COUNT(*) FROM aspect").pluck().get()).toBe(1);
+  });
+
+  it("should copy every aspect when saved to another database", async () => {
+    const { catalog } = await openLazy();
+    const other = new BetterSqlite3(":memory:");
+    const otherCatalog = new SqliteCatalog();
+    await otherCatalog.connect(other);
+    await otherCatalog.close();
+
+    await new SqliteDao(other).saveCatalog(catalog);
+
+    expect((await new SqliteDao(other).loadCatalog(CATALOG_ID))!.aspects("person")!.size).toBe(COUNT);
+    other.close();
+  });
+
+  it("should reject invalid cache and page sizes", async () => {
+    await expect(openLazy(-1)).rejects.toThrow("Invalid aspect cache size");
+    await expect(SqliteCatalog.open(db, CATALOG_ID, { lazy: true, pageSize: 0 })).rejects.toThrow(
+      "Invalid aspect page size",
+    );
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * SqliteLazyAspectMapHierarchy implementation
+ */
+
+import { Aspect, AspectDef, Catalog, CheapFactory, Entity } from "@cheap-ts/core";
+import { SqlLazyAspectMapHierarchy, SqlLazyAspectOptions } from "@cheap-ts/db";
+import type { SqliteDao } from "./SqliteDao.js";
+
+/**
+ * An AspectMapHierarchy whose aspects stay in a SQLite database until they
+ * are asked for; see SqlLazyAspectMapHierarchy.
+ *
+ * better-sqlite3 reads synchronously, so get() loads a single entity's aspect
+ * when it is not loaded, keeping the most recently loaded aspects in a
+ * bounded LRU cache, and iteration reads the stored aspects a page at a time
+ * in map order, so it never holds more than one page in memory.
+ */
+export class SqliteLazyAspectMapHierarchy extends SqlLazyAspectMapHierarchy {
+  /**
+   * Creates a new SqliteLazyAspectMapHierarchy and adds it to the catalog.
+   *
+   * @param catalog the catalog containing this hierarchy; its global ID identifies the stored aspects
+   * @param aspectDef the aspect definition for aspects in this hierarchy
+   * @param version the version number of this hierarchy
+   * @param dao the DAO that reads the stored aspects
+   * @param factory the factory used to create loaded aspects and resolve their entities
+   * @param storedEntities the entities of the stored aspects, in map order
+   * @param options the cache and page sizes
+   */
+  constructor(
+    catalog: Catalog,
+    aspectDef: AspectDef,
+    version: number,
+    dao: SqliteDao,
+    factory: CheapFactory,
+    storedEntities: Iterable<Entity>,
+    options: SqlLazyAspectOptions = {},
+  ) {
+    super(catalog, aspectDef, version, dao, factory, storedEntities, options);
+  }
+
+  protected override loadSync(entityIds: string[]): Aspect[] {
+    return (this._dao as SqliteDao).loadAspectBatchSync(
+      this.catalog().globalId(),
+      this.aspectDef(),
+      entityIds,
+      this._factory,
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * SqliteMigrationConnection implementation
+ */
+
+import type { Database } from "better-sqlite3";
+import { SqlConnection } from "@cheap-ts/db";
+
+/**
+ * SqlConnection over a better-sqlite3 database, used both to migrate the
+ * schema and by SqliteDao.
+ *
+ * better-sqlite3 is synchronous, so its transaction() helper cannot wrap
+ * asynchronous work; transactions are opened and closed with explicit
+ * BEGIN, COMMIT and ROLLBACK statements instead. Transactions begun while one
+ * is running on the database join it.
+ *
+ * SQLite has no boolean type, so boolean parameters are bound as 1 or 0.
+ */
+export class SqliteMigrationConnection implements SqlConnection {
+  private readonly _db: Database;
+
+  /**
+   * Creates a new SqliteMigrationConnection.
+   *
+   * @param db the database connection
+   */
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  async execute(sql: string, params: readonly unknown[] = []): Promise<void> {
+    this._db.prepare(sql).run(...bind(params));
+  }
+
+  async update(sql: string, params: readonly unknown[] = []): Promise<number> {
+    return this._db.prepare(sql).run(...bind(params)).changes;
+  }
+
+  async query<T>(sql: string, params: readonly unknown[] = []): Promise<T[]> {
+    return this._db.prepare(sql).all(...bind(params)) as T[];
+  }
+
+  async tableExists(name: string): Promise<boolean> {
+    return this._db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name) !== undefined;
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this._db.inTransaction) {
+      return fn();
+    }
+    this._db.exec("BEGIN");
+    try {
+      const result = await fn();
+      this._db.exec("COMMIT");
+      return result;
+    } catch (e) {
+      if (this._db.inTransaction) {
+        this._db.exec("ROLLBACK");
+      }
+      throw e;
+    }
+  }
+
+  inTransaction(): boolean {
+    return this._db.inTransaction;
+  }
+}
+
+/**
+ * Converts statement parameters to values better-sqlite3 can bind.
+ */
+function bind(params: readonly unknown[]): unknown[] {
+  return params.map((param) => (typeof param === "boolean" ? Number(param) : param));
+}
@@ -0,0 +1,66 @@
+/**
+ * SqlitePropertyValueStore implementation
+ */
+
+import type { Database } from "better-sqlite3";
+import { Aspect, AspectDef } from "@cheap-ts/core";
+import { PropertyValueRow, SqlPropertyValueStore } from "@cheap-ts/db";
+import { SqliteMigrationConnection } from "./SqliteMigrationConnection.js";
+import { SqliteValueCodec } from "./SqliteValueCodec.js";
+
+/**
+ * Stores the aspects of one AspectDef in the generic aspect and
+ * property_value tables of a SQLite database; see SqlPropertyValueStore.
+ * Since better-sqlite3 is synchronous, aspects can also be read
+ * synchronously, which lazily loaded aspect maps rely on.
+ */
+export class SqlitePropertyValueStore extends SqlPropertyValueStore {
+  private readonly _db: Database;
+
+  /**
+   * Creates a new SqlitePropertyValueStore.
+   *
+   * @param db the database connection
+   * @param codec the codec that converts property values to text
+   * @param aspectDef the AspectDef whose aspects are stored
+   */
+  constructor(db: Database, codec: SqliteValueCodec, aspectDef: AspectDef) {
+    super(new SqliteMigrationConnection(db), codec, aspectDef);
+    this._db = db;
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it; see readIntoSync().
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their rows
+   */
+  async readInto(catalogId: string, aspects: Aspect[]): Promise<void> {
+    this.readIntoSync(catalogId, aspects);
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it, reading them
+   * synchronously. Aspects that are not stored are left unchanged.
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their rows
+   */
+  readIntoSync(catalogId: string, aspects: Aspect[]): void {
+    if (aspects.length === 0) {
+      return;
+    }
+    const rows = this._db
+      .prepare(
+        `SELECT entity_id, property_name, value_index, value_text, value_binary FROM property_value
+         WHERE catalog_id = ? AND aspect_def_id = ? AND entity_id IN (SELECT value FROM json_each(?))
+         ORDER BY entity_id, property_name, value_index`,
+      )
+      .all(
+        catalogId,
+        this.aspectDef().globalId(),
+        JSON.stringify(aspects.map((aspect) => aspect.entity().globalId())),
+      ) as PropertyValueRow[];
+    this.readRows(aspects, rows);
+  }
+}
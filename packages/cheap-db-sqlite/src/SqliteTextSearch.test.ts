@@ -0,0 +1,172 @@
+/**
+ * Unit tests for SqliteTextSearch
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import BetterSqlite3 from "better-sqlite3";
+import type { Database } from "better-sqlite3";
+import {
+  AspectMapHierarchy,
+  AspectObjectMapImpl,
+  EntityImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { SqliteCatalog } from "./SqliteCatalog.js";
+import { SqliteDao } from "./SqliteDao.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const DOC_DEF_ID = "20000000-0000-0000-0000-000000000002";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+function docDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("title", PropertyType.String);
+  add("body", PropertyType.Text);
+  add("notes", PropertyType.CLOB, true);
+  return new FullAspectDefImpl("doc", DOC_DEF_ID, propDefs, true, true, false, true);
+}
+
+function addDoc(docs: AspectMapHierarchy, entityId: string, body: string | null, notes: string[] = []): void {
+  const doc = new AspectObjectMapImpl(new EntityImpl(entityId), docs.aspectDef());
+  doc.write("title", "fox");
+  doc.write("body", body);
+  doc.write("notes", notes);
+  docs.add(doc);
+}
+
+function populate(catalog: SqliteCatalog): void {
+  const docs = catalog.extend(docDef());
+  addDoc(docs, ID1, "The quick brown fox jumps over the lazy dog");
+  addDoc(docs, ID2, "A fox, a fox, and yet another fox", ["foxes everywhere"]);
+  addDoc(docs, ID3, "Nothing to see here", ["except one fox"]);
+}
+
+describe("SqliteTextSearch", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new BetterSqlite3(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  for (const aspectTables of [false, true]) {
+    describe(aspectTables ? "in aspect tables" : "in the generic tables", () => {
+      let catalog: SqliteCatalog;
+
+      beforeEach(async () => {
+        catalog = new SqliteCatalog(CATALOG_ID);
+        populate(catalog);
+        await catalog.connect(db, { aspectTables });
+      });
+
+      it("should index stored values and rank the matching entities", async () => {
+        await catalog.save();
+        await catalog.enableTextSearch("doc", ["body", "notes"]);
+
+        const hits = await catalog.searchText("fox");
+        // BM25 favours more frequent matches and shorter values
+        expect(hits.map((hit) => hit.entity.globalId())).toEqual([ID2, ID3, ID1]);
+        expect(hits[0].rank).toBeLessThan(hits[1].rank);
+        expect(hits[1].rank).toBeLessThan(hits[2].rank);
+        expect(hits[0]).toMatchObject({ aspectDefName: "doc", propertyName: "body" });
+        expect(hits[1]).toMatchObject({ propertyName: "notes", snippet: "except one [fox]" });
+        expect(hits[2].snippet).toBe("The quick brown [fox] jumps over the lazy dog");
+
+        expect((await catalog.searchText("fox", { propertyName: "notes" })).map((h) => h.entity.globalId())).toEqual([
+          ID3,
+        ]);
+        expect(await catalog.searchText("fox", { aspectDefName: "other" })).toEqual([]);
+        expect(await catalog.searchText("fox", { limit: 1 })).toHaveLength(1);
+        expect((await catalog.searchText("lazy", { snippetTokens: 3, highlight: ["<b>", "</b>"] }))[0].snippet).toBe(
+          "…the <b>lazy</b> dog",
+        );
+        expect(await catalog.searchText("title")).toEqual([]);
+      });
+
+      it("should keep the index in sync on every save", async () => {
+        await catalog.enableTextSearch("doc", ["body", "notes"]);
+        await catalog.save();
+        expect(await catalog.searchText("fox")).toHaveLength(3);
+
+        const docs = catalog.aspects("doc")!;
+        const [e1, e2, e3] = Array.from(docs.keys());
+        docs.get(e1)!.write("body", "The quick brown cat");
+        docs.get(e2)!.write("notes", ["cats everywhere"]);
+        docs.delete(e3);
+        addDoc(docs, "00000000-0000-0000-0000-000000000004", "A new fox arrives");
+        await catalog.save();
+
+        const search = async (query: string) => (await catalog.searchText(query)).map((h) => h.entity.globalId());
+        expect(await search("fox")).toEqual([ID2, "00000000-0000-0000-0000-000000000004"]);
+        expect((await search("cat*")).sort()).toEqual([ID1, ID2]);
+        expect(await search("foxes")).toEqual([]);
+
+        docs.get(e1)!.write("body", null);
+        await catalog.save();
+        expect(await search("quick")).toEqual([]);
+
+        expect(await new SqliteDao(db).deleteCatalog(CATALOG_ID)).toBe(true);
+        expect(db.prepare("SELECT COUNT(*) FROM text_search_document").pluck().get()).toBe(0);
+        expect(db.prepare("SELECT COUNT(*) FROM text_search").pluck().get()).toBe(0);
+      });
+
+      it("should stop indexing disabled properties", async () => {
+        await catalog.enableTextSearch("doc", ["body", "notes"]);
+        await catalog.save();
+        const dao = new SqliteDao(db);
+
+        await dao.disableTextSearch(docDef(), ["notes"]);
+        expect(await dao.textSearchProperties(docDef())).toEqual(["body"]);
+        expect((await catalog.searchText("fox")).map((h) => h.entity.globalId())).toEqual([ID2, ID1]);
+
+        await dao.disableTextSearch(docDef());
+        catalog
+          .aspects("doc")!
+          .get(Array.from(catalog.aspects("doc")!.keys())[0])!
+          .write("body", "fox");
+        await catalog.save();
+        expect(await catalog.searchText("fox")).toEqual([]);
+        expect(db.prepare("SELECT COUNT(*) FROM text_search_document").pluck().get()).toBe(0);
+      });
+    });
+  }
+
+  it("should only search the given catalog", async () => {
+    const first = new SqliteCatalog(CATALOG_ID);
+    populate(first);
+    await first.connect(db);
+    await first.save();
+    await first.enableTextSearch("doc", ["body"]);
+    const second = new SqliteCatalog();
+    addDoc(second.extend(docDef()), ID1, "Yet another fox");
+    await second.connect(db);
+    await second.save();
+
+    expect(await first.searchText("another")).toHaveLength(1);
+    expect((await first.searchText("another"))[0].entity.globalId()).toBe(ID2);
+    expect((await second.searchText("another"))[0].snippet).toBe("Yet [another] fox");
+  });
+
+  it("should only index Text and CLOB properties", async () => {
+    const catalog = new SqliteCatalog(CATALOG_ID);
+    populate(catalog);
+    await catalog.connect(db);
+
+    await expect(catalog.enableTextSearch("doc", ["title"])).rejects.toThrow("only Text and CLOB properties");
+    await expect(catalog.enableTextSearch("doc", ["missing"])).rejects.toThrow("has no property 'missing'");
+    await expect(catalog.enableTextSearch("other", ["body"])).rejects.toThrow("has no AspectDef 'other'");
+    expect(await new SqliteDao(db).textSearchProperties(docDef())).toEqual([]);
+    // SqliteError may come from another test file's realm, so match its message rather than using toThrow
+    await expect(catalog.searchText("AND")).rejects.toMatchObject({ message: expect.stringContaining("syntax") });
+  });
+});
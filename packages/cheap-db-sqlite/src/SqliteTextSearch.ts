@@ -0,0 +1,372 @@
+/**
+ * SqliteTextSearch implementation
+ */
+
+import type { Database } from "better-sqlite3";
+import { AspectDef, CheapFactory, Entity, PropertyType } from "@cheap-ts/core";
+import type { SqliteAspectTable } from "./SqliteAspectTable.js";
+import { SqliteDialect } from "./SqliteDialect.js";
+
+/**
+ * Options for a full-text search.
+ */
+export interface TextSearchOptions {
+  /** Only search the properties of the AspectDef with this name. */
+  aspectDefName?: string;
+
+  /** Only search the properties with this name. */
+  propertyName?: string;
+
+  /** The maximum number of entities to return; defaults to 20. */
+  limit?: number;
+
+  /** The maximum number of tokens in a snippet, from 1 to 64; defaults to 16. */
+  snippetTokens?: number;
+
+  /** The text inserted before and after each match in a snippet; defaults to "[" and "]". */
+  highlight?: [string, string];
+}
+
+/**
+ * An entity matching a full-text search.
+ */
+export interface TextSearchHit {
+  /** The entity. */
+  entity: Entity;
+
+  /** The name of the AspectDef of the best matching property value. */
+  aspectDefName: string;
+
+  /** The name of the best matching property. */
+  propertyName: string;
+
+  /** The FTS5 rank of the best matching property value; lower is better. */
+  rank: number;
+
+  /** An excerpt of the best matching property value, with the matches highlighted. */
+  snippet: string;
+}
+
+interface HitRow {
+  entity_id: string;
+  aspect_def_name: string;
+  property_name: string;
+  rank: number;
+  snippet: string;
+}
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_SNIPPET_TOKENS = 16;
+
+/** The property types whose values can be indexed. */
+const SEARCHABLE_TYPES: readonly PropertyType[] = [PropertyType.Text, PropertyType.CLOB];
+
+const DIALECT = new SqliteDialect();
+
+/**
+ * Quotes an SQL identifier.
+ */
+function quote(identifier: string): string {
+  return DIALECT.quoteIdentifier(identifier);
+}
+
+/**
+ * Quotes an SQL string literal.
+ */
+function literal(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * The SQL that identifies the indexed value of a trigger's row.
+ */
+function documentKey(row: string, aspectDefId: string, propName: string, valueIndex: string): string {
+  return `catalog_id = ${row}.catalog_id AND aspect_def_id = ${literal(aspectDefId)} AND entity_id = ${row}.entity_id
+           AND property_name = ${literal(propName)} AND value_index = ${valueIndex}`;
+}
+
+/**
+ * The full-text index of selected Text and CLOB properties in a SQLite
+ * database, kept in the FTS5 table text_search.
+ *
+ * Each stored value of an indexed property is a document in the index,
+ * recorded in text_search_document. Triggers keep the index in sync with the
+ * stored values: the schema's own triggers on property_value cover AspectDefs
+ * stored in the generic tables, and enable() creates triggers on the aspect
+ * table of an AspectDef stored table-per-AspectDef. Values are therefore
+ * indexed by every save, whoever makes it, and removed with their aspects and
+ * catalogs.
+ */
+export class SqliteTextSearch {
+  private readonly _db: Database;
+
+  /**
+   * Creates a new SqliteTextSearch for a database with the CHEAP schema.
+   *
+   * @param db the database connection
+   */
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  /**
+   * Returns the names of the indexed properties of an AspectDef.
+   *
+   * @param aspectDef the AspectDef
+   */
+  indexedProperties(aspectDef: AspectDef): string[] {
+    return this._db
+      .prepare("SELECT property_name FROM text_search_property WHERE aspect_def_id = ? ORDER BY property_name")
+      .pluck()
+      .all(aspectDef.globalId()) as string[];
+  }
+
+  /**
+   * Starts indexing properties of an AspectDef, and indexes their stored
+   * values. Properties that are already indexed are reindexed. The AspectDef
+   * must already be stored.
+   *
+   * @param aspectDef the AspectDef
+   * @param propNames the names of the properties to index
+   * @param table the aspect table of the AspectDef, or null if it is stored in the generic tables
+   * @throws Error if a property does not exist or is not a Text or CLOB property
+   */
+  enable(aspectDef: AspectDef, propNames: Iterable<string>, table: SqliteAspectTable | null): void {
+    const names = Array.from(propNames);
+    for (const propName of names) {
+      const propDef = aspectDef.propertyDef(propName);
+      if (!propDef) {
+        throw new Error(`AspectDef '${aspectDef.name()}' has no property '${propName}'.`);
+      }
+      if (!SEARCHABLE_TYPES.includes(propDef.type())) {
+        throw new Error(
+          `Property '${propName}' of AspectDef '${aspectDef.name()}' has type ${propDef.type()}; only Text and CLOB properties can be indexed.`,
+        );
+      }
+    }
+    for (const propName of names) {
+      this.deleteDocuments(aspectDef, propName);
+      this._db
+        .prepare("INSERT INTO text_search_property (aspect_def_id, property_name) VALUES (?, ?) ON CONFLICT DO NOTHING")
+        .run(aspectDef.globalId(), propName);
+      if (table) {
+        this.createTriggers(table, propName);
+      }
+      this.indexStoredValues(aspectDef, propName, table);
+    }
+  }
+
+  /**
+   * Stops indexing properties of an AspectDef and removes their values from the index.
+   *
+   * @param aspectDef the AspectDef
+   * @param propNames the names of the properties; defaults to every indexed property
+   * @param table the aspect table of the AspectDef, or null if it is stored in the generic tables
+   */
+  disable(aspectDef: AspectDef, propNames: Iterable<string> | null, table: SqliteAspectTable | null): void {
+    for (const propName of propNames ?? this.indexedProperties(aspectDef)) {
+      if (table) {
+        for (const trigger of this.triggerNames(table, propName)) {
+          this._db.exec(`DROP TRIGGER IF EXISTS ${quote(trigger)}`);
+        }
+      }
+      this.deleteDocuments(aspectDef, propName);
+      this._db
+        .prepare("DELETE FROM text_search_property WHERE aspect_def_id = ? AND property_name = ?")
+        .run(aspectDef.globalId(), propName);
+    }
+  }
+
+  /**
+   * Creates the triggers that index the properties of an aspect table that
+   * are already indexed, such as when an AspectDef with indexed properties is
+   * given a table of its own.
+   *
+   * @param table the aspect table
+   */
+  attach(table: SqliteAspectTable): void {
+    for (const propName of this.indexedProperties(table.aspectDef())) {
+      this.createTriggers(table, propName);
+    }
+  }
+
+  /**
+   * Searches the indexed values stored for a catalog, and returns the matching
+   * entities, best match first. An entity with several matching values is
+   * returned once, for its best match.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param query the FTS5 query
+   * @param options which properties to search, and how many entities to return
+   * @param factory the factory used to resolve entities
+   * @returns the matching entities
+   */
+  search(
+    catalogId: string,
+    query: string,
+    options: TextSearchOptions = {},
+    factory: CheapFactory = new CheapFactory(),
+  ): TextSearchHit[] {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const snippetTokens = options.snippetTokens ?? DEFAULT_SNIPPET_TOKENS;
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`Invalid search limit ${limit}.`);
+    }
+    if (!Number.isInteger(snippetTokens) || snippetTokens < 1 || snippetTokens > 64) {
+      throw new Error(`Invalid snippet length ${snippetTokens}.`);
+    }
+    const [open, close] = options.highlight ?? ["[", "]"];
+    const rows = this._db
+      .prepare(
+        `SELECT d.entity_id, a.name AS aspect_def_name, d.property_name, text_search.rank,
+                snippet(text_search, 0, ?, ?, '…', ?) AS snippet
+         FROM text_search
+         JOIN text_search_document d ON d.document_id = text_search.rowid
+         JOIN aspect_def a ON a.aspect_def_id = d.aspect_def_id
+         WHERE text_search MATCH ? AND d.catalog_id = ?
+           AND (? IS NULL OR a.name = ?) AND (? IS NULL OR d.property_name = ?)
+         ORDER BY text_search.rank`,
+      )
+      .iterate(
+        open,
+        close,
+        snippetTokens,
+        query,
+        catalogId,
+        options.aspectDefName ?? null,
+        options.aspectDefName ?? null,
+        options.propertyName ?? null,
+        options.propertyName ?? null,
+      ) as IterableIterator<HitRow>;
+
+    const hits = new Map<string, TextSearchHit>();
+    for (const row of rows) {
+      if (hits.size >= limit) {
+        // Leaving the loop finalizes the statement without reading the remaining rows
+        break;
+      }
+      if (!hits.has(row.entity_id)) {
+        hits.set(row.entity_id, {
+          entity: factory.getOrRegisterNewEntity(row.entity_id),
+          aspectDefName: row.aspect_def_name,
+          propertyName: row.property_name,
+          rank: row.rank,
+          snippet: row.snippet,
+        });
+      }
+    }
+    return Array.from(hits.values());
+  }
+
+  /**
+   * Creates the triggers that index one property of an aspect table: on the
+   * property's column, or on its side table if it is multivalued.
+   */
+  private createTriggers(table: SqliteAspectTable, propName: string): void {
+    const aspectDef = table.aspectDef();
+    const aspectDefId = aspectDef.globalId();
+    const insert = (row: string, valueIndex: string, content: string) =>
+      `INSERT INTO text_search_document (catalog_id, entity_id, aspect_def_id, property_name, value_index)
+         VALUES (${row}.catalog_id, ${row}.entity_id, ${literal(aspectDefId)}, ${literal(propName)}, ${valueIndex});
+       INSERT INTO text_search (rowid, content) VALUES (last_insert_rowid(), ${content});`;
+    const remove = (row: string, valueIndex: string) =>
+      `DELETE FROM text_search WHERE rowid =
+         (SELECT document_id FROM text_search_document WHERE ${documentKey(row, aspectDefId, propName, valueIndex)});
+       DELETE FROM text_search_document WHERE ${documentKey(row, aspectDefId, propName, valueIndex)};`;
+    const [insertTrigger, updateTrigger, deleteTrigger] = this.triggerNames(table, propName).map(quote);
+
+    if (aspectDef.propertyDef(propName)!.isMultivalued()) {
+      const sideTable = quote(table.sideTableName(propName));
+      this._db.exec(
+        `CREATE TRIGGER IF NOT EXISTS ${insertTrigger} AFTER INSERT ON ${sideTable}
+         WHEN NEW.value IS NOT NULL
+         BEGIN ${insert("NEW", "NEW.value_index", "NEW.value")} END`,
+      );
+      this._db.exec(
+        `CREATE TRIGGER IF NOT EXISTS ${deleteTrigger} AFTER DELETE ON ${sideTable}
+         BEGIN ${remove("OLD", "OLD.value_index")} END`,
+      );
+      return;
+    }
+    const mainTable = quote(table.tableName());
+    const column = quote(propName);
+    this._db.exec(
+      `CREATE TRIGGER IF NOT EXISTS ${insertTrigger} AFTER INSERT ON ${mainTable}
+       WHEN NEW.${column} IS NOT NULL
+       BEGIN ${insert("NEW", "0", `NEW.${column}`)} END`,
+    );
+    this._db.exec(
+      `CREATE TRIGGER IF NOT EXISTS ${updateTrigger} AFTER UPDATE OF ${column} ON ${mainTable}
+       BEGIN
+         ${remove("OLD", "0")}
+         INSERT INTO text_search_document (catalog_id, entity_id, aspect_def_id, property_name, value_index)
+           SELECT NEW.catalog_id, NEW.entity_id, ${literal(aspectDefId)}, ${literal(propName)}, 0
+           WHERE NEW.${column} IS NOT NULL;
+         INSERT INTO text_search (rowid, content)
+           SELECT last_insert_rowid(), NEW.${column} WHERE NEW.${column} IS NOT NULL;
+       END`,
+    );
+    this._db.exec(
+      `CREATE TRIGGER IF NOT EXISTS ${deleteTrigger} AFTER DELETE ON ${mainTable}
+       BEGIN ${remove("OLD", "0")} END`,
+    );
+  }
+
+  /**
+   * Returns the names of the insert, update and delete triggers that index one
+   * property of an aspect table.
+   */
+  private triggerNames(table: SqliteAspectTable, propName: string): string[] {
+    const prefix = `${table.tableName()}__${propName.replace(/[^A-Za-z0-9_]/g, "_")}__text_search`;
+    return [`${prefix}_insert`, `${prefix}_update`, `${prefix}_delete`];
+  }
+
+  /**
+   * Indexes the stored values of one property.
+   */
+  private indexStoredValues(aspectDef: AspectDef, propName: string, table: SqliteAspectTable | null): void {
+    const aspectDefId = aspectDef.globalId();
+    let source: string;
+    if (!table) {
+      source = `SELECT catalog_id, entity_id, value_index, value_text AS content FROM property_value
+                WHERE aspect_def_id = ${literal(aspectDefId)} AND property_name = ${literal(propName)}
+                  AND value_index >= 0 AND value_text IS NOT NULL`;
+    } else if (aspectDef.propertyDef(propName)!.isMultivalued()) {
+      source = `SELECT catalog_id, entity_id, value_index, value AS content
+                FROM ${quote(table.sideTableName(propName))} WHERE value IS NOT NULL`;
+    } else {
+      source = `SELECT catalog_id, entity_id, 0 AS value_index, ${quote(propName)} AS content
+                FROM ${quote(table.tableName())} WHERE ${quote(propName)} IS NOT NULL`;
+    }
+    this._db
+      .prepare(
+        `INSERT INTO text_search_document (catalog_id, entity_id, aspect_def_id, property_name, value_index)
+         SELECT catalog_id, entity_id, ?, ?, value_index FROM (${source})`,
+      )
+      .run(aspectDefId, propName);
+    this._db
+      .prepare(
+        `INSERT INTO text_search (rowid, content)
+         SELECT d.document_id, s.content FROM text_search_document d
+         JOIN (${source}) s
+           ON s.catalog_id = d.catalog_id AND s.entity_id = d.entity_id AND s.value_index = d.value_index
+         WHERE d.aspect_def_id = ? AND d.property_name = ?`,
+      )
+      .run(aspectDefId, propName);
+  }
+
+  /**
+   * Removes the values of one property from the index.
+   */
+  private deleteDocuments(aspectDef: AspectDef, propName: string): void {
+    this._db
+      .prepare(
+        `DELETE FROM text_search WHERE rowid IN
+           (SELECT document_id FROM text_search_document WHERE aspect_def_id = ? AND property_name = ?)`,
+      )
+      .run(aspectDef.globalId(), propName);
+    this._db
+      .prepare("DELETE FROM text_search_document WHERE aspect_def_id = ? AND property_name = ?")
+      .run(aspectDef.globalId(), propName);
+  }
+}
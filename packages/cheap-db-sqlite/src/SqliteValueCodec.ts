@@ -0,0 +1,239 @@
+/**
+ * SqliteValueCodec implementation
+ */
+
+import { PropertyDef, PropertyType, PropertyValueAdapter } from "@cheap-ts/core";
+import { SqlValueCodec } from "@cheap-ts/db";
+
+/**
+ * Converts property values to and from the columns of SQLite aspect tables
+ * (see columnType()), and to and from the text form that the generic
+ * property_value table and PropertyDef default values hold; BLOB values are
+ * stored as bytes in property_value, and as text only in defaults:
+ * - Integer, Float: decimal string (non-finite floats as "NaN", "Infinity", "-Infinity")
+ * - Boolean: "true" or "false"
+ * - BigInteger, BigDecimal: string of decimal digits
+ * - DateTime: ISO-8601 string in UTC
+ * - BLOB: lowercase hex digits
+ * - String, Text, CLOB, UUID, URI: the string itself
+ *
+ * The elements of a multivalued property are stored in a side table of its
+ * aspect table, one column value per element (see elementToNative()); the
+ * property's own column holds their count.
+ */
+export class SqliteValueCodec implements SqlValueCodec {
+  private readonly _adapter: PropertyValueAdapter;
+
+  /**
+   * Creates a new SqliteValueCodec.
+   *
+   * @param adapter the adapter used to coerce decoded values; defaults to a new adapter in the local time zone
+   */
+  constructor(adapter?: PropertyValueAdapter) {
+    this._adapter = adapter ?? new PropertyValueAdapter();
+  }
+
+  /**
+   * Converts a single (non-collection) non-null value to its text form.
+   *
+   * @param type the property type
+   * @param value the value
+   * @returns the text form of the value
+   */
+  toText(type: PropertyType, value: unknown): string {
+    switch (type) {
+      case PropertyType.DateTime:
+        return this._adapter.coerceToDate(value).toISOString();
+      case PropertyType.BLOB:
+        return Buffer.from(this._adapter.coerceToByteArray(value)).toString("hex");
+      default:
+        // Numbers, booleans, bigints, URLs and strings all have the right String() form
+        return String(value);
+    }
+  }
+
+  /**
+   * Converts the text form of a single (non-collection) value back to a value.
+   * The result still needs to be coerced to the property's JS type.
+   *
+   * @param type the property type
+   * @param text the text form
+   * @returns the value
+   */
+  fromText(type: PropertyType, text: string): unknown {
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        return Number(text);
+      default:
+        // The adapter parses booleans, bigints, dates, URLs and hex BLOBs from strings
+        return text;
+    }
+  }
+
+  /**
+   * Returns the SQLite column type that holds values of a property type in an
+   * aspect table:
+   * - Integer, Boolean: INTEGER (booleans as 0 or 1)
+   * - Float: REAL
+   * - BLOB: BLOB
+   * - everything else: TEXT, in the same form as value_text
+   *
+   * BigInteger and BigDecimal values are kept as text, since they may not fit
+   * a 64-bit integer or a double.
+   *
+   * @param type the property type
+   */
+  columnType(type: PropertyType): string {
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Boolean:
+        return "INTEGER";
+      case PropertyType.Float:
+        return "REAL";
+      case PropertyType.BLOB:
+        return "BLOB";
+      default:
+        return "TEXT";
+    }
+  }
+
+  /**
+   * Converts a property value to the value bound to its column in an aspect
+   * table: the element count for a multivalued property.
+   *
+   * @param propDef the PropertyDef
+   * @param value the value, which may be null
+   * @returns the column value
+   */
+  toNative(propDef: PropertyDef, value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return propDef.isMultivalued() ? (value as unknown[]).length : this.elementToNative(propDef.type(), value);
+  }
+
+  /**
+   * Converts a column value read from an aspect table back to a property
+   * value, coerced to the property's JS type. For a multivalued property, the
+   * column value is the array of the column values of its elements, read from
+   * its side table.
+   *
+   * @param propDef the PropertyDef
+   * @param stored the column value
+   * @returns the value, or null if the column is null
+   */
+  fromNative(propDef: PropertyDef, stored: unknown): unknown {
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+    const value =
+      propDef.isMultivalued() ?
+        (stored as unknown[]).map((element) => this.elementFromNative(propDef.type(), element))
+      : this.elementFromNative(propDef.type(), stored);
+    return this.coerce(propDef, value);
+  }
+
+  /**
+   * Converts a single (non-collection) value to the value bound to its column
+   * in an aspect table or side table.
+   *
+   * @param type the property type
+   * @param value the value, which may be null
+   * @returns the column value
+   */
+  elementToNative(type: PropertyType, value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    switch (type) {
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        return Number(value);
+      case PropertyType.Boolean:
+        return value === true || value === "true" ? 1 : 0;
+      case PropertyType.BLOB:
+        return Buffer.from(this._adapter.coerceToByteArray(value));
+      default:
+        return this.toText(type, value);
+    }
+  }
+
+  /**
+   * Converts a column value read from an aspect table or side table back to a
+   * single (non-collection) value. The result still needs to be coerced to
+   * the property's JS type.
+   *
+   * @param type the property type
+   * @param stored the column value
+   * @returns the value, or null if the column is null
+   */
+  elementFromNative(type: PropertyType, stored: unknown): unknown {
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+    switch (type) {
+      case PropertyType.Boolean:
+        return stored !== 0;
+      case PropertyType.BLOB:
+        return new Uint8Array(stored as Uint8Array);
+      case PropertyType.Integer:
+      case PropertyType.Float:
+        return Number(stored);
+      default:
+        return this.fromText(type, String(stored));
+    }
+  }
+
+  /**
+   * Converts the default value of a PropertyDef to text. Multivalued defaults
+   * are written as a JSON array of the text forms of their elements.
+   *
+   * @param propDef the PropertyDef
+   * @returns the text form of the default, or null if it is null
+   */
+  defaultToText(propDef: PropertyDef): string | null {
+    const value = propDef.defaultValue();
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      return JSON.stringify(
+        (value as unknown[]).map((element) => (element === null ? null : this.toText(propDef.type(), element))),
+      );
+    }
+    return this.toText(propDef.type(), value);
+  }
+
+  /**
+   * Converts the text form of a default value back to a value of a PropertyDef.
+   *
+   * @param propDef a nullable PropertyDef with the type and multiplicity of the default
+   * @param text the text form, or null
+   * @returns the default value, coerced to the property's JS type
+   */
+  defaultFromText(propDef: PropertyDef, text: string | null): unknown {
+    if (text === null) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      const elements = JSON.parse(text) as (string | null)[];
+      return this.coerce(
+        propDef,
+        elements.map((element) => (element === null ? null : this.fromText(propDef.type(), element))),
+      );
+    }
+    return this.coerce(propDef, this.fromText(propDef.type(), text));
+  }
+
+  /**
+   * Coerces a decoded value to the JS type of a PropertyDef.
+   *
+   * @param propDef the PropertyDef
+   * @param value the decoded value
+   * @returns the coerced value
+   */
+  coerce(propDef: PropertyDef, value: unknown): unknown {
+    return this._adapter.coerce(propDef, value);
+  }
+}
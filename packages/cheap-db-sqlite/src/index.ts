@@ -2,48 +2,13 @@
  * @cheap-ts/db-sqlite - SQLite database implementation for CHEAP model
  */
 
-import { CatalogImpl } from "@cheap-ts/core";
-
-/**
- * SQLite-backed catalog implementation.
- * This is a stub implementation that extends CatalogImpl.
- *
- * Database catalogs use the SOURCE species for read-only access
- * or SINK species for read-write access to external data sources.
- */
-export class SqliteCatalog extends CatalogImpl {
-  constructor() {
-    // Create a SINK catalog (read-write external data source)
-    super();
-  }
-
-  /**
-   * Connect to a SQLite database at the specified path.
-   *
-   * @param dbPath path to the SQLite database file
-   */
-  async connect(_dbPath: string): Promise<void> {
-    throw new Error("Not implemented");
-  }
-
-  /**
-   * Close the database connection.
-   */
-  async close(): Promise<void> {
-    throw new Error("Not implemented");
-  }
-
-  /**
-   * Load entities from the database into this catalog.
-   */
-  async load(): Promise<void> {
-    throw new Error("Not implemented");
-  }
-
-  /**
-   * Save entities from this catalog to the database.
-   */
-  async save(): Promise<void> {
-    throw new Error("Not implemented");
-  }
-}
+export * from "./SqliteCheapSchema.js";
+export * from "./SqliteMigrationConnection.js";
+export * from "./SqliteValueCodec.js";
+export * from "./SqliteDialect.js";
+export * from "./SqliteAspectTable.js";
+export * from "./SqlitePropertyValueStore.js";
+export * from "./SqliteDao.js";
+export * from "./SqliteTextSearch.js";
+export * from "./SqliteLazyAspectMapHierarchy.js";
+export * from "./SqliteCatalog.js";
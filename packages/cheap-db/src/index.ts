@@ -0,0 +1,6 @@
+/**
+ * @cheap-ts/db - Shared SQL database support for CHEAP model backends
+ */
+
+export * from "./migration/index.js";
+export * from "./sql/index.js";
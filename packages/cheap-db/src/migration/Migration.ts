@@ -0,0 +1,77 @@
+/**
+ * Migration definitions and the connection interface used to apply them
+ */
+
+/**
+ * One versioned step in the evolution of a database schema.
+ *
+ * Migrations only move forward: each one brings a schema at the previous
+ * version up to its own version. Versions are positive integers; they need
+ * not be contiguous, but a migration list must be in increasing order.
+ */
+export interface Migration {
+  /** The schema version that applying this migration produces. */
+  readonly version: number;
+
+  /** A short, stable name describing the migration. */
+  readonly name: string;
+
+  /** The SQL statements that apply the migration, in order, without trailing semicolons. */
+  readonly up: readonly string[];
+}
+
+/**
+ * A migration recorded in a database's migration history table.
+ */
+export interface AppliedMigration {
+  /** The version of the applied migration. */
+  readonly version: number;
+
+  /** The name of the migration when it was applied. */
+  readonly name: string;
+
+  /** When the migration was applied. */
+  readonly appliedAt: Date;
+}
+
+/**
+ * The minimal database access a SchemaMigrator needs. Each SQL backend
+ * provides an implementation on top of its driver.
+ *
+ * Statement parameters are always written as "?" placeholders; connections to
+ * databases with a different placeholder syntax must translate them.
+ */
+export interface MigrationConnection {
+  /**
+   * Execute a single statement that returns no rows.
+   *
+   * @param sql the statement
+   * @param params the values of the statement's "?" placeholders
+   */
+  execute(sql: string, params?: readonly unknown[]): Promise<void>;
+
+  /**
+   * Execute a single query and return its rows as objects keyed by column name.
+   *
+   * @param sql the query
+   * @param params the values of the query's "?" placeholders
+   * @returns the rows of the result
+   */
+  query<T>(sql: string, params?: readonly unknown[]): Promise<T[]>;
+
+  /**
+   * Returns whether a table exists in the database.
+   *
+   * @param name the table name
+   */
+  tableExists(name: string): Promise<boolean>;
+
+  /**
+   * Run a function in a transaction, committing if it resolves and rolling
+   * back if it rejects.
+   *
+   * @param fn the work to do in the transaction
+   * @returns the result of fn
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+}
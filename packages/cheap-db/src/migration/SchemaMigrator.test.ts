@@ -0,0 +1,181 @@
+/**
+ * Unit tests for SchemaMigrator
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { Migration, MigrationConnection } from "./Migration.js";
+import { DEFAULT_MIGRATION_TABLE, SchemaMigrator } from "./SchemaMigrator.js";
+
+interface HistoryRow {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+/**
+ * A connection that understands just enough SQL to hold a migration history,
+ * records every other statement, and fails on statements containing "FAIL".
+ */
+class ScriptedConnection implements MigrationConnection {
+  hasTable = false;
+  history: HistoryRow[] = [];
+  executed: string[] = [];
+
+  async execute(sql: string, params: readonly unknown[] = []): Promise<void> {
+    if (sql.includes("FAIL")) {
+      throw new Error("statement failed");
+    }
+    if (sql.startsWith(`CREATE TABLE IF NOT EXISTS ${DEFAULT_MIGRATION_TABLE}`)) {
+      this.hasTable = true;
+    } else if (sql.startsWith(`INSERT INTO ${DEFAULT_MIGRATION_TABLE}`)) {
+      const [version, name, appliedAt] = params as [number, string, string];
+      this.history.push({ version, name, applied_at: appliedAt });
+    } else {
+      this.executed.push(sql);
+    }
+  }
+
+  async query<T>(_sql: string): Promise<T[]> {
+    return [...this.history].sort((a, b) => a.version - b.version) as T[];
+  }
+
+  async tableExists(name: string): Promise<boolean> {
+    return name === DEFAULT_MIGRATION_TABLE && this.hasTable;
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const history = [...this.history];
+    const executed = [...this.executed];
+    try {
+      return await fn();
+    } catch (e) {
+      this.history = history;
+      this.executed = executed;
+      throw e;
+    }
+  }
+}
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, name: "create_thing", up: ["CREATE TABLE thing (id INTEGER)"] },
+  {
+    version: 2,
+    name: "add_name",
+    up: ["ALTER TABLE thing ADD COLUMN name TEXT", "CREATE INDEX idx_name ON thing(name)"],
+  },
+  { version: 4, name: "add_other", up: ["CREATE TABLE other (id INTEGER)"] },
+];
+
+describe("SchemaMigrator", () => {
+  let connection: ScriptedConnection;
+
+  beforeEach(() => {
+    connection = new ScriptedConnection();
+  });
+
+  it("should apply all migrations in order to a new database", async () => {
+    const migrator = new SchemaMigrator(connection, MIGRATIONS);
+    expect(await migrator.currentVersion()).toBe(0);
+
+    const applied = await migrator.migrate();
+
+    expect(applied.map((m) => m.version)).toEqual([1, 2, 4]);
+    expect(connection.executed).toEqual([
+      "CREATE TABLE thing (id INTEGER)",
+      "ALTER TABLE thing ADD COLUMN name TEXT",
+      "CREATE INDEX idx_name ON thing(name)",
+      "CREATE TABLE other (id INTEGER)",
+    ]);
+    expect(await migrator.currentVersion()).toBe(4);
+    const history = await migrator.appliedMigrations();
+    expect(history.map((m) => m.name)).toEqual(["create_thing", "add_name", "add_other"]);
+    expect(history[0].appliedAt).toBeInstanceOf(Date);
+  });
+
+  it("should apply only pending migrations", async () => {
+    await new SchemaMigrator(connection, MIGRATIONS.slice(0, 1)).migrate();
+    connection.executed = [];
+
+    const migrator = new SchemaMigrator(connection, MIGRATIONS);
+    expect((await migrator.pendingMigrations()).map((m) => m.version)).toEqual([2, 4]);
+    await migrator.migrate();
+    expect(connection.executed).toHaveLength(3);
+    expect(await migrator.migrate()).toEqual([]);
+    expect(connection.executed).toHaveLength(3);
+  });
+
+  it("should roll back a failed migration and keep the earlier ones", async () => {
+    const failing: Migration[] = [
+      MIGRATIONS[0],
+      { version: 2, name: "broken", up: ["CREATE TABLE partial (id INTEGER)", "FAIL"] },
+    ];
+    const migrator = new SchemaMigrator(connection, failing);
+
+    await expect(migrator.migrate()).rejects.toThrow("statement failed");
+    expect(await migrator.currentVersion()).toBe(1);
+    expect(connection.executed).toEqual(["CREATE TABLE thing (id INTEGER)"]);
+  });
+
+  it("should refuse a database that is newer than the code", async () => {
+    await new SchemaMigrator(connection, MIGRATIONS).migrate();
+    const older = new SchemaMigrator(connection, MIGRATIONS.slice(0, 2));
+
+    await expect(older.migrate()).rejects.toThrow("Database schema version 4 is newer than the latest version 2");
+    await expect(older.pendingMigrations()).rejects.toThrow("newer");
+    await expect(older.dryRun(() => {})).rejects.toThrow("newer");
+  });
+
+  it("should refuse a history that does not match the known migrations", async () => {
+    await new SchemaMigrator(connection, MIGRATIONS).migrate();
+
+    const renamed = [MIGRATIONS[0], { ...MIGRATIONS[1], name: "renamed" }, MIGRATIONS[2]];
+    await expect(new SchemaMigrator(connection, renamed).migrate()).rejects.toThrow(
+      "applied migration 2 as 'add_name', but it is known as 'renamed'",
+    );
+
+    const withGap = [MIGRATIONS[0], { version: 3, name: "inserted", up: [] }, MIGRATIONS[2]];
+    await expect(new SchemaMigrator(connection, withGap).migrate()).rejects.toThrow(
+      "applied migration 2 (add_name), which is not known",
+    );
+  });
+
+  it("should refuse a migration inserted below the current version", async () => {
+    await new SchemaMigrator(connection, [MIGRATIONS[0], MIGRATIONS[2]]).migrate();
+
+    await expect(new SchemaMigrator(connection, MIGRATIONS).pendingMigrations()).rejects.toThrow(
+      "Migration 2 (add_name) is older than the database schema version 4 but was never applied",
+    );
+  });
+
+  it("should print pending SQL in a dry run without changing the database", async () => {
+    const printed: string[] = [];
+    const script = await new SchemaMigrator(connection, MIGRATIONS).dryRun((s) => printed.push(s));
+
+    expect(printed).toEqual([script]);
+    expect(script).toContain(`CREATE TABLE IF NOT EXISTS ${DEFAULT_MIGRATION_TABLE} (`);
+    expect(script).toContain(
+      "-- Migration 2: add_name\nALTER TABLE thing ADD COLUMN name TEXT;\nCREATE INDEX idx_name ON thing(name);\n",
+    );
+    expect(connection.hasTable).toBe(false);
+    expect(connection.executed).toEqual([]);
+
+    await new SchemaMigrator(connection, MIGRATIONS.slice(0, 2)).migrate();
+    const rest = await new SchemaMigrator(connection, MIGRATIONS).dryRun(() => {});
+    expect(rest).toBe("-- Migration 4: add_other\nCREATE TABLE other (id INTEGER);\n");
+    await new SchemaMigrator(connection, MIGRATIONS).migrate();
+    expect(await new SchemaMigrator(connection, MIGRATIONS).dryRun(() => {})).toBe(
+      "-- Schema is up to date at version 4\n",
+    );
+  });
+
+  it("should reject invalid migration lists", () => {
+    expect(() => new SchemaMigrator(connection, [MIGRATIONS[1], MIGRATIONS[0]])).toThrow("out of order");
+    expect(() => new SchemaMigrator(connection, [MIGRATIONS[0], MIGRATIONS[0]])).toThrow("out of order");
+    expect(() => new SchemaMigrator(connection, [{ version: 0, name: "zero", up: [] }])).toThrow(
+      "not a positive integer",
+    );
+    expect(() => new SchemaMigrator(connection, MIGRATIONS, { tableName: "bad name" })).toThrow(
+      "Invalid migration table name",
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * SchemaMigrator implementation
+ */
+
+import { AppliedMigration, Migration, MigrationConnection } from "./Migration.js";
+
+/**
+ * The default name of the table that records applied migrations.
+ */
+export const DEFAULT_MIGRATION_TABLE = "cheap_schema_migration";
+
+/**
+ * Options for a SchemaMigrator.
+ */
+export interface SchemaMigratorOptions {
+  /** The name of the migration history table; defaults to DEFAULT_MIGRATION_TABLE. */
+  tableName?: string;
+}
+
+/**
+ * Row shape of the migration history table.
+ */
+interface MigrationRow {
+  version: number | string;
+  name: string;
+  applied_at: string;
+}
+
+/**
+ * Brings a database schema up to date by applying an ordered list of
+ * migrations, recording each applied migration in a history table.
+ *
+ * Each pending migration runs in its own transaction together with its
+ * history row, so a failed migration leaves the database at the previous
+ * version. (Databases that commit DDL implicitly, such as MariaDB, cannot
+ * roll back a partially applied migration.)
+ *
+ * A database whose history contains versions this code does not know about
+ * is refused: it was migrated by newer code, or by a different migration list.
+ *
+ * The history table uses only portable types, so the same migrator works for
+ * every SQL backend:
+ * - version: INTEGER primary key
+ * - name: VARCHAR(255)
+ * - applied_at: VARCHAR(64), an ISO-8601 timestamp
+ */
+export class SchemaMigrator {
+  private readonly _connection: MigrationConnection;
+  private readonly _migrations: readonly Migration[];
+  private readonly _tableName: string;
+
+  /**
+   * Creates a new SchemaMigrator.
+   *
+   * @param connection the connection to the database to migrate
+   * @param migrations the migrations, in increasing version order
+   * @param options the migrator options
+   * @throws Error if the migrations are not in strictly increasing version order,
+   *   or a version is not a positive integer
+   */
+  constructor(connection: MigrationConnection, migrations: readonly Migration[], options: SchemaMigratorOptions = {}) {
+    let previous = 0;
+    for (const migration of migrations) {
+      if (!Number.isSafeInteger(migration.version) || migration.version <= 0) {
+        throw new Error(`Migration version ${migration.version} is not a positive integer.`);
+      }
+      if (migration.version <= previous) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) is out of order; versions must be strictly increasing.`,
+        );
+      }
+      previous = migration.version;
+    }
+    const tableName = options.tableName ?? DEFAULT_MIGRATION_TABLE;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid migration table name '${tableName}'.`);
+    }
+    this._connection = connection;
+    this._migrations = migrations;
+    this._tableName = tableName;
+  }
+
+  /**
+   * Returns the migrations known to this migrator, in version order.
+   */
+  migrations(): readonly Migration[] {
+    return this._migrations;
+  }
+
+  /**
+   * Returns the schema version that the known migrations produce, or 0 if there are none.
+   */
+  latestVersion(): number {
+    return this._migrations.length > 0 ? this._migrations[this._migrations.length - 1].version : 0;
+  }
+
+  /**
+   * Returns the migration history of the database, in version order.
+   * A database without a history table has an empty history.
+   */
+  async appliedMigrations(): Promise<AppliedMigration[]> {
+    if (!(await this._connection.tableExists(this._tableName))) {
+      return [];
+    }
+    const rows = await this._connection.query<MigrationRow>(
+      `SELECT version, name, applied_at FROM ${this._tableName} ORDER BY version`,
+    );
+    return rows.map((row) => ({ version: Number(row.version), name: row.name, appliedAt: new Date(row.applied_at) }));
+  }
+
+  /**
+   * Returns the schema version of the database: the highest applied migration
+   * version, or 0 if no migration has been applied.
+   */
+  async currentVersion(): Promise<number> {
+    const applied = await this.appliedMigrations();
+    return applied.length > 0 ? applied[applied.length - 1].version : 0;
+  }
+
+  /**
+   * Returns the migrations that have not been applied to the database, in the
+   * order they would be applied.
+   *
+   * @throws Error if the database is incompatible with the known migrations
+   */
+  async pendingMigrations(): Promise<Migration[]> {
+    return this.checkHistory(await this.appliedMigrations());
+  }
+
+  /**
+   * Apply all pending migrations, each in its own transaction.
+   *
+   * @returns the migrations that were applied
+   * @throws Error if the database is incompatible with the known migrations,
+   *   or a migration fails; migrations before the failed one stay applied
+   */
+  async migrate(): Promise<Migration[]> {
+    await this._connection.execute(this.createTableSql());
+    const pending = this.checkHistory(await this.appliedMigrations());
+    for (const migration of pending) {
+      await this._connection.transaction(async () => {
+        for (const statement of migration.up) {
+          await this._connection.execute(statement);
+        }
+        await this._connection.execute(`INSERT INTO ${this._tableName} (version, name, applied_at) VALUES (?, ?, ?)`, [
+          migration.version,
+          migration.name,
+          new Date().toISOString(),
+        ]);
+      });
+    }
+    return pending;
+  }
+
+  /**
+   * Build the SQL script that migrate() would run, without changing the
+   * database, and print it.
+   *
+   * @param print receives the script; defaults to writing it to standard output
+   * @returns the script
+   * @throws Error if the database is incompatible with the known migrations
+   */
+  async dryRun(print: (script: string) => void = (script) => process.stdout.write(script)): Promise<string> {
+    const tableExists = await this._connection.tableExists(this._tableName);
+    const pending = this.checkHistory(tableExists ? await this.appliedMigrations() : []);
+    const lines: string[] = [];
+    if (!tableExists) {
+      lines.push("-- Migration history table", `${this.createTableSql()};`, "");
+    }
+    for (const migration of pending) {
+      lines.push(`-- Migration ${migration.version}: ${migration.name}`);
+      for (const statement of migration.up) {
+        lines.push(`${statement.trim()};`);
+      }
+      lines.push("");
+    }
+    if (pending.length === 0) {
+      lines.push(`-- Schema is up to date at version ${this.latestVersion()}`);
+    }
+    const script = `${lines.join("\n").trimEnd()}\n`;
+    print(script);
+    return script;
+  }
+
+  /**
+   * Checks a migration history against the known migrations and returns the
+   * migrations still to apply.
+   */
+  private checkHistory(applied: readonly AppliedMigration[]): Migration[] {
+    const known = new Map(this._migrations.map((migration) => [migration.version, migration]));
+    const latest = this.latestVersion();
+    for (const entry of applied) {
+      if (entry.version > latest) {
+        throw new Error(
+          `Database schema version ${entry.version} is newer than the latest version ${latest} known to this code.`,
+        );
+      }
+      const migration = known.get(entry.version);
+      if (!migration) {
+        throw new Error(`Database has applied migration ${entry.version} (${entry.name}), which is not known.`);
+      }
+      if (migration.name !== entry.name) {
+        throw new Error(
+          `Database has applied migration ${entry.version} as '${entry.name}', but it is known as '${migration.name}'.`,
+        );
+      }
+    }
+
+    const appliedVersions = new Set(applied.map((entry) => entry.version));
+    const current = applied.length > 0 ? applied[applied.length - 1].version : 0;
+    const pending = this._migrations.filter((migration) => !appliedVersions.has(migration.version));
+    const skipped = pending.find((migration) => migration.version < current);
+    if (skipped) {
+      throw new Error(
+        `Migration ${skipped.version} (${skipped.name}) is older than the database schema version ${current} but was never applied.`,
+      );
+    }
+    return pending;
+  }
+
+  private createTableSql(): string {
+    return (
+      `CREATE TABLE IF NOT EXISTS ${this._tableName} (` +
+      "version INTEGER PRIMARY KEY, name VARCHAR(255) NOT NULL, applied_at VARCHAR(64) NOT NULL)"
+    );
+  }
+}
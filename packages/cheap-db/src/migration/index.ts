@@ -0,0 +1,6 @@
+/**
+ * Versioned schema migrations for the SQL backends
+ */
+
+export * from "./Migration.js";
+export * from "./SchemaMigrator.js";
@@ -0,0 +1,62 @@
+/**
+ * SqlAspectStore interface
+ */
+
+import { Aspect, AspectDef } from "@cheap-ts/core";
+
+/**
+ * Where the aspects of one AspectDef are stored in a SQL database, keyed by
+ * catalog and entity: a table of its own (see SqlAspectTable), or the generic
+ * aspect and property_value tables (see SqlPropertyValueStore).
+ *
+ * Every AspectDef has one store per database, shared by every catalog in it.
+ * Writes must run in a transaction along with the hierarchy_aspect_map rows
+ * that list the aspects.
+ */
+export interface SqlAspectStore {
+  /**
+   * Returns the AspectDef whose aspects are stored.
+   */
+  aspectDef(): AspectDef;
+
+  /**
+   * Stores an aspect that is not stored yet.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   */
+  insert(catalogId: string, aspect: Aspect): Promise<void>;
+
+  /**
+   * Rewrites some of the properties of a stored aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   * @param propNames the names of the properties to rewrite
+   */
+  update(catalogId: string, aspect: Aspect, propNames: Iterable<string>): Promise<void>;
+
+  /**
+   * Deletes the stored aspect of an entity, if there is one.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param entityId the global ID of the entity
+   */
+  delete(catalogId: string, entityId: string): Promise<void>;
+
+  /**
+   * Deletes every aspect stored for a catalog.
+   *
+   * @param catalogId the global ID of the catalog
+   */
+  deleteAll(catalogId: string): Promise<void>;
+
+  /**
+   * Writes the stored property values of each aspect into it. Aspects that
+   * are not stored are left unchanged.
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify them
+   */
+  readInto(catalogId: string, aspects: Aspect[]): Promise<void>;
+}
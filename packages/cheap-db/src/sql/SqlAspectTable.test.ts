@@ -0,0 +1,82 @@
+/**
+ * Unit tests for SqlAspectTable
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { FullAspectDefImpl, PropertyDef, PropertyDefBuilder, PropertyType } from "@cheap-ts/core";
+import { SqlAspectTable } from "./SqlAspectTable.js";
+import { SqlConnection, SqlDialect, SqlValueCodec } from "./SqlDialect.js";
+
+/**
+ * A dialect with bracketed identifiers, short names and type codes for column
+ * types, so that generated SQL is easy to recognize.
+ */
+const DIALECT: SqlDialect = {
+  name: "Test",
+  maxIdentifierLength: 16,
+  transactionalDdl: true,
+  idColumnType: "ID",
+  quoteIdentifier: (identifier) => `[${identifier}]`,
+  placeholders: (sql) => sql,
+  upsert: (table) => `UPSERT ${table}`,
+  columnType: (propDef: PropertyDef) => propDef.type().typeCode(),
+};
+
+const CODEC: SqlValueCodec = {
+  toNative: (_propDef, value) => value,
+  fromNative: (_propDef, value) => value,
+  toText: (_type, value) => String(value),
+  fromText: (_type, text) => text,
+  coerce: (_propDef, value) => value,
+  defaultToText: () => null,
+  defaultFromText: () => null,
+};
+
+/** A connection that must not be used. */
+const CONNECTION = {} as SqlConnection;
+
+function aspectDef(name: string, ...propNames: string[]): FullAspectDefImpl {
+  const propDefs = new Map(
+    propNames.map((p) => [p, new PropertyDefBuilder().setName(p).setType(PropertyType.Integer).build()]),
+  );
+  return new FullAspectDefImpl(name, crypto.randomUUID(), propDefs, true, true, false, false);
+}
+
+describe("SqlAspectTable", () => {
+  it("should generate DDL with the dialect's quoting and types", () => {
+    const table = new SqlAspectTable(CONNECTION, DIALECT, CODEC, aspectDef("thing", "size"), "aspect_thing");
+
+    expect(table.ddl()).toBe(
+      [
+        "CREATE TABLE IF NOT EXISTS [aspect_thing] (",
+        "    catalog_id ID NOT NULL,",
+        "    entity_id ID NOT NULL,",
+        "    [size] INT,",
+        "    PRIMARY KEY (catalog_id, entity_id),",
+        "    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE",
+        ")",
+      ].join("\n"),
+    );
+  });
+
+  it("should cut default table names to the dialect's identifier length", () => {
+    expect(SqlAspectTable.defaultTableName(aspectDef("my.long-name"), DIALECT)).toBe("aspect_my_long_n");
+  });
+
+  it("should reject names the dialect cannot hold", () => {
+    const def = aspectDef("thing");
+
+    expect(() => new SqlAspectTable(CONNECTION, DIALECT, CODEC, def, "a_very_long_table_name")).toThrow(
+      "Table name 'a_very_long_table_name' is longer than 16 characters.",
+    );
+    expect(() => new SqlAspectTable(CONNECTION, DIALECT, CODEC, aspectDef("thing", "a_very_long_names"), "t")).toThrow(
+      "is too long for a column name",
+    );
+  });
+
+  it("should reject properties named like key columns", () => {
+    expect(() => new SqlAspectTable(CONNECTION, DIALECT, CODEC, aspectDef("clash", "catalog_id"), "t")).toThrow(
+      "conflicts with a key column",
+    );
+  });
+});
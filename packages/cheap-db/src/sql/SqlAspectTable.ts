@@ -0,0 +1,326 @@
+/**
+ * SqlAspectTable implementation
+ */
+
+import { Aspect, AspectDef, PropertyDef } from "@cheap-ts/core";
+import { SqlAspectStore } from "./SqlAspectStore.js";
+import { SqlConnection, SqlDialect, SqlValueCodec } from "./SqlDialect.js";
+
+/** The columns that identify an aspect in its aspect table. */
+const KEY_COLUMNS = ["catalog_id", "entity_id"];
+
+/** The most entity IDs listed in the IN clause of one read statement. */
+const READ_BATCH_SIZE = 500;
+
+/**
+ * The table that stores the aspects of one AspectDef, so that they can be
+ * queried with plain SQL.
+ *
+ * The table has a catalog_id and entity_id column, which together identify an
+ * aspect, and one column per property, named after it, of the dialect's type
+ * for its PropertyType (see SqlDialect.columnType()). Multivalued properties
+ * have a column of their own too, which keeps null and empty collections
+ * apart.
+ *
+ * A null column is loaded as a property without a value, so a property that
+ * holds null reads back its default, if it has one.
+ *
+ * Rows are deleted along with their catalog. Adding columns for new
+ * properties relies on ALTER TABLE ... ADD COLUMN IF NOT EXISTS.
+ *
+ * Backends can store aspects in another form, keyed the same way, by
+ * overriding ddl(), extend(), register(), insert(), update() and readInto().
+ */
+export class SqlAspectTable implements SqlAspectStore {
+  protected readonly _connection: SqlConnection;
+  protected readonly _dialect: SqlDialect;
+  private readonly _codec: SqlValueCodec;
+  protected readonly _aspectDef: AspectDef;
+  protected readonly _tableName: string;
+
+  /**
+   * Creates a new SqlAspectTable. This does not create the table; see create().
+   *
+   * @param connection the connection to the database
+   * @param dialect the dialect of the database
+   * @param codec the codec that converts property values to column values
+   * @param aspectDef the AspectDef whose aspects the table stores
+   * @param tableName the name of the table
+   * @throws Error if the table name or a property name is too long for the
+   *   database, or a property name conflicts with a key column
+   */
+  constructor(
+    connection: SqlConnection,
+    dialect: SqlDialect,
+    codec: SqlValueCodec,
+    aspectDef: AspectDef,
+    tableName: string,
+  ) {
+    if (tableName.length > dialect.maxIdentifierLength) {
+      throw new Error(`Table name '${tableName}' is longer than ${dialect.maxIdentifierLength} characters.`);
+    }
+    for (const propDef of aspectDef.propertyDefs()) {
+      if (KEY_COLUMNS.includes(propDef.name())) {
+        throw new Error(
+          `Property '${propDef.name()}' of AspectDef '${aspectDef.name()}' conflicts with a key column of its aspect table.`,
+        );
+      }
+      if (propDef.name().length > dialect.maxIdentifierLength) {
+        throw new Error(
+          `Property '${propDef.name()}' of AspectDef '${aspectDef.name()}' is too long for a column name.`,
+        );
+      }
+    }
+    this._connection = connection;
+    this._dialect = dialect;
+    this._codec = codec;
+    this._aspectDef = aspectDef;
+    this._tableName = tableName;
+  }
+
+  /**
+   * Returns the default table name for an AspectDef: "aspect_" followed by its
+   * name, with every character other than a letter, digit or underscore
+   * replaced by an underscore, cut to the length the dialect allows.
+   *
+   * @param aspectDef the AspectDef
+   * @param dialect the dialect of the database
+   */
+  static defaultTableName(aspectDef: AspectDef, dialect: SqlDialect): string {
+    return `aspect_${aspectDef.name().replace(/[^A-Za-z0-9_]/g, "_")}`.slice(0, dialect.maxIdentifierLength);
+  }
+
+  /**
+   * Deletes a catalog's aspects from every registered aspect table, except
+   * those of some AspectDefs.
+   *
+   * @param connection the connection to the database
+   * @param dialect the dialect of the database
+   * @param catalogId the global ID of the catalog
+   * @param keptAspectDefIds the global IDs of the AspectDefs whose aspects are kept
+   */
+  static async deleteCatalogRows(
+    connection: SqlConnection,
+    dialect: SqlDialect,
+    catalogId: string,
+    keptAspectDefIds: string[] = [],
+  ): Promise<void> {
+    const rows = await connection.query<{ table_name: string }>(
+      keptAspectDefIds.length === 0 ?
+        "SELECT table_name FROM aspect_table"
+      : `SELECT table_name FROM aspect_table WHERE aspect_def_id NOT IN (${keptAspectDefIds.map(() => "?").join(", ")})`,
+      keptAspectDefIds,
+    );
+    for (const row of rows) {
+      await connection.execute(`DELETE FROM ${dialect.quoteIdentifier(row.table_name)} WHERE catalog_id = ?`, [
+        catalogId,
+      ]);
+    }
+  }
+
+  /**
+   * Returns the AspectDef whose aspects this table stores.
+   */
+  aspectDef(): AspectDef {
+    return this._aspectDef;
+  }
+
+  /**
+   * Returns the name of the aspect table.
+   */
+  tableName(): string {
+    return this._tableName;
+  }
+
+  /**
+   * Returns the statement that creates the aspect table.
+   */
+  ddl(): string {
+    const idType = this._dialect.idColumnType;
+    const columns = this._aspectDef.propertyDefs().map((propDef) => `    ${this.columnDdl(propDef)},`);
+    return [
+      `CREATE TABLE IF NOT EXISTS ${this.quotedName()} (`,
+      `    catalog_id ${idType} NOT NULL,`,
+      `    entity_id ${idType} NOT NULL,`,
+      ...columns,
+      "    PRIMARY KEY (catalog_id, entity_id),",
+      "    FOREIGN KEY (catalog_id) REFERENCES catalog(catalog_id) ON DELETE CASCADE",
+      ")",
+    ].join("\n");
+  }
+
+  /**
+   * Creates the aspect table if it does not exist, and records it in the
+   * aspect_table registry. Adds columns for properties added to the AspectDef
+   * since the table was created; columns of removed properties are kept. The
+   * AspectDef must already be stored.
+   *
+   * If the dialect does not have transactional DDL, this must not run in a
+   * transaction, since the DDL statements would commit it.
+   *
+   * @throws Error if the table exists but is not registered for this AspectDef
+   */
+  async create(): Promise<void> {
+    const aspectDefId = this._aspectDef.globalId();
+    const owner = await this._connection.query<{ aspect_def_id: string }>(
+      "SELECT aspect_def_id FROM aspect_table WHERE table_name = ?",
+      [this._tableName],
+    );
+    const ownerId = owner[0]?.aspect_def_id;
+    if (ownerId !== undefined && ownerId !== aspectDefId) {
+      throw new Error(
+        `Table '${this._tableName}' already stores the aspects of AspectDef ${ownerId}; ` +
+          `AspectDef '${this._aspectDef.name()}' (${aspectDefId}) needs a table with another name.`,
+      );
+    }
+    if (ownerId === undefined && (await this._connection.tableExists(this._tableName))) {
+      throw new Error(`Table '${this._tableName}' already exists and is not an aspect table.`);
+    }
+
+    await this._connection.execute(this.ddl());
+    await this.extend();
+    if (ownerId === undefined) {
+      await this.register();
+    }
+  }
+
+  /**
+   * Drops the aspect table and removes it from the aspect_table registry.
+   */
+  async drop(): Promise<void> {
+    await this._connection.execute(`DROP TABLE IF EXISTS ${this.quotedName()}`);
+    await this._connection.execute("DELETE FROM aspect_table WHERE table_name = ?", [this._tableName]);
+  }
+
+  /**
+   * Inserts the row of an aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   */
+  async insert(catalogId: string, aspect: Aspect): Promise<void> {
+    const propDefs = this._aspectDef.propertyDefs();
+    const columns = [...KEY_COLUMNS, ...propDefs.map((p) => this._dialect.quoteIdentifier(p.name()))];
+    await this._connection.execute(
+      `INSERT INTO ${this.quotedName()} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+      [catalogId, aspect.entity().globalId(), ...propDefs.map((propDef) => this.columnValue(aspect, propDef))],
+    );
+  }
+
+  /**
+   * Rewrites the columns of some properties of a stored aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   * @param propNames the names of the properties to rewrite; names not in the AspectDef are ignored
+   */
+  async update(catalogId: string, aspect: Aspect, propNames: Iterable<string>): Promise<void> {
+    for (const propName of propNames) {
+      const propDef = this._aspectDef.propertyDef(propName);
+      if (!propDef) {
+        continue;
+      }
+      await this._connection.execute(
+        `UPDATE ${this.quotedName()} SET ${this._dialect.quoteIdentifier(propName)} = ?
+         WHERE catalog_id = ? AND entity_id = ?`,
+        [this.columnValue(aspect, propDef), catalogId, aspect.entity().globalId()],
+      );
+    }
+  }
+
+  /**
+   * Deletes the stored aspect of one entity.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param entityId the global ID of the entity
+   */
+  async delete(catalogId: string, entityId: string): Promise<void> {
+    await this._connection.execute(`DELETE FROM ${this.quotedName()} WHERE catalog_id = ? AND entity_id = ?`, [
+      catalogId,
+      entityId,
+    ]);
+  }
+
+  /**
+   * Deletes every aspect stored for a catalog.
+   *
+   * @param catalogId the global ID of the catalog
+   */
+  async deleteAll(catalogId: string): Promise<void> {
+    await this._connection.execute(`DELETE FROM ${this.quotedName()} WHERE catalog_id = ?`, [catalogId]);
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it. Aspects that
+   * are not stored are left unchanged.
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their rows
+   */
+  async readInto(catalogId: string, aspects: Aspect[]): Promise<void> {
+    const rows: Record<string, unknown>[] = [];
+    for (let start = 0; start < aspects.length; start += READ_BATCH_SIZE) {
+      const entityIds = aspects.slice(start, start + READ_BATCH_SIZE).map((aspect) => aspect.entity().globalId());
+      rows.push(
+        ...(await this._connection.query<Record<string, unknown>>(
+          `SELECT * FROM ${this.quotedName()}
+           WHERE catalog_id = ? AND entity_id IN (${entityIds.map(() => "?").join(", ")})`,
+          [catalogId, ...entityIds],
+        )),
+      );
+    }
+    const rowsByEntity = new Map(rows.map((row) => [row.entity_id as string, row]));
+
+    for (const aspect of aspects) {
+      const row = rowsByEntity.get(aspect.entity().globalId());
+      if (!row) {
+        continue;
+      }
+      for (const propDef of this._aspectDef.propertyDefs()) {
+        const stored = row[propDef.name()];
+        if (stored === null || stored === undefined) {
+          continue;
+        }
+        aspect.unsafeWrite(propDef.name(), this._codec.fromNative(propDef, stored));
+      }
+    }
+  }
+
+  /**
+   * Brings an existing table up to date with the AspectDef, once create() has
+   * run its DDL: adds columns for properties added since the table was
+   * created.
+   */
+  protected async extend(): Promise<void> {
+    for (const propDef of this._aspectDef.propertyDefs()) {
+      await this._connection.execute(
+        `ALTER TABLE ${this.quotedName()} ADD COLUMN IF NOT EXISTS ${this.columnDdl(propDef)}`,
+      );
+    }
+  }
+
+  /**
+   * Records the table in the aspect_table registry.
+   */
+  protected async register(): Promise<void> {
+    await this._connection.execute("INSERT INTO aspect_table (table_name, aspect_def_id) VALUES (?, ?)", [
+      this._tableName,
+      this._aspectDef.globalId(),
+    ]);
+  }
+
+  protected quotedName(): string {
+    return this._dialect.quoteIdentifier(this._tableName);
+  }
+
+  private columnDdl(propDef: PropertyDef): string {
+    return `${this._dialect.quoteIdentifier(propDef.name())} ${this._dialect.columnType(propDef)}`;
+  }
+
+  private columnValue(aspect: Aspect, propDef: PropertyDef): unknown {
+    if (!aspect.contains(propDef.name())) {
+      return null;
+    }
+    return this._codec.toNative(propDef, aspect.unsafeReadObj(propDef.name()));
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * SqlCatalogBase implementation
+ */
+
+import { randomUUID } from "crypto";
+import { AspectDef, CatalogImpl, CatalogSpecies, CheapFactory } from "@cheap-ts/core";
+import { CatalogHeader, SqlDao, SqlLoadOptions } from "./SqlDao.js";
+
+/**
+ * Options for connecting a SqlCatalogBase to a database.
+ */
+export interface SqlConnectOptions {
+  /**
+   * Whether to store the aspects of AspectDefs new to the database in a table
+   * per AspectDef (see SqlDao.createAspectTable()), rather than in the generic
+   * aspect and property_value tables; the default depends on the backend.
+   * AspectDefs already stored keep their storage either way.
+   */
+  aspectTables?: boolean;
+}
+
+/** Numbers the savepoints of catalog transactions, so that their names are unique. */
+let nextSavepoint = 0;
+
+/**
+ * Base class of catalogs stored in a SQL database, the equivalent of the Java
+ * JdbcCatalogBase.
+ *
+ * A SQL catalog is an in-memory CatalogImpl that can be saved to and loaded
+ * from a database, identified by its global ID. Connecting creates the CHEAP
+ * schema if the database does not have it yet, and applies any pending schema
+ * migrations.
+ *
+ * A SQL catalog tracks its changes. Once it has been loaded or saved, later
+ * saves write only what changed since then; see SqlDao.saveChanges(). Changes
+ * that must be stored together, or not at all, can be made in a transaction().
+ * Loading with the lazy option leaves aspects in the database until they are
+ * asked for; see SqlLazyAspectMapHierarchy.
+ *
+ * A database holds any number of catalogs, registered by global ID in its
+ * catalog table. Backends provide static methods to list, create, open and
+ * delete them, on top of listStored(), createStored(), openStored() and
+ * deleteStored().
+ *
+ * The persistence logic is shared by every backend, in SqlDao; a backend
+ * provides its database handle type D, how to open, close and migrate a
+ * database, and a SqlDao with its SqlDialect.
+ *
+ * Database catalogs use the SOURCE species for read-only access
+ * or SINK species for read-write access to external data sources.
+ */
+export abstract class SqlCatalogBase<D> extends CatalogImpl {
+  private readonly _factory: CheapFactory;
+  private _database: D | null = null;
+  private _dao: SqlDao | null = null;
+  private _ownsDatabase = false;
+  private _aspectTables = false;
+
+  /** Whether the stored catalog matches this one as of the last load or save. */
+  private _synced = false;
+
+  /** The options of the last load, used again to restore this catalog when a transaction rolls back. */
+  private _loadOptions: SqlLoadOptions = {};
+
+  /** The number of transactions in progress, counting nested ones. */
+  private _transactionDepth = 0;
+
+  /**
+   * Creates a new catalog with the given metadata.
+   *
+   * @param globalId the global ID of the catalog; defaults to a random UUID
+   * @param species the species of the catalog; defaults to SINK
+   * @param upstream the upstream catalog to mirror, or null for root catalogs
+   * @param version the version number of the catalog
+   */
+  protected constructor(globalId?: string, species?: CatalogSpecies, upstream?: string | null, version?: number) {
+    super(globalId ?? randomUUID(), species ?? CatalogSpecies.SINK, upstream ?? null, version ?? 0);
+    this._factory = new CheapFactory();
+    this.trackChanges();
+  }
+
+  /**
+   * Opens a stored catalog: connects to the database, creates a catalog with
+   * the stored metadata and loads its contents. Backends call this from a
+   * static open() method.
+   *
+   * @param database a location to open, or an open database handle
+   * @param globalId the global ID of the catalog
+   * @param create creates a disconnected catalog with the given metadata
+   * @param options whether and how to load aspects lazily, and how to store new AspectDefs
+   * @returns the loaded catalog, still connected to the database
+   * @throws Error if the catalog is not stored in the database
+   */
+  protected static async openStored<D, C extends SqlCatalogBase<D>>(
+    database: string | D,
+    globalId: string,
+    create: (header: CatalogHeader) => C,
+    options: SqlConnectOptions & SqlLoadOptions = {},
+  ): Promise<C> {
+    // The metadata is only known once connected, so a catalog with default metadata reads it
+    const reader = create({ globalId, species: CatalogSpecies.SINK, uri: null, upstream: null, version: 0 });
+    await reader.connect(database, options);
+    let header: CatalogHeader | null;
+    try {
+      header = await reader.dao().loadCatalogHeader(globalId);
+      if (!header) {
+        throw new Error(`Catalog ${globalId} is not stored in the database.`);
+      }
+    } catch (e) {
+      await reader.close();
+      throw e;
+    }
+    const catalog = create(header);
+    catalog._database = reader._database;
+    catalog._dao = reader._dao;
+    catalog._ownsDatabase = reader._ownsDatabase;
+    catalog._aspectTables = reader._aspectTables;
+    await catalog.load(options);
+    return catalog;
+  }
+
+  /**
+   * Creates a catalog in a database and registers it there, so that it can
+   * be listed and opened. Backends call this from a static create() method.
+   *
+   * @param database a location to open, or an open database handle
+   * @param catalog the disconnected catalog to store
+   * @param options how to store AspectDefs new to the database
+   * @returns the catalog, connected to the database
+   * @throws Error if a catalog with the same global ID is already stored
+   */
+  protected static async createStored<D, C extends SqlCatalogBase<D>>(
+    database: string | D,
+    catalog: C,
+    options: SqlConnectOptions = {},
+  ): Promise<C> {
+    await catalog.connect(database, options);
+    try {
+      if (await catalog.dao().catalogExists(catalog.globalId())) {
+        throw new Error(`Catalog ${catalog.globalId()} is already stored in the database.`);
+      }
+      await catalog.save();
+    } catch (e) {
+      await catalog.close();
+      throw e;
+    }
+    return catalog;
+  }
+
+  /**
+   * Returns the metadata of every catalog stored in a database, ordered by
+   * global ID. Backends call this from a static list() method.
+   *
+   * @param database a location to open, or an open database handle
+   * @param create creates a disconnected catalog, used to connect
+   */
+  protected static async listStored<D>(
+    database: string | D,
+    create: () => SqlCatalogBase<D>,
+  ): Promise<CatalogHeader[]> {
+    return SqlCatalogBase.withDao(database, create, (dao) => dao.listCatalogs());
+  }
+
+  /**
+   * Deletes a stored catalog and all of its contents; its AspectDefs are kept
+   * for the other catalogs. Backends call this from a static delete() method.
+   *
+   * @param database a location to open, or an open database handle
+   * @param globalId the global ID of the catalog
+   * @param create creates a disconnected catalog, used to connect
+   * @returns whether the catalog was stored
+   */
+  protected static async deleteStored<D>(
+    database: string | D,
+    globalId: string,
+    create: () => SqlCatalogBase<D>,
+  ): Promise<boolean> {
+    return SqlCatalogBase.withDao(database, create, (dao) => dao.deleteCatalog(globalId));
+  }
+
+  /**
+   * Connect to a database, creating or migrating the CHEAP schema as needed.
+   *
+   * @param database a location to open, or an open database handle; a handle
+   *   passed in is not closed by close()
+   * @param options how to store AspectDefs new to the database
+   * @throws Error if this catalog is already connected, or the database
+   *   schema is newer than this code
+   */
+  async connect(database: string | D, options: SqlConnectOptions = {}): Promise<void> {
+    if (this._dao) {
+      throw new Error(`${this.constructor.name} is already connected.`);
+    }
+    const db = typeof database === "string" ? this.openDatabase(database) : database;
+    try {
+      await this.migrateSchema(db);
+    } catch (e) {
+      if (db !== database) {
+        await this.closeDatabase(db);
+      }
+      throw e;
+    }
+    this._database = db;
+    this._dao = this.createDao(db);
+    this._ownsDatabase = db !== database;
+    this._aspectTables = options.aspectTables ?? this.aspectTablesByDefault();
+  }
+
+  /**
+   * Returns whether this catalog is connected to a database.
+   */
+  isConnected(): boolean {
+    return this._dao !== null;
+  }
+
+  /**
+   * Returns the database handle this catalog is connected to.
+   *
+   * @throws Error if this catalog is not connected
+   */
+  database(): D {
+    this.dao();
+    return this._database!;
+  }
+
+  /**
+   * Close the database connection, if this catalog opened it.
+   *
+   * @throws Error if a transaction is in progress
+   */
+  async close(): Promise<void> {
+    if (this._transactionDepth > 0) {
+      throw new Error(`Cannot close a ${this.constructor.name} while a transaction is in progress.`);
+    }
+    const db = this._database;
+    if (db !== null && this._ownsDatabase) {
+      await this.closeDatabase(db);
+    }
+    this._database = null;
+    this._dao = null;
+    this._ownsDatabase = false;
+    this._aspectTables = false;
+    this._synced = false;
+    this._loadOptions = {};
+  }
+
+  /**
+   * Load the hierarchies, aspects and URI stored for this catalog's global ID.
+   * The catalog must not have any hierarchies yet.
+   *
+   * With the lazy option, aspects stay in the database until they are loaded
+   * through their SqlLazyAspectMapHierarchy; the catalog must stay connected
+   * while its aspects are used.
+   *
+   * @param options whether and how to load aspects lazily
+   * @throws Error if this catalog is not connected, already has hierarchies, or is not stored
+   */
+  async load(options: SqlLoadOptions = {}): Promise<void> {
+    const dao = this.dao();
+    if (Array.from(this.hierarchies()).length > 0) {
+      throw new Error(`Cannot load into a ${this.constructor.name} that already has hierarchies.`);
+    }
+    await dao.loadCatalogContents(this, this._factory, options);
+    this.trackChanges().clear();
+    this._loadOptions = options;
+    this._synced = true;
+  }
+
+  /**
+   * Save this catalog to the database.
+   *
+   * If this catalog was loaded from or saved to the database since it
+   * connected, only the changes made since then are written. Otherwise
+   * whatever was stored for its global ID is replaced.
+   *
+   * If this catalog connected with the aspectTables option, AspectDefs not yet
+   * stored in the database get a table of their own first, except in a
+   * transaction if the dialect does not have transactional DDL: those are
+   * stored in the generic tables. With transactional DDL everything is
+   * written in a single transaction; see SqlDao.saveCatalog() for how the
+   * save is split otherwise.
+   *
+   * @throws Error if this catalog is not connected
+   */
+  async save(): Promise<void> {
+    const dao = this.dao();
+    if (dao.dialect().transactionalDdl) {
+      await dao.transaction(() => this.write(dao));
+    } else {
+      await this.write(dao);
+    }
+    this._synced = true;
+  }
+
+  /**
+   * Runs a function that changes this catalog, and stores its changes
+   * atomically: they are saved and committed when the function resolves, and
+   * if it rejects, or the save fails, both the database and this catalog are
+   * rolled back to what was stored when the transaction began.
+   *
+   * Changes made before the transaction are saved when it begins, outside
+   * it, so that rolling it back leaves them stored; if that save fails, fn is
+   * not run and the changes stay unsaved. Rolling back reloads this catalog's
+   * hierarchies; hierarchies and aspects obtained before the rollback must not
+   * be used afterwards.
+   *
+   * Everything written to the database connection while the function runs,
+   * including by other catalogs sharing the DAO's connection, is part of the
+   * transaction. Transactions may be nested; a nested transaction maps to a
+   * savepoint, and the changes of the enclosing transaction are saved before
+   * it, so that rolling it back leaves them in place.
+   *
+   * @param fn the function making the changes; it receives this catalog
+   * @returns the result of fn
+   * @throws Error if this catalog is not connected, or whatever fn or the save threw
+   */
+  async transaction<T>(fn: (tx: this) => Promise<T>): Promise<T> {
+    const connection = this.dao().connection();
+    const run = async () => {
+      const result = await fn(this);
+      await this.save();
+      return result;
+    };
+    // Earlier changes are not part of this transaction, and must survive its rollback
+    await this.save();
+    this._transactionDepth++;
+    try {
+      if (!connection.inTransaction()) {
+        return await connection.transaction(run);
+      }
+      const savepoint = `cheap_catalog_tx_${++nextSavepoint}`;
+      await connection.execute(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await run();
+        await connection.execute(`RELEASE SAVEPOINT ${savepoint}`);
+        return result;
+      } catch (e) {
+        await connection.execute(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+        await connection.execute(`RELEASE SAVEPOINT ${savepoint}`);
+        throw e;
+      }
+    } catch (e) {
+      await this.restore();
+      throw e;
+    } finally {
+      this._transactionDepth--;
+    }
+  }
+
+  /**
+   * Returns whether a transaction is in progress.
+   */
+  inTransaction(): boolean {
+    return this._transactionDepth > 0;
+  }
+
+  /**
+   * Returns the DAO of the connected database.
+   *
+   * @throws Error if this catalog is not connected
+   */
+  protected dao(): SqlDao {
+    if (!this._dao) {
+      throw new Error(`${this.constructor.name} is not connected.`);
+    }
+    return this._dao;
+  }
+
+  /**
+   * Returns the factory that resolves the entities and AspectDefs this
+   * catalog loads.
+   */
+  protected factory(): CheapFactory {
+    return this._factory;
+  }
+
+  /**
+   * Returns whether AspectDefs new to the database get a table of their own
+   * when the aspectTables option is not given.
+   */
+  protected aspectTablesByDefault(): boolean {
+    return true;
+  }
+
+  /**
+   * Gives an AspectDef not yet stored in the database a table of its own.
+   * Backends override this to choose how the table stores its aspects.
+   *
+   * @param aspectDef the AspectDef
+   */
+  protected async createAspectTable(aspectDef: AspectDef): Promise<void> {
+    await this.dao().createAspectTable(aspectDef);
+  }
+
+  /**
+   * Gives an AspectDef not yet stored a table of its own, if this catalog
+   * connected with the aspectTables option and the table can be created.
+   * Backends call this before storing an AspectDef outside of a save.
+   *
+   * @param aspectDef the AspectDef
+   */
+  protected async prepareAspectTable(aspectDef: AspectDef): Promise<void> {
+    const dao = this.dao();
+    if (!this._aspectTables || (!dao.dialect().transactionalDdl && dao.connection().inTransaction())) {
+      return;
+    }
+    if (!(await dao.aspectDefExists(aspectDef.globalId()))) {
+      await this.createAspectTable(aspectDef);
+    }
+  }
+
+  /**
+   * Writes this catalog, or its changes if the stored catalog matches it as
+   * of the last load or save.
+   */
+  private async write(dao: SqlDao): Promise<void> {
+    const tracker = this.trackChanges();
+    await this.prepareAspectTables();
+    if (this._synced && (await dao.catalogExists(this.globalId()))) {
+      await dao.saveChanges(this, tracker);
+    } else {
+      await dao.saveCatalog(this);
+      tracker.clear();
+    }
+  }
+
+  /**
+   * Gives the AspectDefs of this catalog not yet stored a table of their own;
+   * see prepareAspectTable().
+   */
+  private async prepareAspectTables(): Promise<void> {
+    for (const aspectDef of this.aspectDefs()) {
+      await this.prepareAspectTable(aspectDef);
+    }
+  }
+
+  /**
+   * Replaces the contents of this catalog with the stored ones, discarding
+   * its unsaved changes.
+   */
+  private async restore(): Promise<void> {
+    this.resetContents();
+    await this.dao().loadCatalogContents(this, this._factory, this._loadOptions);
+    this.trackChanges().clear();
+    this._synced = true;
+  }
+
+  /**
+   * Runs a function with the DAO of a catalog connected to a database, and
+   * disconnects it afterwards.
+   */
+  private static async withDao<D, T>(
+    database: string | D,
+    create: () => SqlCatalogBase<D>,
+    fn: (dao: SqlDao) => Promise<T>,
+  ): Promise<T> {
+    const catalog = create();
+    await catalog.connect(database);
+    try {
+      return await fn(catalog.dao());
+    } finally {
+      await catalog.close();
+    }
+  }
+
+  /**
+   * Opens a database handle from a location, such as a connection string.
+   *
+   * @param location the location of the database
+   */
+  protected abstract openDatabase(location: string): D;
+
+  /**
+   * Closes a database handle this catalog opened.
+   *
+   * @param db the database handle
+   */
+  protected abstract closeDatabase(db: D): Promise<void>;
+
+  /**
+   * Creates the CHEAP schema, or applies its pending migrations.
+   *
+   * @param db the database handle
+   * @throws Error if the database schema is newer than this code
+   */
+  protected abstract migrateSchema(db: D): Promise<void>;
+
+  /**
+   * Creates the DAO that reads and writes this catalog.
+   *
+   * @param db the database handle
+   */
+  protected abstract createDao(db: D): SqlDao;
+}
@@ -0,0 +1,1456 @@
+/**
+ * SqlDao implementation
+ */
+
+import { randomUUID } from "crypto";
+import {
+  Aspect,
+  AspectChange,
+  AspectDef,
+  AspectMapHierarchy,
+  AspectMapHierarchyImpl,
+  Catalog,
+  CatalogImpl,
+  CatalogSpecies,
+  ChangeTracker,
+  ChangeType,
+  CheapFactory,
+  Entity,
+  EntityDirectoryHierarchy,
+  EntityDirectoryHierarchyImpl,
+  EntityListHierarchy,
+  EntityListHierarchyImpl,
+  EntitySetHierarchy,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNode,
+  EntityTreeNodeImpl,
+  EntryChange,
+  FullAspectDefImpl,
+  Hierarchy,
+  HierarchyType,
+  PropertyDef,
+  PropertyDefImpl,
+  PropertyType,
+} from "@cheap-ts/core";
+import { SqlAspectStore } from "./SqlAspectStore.js";
+import { SqlAspectTable } from "./SqlAspectTable.js";
+import { SqlConnection, SqlDialect, SqlValueCodec } from "./SqlDialect.js";
+import { PendingAspectChanges, SqlLazyAspectMapHierarchy, SqlLazyAspectOptions } from "./SqlLazyAspectMapHierarchy.js";
+import { SqlPropertyValueStore } from "./SqlPropertyValueStore.js";
+
+/**
+ * The stored metadata of a catalog.
+ */
+export interface CatalogHeader {
+  globalId: string;
+  species: CatalogSpecies;
+  uri: string | null;
+  upstream: string | null;
+  version: number;
+}
+
+/**
+ * Options for loading a catalog.
+ */
+export interface SqlLoadOptions extends SqlLazyAspectOptions {
+  /**
+   * Whether to leave aspects in the database until they are asked for, using
+   * SqlLazyAspectMapHierarchy for every AspectMap hierarchy. AspectDefs and
+   * the other hierarchies are still loaded up front.
+   */
+  lazy?: boolean;
+}
+
+/** A boolean column, which some databases store as a small integer. */
+type Flag = boolean | number | bigint;
+
+/** A bigint column, which drivers read as a number, bigint or string. */
+type BigIntColumn = number | bigint | string;
+
+interface CatalogRow {
+  catalog_id: string;
+  species: string;
+  uri: string | null;
+  upstream_catalog_id: string | null;
+  version_number: BigIntColumn;
+}
+
+interface AspectDefRow {
+  aspect_def_id: string;
+  name: string;
+  is_readable: Flag;
+  is_writable: Flag;
+  can_add_properties: Flag;
+  can_remove_properties: Flag;
+}
+
+interface PropertyDefRow {
+  name: string;
+  property_type: string;
+  default_value: string | null;
+  has_default_value: Flag;
+  is_readable: Flag;
+  is_writable: Flag;
+  is_nullable: Flag;
+  is_removable: Flag;
+  is_multivalued: Flag;
+}
+
+interface HierarchyRow {
+  name: string;
+  hierarchy_type: string;
+  version_number: BigIntColumn;
+}
+
+interface TreeNodeRow {
+  node_id: string;
+  parent_node_id: string | null;
+  node_key: string;
+  entity_id: string | null;
+}
+
+/** The most IDs listed in the IN clause of one statement. */
+const IN_LIST_SIZE = 500;
+
+function flag(value: Flag): boolean {
+  return Number(value) !== 0;
+}
+
+/**
+ * Returns a condition excluding a column's values, with a placeholder for
+ * each, or nothing if there are none.
+ */
+function notIn(column: string, values: string[]): string {
+  return values.length === 0 ? "" : ` AND ${column} NOT IN (${values.map(() => "?").join(", ")})`;
+}
+
+function conflictMessage(aspectDef: AspectDef): string {
+  return (
+    `AspectDef '${aspectDef.name()}' (${aspectDef.globalId()}) is stored with a different hash ` +
+    "and used by another catalog."
+  );
+}
+
+function catalogHeader(row: CatalogRow): CatalogHeader {
+  return {
+    globalId: row.catalog_id,
+    species: row.species as CatalogSpecies,
+    uri: row.uri,
+    upstream: row.upstream_catalog_id,
+    version: Number(row.version_number),
+  };
+}
+
+/**
+ * Reads and writes catalogs in a SQL database with the shared CHEAP schema,
+ * through a SqlConnection and the SqlDialect of its database.
+ *
+ * A database holds any number of catalogs, registered in the catalog table
+ * and listed by listCatalogs(); every other row belongs to one catalog,
+ * through its catalog_id. Saving a catalog replaces everything previously
+ * stored for its global ID in a single transaction. Saving the changes
+ * recorded by a catalog's ChangeTracker writes only those.
+ *
+ * AspectDefs are stored once per database, along with their hash(), and
+ * shared by every catalog that uses them: saving an AspectDef whose hash
+ * matches the stored one writes nothing, while one with a different hash
+ * conflicts with the stored one unless no other catalog uses it.
+ *
+ * Aspects are stored in the generic aspect and property_value tables (see
+ * SqlPropertyValueStore), except for AspectDefs given a table of their own
+ * with createAspectTable(), whose aspects are stored there by every catalog
+ * in the database (see SqlAspectTable). Saving adds columns to the tables of
+ * AspectDefs that gained properties: in the save transaction if the dialect
+ * has transactional DDL, and before it begins otherwise.
+ *
+ * Tree nodes are stored with a closure table that links every node to each of
+ * its ancestors, so that subtrees and ancestor paths can be read, and subtrees
+ * moved, without loading the whole tree.
+ *
+ * Loading resolves entities and AspectDefs through a CheapFactory, so every
+ * reference to the same global ID yields the same Entity instance. Aspect maps
+ * can be loaded lazily, leaving their aspects in the database until they are
+ * asked for; see SqlLoadOptions.
+ *
+ * Backends that store or load aspects in their own way override
+ * newAspectTable(), newPropertyValueStore() and newLazyAspectMap().
+ */
+export class SqlDao {
+  private readonly _connection: SqlConnection;
+  private readonly _dialect: SqlDialect;
+  private readonly _codec: SqlValueCodec;
+
+  /**
+   * Creates a new SqlDao.
+   *
+   * @param connection the connection to the database
+   * @param dialect the dialect of the database
+   * @param codec the codec that converts property values to column values
+   */
+  constructor(connection: SqlConnection, dialect: SqlDialect, codec: SqlValueCodec) {
+    this._connection = connection;
+    this._dialect = dialect;
+    this._codec = codec;
+  }
+
+  /**
+   * Returns the connection to the database.
+   */
+  connection(): SqlConnection {
+    return this._connection;
+  }
+
+  /**
+   * Returns the dialect of the database.
+   */
+  dialect(): SqlDialect {
+    return this._dialect;
+  }
+
+  /**
+   * Runs a function in a transaction, committing if it resolves and rolling
+   * back if it rejects. Transactions begun while one is running join it.
+   *
+   * Every statement executed through this DAO's connection while the function
+   * runs is part of the transaction.
+   *
+   * @param fn the work to do in the transaction; it receives this DAO
+   * @returns the result of fn
+   */
+  async transaction<T>(fn: (dao: this) => Promise<T>): Promise<T> {
+    return this._connection.transaction(() => fn(this));
+  }
+
+  /**
+   * Returns whether a catalog with the given global ID is stored.
+   */
+  async catalogExists(globalId: string): Promise<boolean> {
+    const rows = await this._connection.query("SELECT 1 FROM catalog WHERE catalog_id = ?", [globalId]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Returns the metadata of every catalog stored in the database, ordered by
+   * global ID.
+   */
+  async listCatalogs(): Promise<CatalogHeader[]> {
+    const rows = await this._connection.query<CatalogRow>(
+      "SELECT catalog_id, species, uri, upstream_catalog_id, version_number FROM catalog ORDER BY catalog_id",
+    );
+    return rows.map(catalogHeader);
+  }
+
+  /**
+   * Returns whether an AspectDef with the given global ID is stored.
+   */
+  async aspectDefExists(aspectDefId: string): Promise<boolean> {
+    const rows = await this._connection.query("SELECT 1 FROM aspect_def WHERE aspect_def_id = ?", [aspectDefId]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Returns the default name of the table that stores the aspects of an
+   * AspectDef; see SqlAspectTable.defaultTableName().
+   *
+   * @param aspectDef the AspectDef
+   */
+  defaultTableName(aspectDef: AspectDef): string {
+    return SqlAspectTable.defaultTableName(aspectDef, this._dialect);
+  }
+
+  /**
+   * Returns the table that stores the aspects of an AspectDef, or null if
+   * they are stored in the generic aspect and property_value tables.
+   *
+   * @param aspectDef the AspectDef
+   */
+  async aspectTable(aspectDef: AspectDef): Promise<SqlAspectTable | null> {
+    const rows = await this._connection.query<{ table_name: string }>(
+      "SELECT table_name FROM aspect_table WHERE aspect_def_id = ? AND property_name IS NULL",
+      [aspectDef.globalId()],
+    );
+    return rows.length === 0 ? null : this.newAspectTable(aspectDef, rows[0].table_name);
+  }
+
+  /**
+   * Returns where the aspects of an AspectDef are stored: its table, or the
+   * generic aspect and property_value tables if it has none.
+   *
+   * @param aspectDef the AspectDef
+   */
+  async aspectStore(aspectDef: AspectDef): Promise<SqlAspectStore> {
+    return (await this.aspectTable(aspectDef)) ?? this.newPropertyValueStore(aspectDef);
+  }
+
+  /**
+   * Stores the aspects of an AspectDef in a table of its own, with a column
+   * per property, instead of the generic aspect and property_value tables.
+   * Saves the AspectDef and creates the table. If the AspectDef already has a
+   * table, adds columns for any new properties.
+   *
+   * With transactional DDL, this happens in a single transaction. Otherwise
+   * the table is created once the AspectDef is saved, and this must not run in
+   * a transaction.
+   *
+   * @param aspectDef the AspectDef
+   * @param tableName the name of the table; defaults to defaultTableName()
+   * @returns the table
+   * @throws Error if the dialect does not have transactional DDL and a
+   *   transaction is in progress, the AspectDef already has a table with
+   *   another name, aspects of the AspectDef are already stored in the generic
+   *   tables, or the table name is taken
+   */
+  async createAspectTable(
+    aspectDef: AspectDef,
+    tableName: string = this.defaultTableName(aspectDef),
+  ): Promise<SqlAspectTable> {
+    if (!this._dialect.transactionalDdl && this._connection.inTransaction()) {
+      throw new Error(
+        `Cannot create an aspect table in a transaction, since ${this._dialect.name} commits before DDL statements.`,
+      );
+    }
+    const existing = await this.aspectTable(aspectDef);
+    if (existing && existing.tableName() !== tableName) {
+      throw new Error(
+        `AspectDef '${aspectDef.name()}' is already stored in table '${existing.tableName()}', not '${tableName}'.`,
+      );
+    }
+    await this.checkNotStoredGenerically(aspectDef);
+    const table = existing ?? this.newAspectTable(aspectDef, tableName);
+    if (this._dialect.transactionalDdl) {
+      await this.transaction(async (dao) => {
+        await dao.saveAspectDef(aspectDef);
+        await table.create();
+      });
+    } else {
+      await this.transaction((dao) => dao.saveAspectDef(aspectDef));
+      await table.create();
+    }
+    return table;
+  }
+
+  /**
+   * Deletes a catalog and all of its hierarchies and aspects. Its AspectDefs
+   * are kept, since other catalogs may use them.
+   *
+   * @param globalId the global ID of the catalog
+   * @returns whether the catalog was stored
+   */
+  async deleteCatalog(globalId: string): Promise<boolean> {
+    return (await this._connection.update("DELETE FROM catalog WHERE catalog_id = ?", [globalId])) > 0;
+  }
+
+  /**
+   * Saves a catalog, replacing anything previously stored for its global ID.
+   * Aspect maps lazily loaded from this DAO keep their stored aspects and
+   * write only their pending changes. Everything is written in a single
+   * transaction, except the columns added to the tables of its AspectDefs if
+   * the dialect does not have transactional DDL: those are added first.
+   *
+   * @param catalog the catalog to save
+   * @throws Error if the dialect does not have transactional DDL, a
+   *   transaction is in progress and an aspect table needs new columns
+   */
+  async saveCatalog(catalog: Catalog): Promise<void> {
+    const lazyMaps = (await this.catalogExists(catalog.globalId())) ? this.lazyMaps(catalog) : [];
+    await this.writeWithStores(catalog, (stores) => this.writeCatalog(catalog, lazyMaps, stores));
+    for (const lazyMap of lazyMaps) {
+      lazyMap.markSaved();
+    }
+  }
+
+  /**
+   * Saves only the changes recorded by a catalog's ChangeTracker, in a single
+   * transaction, and clears the tracker once it commits. As with
+   * saveCatalog(), columns are added to aspect tables before the transaction
+   * if the dialect does not have transactional DDL.
+   *
+   * The stored catalog must match the catalog as it was when the tracker was
+   * last cleared, for example right after it was loaded or saved. Added and
+   * replaced hierarchies, lists and trees are rewritten as a whole; aspect
+   * maps write only the changed aspects, and only the changed properties of
+   * aspects modified in place; sets and directories write only the changed
+   * entries, appending new ones after the stored ones. Aspect maps lazily
+   * loaded from this DAO write their pending changes.
+   *
+   * @param catalog the catalog to save
+   * @param tracker the changes recorded since the stored catalog was last loaded or saved
+   * @throws Error if the catalog is not stored, or the dialect does not have
+   *   transactional DDL, a transaction is in progress and an aspect table
+   *   needs new columns
+   */
+  async saveChanges(catalog: Catalog, tracker: ChangeTracker): Promise<void> {
+    const catalogId = catalog.globalId();
+    if (!(await this.catalogExists(catalogId))) {
+      throw new Error(`Catalog ${catalogId} is not stored in the database.`);
+    }
+    const lazyMaps = this.lazyMaps(catalog);
+    await this.writeWithStores(catalog, (stores) => this.writeChanges(catalog, tracker, lazyMaps, stores));
+    tracker.clear();
+    for (const lazyMap of lazyMaps) {
+      lazyMap.markSaved();
+    }
+  }
+
+  /**
+   * Saves an AspectDef and its PropertyDefs. A stored version with the same
+   * hash() is shared as it is by every catalog that uses it; a stored version
+   * with a different hash is only replaced if no other catalog uses it.
+   *
+   * @param aspectDef the AspectDef to save
+   * @param catalogId the global ID of the catalog saving the AspectDef, if any
+   * @returns whether the AspectDef was written, because it was not stored
+   *   yet or its hash changed
+   * @throws Error if a stored AspectDef with the same global ID has a
+   *   different hash and is used by another catalog
+   */
+  async saveAspectDef(aspectDef: AspectDef, catalogId?: string): Promise<boolean> {
+    const aspectDefId = aspectDef.globalId();
+    const hash = aspectDef.hash().toString();
+    const stored = await this._connection.query<{ hash: string }>(
+      "SELECT hash FROM aspect_def_hash WHERE aspect_def_id = ?",
+      [aspectDefId],
+    );
+    if (stored.length > 0 && stored[0].hash === hash) {
+      return false;
+    }
+    if (stored.length > 0) {
+      const users = await this._connection.query<{ catalog_id: string }>(
+        "SELECT catalog_id FROM catalog_aspect_def WHERE aspect_def_id = ?",
+        [aspectDefId],
+      );
+      if (users.some((row) => row.catalog_id !== catalogId)) {
+        throw new Error(conflictMessage(aspectDef));
+      }
+    }
+
+    await this._connection.execute(
+      this._dialect.upsert(
+        "aspect_def",
+        ["aspect_def_id"],
+        ["name", "is_readable", "is_writable", "can_add_properties", "can_remove_properties"],
+      ),
+      [
+        aspectDefId,
+        aspectDef.name(),
+        aspectDef.isReadable(),
+        aspectDef.isWritable(),
+        aspectDef.canAddProperties(),
+        aspectDef.canRemoveProperties(),
+      ],
+    );
+
+    await this._connection.execute(this._dialect.upsert("aspect_def_hash", ["aspect_def_id"], ["hash"]), [
+      aspectDefId,
+      hash,
+    ]);
+    await this._connection.execute("DELETE FROM property_def WHERE aspect_def_id = ?", [aspectDefId]);
+    const propDefs = aspectDef.propertyDefs();
+    for (let index = 0; index < propDefs.length; index++) {
+      const propDef = propDefs[index];
+      await this._connection.execute(
+        `INSERT INTO property_def (aspect_def_id, name, property_index, property_type, default_value,
+           has_default_value, is_readable, is_writable, is_nullable, is_removable, is_multivalued)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          aspectDefId,
+          propDef.name(),
+          index,
+          propDef.type().typeCode(),
+          propDef.hasDefaultValue() ? this._codec.defaultToText(propDef) : null,
+          propDef.hasDefaultValue(),
+          propDef.isReadable(),
+          propDef.isWritable(),
+          propDef.isNullable(),
+          propDef.isRemovable(),
+          propDef.isMultivalued(),
+        ],
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Loads the metadata of a stored catalog.
+   *
+   * @param globalId the global ID of the catalog
+   * @returns the metadata, or null if no such catalog is stored
+   */
+  async loadCatalogHeader(globalId: string): Promise<CatalogHeader | null> {
+    const rows = await this._connection.query<CatalogRow>(
+      "SELECT catalog_id, species, uri, upstream_catalog_id, version_number FROM catalog WHERE catalog_id = ?",
+      [globalId],
+    );
+    return rows.length === 0 ? null : catalogHeader(rows[0]);
+  }
+
+  /**
+   * Loads a stored catalog into a new CatalogImpl.
+   *
+   * @param globalId the global ID of the catalog
+   * @param factory the factory used to resolve entities and AspectDefs
+   * @param options whether and how to load aspects lazily
+   * @returns the catalog, or null if no such catalog is stored
+   */
+  async loadCatalog(
+    globalId: string,
+    factory: CheapFactory = new CheapFactory(),
+    options: SqlLoadOptions = {},
+  ): Promise<CatalogImpl | null> {
+    const header = await this.loadCatalogHeader(globalId);
+    if (!header) {
+      return null;
+    }
+    const catalog = new CatalogImpl(header.globalId, header.species, header.upstream, header.version);
+    await this.loadCatalogContents(catalog, factory, options);
+    return catalog;
+  }
+
+  /**
+   * Loads the URI and hierarchies of a stored catalog into a catalog with the
+   * same global ID.
+   *
+   * With the lazy option, aspect maps read only the entities of their
+   * aspects, and load the aspects through this DAO when asked; see
+   * SqlLazyAspectMapHierarchy.
+   *
+   * @param catalog the catalog to load into
+   * @param factory the factory used to resolve entities and AspectDefs
+   * @param options whether and how to load aspects lazily
+   * @throws Error if the catalog is not stored
+   */
+  async loadCatalogContents(
+    catalog: CatalogImpl,
+    factory: CheapFactory = new CheapFactory(),
+    options: SqlLoadOptions = {},
+  ): Promise<void> {
+    const catalogId = catalog.globalId();
+    const header = await this.loadCatalogHeader(catalogId);
+    if (!header) {
+      throw new Error(`Catalog ${catalogId} is not stored in the database.`);
+    }
+    if (header.uri !== null) {
+      catalog.setUri(new URL(header.uri));
+    }
+
+    const aspectDefs = new Map<string, AspectDef>();
+    const defRows = await this._connection.query<{ aspect_def_id: string }>(
+      "SELECT aspect_def_id FROM catalog_aspect_def WHERE catalog_id = ?",
+      [catalogId],
+    );
+    for (const { aspect_def_id } of defRows) {
+      const aspectDef = await this.loadAspectDef(aspect_def_id, factory);
+      aspectDefs.set(aspectDef.name(), aspectDef);
+    }
+
+    const hierarchyRows = await this._connection.query<HierarchyRow>(
+      "SELECT name, hierarchy_type, version_number FROM hierarchy WHERE catalog_id = ? ORDER BY hierarchy_index",
+      [catalogId],
+    );
+    for (const row of hierarchyRows) {
+      await this.loadHierarchy(catalog, row, aspectDefs, factory, options);
+    }
+  }
+
+  /**
+   * Loads a stored AspectDef. If the factory already has an AspectDef with the
+   * same name and definition, that instance is returned; otherwise the loaded
+   * AspectDef is registered with the factory.
+   *
+   * @param aspectDefId the global ID of the AspectDef
+   * @param factory the factory used to resolve AspectDefs
+   * @returns the AspectDef
+   * @throws Error if the AspectDef is not stored
+   */
+  async loadAspectDef(aspectDefId: string, factory: CheapFactory = new CheapFactory()): Promise<AspectDef> {
+    const rows = await this._connection.query<AspectDefRow>("SELECT * FROM aspect_def WHERE aspect_def_id = ?", [
+      aspectDefId,
+    ]);
+    const row = rows[0];
+    if (!row) {
+      throw new Error(`AspectDef ${aspectDefId} is not stored in the database.`);
+    }
+    const propRows = await this._connection.query<PropertyDefRow>(
+      "SELECT * FROM property_def WHERE aspect_def_id = ? ORDER BY property_index",
+      [aspectDefId],
+    );
+    const propertyDefs = new Map<string, PropertyDef>();
+    for (const propRow of propRows) {
+      propertyDefs.set(propRow.name, this.propertyDefFromRow(propRow));
+    }
+    const aspectDef = new FullAspectDefImpl(
+      row.name,
+      row.aspect_def_id,
+      propertyDefs,
+      flag(row.is_readable),
+      flag(row.is_writable),
+      flag(row.can_add_properties),
+      flag(row.can_remove_properties),
+    );
+    const existing = factory.getAspectDef(aspectDef.name());
+    if (existing && existing.fullyEquals(aspectDef)) {
+      return existing;
+    }
+    factory.registerAspectDef(aspectDef);
+    return aspectDef;
+  }
+
+  /**
+   * Loads the stored aspects of some entities in a catalog, in the given
+   * order. Each entity must have a stored aspect of the AspectDef.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param aspectDef the AspectDef of the aspects
+   * @param entityIds the global IDs of the entities
+   * @param factory the factory used to create the aspects and resolve their entities
+   * @returns the aspects
+   */
+  async loadAspectBatch(
+    catalogId: string,
+    aspectDef: AspectDef,
+    entityIds: string[],
+    factory: CheapFactory = new CheapFactory(),
+  ): Promise<Aspect[]> {
+    const aspects = entityIds.map((entityId) =>
+      factory.createObjectMapAspect(factory.getOrRegisterNewEntity(entityId), aspectDef),
+    );
+    if (aspects.length > 0) {
+      await (await this.aspectStore(aspectDef)).readInto(catalogId, aspects);
+    }
+    return aspects;
+  }
+
+  /**
+   * Loads the subtree of a stored EntityTree hierarchy below one node, without
+   * loading the rest of the tree. The returned node has no parent.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param hierarchyName the name of the tree hierarchy
+   * @param path the keys leading from the root to the node; empty for the root
+   * @param factory the factory used to resolve entities
+   * @returns the node and its descendants, or null if there is no such node
+   */
+  async loadTreeSubtree(
+    catalogId: string,
+    hierarchyName: string,
+    path: readonly string[],
+    factory: CheapFactory = new CheapFactory(),
+  ): Promise<EntityTreeNode | null> {
+    const nodeId = await this.treeNodeId(catalogId, hierarchyName, path);
+    if (nodeId === null) {
+      return null;
+    }
+    const rows = await this._connection.query<TreeNodeRow>(
+      `SELECT n.node_id, n.parent_node_id, n.node_key, n.entity_id
+       FROM hierarchy_entity_tree_closure c
+       JOIN hierarchy_entity_tree_node n ON n.node_id = c.descendant_node_id
+       WHERE c.ancestor_node_id = ? ORDER BY c.depth, n.node_order`,
+      [nodeId],
+    );
+    return this.buildTree(hierarchyName, rows, factory);
+  }
+
+  /**
+   * Loads the entities of a stored tree node's ancestors, without loading the
+   * rest of the tree.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param hierarchyName the name of the tree hierarchy
+   * @param path the keys leading from the root to the node
+   * @param factory the factory used to resolve entities
+   * @returns the entity of each ancestor, or null for nodes without one, from
+   *   the root down to the node's parent; or null if there is no such node
+   */
+  async loadTreeAncestors(
+    catalogId: string,
+    hierarchyName: string,
+    path: readonly string[],
+    factory: CheapFactory = new CheapFactory(),
+  ): Promise<(Entity | null)[] | null> {
+    const nodeId = await this.treeNodeId(catalogId, hierarchyName, path);
+    if (nodeId === null) {
+      return null;
+    }
+    const rows = await this._connection.query<{ entity_id: string | null }>(
+      `SELECT n.entity_id FROM hierarchy_entity_tree_closure c
+       JOIN hierarchy_entity_tree_node n ON n.node_id = c.ancestor_node_id
+       WHERE c.descendant_node_id = ? AND c.depth > 0 ORDER BY c.depth DESC`,
+      [nodeId],
+    );
+    return rows.map((row) => (row.entity_id === null ? null : factory.getOrRegisterNewEntity(row.entity_id)));
+  }
+
+  /**
+   * Finds the nodes of a stored tree that hold an entity, without loading the tree.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param hierarchyName the name of the tree hierarchy
+   * @param entityId the global ID of the entity
+   * @returns the path of each node holding the entity
+   */
+  async findTreePaths(catalogId: string, hierarchyName: string, entityId: string): Promise<string[][]> {
+    // One row per node holding the entity and each of its ancestors, itself included
+    const rows = await this._connection.query<{ node_id: string; node_key: string; is_root: Flag }>(
+      `SELECT n.node_id, a.node_key, a.parent_node_id IS NULL AS is_root FROM hierarchy_entity_tree_node n
+       JOIN hierarchy_entity_tree_closure c ON c.descendant_node_id = n.node_id
+       JOIN hierarchy_entity_tree_node a ON a.node_id = c.ancestor_node_id
+       WHERE n.catalog_id = ? AND n.hierarchy_name = ? AND n.entity_id = ?
+       ORDER BY n.node_order, c.depth DESC`,
+      [catalogId, hierarchyName, entityId],
+    );
+    const paths = new Map<string, string[]>();
+    for (const row of rows) {
+      let path = paths.get(row.node_id);
+      if (!path) {
+        path = [];
+        paths.set(row.node_id, path);
+      }
+      if (!flag(row.is_root)) {
+        path.push(row.node_key);
+      }
+    }
+    return Array.from(paths.values());
+  }
+
+  /**
+   * Moves a node of a stored tree, with its subtree, to a new parent, without
+   * loading the tree. The node becomes the last child of its new parent.
+   *
+   * A catalog that loaded the tree before the move does not see it; reload it
+   * or make the same move in memory.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param hierarchyName the name of the tree hierarchy
+   * @param path the keys leading from the root to the node to move
+   * @param newParentPath the keys leading from the root to the new parent
+   * @param newKey the key of the node under its new parent; defaults to its current key
+   * @throws Error if either node does not exist, the node is the root, the new
+   *   parent is in the moved subtree, or the new parent already has a child with the key
+   */
+  async moveTreeNode(
+    catalogId: string,
+    hierarchyName: string,
+    path: readonly string[],
+    newParentPath: readonly string[],
+    newKey: string = path[path.length - 1],
+  ): Promise<void> {
+    if (path.length === 0) {
+      throw new Error(`Cannot move the root of tree '${hierarchyName}'.`);
+    }
+    await this.transaction(async () => {
+      const nodeId = await this.treeNodeId(catalogId, hierarchyName, path);
+      if (nodeId === null) {
+        throw new Error(`Tree '${hierarchyName}' has no node at /${path.join("/")}.`);
+      }
+      const parentId = await this.treeNodeId(catalogId, hierarchyName, newParentPath);
+      if (parentId === null) {
+        throw new Error(`Tree '${hierarchyName}' has no node at /${newParentPath.join("/")}.`);
+      }
+      const subtreeIds = (
+        await this._connection.query<{ descendant_node_id: string }>(
+          "SELECT descendant_node_id FROM hierarchy_entity_tree_closure WHERE ancestor_node_id = ?",
+          [nodeId],
+        )
+      ).map((row) => row.descendant_node_id);
+      if (subtreeIds.includes(parentId)) {
+        throw new Error(`Cannot move tree node /${path.join("/")} into its own subtree.`);
+      }
+      const siblings = await this._connection.query<{ node_id: string }>(
+        "SELECT node_id FROM hierarchy_entity_tree_node WHERE parent_node_id = ? AND node_key = ?",
+        [parentId, newKey],
+      );
+      if (siblings.length > 0 && siblings[0].node_id !== nodeId) {
+        throw new Error(`Tree node /${newParentPath.join("/")} already has a child '${newKey}'.`);
+      }
+
+      // Unlink the subtree from its old ancestors, then link it below the new parent. The rows to
+      // delete are listed here rather than by subqueries, which MariaDB refuses on the target table.
+      const oldAncestorIds = (
+        await this._connection.query<{ ancestor_node_id: string }>(
+          "SELECT ancestor_node_id FROM hierarchy_entity_tree_closure WHERE descendant_node_id = ? AND depth > 0",
+          [nodeId],
+        )
+      ).map((row) => row.ancestor_node_id);
+      for (let start = 0; start < subtreeIds.length; start += IN_LIST_SIZE) {
+        const batch = subtreeIds.slice(start, start + IN_LIST_SIZE);
+        await this._connection.execute(
+          `DELETE FROM hierarchy_entity_tree_closure
+           WHERE ancestor_node_id IN (${oldAncestorIds.map(() => "?").join(", ")})
+             AND descendant_node_id IN (${batch.map(() => "?").join(", ")})`,
+          [...oldAncestorIds, ...batch],
+        );
+      }
+      await this._connection.execute(
+        `INSERT INTO hierarchy_entity_tree_closure (ancestor_node_id, descendant_node_id, depth)
+         SELECT above.ancestor_node_id, below.descendant_node_id, above.depth + below.depth + 1
+         FROM hierarchy_entity_tree_closure above, hierarchy_entity_tree_closure below
+         WHERE above.descendant_node_id = ? AND below.ancestor_node_id = ?`,
+        [parentId, nodeId],
+      );
+      const order = await this.nextOrder("hierarchy_entity_tree_node", "node_order", catalogId, hierarchyName);
+      await this._connection.execute(
+        "UPDATE hierarchy_entity_tree_node SET parent_node_id = ?, node_key = ?, node_order = ? WHERE node_id = ?",
+        [parentId, newKey, order, nodeId],
+      );
+    });
+  }
+
+  /**
+   * Throws if aspects of an AspectDef are stored in the generic tables, which
+   * a table of its own would hide.
+   *
+   * @param aspectDef the AspectDef
+   * @throws Error if the generic tables hold aspects of the AspectDef
+   */
+  protected async checkNotStoredGenerically(aspectDef: AspectDef): Promise<void> {
+    const rows = await this._connection.query("SELECT 1 FROM aspect WHERE aspect_def_id = ? LIMIT 1", [
+      aspectDef.globalId(),
+    ]);
+    if (rows.length > 0) {
+      throw new Error(`Aspects of AspectDef '${aspectDef.name()}' are already stored in the generic tables.`);
+    }
+  }
+
+  /**
+   * Creates the table object for an AspectDef's aspect table, without
+   * creating the table. Backends override this to store aspects in another
+   * form; see SqlAspectTable.
+   *
+   * @param aspectDef the AspectDef
+   * @param tableName the name of the table
+   */
+  protected newAspectTable(aspectDef: AspectDef, tableName: string): SqlAspectTable {
+    return new SqlAspectTable(this._connection, this._dialect, this._codec, aspectDef, tableName);
+  }
+
+  /**
+   * Creates the store for the aspects of an AspectDef without a table of its
+   * own, in the generic aspect and property_value tables.
+   *
+   * @param aspectDef the AspectDef
+   */
+  protected newPropertyValueStore(aspectDef: AspectDef): SqlPropertyValueStore {
+    return new SqlPropertyValueStore(this._connection, this._codec, aspectDef);
+  }
+
+  /**
+   * Creates a lazily loaded aspect map, which adds itself to the catalog.
+   * Backends override this to load aspects in another way; see
+   * SqlLazyAspectMapHierarchy.loadSync().
+   *
+   * @param catalog the catalog being loaded
+   * @param aspectDef the AspectDef of the map
+   * @param version the version number of the map
+   * @param factory the factory used to create loaded aspects and resolve their entities
+   * @param storedEntities the entities of the stored aspects, in map order
+   * @param options the cache and page sizes
+   */
+  protected newLazyAspectMap(
+    catalog: Catalog,
+    aspectDef: AspectDef,
+    version: number,
+    factory: CheapFactory,
+    storedEntities: Entity[],
+    options: SqlLazyAspectOptions,
+  ): SqlLazyAspectMapHierarchy {
+    return new SqlLazyAspectMapHierarchy(catalog, aspectDef, version, this, factory, storedEntities, options);
+  }
+
+  /**
+   * Returns the aspect maps of a catalog that were lazily loaded from this DAO.
+   */
+  private lazyMaps(catalog: Catalog): SqlLazyAspectMapHierarchy[] {
+    return Array.from(catalog.hierarchies()).filter(
+      (h): h is SqlLazyAspectMapHierarchy => h instanceof SqlLazyAspectMapHierarchy && h.isStoredIn(this),
+    );
+  }
+
+  /**
+   * Prepares the stores of a catalog's AspectDefs, then runs a write with
+   * them in a transaction. Without transactional DDL, the stores are
+   * prepared before the transaction begins.
+   */
+  private async writeWithStores(
+    catalog: Catalog,
+    write: (stores: Map<string, SqlAspectStore>) => Promise<void>,
+  ): Promise<void> {
+    if (this._dialect.transactionalDdl) {
+      await this.transaction(async () => write(await this.prepareAspectStores(catalog)));
+    } else {
+      const stores = await this.prepareAspectStores(catalog);
+      await this.transaction(() => write(stores));
+    }
+  }
+
+  /**
+   * Saves the AspectDefs of a catalog, and adds columns to the tables of those
+   * that changed.
+   *
+   * @returns the aspect stores, by AspectDef global ID
+   * @throws Error if the dialect does not have transactional DDL, a
+   *   transaction is in progress and an aspect table needs new columns
+   */
+  private async prepareAspectStores(catalog: Catalog): Promise<Map<string, SqlAspectStore>> {
+    const stores = new Map<string, SqlAspectStore>();
+    for (const aspectDef of catalog.aspectDefs()) {
+      const changed = await this.transaction((dao) => dao.saveAspectDef(aspectDef, catalog.globalId()));
+      const table = await this.aspectTable(aspectDef);
+      if (changed && table) {
+        if (!this._dialect.transactionalDdl && this._connection.inTransaction()) {
+          throw new Error(
+            `Cannot add columns to aspect table '${table.tableName()}' in a transaction, ` +
+              `since ${this._dialect.name} commits before DDL statements.`,
+          );
+        }
+        await table.create();
+      }
+      stores.set(aspectDef.globalId(), table ?? this.newPropertyValueStore(aspectDef));
+    }
+    return stores;
+  }
+
+  /**
+   * Writes a catalog, replacing anything previously stored for its global ID
+   * except the stored aspects of its lazy maps. Must run in a transaction,
+   * once its AspectDefs are saved.
+   *
+   * @param lazyMaps the aspect maps lazily loaded from this DAO, which write their pending changes
+   * @param stores the aspect stores, by AspectDef global ID
+   */
+  private async writeCatalog(
+    catalog: Catalog,
+    lazyMaps: SqlLazyAspectMapHierarchy[],
+    stores: Map<string, SqlAspectStore>,
+  ): Promise<void> {
+    const catalogId = catalog.globalId();
+    const header = [catalog.species(), catalog.uri()?.toString() ?? null, catalog.upstream(), catalog.version()];
+    if (await this.catalogExists(catalogId)) {
+      const keptDefIds = lazyMaps.map((lazyMap) => lazyMap.aspectDef().globalId());
+      const keptNames = lazyMaps.map((lazyMap) => lazyMap.name());
+      // Deleting the hierarchies deletes their contents too
+      await SqlAspectTable.deleteCatalogRows(this._connection, this._dialect, catalogId, keptDefIds);
+      await this._connection.execute(
+        `DELETE FROM property_value WHERE catalog_id = ?${notIn("aspect_def_id", keptDefIds)}`,
+        [catalogId, ...keptDefIds],
+      );
+      await this._connection.execute(`DELETE FROM aspect WHERE catalog_id = ?${notIn("aspect_def_id", keptDefIds)}`, [
+        catalogId,
+        ...keptDefIds,
+      ]);
+      await this._connection.execute(`DELETE FROM hierarchy WHERE catalog_id = ?${notIn("name", keptNames)}`, [
+        catalogId,
+        ...keptNames,
+      ]);
+      await this._connection.execute("DELETE FROM catalog_aspect_def WHERE catalog_id = ?", [catalogId]);
+      await this._connection.execute(
+        "UPDATE catalog SET species = ?, uri = ?, upstream_catalog_id = ?, version_number = ? WHERE catalog_id = ?",
+        [...header, catalogId],
+      );
+    } else {
+      await this._connection.execute(
+        "INSERT INTO catalog (species, uri, upstream_catalog_id, version_number, catalog_id) VALUES (?, ?, ?, ?, ?)",
+        [...header, catalogId],
+      );
+    }
+
+    for (const aspectDef of catalog.aspectDefs()) {
+      await this._connection.execute("INSERT INTO catalog_aspect_def (catalog_id, aspect_def_id) VALUES (?, ?)", [
+        catalogId,
+        aspectDef.globalId(),
+      ]);
+    }
+
+    let index = 0;
+    for (const hierarchy of catalog.hierarchies()) {
+      const hierarchyIndex = index++;
+      if (lazyMaps.includes(hierarchy as SqlLazyAspectMapHierarchy)) {
+        const lazyMap = hierarchy as SqlLazyAspectMapHierarchy;
+        await this._connection.execute(
+          "UPDATE hierarchy SET hierarchy_index = ?, version_number = ? WHERE catalog_id = ? AND name = ?",
+          [hierarchyIndex, lazyMap.version(), catalogId, lazyMap.name()],
+        );
+        await this.saveAspectChanges(
+          catalogId,
+          lazyMap,
+          lazyMap.pendingChanges(),
+          stores.get(lazyMap.aspectDef().globalId())!,
+        );
+      } else {
+        await this.saveHierarchy(catalogId, hierarchy, hierarchyIndex, stores);
+      }
+    }
+  }
+
+  /**
+   * Writes the changes recorded by a tracker for a stored catalog. Must run in
+   * a transaction, once its AspectDefs are saved.
+   *
+   * @param lazyMaps the aspect maps lazily loaded from this DAO, which write their pending changes
+   * @param stores the aspect stores, by AspectDef global ID
+   */
+  private async writeChanges(
+    catalog: Catalog,
+    tracker: ChangeTracker,
+    lazyMaps: SqlLazyAspectMapHierarchy[],
+    stores: Map<string, SqlAspectStore>,
+  ): Promise<void> {
+    const catalogId = catalog.globalId();
+    if (tracker.isCatalogChanged()) {
+      await this._connection.execute(
+        "UPDATE catalog SET species = ?, uri = ?, upstream_catalog_id = ?, version_number = ? WHERE catalog_id = ?",
+        [catalog.species(), catalog.uri()?.toString() ?? null, catalog.upstream(), catalog.version(), catalogId],
+      );
+    }
+
+    const changedNames = new Set(tracker.changedHierarchyNames());
+    let index = 0;
+    for (const hierarchy of catalog.hierarchies()) {
+      const hierarchyIndex = index++;
+      const name = hierarchy.name();
+      if (lazyMaps.includes(hierarchy as SqlLazyAspectMapHierarchy)) {
+        // Lazy maps hold every change made through them, including in-place writes to loaded aspects
+        const lazyMap = hierarchy as SqlLazyAspectMapHierarchy;
+        await this.saveAspectChanges(
+          catalogId,
+          lazyMap,
+          lazyMap.pendingChanges(),
+          stores.get(lazyMap.aspectDef().globalId())!,
+        );
+      } else if (!changedNames.has(name)) {
+        continue;
+      } else if (tracker.hierarchyChanges().has(name)) {
+        if (hierarchy.type() === HierarchyType.ASPECT_MAP) {
+          const aspectDef = (hierarchy as AspectMapHierarchy).aspectDef();
+          await stores.get(aspectDef.globalId())!.deleteAll(catalogId);
+          await this.linkAspectDef(catalogId, aspectDef);
+        }
+        await this._connection.execute(
+          `DELETE FROM property_value WHERE catalog_id = ? AND aspect_def_id IN
+             (SELECT aspect_def_id FROM aspect WHERE catalog_id = ? AND hierarchy_name = ?)`,
+          [catalogId, catalogId, name],
+        );
+        await this._connection.execute("DELETE FROM aspect WHERE catalog_id = ? AND hierarchy_name = ?", [
+          catalogId,
+          name,
+        ]);
+        // Deleting the hierarchy deletes its contents too
+        await this._connection.execute("DELETE FROM hierarchy WHERE catalog_id = ? AND name = ?", [catalogId, name]);
+        await this.saveHierarchy(catalogId, hierarchy, hierarchyIndex, stores);
+      } else if (hierarchy.type() === HierarchyType.ASPECT_MAP) {
+        const aspectMap = hierarchy as AspectMapHierarchy;
+        await this.saveAspectMapChanges(
+          catalogId,
+          aspectMap,
+          tracker.aspectChanges(name),
+          stores.get(aspectMap.aspectDef().globalId())!,
+        );
+      } else {
+        await this.saveEntryChanges(catalogId, hierarchy, tracker.entryChanges(name));
+      }
+    }
+  }
+
+  /**
+   * Records that a catalog uses an AspectDef, unless it already does.
+   */
+  private async linkAspectDef(catalogId: string, aspectDef: AspectDef): Promise<void> {
+    const rows = await this._connection.query(
+      "SELECT 1 FROM catalog_aspect_def WHERE catalog_id = ? AND aspect_def_id = ?",
+      [catalogId, aspectDef.globalId()],
+    );
+    if (rows.length === 0) {
+      await this._connection.execute("INSERT INTO catalog_aspect_def (catalog_id, aspect_def_id) VALUES (?, ?)", [
+        catalogId,
+        aspectDef.globalId(),
+      ]);
+    }
+  }
+
+  /**
+   * Writes the recorded aspect changes of an aspect map. Aspects that were
+   * added or replaced are rewritten; aspects modified in place rewrite only
+   * their changed properties.
+   */
+  private async saveAspectMapChanges(
+    catalogId: string,
+    aspectMap: AspectMapHierarchy,
+    changes: AspectChange[],
+    store: SqlAspectStore,
+  ): Promise<void> {
+    await this.saveAspectChanges(
+      catalogId,
+      aspectMap,
+      {
+        cleared: false,
+        deletedEntityIds: changes.filter((c) => c.type === ChangeType.REMOVED).map((c) => c.entityId),
+        changedAspects: changes.filter((c) => c.aspect !== null && c.properties === null).map((c) => c.aspect!),
+      },
+      store,
+    );
+    for (const change of changes) {
+      if (change.aspect !== null && change.properties !== null) {
+        await store.update(catalogId, change.aspect, change.properties);
+      }
+    }
+  }
+
+  /**
+   * Writes changes to the stored aspects of one aspect map. New aspects are
+   * appended after the stored ones.
+   */
+  private async saveAspectChanges(
+    catalogId: string,
+    aspectMap: AspectMapHierarchy,
+    changes: PendingAspectChanges,
+    store: SqlAspectStore,
+  ): Promise<void> {
+    const name = aspectMap.name();
+    if (changes.cleared) {
+      await store.deleteAll(catalogId);
+      await this._connection.execute("DELETE FROM hierarchy_aspect_map WHERE catalog_id = ? AND hierarchy_name = ?", [
+        catalogId,
+        name,
+      ]);
+    }
+    for (const entityId of changes.deletedEntityIds) {
+      await store.delete(catalogId, entityId);
+      await this._connection.execute(
+        "DELETE FROM hierarchy_aspect_map WHERE catalog_id = ? AND hierarchy_name = ? AND entity_id = ?",
+        [catalogId, name, entityId],
+      );
+    }
+    for (const aspect of changes.changedAspects) {
+      const entityId = aspect.entity().globalId();
+      const stored = await this._connection.query(
+        "SELECT 1 FROM hierarchy_aspect_map WHERE catalog_id = ? AND hierarchy_name = ? AND entity_id = ?",
+        [catalogId, name, entityId],
+      );
+      if (stored.length === 0) {
+        await this._connection.execute(
+          `INSERT INTO hierarchy_aspect_map (catalog_id, hierarchy_name, entity_id, aspect_def_id, map_order)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            catalogId,
+            name,
+            entityId,
+            aspectMap.aspectDef().globalId(),
+            await this.nextOrder("hierarchy_aspect_map", "map_order", catalogId, name),
+          ],
+        );
+      }
+      await store.delete(catalogId, entityId);
+      await store.insert(catalogId, aspect);
+    }
+  }
+
+  /**
+   * Writes the recorded entry changes of an entity set or directory. New
+   * entries are appended after the stored ones.
+   */
+  private async saveEntryChanges(catalogId: string, hierarchy: Hierarchy, changes: EntryChange[]): Promise<void> {
+    const name = hierarchy.name();
+    const isSet = hierarchy.type() === HierarchyType.ENTITY_SET;
+    const table = isSet ? "hierarchy_entity_set" : "hierarchy_entity_directory";
+    const keyColumn = isSet ? "entity_id" : "entity_key";
+    for (const change of changes) {
+      const key = [catalogId, name, change.key];
+      if (change.entity === null) {
+        await this._connection.execute(
+          `DELETE FROM ${table} WHERE catalog_id = ? AND hierarchy_name = ? AND ${keyColumn} = ?`,
+          key,
+        );
+        continue;
+      }
+      const stored = await this._connection.query(
+        `SELECT 1 FROM ${table} WHERE catalog_id = ? AND hierarchy_name = ? AND ${keyColumn} = ?`,
+        key,
+      );
+      if (isSet) {
+        if (stored.length === 0) {
+          await this._connection.execute(
+            "INSERT INTO hierarchy_entity_set (catalog_id, hierarchy_name, entity_id, set_order) VALUES (?, ?, ?, ?)",
+            [...key, await this.nextOrder(table, "set_order", catalogId, name)],
+          );
+        }
+      } else if (stored.length > 0) {
+        await this._connection.execute(
+          `UPDATE hierarchy_entity_directory SET entity_id = ?
+           WHERE catalog_id = ? AND hierarchy_name = ? AND entity_key = ?`,
+          [change.entity.globalId(), ...key],
+        );
+      } else {
+        await this._connection.execute(
+          `INSERT INTO hierarchy_entity_directory (catalog_id, hierarchy_name, entity_key, entity_id, dir_order)
+           VALUES (?, ?, ?, ?, ?)`,
+          [...key, change.entity.globalId(), await this.nextOrder(table, "dir_order", catalogId, name)],
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the order that appends a row to the rows of a hierarchy, one past
+   * the largest stored order.
+   */
+  private async nextOrder(table: string, column: string, catalogId: string, hierarchyName: string): Promise<number> {
+    const rows = await this._connection.query<{ max_order: BigIntColumn | null }>(
+      `SELECT MAX(${column}) AS max_order FROM ${table} WHERE catalog_id = ? AND hierarchy_name = ?`,
+      [catalogId, hierarchyName],
+    );
+    const max = rows[0]?.max_order ?? null;
+    return max === null ? 0 : Number(max) + 1;
+  }
+
+  private propertyDefFromRow(row: PropertyDefRow): PropertyDef {
+    const type = PropertyType.fromTypeCode(row.property_type);
+    if (!type) {
+      throw new Error(`Unknown property type '${row.property_type}' for property '${row.name}'.`);
+    }
+    const isMultivalued = flag(row.is_multivalued);
+    let defaultValue: unknown = null;
+    if (flag(row.has_default_value)) {
+      // Coerce the default against a nullable copy of the def, since a null default is always allowed
+      const valueDef = new PropertyDefImpl(row.name, type, null, false, true, true, true, true, isMultivalued);
+      defaultValue = this._codec.defaultFromText(valueDef, row.default_value);
+    }
+    return new PropertyDefImpl(
+      row.name,
+      type,
+      defaultValue,
+      flag(row.has_default_value),
+      flag(row.is_readable),
+      flag(row.is_writable),
+      flag(row.is_nullable),
+      flag(row.is_removable),
+      isMultivalued,
+    );
+  }
+
+  private async saveHierarchy(
+    catalogId: string,
+    hierarchy: Hierarchy,
+    index: number,
+    stores: Map<string, SqlAspectStore>,
+  ): Promise<void> {
+    const name = hierarchy.name();
+    await this._connection.execute(
+      `INSERT INTO hierarchy (catalog_id, name, hierarchy_index, hierarchy_type, version_number)
+       VALUES (?, ?, ?, ?, ?)`,
+      [catalogId, name, index, hierarchy.type(), hierarchy.version()],
+    );
+
+    switch (hierarchy.type()) {
+      case HierarchyType.ENTITY_LIST: {
+        let i = 0;
+        for (const entity of hierarchy as EntityListHierarchy) {
+          await this._connection.execute(
+            "INSERT INTO hierarchy_entity_list (catalog_id, hierarchy_name, entity_id, list_order) VALUES (?, ?, ?, ?)",
+            [catalogId, name, entity.globalId(), i++],
+          );
+        }
+        break;
+      }
+      case HierarchyType.ENTITY_SET: {
+        let i = 0;
+        for (const entity of hierarchy as EntitySetHierarchy) {
+          await this._connection.execute(
+            "INSERT INTO hierarchy_entity_set (catalog_id, hierarchy_name, entity_id, set_order) VALUES (?, ?, ?, ?)",
+            [catalogId, name, entity.globalId(), i++],
+          );
+        }
+        break;
+      }
+      case HierarchyType.ENTITY_DIR: {
+        let i = 0;
+        for (const [key, entity] of hierarchy as EntityDirectoryHierarchy) {
+          await this._connection.execute(
+            `INSERT INTO hierarchy_entity_directory (catalog_id, hierarchy_name, entity_key, entity_id, dir_order)
+             VALUES (?, ?, ?, ?, ?)`,
+            [catalogId, name, key, entity.globalId(), i++],
+          );
+        }
+        break;
+      }
+      case HierarchyType.ENTITY_TREE:
+        await this.saveTree(catalogId, hierarchy as EntityTreeHierarchy);
+        break;
+      case HierarchyType.ASPECT_MAP: {
+        const aspectMap = hierarchy as AspectMapHierarchy;
+        await this.saveAspectMap(catalogId, aspectMap, stores.get(aspectMap.aspectDef().globalId())!);
+        break;
+      }
+      default:
+        throw new Error(`Unknown hierarchy type '${hierarchy.type()}' for hierarchy '${name}'.`);
+    }
+  }
+
+  private async saveTree(catalogId: string, tree: EntityTreeHierarchy): Promise<void> {
+    let order = 0;
+    // Nodes are written in pre-order, so every parent is inserted before its children.
+    // A node's closure rows are its ancestors', nearest first, and its own.
+    const saveNode = async (node: EntityTreeNode, ancestorIds: string[], key: string): Promise<void> => {
+      const nodeId = randomUUID();
+      await this._connection.execute(
+        `INSERT INTO hierarchy_entity_tree_node
+           (node_id, catalog_id, hierarchy_name, parent_node_id, node_key, entity_id, node_order)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [nodeId, catalogId, tree.name(), ancestorIds[0] ?? null, key, node.value()?.globalId() ?? null, order++],
+      );
+      const pathIds = [nodeId, ...ancestorIds];
+      for (let depth = 0; depth < pathIds.length; depth++) {
+        await this._connection.execute(
+          "INSERT INTO hierarchy_entity_tree_closure (ancestor_node_id, descendant_node_id, depth) VALUES (?, ?, ?)",
+          [pathIds[depth], nodeId, depth],
+        );
+      }
+      for (const [childKey, child] of node) {
+        await saveNode(child, pathIds, childKey);
+      }
+    };
+    await saveNode(tree.root(), [], "");
+  }
+
+  private async saveAspectMap(catalogId: string, aspectMap: AspectMapHierarchy, store: SqlAspectStore): Promise<void> {
+    let order = 0;
+    for (const [entity, aspect] of aspectMap) {
+      await this._connection.execute(
+        `INSERT INTO hierarchy_aspect_map (catalog_id, hierarchy_name, entity_id, aspect_def_id, map_order)
+         VALUES (?, ?, ?, ?, ?)`,
+        [catalogId, aspectMap.name(), entity.globalId(), aspectMap.aspectDef().globalId(), order++],
+      );
+      await store.insert(catalogId, aspect);
+    }
+  }
+
+  private async loadHierarchy(
+    catalog: Catalog,
+    row: HierarchyRow,
+    aspectDefs: Map<string, AspectDef>,
+    factory: CheapFactory,
+    options: SqlLoadOptions,
+  ): Promise<Hierarchy> {
+    const catalogId = catalog.globalId();
+    const name = row.name;
+    const version = Number(row.version_number);
+    switch (row.hierarchy_type) {
+      case HierarchyType.ENTITY_LIST: {
+        const ids = await this.entityIds(
+          "SELECT entity_id FROM hierarchy_entity_list WHERE catalog_id = ? AND hierarchy_name = ? ORDER BY list_order",
+          catalogId,
+          name,
+        );
+        // Pass an explicit zero capacity, since a version alone could be mistaken for a capacity
+        const list = new EntityListHierarchyImpl(catalog, name, 0, version);
+        list.push(...ids.map((id) => factory.getOrRegisterNewEntity(id)));
+        return list;
+      }
+      case HierarchyType.ENTITY_SET: {
+        const ids = await this.entityIds(
+          "SELECT entity_id FROM hierarchy_entity_set WHERE catalog_id = ? AND hierarchy_name = ? ORDER BY set_order",
+          catalogId,
+          name,
+        );
+        return new EntitySetHierarchyImpl(
+          catalog,
+          name,
+          ids.map((id) => factory.getOrRegisterNewEntity(id)),
+          version,
+        );
+      }
+      case HierarchyType.ENTITY_DIR: {
+        const rows = await this._connection.query<{ entity_key: string; entity_id: string }>(
+          `SELECT entity_key, entity_id FROM hierarchy_entity_directory
+           WHERE catalog_id = ? AND hierarchy_name = ? ORDER BY dir_order`,
+          [catalogId, name],
+        );
+        return new EntityDirectoryHierarchyImpl(
+          catalog,
+          name,
+          rows.map((r): [string, Entity] => [r.entity_key, factory.getOrRegisterNewEntity(r.entity_id)]),
+          version,
+        );
+      }
+      case HierarchyType.ENTITY_TREE:
+        return new EntityTreeHierarchyImpl(catalog, name, await this.loadTreeRoot(catalogId, name, factory), version);
+      case HierarchyType.ASPECT_MAP: {
+        const aspectDef = aspectDefs.get(name);
+        if (!aspectDef) {
+          throw new Error(`No AspectDef is stored for AspectMap hierarchy '${name}'.`);
+        }
+        const entityIds = await this.entityIds(
+          "SELECT entity_id FROM hierarchy_aspect_map WHERE catalog_id = ? AND hierarchy_name = ? ORDER BY map_order",
+          catalogId,
+          name,
+        );
+        if (options.lazy) {
+          const entities = entityIds.map((id) => factory.getOrRegisterNewEntity(id));
+          return this.newLazyAspectMap(catalog, aspectDef, version, factory, entities, options);
+        }
+        const aspectMap = new AspectMapHierarchyImpl(catalog, aspectDef, version);
+        for (const aspect of await this.loadAspectBatch(catalogId, aspectDef, entityIds, factory)) {
+          aspectMap.set(aspect.entity(), aspect);
+        }
+        return aspectMap;
+      }
+      default:
+        throw new Error(`Unknown hierarchy type '${row.hierarchy_type}' for hierarchy '${name}'.`);
+    }
+  }
+
+  private async entityIds(sql: string, catalogId: string, hierarchyName: string): Promise<string[]> {
+    const rows = await this._connection.query<{ entity_id: string }>(sql, [catalogId, hierarchyName]);
+    return rows.map((row) => row.entity_id);
+  }
+
+  private async loadTreeRoot(catalogId: string, name: string, factory: CheapFactory): Promise<EntityTreeNode> {
+    return (await this.loadTreeSubtree(catalogId, name, [], factory)) ?? new EntityTreeNodeImpl(null);
+  }
+
+  /**
+   * Returns the node ID of the stored tree node at a path, or null if there is none.
+   */
+  private async treeNodeId(catalogId: string, hierarchyName: string, path: readonly string[]): Promise<string | null> {
+    let rows = await this._connection.query<{ node_id: string }>(
+      `SELECT node_id FROM hierarchy_entity_tree_node
+       WHERE catalog_id = ? AND hierarchy_name = ? AND parent_node_id IS NULL`,
+      [catalogId, hierarchyName],
+    );
+    for (const key of path) {
+      if (rows.length === 0) {
+        return null;
+      }
+      rows = await this._connection.query<{ node_id: string }>(
+        "SELECT node_id FROM hierarchy_entity_tree_node WHERE parent_node_id = ? AND node_key = ?",
+        [rows[0].node_id, key],
+      );
+    }
+    return rows[0]?.node_id ?? null;
+  }
+
+  /**
+   * Builds a tree from node rows in which every parent comes before its
+   * children. The first row is the root.
+   */
+  private buildTree(name: string, rows: TreeNodeRow[], factory: CheapFactory): EntityTreeNode {
+    const nodes = new Map<string, EntityTreeNodeImpl>();
+    let root: EntityTreeNodeImpl | null = null;
+    for (const row of rows) {
+      const entity = row.entity_id === null ? null : factory.getOrRegisterNewEntity(row.entity_id);
+      if (root === null) {
+        root = new EntityTreeNodeImpl(entity);
+        nodes.set(row.node_id, root);
+        continue;
+      }
+      const parent = nodes.get(row.parent_node_id!);
+      if (!parent) {
+        throw new Error(`Tree node ${row.node_id} of hierarchy '${name}' has no stored parent.`);
+      }
+      const node = new EntityTreeNodeImpl(entity, parent);
+      parent.set(row.node_key, node);
+      nodes.set(row.node_id, node);
+    }
+    return root ?? new EntityTreeNodeImpl(null);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * SQL dialect, value codec and connection interfaces shared by the SQL backends
+ */
+
+import { PropertyDef, PropertyType } from "@cheap-ts/core";
+import { MigrationConnection } from "../migration/index.js";
+
+/**
+ * What a SQL backend's flavour of SQL needs to tell the shared persistence
+ * code: how to quote identifiers and write placeholders, how to upsert a row,
+ * which column types hold ids and property values, and how DDL interacts with
+ * transactions.
+ *
+ * Everything else - the schema's table and column names, and the statements
+ * that read and write catalogs - is shared by every dialect.
+ */
+export interface SqlDialect {
+  /** The name of the database, as used in error messages. */
+  readonly name: string;
+
+  /** The longest table or column name the database accepts. */
+  readonly maxIdentifierLength: number;
+
+  /**
+   * Whether DDL statements can run inside a transaction. Databases that commit
+   * the running transaction before each DDL statement, such as MariaDB, must
+   * create tables before the transaction that writes their rows begins.
+   */
+  readonly transactionalDdl: boolean;
+
+  /** The column type of the catalog and entity ids of aspect tables. */
+  readonly idColumnType: string;
+
+  /**
+   * Quotes a table or column name, so that names need not avoid keywords.
+   *
+   * @param identifier the name
+   * @returns the quoted name
+   */
+  quoteIdentifier(identifier: string): string;
+
+  /**
+   * Rewrites the "?" placeholders of a statement to the database's own
+   * placeholder syntax. Question marks inside string literals are left alone.
+   *
+   * @param sql the statement, with "?" placeholders
+   * @returns the statement as the database expects it
+   */
+  placeholders(sql: string): string;
+
+  /**
+   * Returns a statement that inserts a row, or updates the other columns of
+   * the row with the same key if there is one. Its "?" placeholders are the
+   * key columns followed by the other columns, in the given order.
+   *
+   * @param table the table name, quoted if need be
+   * @param keyColumns the columns of the table's primary key
+   * @param columns the other columns to write
+   * @returns the statement
+   */
+  upsert(table: string, keyColumns: readonly string[], columns: readonly string[]): string;
+
+  /**
+   * Returns the column type that holds the values of a property in an aspect
+   * table.
+   *
+   * @param propDef the PropertyDef
+   */
+  columnType(propDef: PropertyDef): string;
+}
+
+/**
+ * Converts property values to and from the columns of a dialect's aspect
+ * tables, and values and PropertyDef default values to and from their stored
+ * text form, which the generic property_value table holds.
+ */
+export interface SqlValueCodec {
+  /**
+   * Converts a property value to the value bound to its column.
+   *
+   * @param propDef the PropertyDef
+   * @param value the value, which may be null
+   * @returns the column value
+   */
+  toNative(propDef: PropertyDef, value: unknown): unknown;
+
+  /**
+   * Converts a column value back to a property value, coerced to the
+   * property's JS type.
+   *
+   * @param propDef the PropertyDef
+   * @param stored the column value
+   * @returns the value, or null if the column is null
+   */
+  fromNative(propDef: PropertyDef, stored: unknown): unknown;
+
+  /**
+   * Converts a single (non-collection) non-null value to its text form.
+   *
+   * @param type the property type
+   * @param value the value
+   * @returns the text form of the value
+   */
+  toText(type: PropertyType, value: unknown): string;
+
+  /**
+   * Converts the text form of a single (non-collection) value back to a value.
+   * The result still needs to be coerced to the property's JS type.
+   *
+   * @param type the property type
+   * @param text the text form
+   * @returns the value
+   */
+  fromText(type: PropertyType, text: string): unknown;
+
+  /**
+   * Coerces a decoded value to the JS type of a PropertyDef.
+   *
+   * @param propDef the PropertyDef
+   * @param value the decoded value
+   * @returns the coerced value
+   */
+  coerce(propDef: PropertyDef, value: unknown): unknown;
+
+  /**
+   * Converts the default value of a PropertyDef to text.
+   *
+   * @param propDef the PropertyDef
+   * @returns the text form of the default, or null if it is null
+   */
+  defaultToText(propDef: PropertyDef): string | null;
+
+  /**
+   * Converts the text form of a default value back to a value of a PropertyDef.
+   *
+   * @param propDef a nullable PropertyDef with the type and multiplicity of the default
+   * @param text the text form, or null
+   * @returns the default value, coerced to the property's JS type
+   */
+  defaultFromText(propDef: PropertyDef, text: string | null): unknown;
+}
+
+/**
+ * The database access the shared persistence code needs, on top of what a
+ * SchemaMigrator needs. Each SQL backend provides an implementation on top of
+ * its driver.
+ *
+ * Statements are written with "?" placeholders, which the connection
+ * translates with its dialect. A transaction runs on a single underlying
+ * connection, and every statement executed through this connection while it
+ * runs is part of it; transactions begun while one is running join it.
+ */
+export interface SqlConnection extends MigrationConnection {
+  /**
+   * Execute a single statement that returns no rows.
+   *
+   * @param sql the statement
+   * @param params the values of the statement's "?" placeholders
+   * @returns the number of rows the statement affected
+   */
+  update(sql: string, params?: readonly unknown[]): Promise<number>;
+
+  /**
+   * Returns whether a transaction is running on this connection.
+   */
+  inTransaction(): boolean;
+}
@@ -0,0 +1,446 @@
+/**
+ * SqlLazyAspectMapHierarchy implementation
+ */
+
+import {
+  Aspect,
+  AspectBaseImpl,
+  AspectChangeListener,
+  AspectDef,
+  AspectMapHierarchyImpl,
+  Catalog,
+  CheapFactory,
+  Entity,
+} from "@cheap-ts/core";
+import type { SqlDao } from "./SqlDao.js";
+
+/**
+ * Options for lazily loaded aspect maps.
+ */
+export interface SqlLazyAspectOptions {
+  /** The maximum number of loaded aspects kept in memory per hierarchy; defaults to 1000. */
+  cacheSize?: number;
+
+  /** The number of aspects read per query by pages() and prefetch(); defaults to 500. */
+  pageSize?: number;
+}
+
+/**
+ * The local changes to a lazily loaded aspect map that have not been saved.
+ */
+export interface PendingAspectChanges {
+  /** Whether the map was cleared, so all stored aspects must be deleted first. */
+  cleared: boolean;
+
+  /** The global IDs of entities whose stored aspects were deleted. */
+  deletedEntityIds: string[];
+
+  /** The aspects that were added or replaced. */
+  changedAspects: Aspect[];
+}
+
+const DEFAULT_CACHE_SIZE = 1000;
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * An AspectMapHierarchy whose aspects stay in a SQL database until they are
+ * loaded with prefetch() or pages().
+ *
+ * Database connectors are asynchronous, while maps are read synchronously, so
+ * only the entities of the stored aspects are read up front, in map order:
+ * size, has() and keys() never touch the database. get() returns an aspect
+ * once it is loaded, and throws for a stored aspect that is not; iterating
+ * the aspects does the same, so pages() iterates them asynchronously instead.
+ * Loaded aspects are kept in a bounded LRU cache, so prefetch no more aspects
+ * at a time than the cache holds.
+ *
+ * Backends whose driver can read synchronously override loadSync(), so that
+ * get() loads a missing aspect on demand and iterating loads the aspects a
+ * page at a time, without caching them.
+ *
+ * Aspects added with set() or add() are held in memory until the catalog is
+ * saved, as are deletions. A loaded aspect that is changed in place is held
+ * in memory as well, so the change is not lost when it leaves the cache.
+ * Changes are also reported to the catalog's ChangeTracker, if it has one;
+ * clearing the map is reported as a change to the whole hierarchy.
+ */
+export class SqlLazyAspectMapHierarchy extends AspectMapHierarchyImpl {
+  protected readonly _dao: SqlDao;
+  protected readonly _factory: CheapFactory;
+  private readonly _cacheSize: number;
+  private readonly _pageSize: number;
+
+  /** The entities of stored aspects that were not deleted locally, in map order, by entity ID. */
+  private readonly _stored = new Map<string, Entity>();
+
+  /** Loaded aspects by entity ID, least recently used first. */
+  private readonly _cache = new Map<string, Aspect>();
+
+  /** Aspects added or replaced since the last save, by entity ID. */
+  private readonly _changed = new Map<string, Aspect>();
+
+  /** Entity IDs of stored aspects deleted since the last save. */
+  private readonly _deleted = new Set<string>();
+
+  /** Whether the map was cleared since the last save. */
+  private _cleared = false;
+
+  /** Holds loaded aspects that are changed in place until they are saved. */
+  private readonly _pinListener: AspectChangeListener = (aspect) => {
+    const entityId = aspect.entity().globalId();
+    this._cache.delete(entityId);
+    this._changed.set(entityId, aspect);
+  };
+
+  /**
+   * Creates a new SqlLazyAspectMapHierarchy and adds it to the catalog.
+   *
+   * @param catalog the catalog containing this hierarchy; its global ID identifies the stored aspects
+   * @param aspectDef the aspect definition for aspects in this hierarchy
+   * @param version the version number of this hierarchy
+   * @param dao the DAO that reads the stored aspects
+   * @param factory the factory used to create loaded aspects and resolve their entities
+   * @param storedEntities the entities of the stored aspects, in map order
+   * @param options the cache and page sizes
+   */
+  constructor(
+    catalog: Catalog,
+    aspectDef: AspectDef,
+    version: number,
+    dao: SqlDao,
+    factory: CheapFactory,
+    storedEntities: Iterable<Entity>,
+    options: SqlLazyAspectOptions = {},
+  ) {
+    super(catalog, aspectDef, version);
+    this._dao = dao;
+    this._factory = factory;
+    this._cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+    this._pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(this._cacheSize) || this._cacheSize < 0) {
+      throw new Error(`Invalid aspect cache size ${this._cacheSize}.`);
+    }
+    if (!Number.isInteger(this._pageSize) || this._pageSize <= 0) {
+      throw new Error(`Invalid aspect page size ${this._pageSize}.`);
+    }
+    for (const entity of storedEntities) {
+      this._stored.set(entity.globalId(), entity);
+    }
+  }
+
+  /**
+   * Returns whether this hierarchy reads its aspects through the given DAO.
+   */
+  isStoredIn(dao: SqlDao): boolean {
+    return this._dao === dao;
+  }
+
+  /**
+   * Returns the number of loaded aspects currently held in the cache.
+   */
+  cachedCount(): number {
+    return this._cache.size;
+  }
+
+  /**
+   * Returns whether the aspect of an entity can be read without loading it:
+   * it is cached, changed locally, or not stored.
+   *
+   * @param entity the entity
+   */
+  isLoaded(entity: Entity): boolean {
+    const entityId = entity.globalId();
+    return this._changed.has(entityId) || this._cache.has(entityId) || !this._stored.has(entityId);
+  }
+
+  /**
+   * Loads the stored aspects of some entities into the cache, so that get()
+   * returns them. Entities without a stored aspect, or whose aspect is
+   * already loaded, are skipped.
+   *
+   * @param entities the entities whose aspects to load
+   */
+  async prefetch(entities: Iterable<Entity>): Promise<void> {
+    const entityIds = Array.from(entities)
+      .filter((entity) => !this.isLoaded(entity))
+      .map((entity) => entity.globalId());
+    for (let start = 0; start < entityIds.length; start += this._pageSize) {
+      for (const aspect of await this.load(entityIds.slice(start, start + this._pageSize))) {
+        this.cache(aspect.entity().globalId(), aspect);
+      }
+    }
+  }
+
+  /**
+   * Iterates the aspects of this map in map order, a page at a time, loading
+   * each page that is not in memory with a single query. Loaded aspects are
+   * cached, so get() returns those of the current page. Aspects added since
+   * the last save come last.
+   */
+  async *pages(): AsyncGenerator<Aspect[]> {
+    const entityIds = Array.from(this._stored.keys());
+    for (let start = 0; start < entityIds.length; start += this._pageSize) {
+      const pageIds = entityIds.slice(start, start + this._pageSize);
+      const loaded = new Map<string, Aspect>();
+      const unloaded = pageIds.filter((entityId) => !this._changed.has(entityId) && !this._cache.has(entityId));
+      for (const aspect of unloaded.length > 0 ? await this.load(unloaded) : []) {
+        loaded.set(aspect.entity().globalId(), aspect);
+        this.cache(aspect.entity().globalId(), aspect);
+      }
+      const page: Aspect[] = [];
+      for (const entityId of pageIds) {
+        // Entries deleted while the caller handled earlier pages are skipped
+        const aspect = this._changed.get(entityId) ?? this._cache.get(entityId) ?? loaded.get(entityId);
+        if (aspect && this._stored.has(entityId)) {
+          page.push(aspect);
+        }
+      }
+      if (page.length > 0) {
+        yield page;
+      }
+    }
+    const added = Array.from(this._changed.entries())
+      .filter(([entityId]) => !this._stored.has(entityId))
+      .map(([, aspect]) => aspect);
+    if (added.length > 0) {
+      yield added;
+    }
+  }
+
+  /**
+   * Returns the local changes that have not been saved.
+   */
+  pendingChanges(): PendingAspectChanges {
+    return {
+      cleared: this._cleared,
+      deletedEntityIds: Array.from(this._deleted),
+      changedAspects: Array.from(this._changed.values()),
+    };
+  }
+
+  /**
+   * Records that the pending changes have been saved. Changed aspects move
+   * into the cache, and added ones after the stored ones.
+   */
+  markSaved(): void {
+    for (const [entityId, aspect] of this._changed) {
+      this._stored.set(entityId, aspect.entity());
+      this.cache(entityId, aspect);
+    }
+    this._changed.clear();
+    this._deleted.clear();
+    this._cleared = false;
+  }
+
+  override get size(): number {
+    let size = this._stored.size;
+    for (const entityId of this._changed.keys()) {
+      if (!this._stored.has(entityId)) {
+        size++;
+      }
+    }
+    return size;
+  }
+
+  /**
+   * Returns the aspect of an entity, or undefined if it has none.
+   *
+   * @throws Error if the entity has a stored aspect that is not loaded
+   */
+  override get(entity: Entity): Aspect | undefined {
+    const entityId = entity.globalId();
+    const changed = this._changed.get(entityId);
+    if (changed) {
+      return changed;
+    }
+    if (!this._stored.has(entityId)) {
+      return undefined;
+    }
+    let aspect = this._cache.get(entityId);
+    if (!aspect) {
+      aspect = this.loadNow([entityId])?.[0];
+      if (!aspect) {
+        throw new Error(`The aspect of entity ${entityId} in '${this.name()}' is not loaded; prefetch() it first.`);
+      }
+    }
+    // Moves a cached entry to the most recently used end
+    this.cache(entityId, aspect);
+    return aspect;
+  }
+
+  override has(entity: Entity): boolean {
+    const entityId = entity.globalId();
+    return this._changed.has(entityId) || this._stored.has(entityId);
+  }
+
+  override set(entity: Entity, aspect: Aspect): this {
+    const entityId = entity.globalId();
+    const previous = this._changed.get(entityId) ?? this._cache.get(entityId);
+    if (previous === aspect) {
+      return this;
+    }
+    const replaced = previous !== undefined || this._stored.has(entityId);
+    if (previous) {
+      this.unwatchAspect(previous);
+    }
+    this._cache.delete(entityId);
+    this._changed.set(entityId, aspect);
+    this.watchAspect(aspect);
+    this.changeTracker()?.aspectAdded(this.name(), entityId, aspect, replaced);
+    return this;
+  }
+
+  override delete(entity: Entity): boolean {
+    const entityId = entity.globalId();
+    const previous = this._changed.get(entityId) ?? this._cache.get(entityId);
+    if (previous) {
+      this.unwatchAspect(previous);
+    }
+    const wasChanged = this._changed.delete(entityId);
+    this._cache.delete(entityId);
+    const stored = this._stored.delete(entityId);
+    if (stored) {
+      this._deleted.add(entityId);
+    }
+    if (!stored && !wasChanged) {
+      return false;
+    }
+    this.changeTracker()?.aspectRemoved(this.name(), entityId);
+    return true;
+  }
+
+  override clear(): void {
+    for (const aspect of [...this._cache.values(), ...this._changed.values()]) {
+      this.unwatchAspect(aspect);
+    }
+    this._stored.clear();
+    this._cache.clear();
+    this._changed.clear();
+    this._deleted.clear();
+    this._cleared = true;
+    this.changeTracker()?.hierarchyChanged(this.name());
+  }
+
+  /**
+   * Iterates the entries of this map in map order.
+   *
+   * @throws Error on reaching a stored aspect that is not loaded
+   */
+  override *entries(): MapIterator<[Entity, Aspect]> {
+    const entityIds = Array.from(this._stored.keys());
+    for (let start = 0; start < entityIds.length; start += this._pageSize) {
+      const pageIds = entityIds.slice(start, start + this._pageSize);
+      const unloaded = pageIds.filter((entityId) => !this._changed.has(entityId) && !this._cache.has(entityId));
+      // Aspects loaded while iterating are not cached, so only one page is held in memory
+      const loaded = new Map(
+        (unloaded.length > 0 ? (this.loadNow(unloaded) ?? []) : []).map((a) => [a.entity().globalId(), a]),
+      );
+      for (const entityId of pageIds) {
+        // Entries deleted while the caller handled earlier ones are skipped
+        const entity = this._stored.get(entityId);
+        if (!entity) {
+          continue;
+        }
+        const aspect = this._changed.get(entityId) ?? this._cache.get(entityId) ?? loaded.get(entityId);
+        if (!aspect) {
+          throw new Error(`Not every aspect in '${this.name()}' is loaded; iterate pages() instead.`);
+        }
+        yield [entity, aspect];
+      }
+    }
+    for (const [entityId, aspect] of this._changed) {
+      if (!this._stored.has(entityId)) {
+        yield [aspect.entity(), aspect];
+      }
+    }
+  }
+
+  override [Symbol.iterator](): MapIterator<[Entity, Aspect]> {
+    return this.entries();
+  }
+
+  override *keys(): MapIterator<Entity> {
+    yield* this._stored.values();
+    for (const [entityId, aspect] of this._changed) {
+      if (!this._stored.has(entityId)) {
+        yield aspect.entity();
+      }
+    }
+  }
+
+  override *values(): MapIterator<Aspect> {
+    for (const [, aspect] of this.entries()) {
+      yield aspect;
+    }
+  }
+
+  override forEach(callbackfn: (value: Aspect, key: Entity, map: Map<Entity, Aspect>) => void, thisArg?: any): void {
+    for (const [entity, aspect] of this.entries()) {
+      callbackfn.call(thisArg, aspect, entity, this);
+    }
+  }
+
+  protected override watchAspect(aspect: Aspect): void {
+    super.watchAspect(aspect);
+    if (aspect instanceof AspectBaseImpl) {
+      aspect.addChangeListener(this._pinListener);
+    }
+  }
+
+  protected override unwatchAspect(aspect: Aspect): void {
+    super.unwatchAspect(aspect);
+    if (aspect instanceof AspectBaseImpl) {
+      aspect.removeChangeListener(this._pinListener);
+    }
+  }
+
+  /**
+   * Reads the stored aspects of some entities synchronously, in the given
+   * order, for backends whose driver can. Returns null if it cannot, which is
+   * the default; get() and iterating then throw for aspects that are not
+   * loaded.
+   *
+   * @param _entityIds the global IDs of entities with a stored aspect
+   * @returns the aspects, or null
+   */
+  protected loadSync(_entityIds: string[]): Aspect[] | null {
+    return null;
+  }
+
+  /**
+   * Reads the stored aspects of some entities synchronously, if the backend
+   * can, and watches them for changes.
+   */
+  private loadNow(entityIds: string[]): Aspect[] | null {
+    const aspects = this.loadSync(entityIds);
+    for (const aspect of aspects ?? []) {
+      this.watchAspect(aspect);
+    }
+    return aspects;
+  }
+
+  /**
+   * Reads the stored aspects of some entities, and watches them for changes.
+   */
+  private async load(entityIds: string[]): Promise<Aspect[]> {
+    const aspects = await this._dao.loadAspectBatch(
+      this.catalog().globalId(),
+      this.aspectDef(),
+      entityIds,
+      this._factory,
+    );
+    for (const aspect of aspects) {
+      this.watchAspect(aspect);
+    }
+    return aspects;
+  }
+
+  private cache(entityId: string, aspect: Aspect): void {
+    this._cache.delete(entityId);
+    this._cache.set(entityId, aspect);
+    while (this._cache.size > this._cacheSize) {
+      // Maps iterate in insertion order, so the first key is the least recently used
+      this._cache.delete(this._cache.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * SqlPropertyValueStore implementation
+ */
+
+import { Aspect, AspectDef, PropertyDef, PropertyType } from "@cheap-ts/core";
+import { SqlAspectStore } from "./SqlAspectStore.js";
+import { SqlConnection, SqlValueCodec } from "./SqlDialect.js";
+
+/**
+ * The value_index of the row that records the element count of a multivalued
+ * property, so that null and empty arrays survive a round trip. Its value_text
+ * is the count, or null if the property value is null.
+ */
+const COUNT_INDEX = -1;
+
+/** The most entity IDs listed in the IN clause of one read statement. */
+const READ_BATCH_SIZE = 500;
+
+/**
+ * A row of the property_value table, as readRows() expects it.
+ */
+export interface PropertyValueRow {
+  entity_id: string;
+  property_name: string;
+  value_index: number | bigint | string;
+  value_text: string | null;
+  value_binary: Uint8Array | null;
+}
+
+/**
+ * Stores the aspects of one AspectDef in the generic aspect and
+ * property_value tables, which every AspectDef without a table of its own
+ * shares. The layout is the same in every SQL backend.
+ *
+ * Each aspect has a row in the aspect table, with the name of its aspect map.
+ * Each property it contains has rows in property_value: a single value at
+ * value_index 0, or the elements of a multivalued property at 0, 1, ... after
+ * a row at -1 that records their count. BLOB values are stored as bytes in
+ * value_binary, and every other value as its text form in value_text (see
+ * SqlValueCodec.toText()).
+ */
+export class SqlPropertyValueStore implements SqlAspectStore {
+  private readonly _connection: SqlConnection;
+  private readonly _codec: SqlValueCodec;
+  private readonly _aspectDef: AspectDef;
+
+  /**
+   * Creates a new SqlPropertyValueStore.
+   *
+   * @param connection the connection to the database
+   * @param codec the codec that converts property values to text
+   * @param aspectDef the AspectDef whose aspects are stored
+   */
+  constructor(connection: SqlConnection, codec: SqlValueCodec, aspectDef: AspectDef) {
+    this._connection = connection;
+    this._codec = codec;
+    this._aspectDef = aspectDef;
+  }
+
+  /**
+   * Returns the AspectDef whose aspects are stored.
+   */
+  aspectDef(): AspectDef {
+    return this._aspectDef;
+  }
+
+  /**
+   * Inserts the aspect row and property value rows of an aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   */
+  async insert(catalogId: string, aspect: Aspect): Promise<void> {
+    await this._connection.execute(
+      "INSERT INTO aspect (entity_id, aspect_def_id, catalog_id, hierarchy_name) VALUES (?, ?, ?, ?)",
+      [aspect.entity().globalId(), this._aspectDef.globalId(), catalogId, this._aspectDef.name()],
+    );
+    for (const propDef of this._aspectDef.propertyDefs()) {
+      if (aspect.contains(propDef.name())) {
+        await this.insertValues(catalogId, aspect, propDef);
+      }
+    }
+  }
+
+  /**
+   * Rewrites the property value rows of some properties of a stored aspect.
+   *
+   * @param catalogId the global ID of the catalog containing the aspect
+   * @param aspect the aspect
+   * @param propNames the names of the properties to rewrite; names not in the AspectDef are ignored
+   */
+  async update(catalogId: string, aspect: Aspect, propNames: Iterable<string>): Promise<void> {
+    for (const propName of propNames) {
+      const propDef = this._aspectDef.propertyDef(propName);
+      if (!propDef) {
+        continue;
+      }
+      await this._connection.execute(
+        `DELETE FROM property_value
+         WHERE entity_id = ? AND aspect_def_id = ? AND catalog_id = ? AND property_name = ?`,
+        [aspect.entity().globalId(), this._aspectDef.globalId(), catalogId, propName],
+      );
+      if (aspect.contains(propName)) {
+        await this.insertValues(catalogId, aspect, propDef);
+      }
+    }
+  }
+
+  /**
+   * Deletes the aspect row and property value rows of one entity.
+   *
+   * @param catalogId the global ID of the catalog
+   * @param entityId the global ID of the entity
+   */
+  async delete(catalogId: string, entityId: string): Promise<void> {
+    const params = [entityId, this._aspectDef.globalId(), catalogId];
+    await this._connection.execute(
+      "DELETE FROM property_value WHERE entity_id = ? AND aspect_def_id = ? AND catalog_id = ?",
+      params,
+    );
+    await this._connection.execute(
+      "DELETE FROM aspect WHERE entity_id = ? AND aspect_def_id = ? AND catalog_id = ?",
+      params,
+    );
+  }
+
+  /**
+   * Deletes every aspect of the AspectDef stored for a catalog.
+   *
+   * @param catalogId the global ID of the catalog
+   */
+  async deleteAll(catalogId: string): Promise<void> {
+    const params = [catalogId, this._aspectDef.globalId()];
+    await this._connection.execute("DELETE FROM property_value WHERE catalog_id = ? AND aspect_def_id = ?", params);
+    await this._connection.execute("DELETE FROM aspect WHERE catalog_id = ? AND aspect_def_id = ?", params);
+  }
+
+  /**
+   * Writes the stored property values of each aspect into it. Aspects that
+   * are not stored are left unchanged.
+   *
+   * @param catalogId the global ID of the catalog containing the aspects
+   * @param aspects the aspects to fill, whose entities identify their rows
+   */
+  async readInto(catalogId: string, aspects: Aspect[]): Promise<void> {
+    const rows: PropertyValueRow[] = [];
+    for (let start = 0; start < aspects.length; start += READ_BATCH_SIZE) {
+      const entityIds = aspects.slice(start, start + READ_BATCH_SIZE).map((aspect) => aspect.entity().globalId());
+      rows.push(
+        ...(await this._connection.query<PropertyValueRow>(
+          `SELECT entity_id, property_name, value_index, value_text, value_binary FROM property_value
+           WHERE catalog_id = ? AND aspect_def_id = ? AND entity_id IN (${entityIds.map(() => "?").join(", ")})
+           ORDER BY entity_id, property_name, value_index`,
+          [catalogId, this._aspectDef.globalId(), ...entityIds],
+        )),
+      );
+    }
+
+    this.readRows(aspects, rows);
+  }
+
+  /**
+   * Writes the values of property value rows into the aspects of their
+   * entities. Backends that read the rows themselves, such as synchronously,
+   * use this to decode them.
+   *
+   * @param aspects the aspects to fill, whose entities identify their rows
+   * @param rows the rows of the aspects, ordered by property name and value_index
+   */
+  protected readRows(aspects: Aspect[], rows: PropertyValueRow[]): void {
+    const rowsByEntity = new Map<string, PropertyValueRow[]>();
+    for (const row of rows) {
+      const entityRows = rowsByEntity.get(row.entity_id) ?? [];
+      entityRows.push(row);
+      rowsByEntity.set(row.entity_id, entityRows);
+    }
+    for (const aspect of aspects) {
+      this.readValues(aspect, rowsByEntity.get(aspect.entity().globalId()) ?? []);
+    }
+  }
+
+  /**
+   * Inserts the property value rows of one property of an aspect.
+   */
+  private async insertValues(catalogId: string, aspect: Aspect, propDef: PropertyDef): Promise<void> {
+    const key = [aspect.entity().globalId(), this._aspectDef.globalId(), catalogId, propDef.name()];
+    const insertValue = (index: number, valueText: string | null, valueBinary: Buffer | null) =>
+      this._connection.execute(
+        `INSERT INTO property_value
+           (entity_id, aspect_def_id, catalog_id, property_name, value_index, value_text, value_binary)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [...key, index, valueText, valueBinary],
+      );
+    const writeValue = async (index: number, element: unknown) => {
+      if (element === null || element === undefined) {
+        await insertValue(index, null, null);
+      } else if (propDef.type() === PropertyType.BLOB) {
+        // The text form of a BLOB is hex
+        await insertValue(index, null, Buffer.from(this._codec.toText(PropertyType.BLOB, element), "hex"));
+      } else {
+        await insertValue(index, this._codec.toText(propDef.type(), element), null);
+      }
+    };
+
+    const value = aspect.unsafeReadObj(propDef.name());
+    if (propDef.isMultivalued()) {
+      const elements = value === null || value === undefined ? null : (value as unknown[]);
+      await insertValue(COUNT_INDEX, elements === null ? null : String(elements.length), null);
+      for (let i = 0; i < (elements?.length ?? 0); i++) {
+        await writeValue(i, elements![i]);
+      }
+    } else {
+      await writeValue(0, value);
+    }
+  }
+
+  /**
+   * Writes the values of an aspect's property value rows, ordered by property
+   * name and value_index, into it.
+   */
+  private readValues(aspect: Aspect, rows: PropertyValueRow[]): void {
+    const rowsByProperty = new Map<string, PropertyValueRow[]>();
+    for (const row of rows) {
+      const propRows = rowsByProperty.get(row.property_name) ?? [];
+      propRows.push(row);
+      rowsByProperty.set(row.property_name, propRows);
+    }
+    for (const [name, propRows] of rowsByProperty) {
+      const propDef = this._aspectDef.propertyDef(name);
+      if (!propDef) {
+        throw new Error(`AspectDef '${this._aspectDef.name()}' does not contain stored property '${name}'.`);
+      }
+      const decode = (row: PropertyValueRow): unknown => {
+        if (row.value_binary !== null) {
+          return new Uint8Array(row.value_binary);
+        }
+        return row.value_text === null ? null : this._codec.fromText(propDef.type(), row.value_text);
+      };
+      let value: unknown;
+      if (propDef.isMultivalued()) {
+        // Rows are ordered by value_index, so the count row, if any, comes first
+        const hasCount = Number(propRows[0].value_index) === COUNT_INDEX;
+        value =
+          hasCount && propRows[0].value_text === null ? null : (hasCount ? propRows.slice(1) : propRows).map(decode);
+      } else {
+        value = decode(propRows[0]);
+      }
+      aspect.unsafeWrite(name, this._codec.coerce(propDef, value));
+    }
+  }
+}
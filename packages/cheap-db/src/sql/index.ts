@@ -0,0 +1,11 @@
+/**
+ * Shared SQL persistence for the CHEAP model: dialects, aspect tables and catalogs
+ */
+
+export * from "./SqlDialect.js";
+export * from "./SqlAspectStore.js";
+export * from "./SqlAspectTable.js";
+export * from "./SqlPropertyValueStore.js";
+export * from "./SqlLazyAspectMapHierarchy.js";
+export * from "./SqlDao.js";
+export * from "./SqlCatalogBase.js";
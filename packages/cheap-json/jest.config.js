@@ -3,6 +3,7 @@ export default {
   testEnvironment: 'node',
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
+    '^@cheap-ts/core$': '<rootDir>/../cheap-core/src/index.ts',
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   transform: {
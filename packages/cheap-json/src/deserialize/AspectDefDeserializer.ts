@@ -0,0 +1,60 @@
+/**
+ * AspectDefDeserializer implementation
+ */
+
+import { AspectDef, CheapFactory, FullAspectDefImpl, PropertyDef } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+import { PropertyDefDeserializer } from "./PropertyDefDeserializer.js";
+
+/**
+ * Deserializes AspectDefs as FullAspectDefImpl instances, preserving all of the
+ * serialized flags.
+ *
+ * Each AspectDef is registered with the factory by name. If the factory already
+ * holds an identical AspectDef (per fullyEquals), that instance is returned instead.
+ */
+export class AspectDefDeserializer extends JsonDeserializerBase<AspectDef> {
+  private readonly _propertyDefDeserializer: PropertyDefDeserializer;
+
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+    this._propertyDefDeserializer = this.nest(new PropertyDefDeserializer(factory, options));
+  }
+
+  fromJson(json: JsonValue): AspectDef {
+    const obj = this.asObject(json, "aspect def");
+    const name = this.requireString(obj, "name");
+    const context = this.context();
+    const propertyDefs = new Map<string, PropertyDef>();
+    context.at("propertyDefs", () =>
+      this.asArray(obj.propertyDefs ?? [], `propertyDefs of AspectDef '${name}'`).forEach((propJson, i) =>
+        context.at(i, () => {
+          const propDef = this._propertyDefDeserializer.fromJson(propJson);
+          if (propertyDefs.has(propDef.name())) {
+            throw new Error(`Duplicate property '${propDef.name()}' in AspectDef '${name}'.`);
+          }
+          propertyDefs.set(propDef.name(), propDef);
+        }),
+      ),
+    );
+    const aspectDef = new FullAspectDefImpl(
+      name,
+      this.requireString(obj, "globalId"),
+      propertyDefs,
+      this.optionalBoolean(obj, "isReadable", true),
+      this.optionalBoolean(obj, "isWritable", true),
+      this.optionalBoolean(obj, "canAddProperties", false),
+      this.optionalBoolean(obj, "canRemoveProperties", false),
+    );
+
+    this.verifyHash(obj, aspectDef.hash(), `AspectDef '${name}'`);
+
+    const existing = this._factory.getAspectDef(name);
+    if (existing && existing.fullyEquals(aspectDef)) {
+      return existing;
+    }
+    this._factory.registerAspectDef(aspectDef);
+    return aspectDef;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * AspectDeserializer implementation
+ */
+
+import { Aspect, AspectDef, CheapFactory, Entity } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+import { DeserializationProblemKind } from "./DeserializationContext.js";
+
+/**
+ * Deserializes standalone Aspects. The AspectDef named in the JSON must already
+ * be registered with the factory, e.g. by an AspectDefDeserializer sharing it.
+ *
+ * In lenient mode, properties that are not in the AspectDef or whose values
+ * cannot be converted to their type are left out of the aspect.
+ */
+export class AspectDeserializer extends JsonDeserializerBase<Aspect> {
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+  }
+
+  fromJson(json: JsonValue): Aspect {
+    const obj = this.asObject(json, "aspect");
+    const context = this.context();
+    const defName = this.requireString(obj, "aspectDef");
+    const aspectDef = this._factory.getAspectDef(defName);
+    if (!aspectDef) {
+      return context.at("aspectDef", () =>
+        this.fail(DeserializationProblemKind.UNKNOWN_ASPECT_DEF, `Unknown AspectDef '${defName}'.`),
+      );
+    }
+    const entity = this._factory.getOrRegisterNewEntity(this.requireString(obj, "entityId"));
+    return context.at("properties", () => this.propertiesFromJson(entity, aspectDef, obj.properties ?? {}));
+  }
+
+  /**
+   * Creates an aspect from a JSON object of property values keyed by property
+   * name. Each value is decoded and coerced to the type of its PropertyDef;
+   * properties missing from the JSON are left unset.
+   *
+   * @param entity the entity the aspect belongs to
+   * @param aspectDef the definition of the aspect
+   * @param json the JSON object of property values
+   * @returns the new aspect
+   */
+  propertiesFromJson(entity: Entity, aspectDef: AspectDef, json: JsonValue): Aspect {
+    const properties = this.asObject(json, `properties of aspect '${aspectDef.name()}'`);
+    const context = this.context();
+    const aspect = this._factory.createObjectMapAspect(entity, aspectDef);
+    for (const [name, value] of Object.entries(properties)) {
+      context.skippable(name, () => {
+        const propDef = aspectDef.propertyDef(name);
+        if (!propDef) {
+          this.fail(
+            DeserializationProblemKind.UNKNOWN_PROPERTY,
+            `AspectDef '${aspectDef.name()}' does not contain property '${name}'.`,
+          );
+        }
+        const decoded = context.guard(DeserializationProblemKind.TYPE_MISMATCH, () =>
+          this._codec.decode(propDef, value),
+        );
+        aspect.unsafeWrite(name, decoded);
+      });
+    }
+    return aspect;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * CatalogDefDeserializer implementation
+ */
+
+import { CatalogDef, CatalogDefImpl, CheapFactory } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+import { AspectDefDeserializer } from "./AspectDefDeserializer.js";
+import { HierarchyDefDeserializer } from "./HierarchyDefDeserializer.js";
+
+/**
+ * Deserializes CatalogDefs, preserving the order of their AspectDefs and
+ * HierarchyDefs. The AspectDefs are registered with the factory.
+ *
+ * A CatalogDef is deserialized as a whole, so lenient mode does not skip any
+ * of its parts.
+ */
+export class CatalogDefDeserializer extends JsonDeserializerBase<CatalogDef> {
+  private readonly _aspectDefDeserializer: AspectDefDeserializer;
+  private readonly _hierarchyDefDeserializer: HierarchyDefDeserializer;
+
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+    this._aspectDefDeserializer = this.nest(new AspectDefDeserializer(factory, options));
+    this._hierarchyDefDeserializer = this.nest(new HierarchyDefDeserializer(factory, options));
+  }
+
+  fromJson(json: JsonValue): CatalogDef {
+    const obj = this.asObject(json, "catalog def");
+    const context = this.context();
+    const aspectDefs = context.at("aspectDefs", () =>
+      this.asArray(obj.aspectDefs ?? [], "aspectDefs").map((def, i) =>
+        context.at(i, () => this._aspectDefDeserializer.fromJson(def)),
+      ),
+    );
+    const hierarchyDefs = context.at("hierarchyDefs", () =>
+      this.asArray(obj.hierarchyDefs ?? [], "hierarchyDefs").map((def, i) =>
+        context.at(i, () => this._hierarchyDefDeserializer.fromJson(def)),
+      ),
+    );
+    const catalogDef = new CatalogDefImpl(hierarchyDefs, aspectDefs);
+    this.verifyHash(obj, catalogDef.hash(), "catalog def");
+    return catalogDef;
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Unit tests for CatalogDeserializer, HierarchyDeserializer, AspectDefDeserializer and AspectDeserializer
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  AspectDef,
+  AspectMapHierarchy,
+  AspectMapHierarchyImpl,
+  AspectObjectMapImpl,
+  CatalogImpl,
+  CatalogSpecies,
+  CheapFactory,
+  EntityDirectoryHierarchy,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchy,
+  EntityListHierarchyImpl,
+  EntitySetHierarchy,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+  FullAspectDefImpl,
+  HierarchyType,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { CatalogSerializer } from "../serialize/CatalogSerializer.js";
+import { AspectDefSerializer } from "../serialize/AspectDefSerializer.js";
+import { AspectSerializer } from "../serialize/AspectSerializer.js";
+import { CatalogDeserializer } from "./CatalogDeserializer.js";
+import { AspectDefDeserializer } from "./AspectDefDeserializer.js";
+import { AspectDeserializer } from "./AspectDeserializer.js";
+import { HierarchyDeserializer } from "./HierarchyDeserializer.js";
+import { DeserializationProblemKind } from "./DeserializationContext.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const UPSTREAM_ID = "10000000-0000-0000-0000-0000000000ff";
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+function allTypesAspectDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("int", PropertyType.Integer);
+  add("flt", PropertyType.Float);
+  add("bln", PropertyType.Boolean);
+  add("str", PropertyType.String);
+  add("txt", PropertyType.Text);
+  add("bgi", PropertyType.BigInteger);
+  add("bgf", PropertyType.BigDecimal);
+  add("dat", PropertyType.DateTime);
+  add("uri", PropertyType.URI);
+  add("uid", PropertyType.UUID);
+  add("clb", PropertyType.CLOB);
+  add("blb", PropertyType.BLOB);
+  add("tags", PropertyType.String, true);
+  propDefs.set(
+    "count",
+    new PropertyDefBuilder().setName("count").setType(PropertyType.BigInteger).setDefaultValue(5n).build(),
+  );
+  return new FullAspectDefImpl("allTypes", ASPECT_DEF_ID, propDefs, true, true, false, false);
+}
+
+function buildCatalog(): CatalogImpl {
+  const catalog = new CatalogImpl(CATALOG_ID, CatalogSpecies.CLONE, UPSTREAM_ID, 3);
+  catalog.setUri(new URL("https://example.com/catalogs/test"));
+  const e1 = new EntityImpl(ID1);
+  const e2 = new EntityImpl(ID2);
+  const e3 = new EntityImpl(ID3);
+
+  const aspectMap = catalog.extend(allTypesAspectDef());
+  const full = new AspectObjectMapImpl(e1, aspectMap.aspectDef());
+  full.write("int", 7);
+  full.write("flt", NaN);
+  full.write("bln", true);
+  full.write("str", "short");
+  full.write("txt", "long text");
+  full.write("bgi", 12345678901234567890123n);
+  full.write("bgf", "3.14159265358979323846");
+  full.write("dat", new Date("2025-06-01T12:00:00.000Z"));
+  full.write("uri", new URL("https://example.com/x"));
+  full.write("uid", "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  full.write("clb", "clob");
+  full.write("blb", new Uint8Array([1, 2, 3]));
+  full.write("tags", ["a", "b"]);
+  aspectMap.add(full);
+  const sparse = new AspectObjectMapImpl(e2, aspectMap.aspectDef());
+  sparse.write("str", null);
+  aspectMap.add(sparse);
+
+  const list = new EntityListHierarchyImpl(catalog, "list", 4);
+  list.push(e1, e2, e1);
+  new EntitySetHierarchyImpl(catalog, "set", [e2, e3], 1);
+  new EntityDirectoryHierarchyImpl(
+    catalog,
+    "dir",
+    [
+      ["first", e1],
+      ["third", e3],
+    ],
+    2,
+  );
+  const root = new EntityTreeNodeImpl(e1);
+  const folder = new EntityTreeNodeImpl(null, root);
+  root.set("folder", folder);
+  folder.set("leaf", new EntityTreeNodeImpl(e3, folder));
+  new EntityTreeHierarchyImpl(catalog, "tree", root, 5);
+  return catalog;
+}
+
+describe("CatalogDeserializer", () => {
+  let json: string;
+
+  beforeEach(() => {
+    json = new CatalogSerializer().serialize(buildCatalog());
+  });
+
+  it("should restore catalog metadata", () => {
+    const catalog = new CatalogDeserializer().deserialize(json);
+
+    expect(catalog).toBeInstanceOf(CatalogImpl);
+    expect(catalog.globalId()).toBe(CATALOG_ID);
+    expect(catalog.species()).toBe(CatalogSpecies.CLONE);
+    expect(catalog.upstream()).toBe(UPSTREAM_ID);
+    expect(catalog.version()).toBe(3);
+    expect(catalog.uri()?.toString()).toBe("https://example.com/catalogs/test");
+  });
+
+  it("should rebuild every hierarchy with the implementation class for its type", () => {
+    const catalog = new CatalogDeserializer().deserialize(json);
+
+    expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["allTypes", "list", "set", "dir", "tree"]);
+    expect(catalog.hierarchy("allTypes")).toBeInstanceOf(AspectMapHierarchyImpl);
+    expect(catalog.hierarchy("list")).toBeInstanceOf(EntityListHierarchyImpl);
+    expect(catalog.hierarchy("set")).toBeInstanceOf(EntitySetHierarchyImpl);
+    expect(catalog.hierarchy("dir")).toBeInstanceOf(EntityDirectoryHierarchyImpl);
+    expect(catalog.hierarchy("tree")).toBeInstanceOf(EntityTreeHierarchyImpl);
+    expect(Array.from(catalog.hierarchies(), (h) => h.version())).toEqual([0, 4, 1, 2, 5]);
+  });
+
+  it("should share one Entity instance per global ID across hierarchies", () => {
+    const factory = new CheapFactory();
+    const catalog = new CatalogDeserializer(factory).deserialize(json);
+    const list = catalog.hierarchy("list") as EntityListHierarchy;
+    const set = catalog.hierarchy("set") as EntitySetHierarchy;
+    const dir = catalog.hierarchy("dir") as EntityDirectoryHierarchy;
+    const tree = catalog.hierarchy("tree") as EntityTreeHierarchy;
+    const aspects = catalog.aspects("allTypes") as AspectMapHierarchy;
+
+    const e1 = factory.getEntity(ID1);
+    const e3 = factory.getEntity(ID3);
+    expect(list[0]).toBe(e1);
+    expect(list[2]).toBe(e1);
+    expect(dir.get("first")).toBe(e1);
+    expect(tree.root().value()).toBe(e1);
+    expect(aspects.get(e1!)?.entity()).toBe(e1);
+    expect(set.has(e3!)).toBe(true);
+    expect(tree.root().get("folder")?.get("leaf")?.value()).toBe(e3);
+    expect(tree.root().get("folder")?.get("leaf")?.getParent()).toBe(tree.root().get("folder"));
+  });
+
+  it("should restore the AspectDefs exactly", () => {
+    const catalog = new CatalogDeserializer().deserialize(json);
+    const original = allTypesAspectDef();
+    const restored = Array.from(catalog.aspectDefs())[0];
+
+    expect(restored.fullyEquals(original)).toBe(true);
+    expect(restored.hash()).toBe(original.hash());
+    expect(restored.propertyDef("count")?.defaultValue()).toBe(5n);
+  });
+
+  it("should coerce aspect values to the JS type of each property", () => {
+    const factory = new CheapFactory();
+    const catalog = new CatalogDeserializer(factory).deserialize(json);
+    const aspects = catalog.aspects("allTypes")!;
+    const full = aspects.get(factory.getEntity(ID1)!)!;
+
+    expect(full.readObj("int")).toBe(7);
+    expect(full.readObj("flt")).toBeNaN();
+    expect(full.readObj("bln")).toBe(true);
+    expect(full.readObj("bgi")).toBe(12345678901234567890123n);
+    expect(full.readObj("bgf")).toBe("3.14159265358979323846");
+    expect(full.readObj("dat")).toEqual(new Date("2025-06-01T12:00:00.000Z"));
+    expect(full.readObj("uri")).toEqual(new URL("https://example.com/x"));
+    expect(full.readObj("blb")).toEqual(new Uint8Array([1, 2, 3]));
+    expect(full.readObj("tags")).toEqual(["a", "b"]);
+    expect(full.readObj("count")).toBe(5n);
+
+    const sparse = aspects.get(factory.getEntity(ID2)!)!;
+    expect(sparse.contains("str")).toBe(true);
+    expect(sparse.readObj("str")).toBeNull();
+    expect(sparse.contains("int")).toBe(false);
+  });
+
+  it("should serialize the rebuilt catalog to the same JSON", () => {
+    const catalog = new CatalogDeserializer().deserialize(json);
+    expect(new CatalogSerializer().serialize(catalog)).toBe(json);
+  });
+
+  it("should round-trip hierarchies, directory keys and tree children named __proto__", () => {
+    const catalog = new CatalogImpl(CATALOG_ID);
+    const e1 = new EntityImpl(ID1);
+    new EntityDirectoryHierarchyImpl(catalog, "__proto__", [["__proto__", e1]]);
+    const root = new EntityTreeNodeImpl(null);
+    root.set("__proto__", new EntityTreeNodeImpl(e1, root));
+    new EntityTreeHierarchyImpl(catalog, "tree", root);
+
+    const protoJson = new CatalogSerializer().serialize(catalog);
+    expect(protoJson).toContain(
+      '"__proto__":{"name":"__proto__","type":"ED","version":0,"entities":{"__proto__":"' + ID1 + '"}}',
+    );
+    expect(protoJson).toContain(`"children":{"__proto__":{"entityId":"${ID1}"}}`);
+
+    const factory = new CheapFactory();
+    const rebuilt = new CatalogDeserializer(factory).deserialize(protoJson);
+    const dir = rebuilt.hierarchy("__proto__") as EntityDirectoryHierarchy;
+    expect(dir.get("__proto__")).toBe(factory.getEntity(ID1));
+    const tree = rebuilt.hierarchy("tree") as EntityTreeHierarchy;
+    expect(tree.root().get("__proto__")?.value()).toBe(factory.getEntity(ID1));
+    expect(new CatalogSerializer().serialize(rebuilt)).toBe(protoJson);
+  });
+
+  it("should round-trip values written with non-default encodings", () => {
+    const encodings = { bigInteger: "number", dateTime: "epochMillis", blob: "hex" } as const;
+    const encodedJson = new CatalogSerializer({ encodings }).serialize(buildCatalog());
+    expect(encodedJson).toContain('"bgi":12345678901234567890123');
+
+    const factory = new CheapFactory();
+    const catalog = new CatalogDeserializer(factory, { encodings }).deserialize(encodedJson);
+    const full = catalog.aspects("allTypes")!.get(factory.getEntity(ID1)!)!;
+    expect(full.readObj("bgi")).toBe(12345678901234567890123n);
+    expect(full.readObj("dat")).toEqual(new Date("2025-06-01T12:00:00.000Z"));
+    expect(full.readObj("blb")).toEqual(new Uint8Array([1, 2, 3]));
+    expect(new CatalogSerializer({ encodings }).serialize(catalog)).toBe(encodedJson);
+  });
+
+  it("should reject unknown species and hierarchy types", () => {
+    const parsed = JSON.parse(json);
+    expect(() => new CatalogDeserializer().fromJson({ ...parsed, species: "BOGUS" })).toThrow(/species/);
+
+    parsed.hierarchies.list.type = "XX";
+    expect(() => new CatalogDeserializer().fromJson(parsed)).toThrow(/Unknown hierarchy type 'XX'/);
+  });
+});
+
+describe("CatalogDeserializer modes", () => {
+  const parsedCatalog = () => JSON.parse(new CatalogSerializer().serialize(buildCatalog()));
+
+  it("should fail on the first problem with its path in strict mode", () => {
+    const parsed = parsedCatalog();
+    parsed.hierarchies.allTypes.aspects[ID1].int = "seven";
+
+    expect(() => new CatalogDeserializer().fromJson(parsed)).toThrow(
+      new RegExp(`^/hierarchies/allTypes/aspects/${ID1}/int: `),
+    );
+  });
+
+  it("should skip bad records and report every problem in lenient mode", () => {
+    const parsed = parsedCatalog();
+    parsed.hierarchies.allTypes.aspects[ID1].int = "seven";
+    parsed.hierarchies.allTypes.aspects[ID1].bogus = 1;
+    parsed.hierarchies.list.entities[1] = 42;
+    parsed.hierarchies.missing = { name: "missing", type: "AM", aspectDef: "missing", aspects: {} };
+
+    const factory = new CheapFactory();
+    const { value: catalog, problems } = new CatalogDeserializer(factory, { mode: "lenient" }).fromJsonWithReport(
+      parsed,
+    );
+
+    expect(problems.map((p) => [p.path, p.kind])).toEqual([
+      [`/hierarchies/allTypes/aspects/${ID1}/int`, DeserializationProblemKind.TYPE_MISMATCH],
+      [`/hierarchies/allTypes/aspects/${ID1}/bogus`, DeserializationProblemKind.UNKNOWN_PROPERTY],
+      ["/hierarchies/list/entities/1", DeserializationProblemKind.MALFORMED],
+      ["/hierarchies/missing/aspectDef", DeserializationProblemKind.UNKNOWN_ASPECT_DEF],
+    ]);
+    expect(problems[3].message).toBe("Unknown AspectDef 'missing' for hierarchy 'missing'.");
+
+    const full = catalog.aspects("allTypes")!.get(factory.getEntity(ID1)!)!;
+    expect(full.contains("int")).toBe(false);
+    expect(full.readObj("str")).toBe("short");
+    expect((catalog.hierarchy("list") as EntityListHierarchy).length).toBe(2);
+    expect(catalog.hierarchy("missing")).toBeNull();
+  });
+
+  it("should leave out the AspectMaps of AspectDefs that were skipped", () => {
+    const parsed = parsedCatalog();
+    parsed.aspectDefs.allTypes.propertyDefs[0].defaultValue = "zero";
+    parsed.aspectDefs.allTypes.propertyDefs[0].hasDefaultValue = true;
+
+    const { value: catalog, problems } = new CatalogDeserializer(new CheapFactory(), {
+      mode: "lenient",
+    }).fromJsonWithReport(parsed);
+
+    expect(problems.map((p) => [p.path, p.kind])).toEqual([
+      ["/aspectDefs/allTypes/propertyDefs/0/defaultValue", DeserializationProblemKind.TYPE_MISMATCH],
+      ["/hierarchies/allTypes/aspectDef", DeserializationProblemKind.UNKNOWN_ASPECT_DEF],
+    ]);
+    expect(Array.from(catalog.hierarchies(), (h) => h.name())).toEqual(["list", "set", "dir", "tree"]);
+  });
+
+  it("should report references to entities without aspects when checking entity references", () => {
+    const parsed = parsedCatalog();
+    expect(() => new CatalogDeserializer().fromJson(parsed)).not.toThrow();
+    expect(() => new CatalogDeserializer(new CheapFactory(), { checkEntityReferences: true }).fromJson(parsed)).toThrow(
+      `/hierarchies/set/entities/1: Entity '${ID3}' has no aspects in the catalog.`,
+    );
+
+    const { value: catalog, problems } = new CatalogDeserializer(new CheapFactory(), {
+      mode: "lenient",
+      checkEntityReferences: true,
+    }).fromJsonWithReport(parsed);
+
+    expect(problems.map((p) => [p.path, p.kind])).toEqual([
+      ["/hierarchies/set/entities/1", DeserializationProblemKind.DANGLING_ENTITY_REFERENCE],
+      ["/hierarchies/dir/entities/third", DeserializationProblemKind.DANGLING_ENTITY_REFERENCE],
+      [
+        "/hierarchies/tree/root/children/folder/children/leaf/entityId",
+        DeserializationProblemKind.DANGLING_ENTITY_REFERENCE,
+      ],
+    ]);
+    expect((catalog.hierarchy("set") as EntitySetHierarchy).size).toBe(1);
+    expect((catalog.hierarchy("dir") as EntityDirectoryHierarchy).has("third")).toBe(false);
+    expect((catalog.hierarchy("tree") as EntityTreeHierarchy).root().get("folder")?.get("leaf")).toBeUndefined();
+  });
+
+  it("should start a new report for every deserialization", () => {
+    const parsed = parsedCatalog();
+    parsed.hierarchies.allTypes.aspects[ID1].bogus = 1;
+    const deserializer = new CatalogDeserializer(new CheapFactory(), { mode: "lenient" });
+    const json = JSON.stringify(parsed);
+
+    expect(deserializer.deserializeWithReport(json).problems).toHaveLength(1);
+    expect(deserializer.deserializeWithReport(json).problems).toHaveLength(1);
+  });
+});
+
+describe("HierarchyDeserializer", () => {
+  it("should add hierarchies to the given catalog", () => {
+    const catalog = new CatalogImpl(CATALOG_ID);
+    const hierarchy = new HierarchyDeserializer(catalog).deserialize(
+      `{"name":"people","type":"ES","version":0,"entities":["${ID1}","${ID2}"]}`,
+    );
+
+    expect(hierarchy.type()).toBe(HierarchyType.ENTITY_SET);
+    expect(catalog.hierarchy("people")).toBe(hierarchy);
+    expect((hierarchy as EntitySetHierarchy).size).toBe(2);
+  });
+
+  it("should reject aspect maps whose AspectDef is not registered", () => {
+    const catalog = new CatalogImpl(CATALOG_ID);
+    expect(() =>
+      new HierarchyDeserializer(catalog).deserialize(`{"name":"x","type":"AM","aspectDef":"x","aspects":{}}`),
+    ).toThrow(/Unknown AspectDef 'x'/);
+  });
+});
+
+describe("AspectDefDeserializer", () => {
+  it("should return the registered instance for an identical AspectDef", () => {
+    const factory = new CheapFactory();
+    const deserializer = new AspectDefDeserializer(factory);
+    const defJson = new AspectDefSerializer().serialize(allTypesAspectDef());
+
+    const first: AspectDef = deserializer.deserialize(defJson);
+    expect(factory.getAspectDef("allTypes")).toBe(first);
+    expect(deserializer.deserialize(defJson)).toBe(first);
+  });
+});
+
+describe("AspectDeserializer", () => {
+  it("should rebuild a standalone aspect against a registered AspectDef", () => {
+    const factory = new CheapFactory();
+    const aspectDef = new AspectDefDeserializer(factory).fromJson(
+      JSON.parse(new AspectDefSerializer().serialize(allTypesAspectDef())),
+    );
+    const original = new AspectObjectMapImpl(new EntityImpl(ID1), aspectDef);
+    original.write("int", 11);
+    original.write("blb", new Uint8Array([9]));
+
+    const aspect = new AspectDeserializer(factory).deserialize(new AspectSerializer().serialize(original));
+    expect(aspect.def()).toBe(aspectDef);
+    expect(aspect.entity()).toBe(factory.getEntity(ID1));
+    expect(aspect.readObj("int")).toBe(11);
+    expect(aspect.readObj("blb")).toEqual(new Uint8Array([9]));
+  });
+
+  it("should round-trip null elements of multivalued properties to the same JSON", () => {
+    const factory = new CheapFactory();
+    const aspectDef = new AspectDefDeserializer(factory).fromJson(
+      JSON.parse(new AspectDefSerializer().serialize(allTypesAspectDef())),
+    );
+    const original = new AspectObjectMapImpl(new EntityImpl(ID1), aspectDef);
+    original.write("tags", ["a", null, "c"]);
+    const json = new AspectSerializer().serialize(original);
+
+    const aspect = new AspectDeserializer(factory).deserialize(json);
+    expect(aspect.readObj("tags")).toEqual(["a", null, "c"]);
+    expect(new AspectSerializer().serialize(aspect)).toBe(json);
+  });
+
+  it("should reject properties not in the AspectDef", () => {
+    const factory = new CheapFactory();
+    factory.registerAspectDef(allTypesAspectDef());
+    expect(() =>
+      new AspectDeserializer(factory).deserialize(
+        `{"aspectDef":"allTypes","entityId":"${ID1}","properties":{"bogus":1}}`,
+      ),
+    ).toThrow(/does not contain property 'bogus'/);
+  });
+});
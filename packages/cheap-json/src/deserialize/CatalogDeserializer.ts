@@ -0,0 +1,98 @@
+/**
+ * CatalogDeserializer implementation
+ */
+
+import { AspectDef, Catalog, CatalogImpl, CatalogSpecies, CheapFactory } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonObject, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+import { AspectDefDeserializer } from "./AspectDefDeserializer.js";
+import { HierarchyDeserializer } from "./HierarchyDeserializer.js";
+
+/**
+ * Deserializes a complete Catalog, reading the format written by
+ * CatalogSerializer, into a new CatalogImpl.
+ *
+ * The catalog's global ID, species, URI, upstream and version are restored, the
+ * AspectDefs are registered with the factory, and every hierarchy is rebuilt in
+ * its original order. AspectDefs without an AspectMap hierarchy in the JSON are
+ * added to the catalog through extend().
+ *
+ * In lenient mode, bad AspectDefs and hierarchies are left out of the catalog,
+ * along with the AspectMap hierarchies of any AspectDef that was left out.
+ */
+export class CatalogDeserializer extends JsonDeserializerBase<Catalog> {
+  private readonly _aspectDefDeserializer: AspectDefDeserializer;
+
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+    this._aspectDefDeserializer = this.nest(new AspectDefDeserializer(factory, options));
+  }
+
+  fromJson(json: JsonValue): Catalog {
+    const obj = this.asObject(json, "catalog");
+    const catalog = this.headerFromJson(obj);
+
+    const context = this.context();
+    const aspectDefs: AspectDef[] = [];
+    context.at("aspectDefs", () => {
+      for (const [name, defJson] of Object.entries(this.asObject(obj.aspectDefs ?? {}, "aspectDefs"))) {
+        const aspectDef = context.skippable(name, () => this._aspectDefDeserializer.fromJson(defJson ?? null));
+        if (aspectDef) {
+          aspectDefs.push(aspectDef);
+        }
+      }
+    });
+
+    const hierarchyDeserializer = this.nest(new HierarchyDeserializer(catalog, this._factory, this._options));
+    context.at("hierarchies", () => {
+      const hierarchies = this.asObject(obj.hierarchies ?? {}, "hierarchies");
+      if (this._options.checkEntityReferences) {
+        hierarchyDeserializer.setKnownEntityIds(this.entityIdsWithAspects(hierarchies));
+      }
+      for (const [name, hierarchyJson] of Object.entries(hierarchies)) {
+        context.skippable(name, () => hierarchyDeserializer.fromJson(hierarchyJson ?? null));
+      }
+    });
+
+    for (const aspectDef of aspectDefs) {
+      catalog.extend(aspectDef);
+    }
+    return catalog;
+  }
+  /**
+   * Creates an empty catalog from the identity fields of its JSON: global ID,
+   * species, URI, upstream and version.
+   *
+   * @param json the JSON object of the catalog
+   * @returns a new catalog with no hierarchies
+   */
+  headerFromJson(json: JsonValue): CatalogImpl {
+    const obj = this.asObject(json, "catalog");
+    const species = this.optionalString(obj, "species") ?? CatalogSpecies.SINK;
+    if (!Object.values(CatalogSpecies).includes(species as CatalogSpecies)) {
+      throw new Error(`Unknown catalog species '${species}'.`);
+    }
+    const catalog = new CatalogImpl(
+      this.requireString(obj, "globalId"),
+      species as CatalogSpecies,
+      this.optionalString(obj, "upstream"),
+      this.optionalNumber(obj, "version", 0),
+    );
+    const uri = this.optionalString(obj, "uri");
+    if (uri !== null) {
+      catalog.setUri(new URL(uri));
+    }
+    return catalog;
+  }
+
+  private entityIdsWithAspects(hierarchies: JsonObject): Set<string> {
+    const ids = new Set<string>();
+    for (const hierarchyJson of Object.values(hierarchies)) {
+      const aspects = (hierarchyJson as JsonObject | null)?.aspects;
+      if (aspects && typeof aspects === "object" && !Array.isArray(aspects)) {
+        Object.keys(aspects).forEach((id) => ids.add(id));
+      }
+    }
+    return ids;
+  }
+}
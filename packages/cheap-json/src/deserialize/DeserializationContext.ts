@@ -0,0 +1,183 @@
+/**
+ * DeserializationContext implementation
+ */
+
+import { DeserializationMode } from "../types.js";
+import { toJsonPointer } from "../patch/JsonPatch.js";
+
+/**
+ * The kinds of problem a deserializer can find in its input.
+ */
+export enum DeserializationProblemKind {
+  /** A value has the wrong JSON shape, or a required field is missing. */
+  MALFORMED = "malformed",
+  /** An aspect or AspectMap hierarchy names an AspectDef that is not known. */
+  UNKNOWN_ASPECT_DEF = "unknownAspectDef",
+  /** An aspect has a property that its AspectDef does not contain. */
+  UNKNOWN_PROPERTY = "unknownProperty",
+  /** A property value cannot be converted to the type of its PropertyDef. */
+  TYPE_MISMATCH = "typeMismatch",
+  /** A hierarchy references an entity that has no aspects in the catalog. */
+  DANGLING_ENTITY_REFERENCE = "danglingEntityReference",
+  /** An embedded hash does not match the hash of the deserialized definition. */
+  HASH_MISMATCH = "hashMismatch",
+}
+
+/**
+ * A problem found in the input of a deserializer.
+ */
+export interface DeserializationProblem {
+  /** The JSON Pointer of the value that caused the problem. */
+  path: string;
+  /** The kind of problem. */
+  kind: DeserializationProblemKind;
+  /** A description of the problem, without the path. */
+  message: string;
+}
+
+/**
+ * The result of a deserialization together with the problems it skipped.
+ */
+export interface DeserializationResult<T> {
+  /** The deserialized value. */
+  value: T;
+  /** Every problem found, in input order. Always empty in strict mode. */
+  problems: DeserializationProblem[];
+}
+
+/**
+ * Tracks the position of a deserializer in its input as a JSON Pointer, and
+ * handles the problems found there according to the deserialization mode.
+ *
+ * Every problem is raised as an Error whose message is prefixed with the path
+ * of the offending value. In strict mode that error propagates to the caller.
+ * In lenient mode the problem is also recorded, and the error is caught by the
+ * nearest enclosing skippable() call, which drops the record that contains it.
+ */
+export class DeserializationContext {
+  private readonly _mode: DeserializationMode;
+  private readonly _path: (string | number)[] = [];
+  private readonly _problems: DeserializationProblem[] = [];
+  private readonly _reported = new WeakSet<Error>();
+
+  /**
+   * Creates a new DeserializationContext.
+   *
+   * @param mode how problems are handled
+   */
+  constructor(mode: DeserializationMode = "strict") {
+    this._mode = mode;
+  }
+
+  /**
+   * Returns how problems are handled.
+   */
+  mode(): DeserializationMode {
+    return this._mode;
+  }
+
+  /**
+   * Returns the JSON Pointer of the current position.
+   */
+  path(): string {
+    return toJsonPointer(this._path);
+  }
+
+  /**
+   * Returns the problems recorded since the last reset.
+   */
+  problems(): DeserializationProblem[] {
+    return [...this._problems];
+  }
+
+  /**
+   * Clears the recorded problems and the current position.
+   */
+  reset(): void {
+    this._path.length = 0;
+    this._problems.length = 0;
+  }
+
+  /**
+   * Runs a function with the position moved to a child of the current
+   * position. Any error it throws that is not yet a reported problem is
+   * reported as malformed input at the child.
+   *
+   * @param segment the object key or array index of the child
+   * @param fn the function to run
+   * @returns the result of the function
+   */
+  at<R>(segment: string | number, fn: () => R): R {
+    this._path.push(segment);
+    try {
+      return fn();
+    } catch (error) {
+      throw this.asReported(error, DeserializationProblemKind.MALFORMED);
+    } finally {
+      this._path.pop();
+    }
+  }
+
+  /**
+   * Runs a function, reporting any error it throws that is not yet a reported
+   * problem as a problem of the given kind at the current position.
+   *
+   * @param kind the kind of problem that errors from the function indicate
+   * @param fn the function to run
+   * @returns the result of the function
+   */
+  guard<R>(kind: DeserializationProblemKind, fn: () => R): R {
+    try {
+      return fn();
+    } catch (error) {
+      throw this.asReported(error, kind);
+    }
+  }
+
+  /**
+   * Runs a function for a record at a child of the current position. In
+   * lenient mode, a problem inside the record skips it instead of propagating.
+   *
+   * @param segment the object key or array index of the record
+   * @param fn the function that deserializes the record
+   * @returns the result of the function, or undefined if the record was skipped
+   */
+  skippable<R>(segment: string | number, fn: () => R): R | undefined {
+    try {
+      return this.at(segment, fn);
+    } catch (error) {
+      if (this._mode === "lenient" && error instanceof Error && this._reported.has(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reports a problem at the current position.
+   *
+   * @param kind the kind of problem
+   * @param message a description of the problem
+   * @throws Error always, with the message prefixed by the current path
+   */
+  fail(kind: DeserializationProblemKind, message: string): never {
+    throw this.report(kind, message);
+  }
+
+  private asReported(error: unknown, kind: DeserializationProblemKind): unknown {
+    if (error instanceof Error && !this._reported.has(error)) {
+      return this.report(kind, error.message);
+    }
+    return error;
+  }
+
+  private report(kind: DeserializationProblemKind, message: string): Error {
+    const path = this.path();
+    if (this._mode === "lenient") {
+      this._problems.push({ path, kind, message });
+    }
+    const error = new Error(path ? `${path}: ${message}` : message);
+    this._reported.add(error);
+    return error;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * EntityDeserializer implementation
+ */
+
+import { CheapFactory, Entity } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+
+/**
+ * Deserializes Entities from their global ID. Entities are registered with the
+ * factory, so every deserialization of the same global ID returns the same instance.
+ */
+export class EntityDeserializer extends JsonDeserializerBase<Entity> {
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+  }
+
+  fromJson(json: JsonValue): Entity {
+    const obj = this.asObject(json, "entity");
+    return this._factory.getOrRegisterNewEntity(this.requireString(obj, "globalId"));
+  }
+}
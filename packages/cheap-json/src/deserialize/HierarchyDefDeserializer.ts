@@ -0,0 +1,29 @@
+/**
+ * HierarchyDefDeserializer implementation
+ */
+
+import { CheapFactory, HierarchyDef, HierarchyDefImpl, hierarchyTypeFromCode } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+
+/**
+ * Deserializes HierarchyDefs from their name and type code.
+ */
+export class HierarchyDefDeserializer extends JsonDeserializerBase<HierarchyDef> {
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+  }
+
+  fromJson(json: JsonValue): HierarchyDef {
+    const obj = this.asObject(json, "hierarchy def");
+    const name = this.requireString(obj, "name");
+    const typeCode = this.requireString(obj, "type");
+    const type = hierarchyTypeFromCode(typeCode);
+    if (!type) {
+      throw new Error(`Unknown hierarchy type '${typeCode}' for hierarchy def '${name}'.`);
+    }
+    const hierarchyDef = new HierarchyDefImpl(name, type);
+    this.verifyHash(obj, hierarchyDef.hash(), `hierarchy def '${name}'`);
+    return hierarchyDef;
+  }
+}
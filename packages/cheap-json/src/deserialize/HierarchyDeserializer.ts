@@ -0,0 +1,198 @@
+/**
+ * HierarchyDeserializer implementation
+ */
+
+import {
+  Aspect,
+  AspectMapHierarchyImpl,
+  Catalog,
+  CheapFactory,
+  Entity,
+  EntityDirectoryHierarchyImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchyImpl,
+  EntityTreeNode,
+  EntityTreeNodeImpl,
+  Hierarchy,
+  HierarchyType,
+} from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonObject, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+import { AspectDeserializer } from "./AspectDeserializer.js";
+import { DeserializationProblemKind } from "./DeserializationContext.js";
+
+/**
+ * Deserializes all five types of Hierarchy into a catalog, reading the format
+ * written by HierarchySerializer. Each hierarchy is created with the
+ * implementation class for its type and added to the catalog.
+ *
+ * The contents of a hierarchy are optional, so a hierarchy header alone yields
+ * an empty hierarchy (an entity tree gets a root node with no entity).
+ *
+ * Entity references are resolved through the factory, so an entity that appears
+ * in several hierarchies is the same instance in all of them. The AspectDef of
+ * an AspectMap hierarchy must already be registered with the factory.
+ *
+ * In lenient mode, bad entity references, tree nodes (with their subtrees) and
+ * aspects are left out of their hierarchy.
+ */
+export class HierarchyDeserializer extends JsonDeserializerBase<Hierarchy> {
+  private readonly _catalog: Catalog;
+  private readonly _aspectDeserializer: AspectDeserializer;
+  private _knownEntityIds: ReadonlySet<string> | null = null;
+
+  /**
+   * Creates a new HierarchyDeserializer.
+   *
+   * @param catalog the catalog that deserialized hierarchies are added to
+   * @param factory the factory used to resolve entities and AspectDefs
+   * @param options the deserializer options
+   */
+  constructor(catalog: Catalog, factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+    this._catalog = catalog;
+    this._aspectDeserializer = this.nest(new AspectDeserializer(factory, options));
+  }
+
+  /**
+   * Restricts the entities that list, set, directory and tree hierarchies may
+   * reference. References to any other entity are reported as dangling.
+   *
+   * @param ids the global IDs of the entities that may be referenced, or null to allow every entity
+   */
+  setKnownEntityIds(ids: ReadonlySet<string> | null): void {
+    this._knownEntityIds = ids;
+  }
+
+  fromJson(json: JsonValue): Hierarchy {
+    const obj = this.asObject(json, "hierarchy");
+    const name = this.requireString(obj, "name");
+    const type = this.requireString(obj, "type");
+    const version = this.optionalNumber(obj, "version", 0);
+    switch (type) {
+      case HierarchyType.ENTITY_LIST: {
+        const entities = this.entityList(obj, name);
+        // Pass an explicit zero capacity, since a version alone could be mistaken for a capacity
+        const list = new EntityListHierarchyImpl(this._catalog, name, 0, version);
+        list.push(...entities);
+        return list;
+      }
+      case HierarchyType.ENTITY_SET:
+        return new EntitySetHierarchyImpl(this._catalog, name, this.entityList(obj, name), version);
+      case HierarchyType.ENTITY_DIR:
+        return new EntityDirectoryHierarchyImpl(this._catalog, name, this.directoryEntries(obj, name), version);
+      case HierarchyType.ENTITY_TREE: {
+        const root =
+          obj.root === undefined ?
+            new EntityTreeNodeImpl(null)
+          : this.context().at("root", () =>
+              this.treeNodeFromJson(this.asObject(obj.root, `root of hierarchy '${name}'`), null),
+            );
+        return new EntityTreeHierarchyImpl(this._catalog, name, root, version);
+      }
+      case HierarchyType.ASPECT_MAP:
+        return this.aspectMapFromJson(obj, name, version);
+      default:
+        throw new Error(`Unknown hierarchy type '${type}' for hierarchy '${name}'.`);
+    }
+  }
+
+  /**
+   * Rebuilds a tree node and all of its descendants. Nodes are always created
+   * as EntityTreeNodeImpl, so the rebuilt tree can be extended below any node.
+   *
+   * @param json the JSON object for the node
+   * @param parent the parent of the node, or null for the root
+   * @returns the rebuilt node
+   */
+  treeNodeFromJson(json: JsonObject, parent: EntityTreeNode | null): EntityTreeNode {
+    const context = this.context();
+    const entityId = this.optionalString(json, "entityId");
+    const entity = entityId ? context.at("entityId", () => this.entity(entityId)) : null;
+    const node = new EntityTreeNodeImpl(entity, parent);
+    if (json.children !== undefined) {
+      context.at("children", () => {
+        for (const [childName, childJson] of Object.entries(this.asObject(json.children, "tree node children"))) {
+          context.skippable(childName, () =>
+            node.set(childName, this.treeNodeFromJson(this.asObject(childJson, `tree node '${childName}'`), node)),
+          );
+        }
+      });
+    }
+    return node;
+  }
+
+  private entityList(obj: JsonObject, name: string): Entity[] {
+    const context = this.context();
+    return context.at("entities", () => {
+      const entities: Entity[] = [];
+      this.asArray(obj.entities ?? [], `entities of hierarchy '${name}'`).forEach((id, i) => {
+        const entity = context.skippable(i, () => this.entity(id));
+        if (entity) {
+          entities.push(entity);
+        }
+      });
+      return entities;
+    });
+  }
+
+  private directoryEntries(obj: JsonObject, name: string): [string, Entity][] {
+    const context = this.context();
+    return context.at("entities", () => {
+      const entries: [string, Entity][] = [];
+      for (const [key, id] of Object.entries(this.asObject(obj.entities ?? {}, `entities of hierarchy '${name}'`))) {
+        const entity = context.skippable(key, () => this.entity(id));
+        if (entity) {
+          entries.push([key, entity]);
+        }
+      }
+      return entries;
+    });
+  }
+
+  private aspectMapFromJson(obj: JsonObject, name: string, version: number): Hierarchy {
+    const defName = this.optionalString(obj, "aspectDef") ?? name;
+    const context = this.context();
+    const aspectDef = this._factory.getAspectDef(defName);
+    if (!aspectDef) {
+      return context.at("aspectDef", () =>
+        this.fail(
+          DeserializationProblemKind.UNKNOWN_ASPECT_DEF,
+          `Unknown AspectDef '${defName}' for hierarchy '${name}'.`,
+        ),
+      );
+    }
+    const aspects = context.at("aspects", () => {
+      const result: Aspect[] = [];
+      for (const [entityId, propsJson] of Object.entries(this.asObject(obj.aspects ?? {}, `aspects of '${name}'`))) {
+        const aspect = context.skippable(entityId, () =>
+          this._aspectDeserializer.propertiesFromJson(
+            this._factory.getOrRegisterNewEntity(entityId),
+            aspectDef,
+            propsJson ?? null,
+          ),
+        );
+        if (aspect) {
+          result.push(aspect);
+        }
+      }
+      return result;
+    });
+    const aspectMap = new AspectMapHierarchyImpl(this._catalog, aspectDef, version);
+    for (const aspect of aspects) {
+      aspectMap.set(aspect.entity(), aspect);
+    }
+    return aspectMap;
+  }
+
+  private entity(id: JsonValue | undefined): Entity {
+    if (typeof id !== "string") {
+      throw new Error("Expected entity ID to be a string.");
+    }
+    if (this._knownEntityIds && !this._knownEntityIds.has(id)) {
+      this.fail(DeserializationProblemKind.DANGLING_ENTITY_REFERENCE, `Entity '${id}' has no aspects in the catalog.`);
+    }
+    return this._factory.getOrRegisterNewEntity(id);
+  }
+}
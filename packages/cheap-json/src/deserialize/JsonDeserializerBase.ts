@@ -0,0 +1,238 @@
+/**
+ * JsonDeserializerBase implementation
+ */
+
+import { CheapFactory, PropertyValueAdapter } from "@cheap-ts/core";
+import { Deserializer } from "../interfaces.js";
+import { JsonArray, JsonDeserializerOptions, JsonObject, JsonValue } from "../types.js";
+import { PropertyValueCodec } from "../util/PropertyValueCodec.js";
+import { JsonReader } from "../util/JsonReader.js";
+import { hashFromJson, hashToJson } from "../util/HashCodec.js";
+import { DeserializationContext, DeserializationProblemKind, DeserializationResult } from "./DeserializationContext.js";
+
+/**
+ * Abstract base class for the JSON deserializers. Subclasses rebuild their model
+ * object from a parsed JsonValue tree.
+ *
+ * Deserializers resolve entities and AspectDefs through a CheapFactory, so that
+ * every reference to the same global ID or AspectDef name yields the same
+ * instance. Deserializers sharing a factory also share those instances.
+ *
+ * Problems in the input are handled by a DeserializationContext according to
+ * the deserialization mode. Nested deserializers share the context of the
+ * deserializer that uses them, so their problems carry the full path from the
+ * root of the input.
+ */
+export abstract class JsonDeserializerBase<T> implements Deserializer<T> {
+  /** The factory used to resolve entities and AspectDefs. */
+  protected readonly _factory: CheapFactory;
+
+  /** The options this deserializer was created with. */
+  protected readonly _options: JsonDeserializerOptions;
+
+  /** The codec used to decode property values. */
+  protected readonly _codec: PropertyValueCodec;
+
+  /** The reader used to parse JSON text. */
+  protected readonly _reader: JsonReader;
+
+  private readonly _ownContext: DeserializationContext;
+  private _parent: JsonDeserializerBase<unknown> | null = null;
+
+  /**
+   * Creates a new deserializer.
+   *
+   * @param factory the factory used to resolve entities and AspectDefs
+   * @param options the deserializer options
+   */
+  protected constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    this._factory = factory;
+    this._options = options;
+    this._codec = new PropertyValueCodec(new PropertyValueAdapter(factory.getTimeZone()), options.encodings);
+    this._reader = new JsonReader();
+    this._ownContext = new DeserializationContext(options.mode);
+  }
+
+  /**
+   * Returns the factory used to resolve entities and AspectDefs.
+   */
+  factory(): CheapFactory {
+    return this._factory;
+  }
+
+  /**
+   * Deserializes the given JSON text.
+   */
+  deserialize(json: string): T {
+    return this.deserializeWithReport(json).value;
+  }
+
+  /**
+   * Deserializes the given JSON text, returning the problems that lenient mode
+   * skipped along with the result.
+   *
+   * @param json the JSON text to parse
+   * @returns the rebuilt value and the problems found
+   * @throws Error on the first problem in strict mode, or on a problem that cannot be skipped in lenient mode
+   */
+  deserializeWithReport(json: string): DeserializationResult<T> {
+    return this.fromJsonWithReport(this._reader.read(json));
+  }
+
+  /**
+   * Rebuilds a value from its JSON representation, returning the problems that
+   * lenient mode skipped along with the result.
+   *
+   * @param json the JSON tree for the value
+   * @returns the rebuilt value and the problems found
+   * @throws Error on the first problem in strict mode, or on a problem that cannot be skipped in lenient mode
+   */
+  fromJsonWithReport(json: JsonValue): DeserializationResult<T> {
+    const context = this.context();
+    context.reset();
+    const value = this.fromJson(json);
+    return { value, problems: context.problems() };
+  }
+
+  /**
+   * Rebuilds a value from its JSON representation.
+   *
+   * @param json the JSON tree for the value
+   * @returns the rebuilt value
+   */
+  abstract fromJson(json: JsonValue): T;
+
+  /**
+   * Returns the context that tracks the position in the input and the problems
+   * found. Nested deserializers return the context of their outermost parent.
+   */
+  protected context(): DeserializationContext {
+    return this._parent ? this._parent.context() : this._ownContext;
+  }
+
+  /**
+   * Reports a problem at the current position in the input.
+   *
+   * @param kind the kind of problem
+   * @param message a description of the problem
+   * @throws Error always, with the message prefixed by the current path
+   */
+  protected fail(kind: DeserializationProblemKind, message: string): never {
+    return this.context().fail(kind, message);
+  }
+
+  /**
+   * Makes another deserializer report to the context of this one, for use as a
+   * nested deserializer.
+   *
+   * @param child the nested deserializer
+   * @returns the nested deserializer
+   */
+  protected nest<D extends JsonDeserializerBase<unknown>>(child: D): D {
+    child._parent = this;
+    return child;
+  }
+
+  /**
+   * If hash verification is enabled and the JSON object of a definition embeds
+   * a hash, checks it against the hash computed from the deserialized definition.
+   *
+   * @param obj the JSON object of the definition
+   * @param computed the CheapHasher hash of the deserialized definition
+   * @param what a description of the definition, for error messages
+   * @throws Error if the embedded hash is malformed or does not match
+   */
+  protected verifyHash(obj: JsonObject, computed: bigint, what: string): void {
+    if (!this._options.verifyHashes || obj.hash === undefined) {
+      return;
+    }
+    const embedded = this.requireString(obj, "hash");
+    if (hashFromJson(embedded) !== computed) {
+      this.fail(
+        DeserializationProblemKind.HASH_MISMATCH,
+        `Hash mismatch for ${what}: embedded ${embedded}, computed ${hashToJson(computed)}.`,
+      );
+    }
+  }
+
+  /**
+   * Checks that a JSON value is an object.
+   *
+   * @param json the value to check
+   * @param what a description of the value, for error messages
+   * @returns the value as a JsonObject
+   */
+  protected asObject(json: JsonValue | undefined, what: string): JsonObject {
+    if (json === null || json === undefined || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error(`Expected ${what} to be a JSON object.`);
+    }
+    return json;
+  }
+
+  /**
+   * Checks that a JSON value is an array.
+   *
+   * @param json the value to check
+   * @param what a description of the value, for error messages
+   * @returns the value as a JsonArray
+   */
+  protected asArray(json: JsonValue | undefined, what: string): JsonArray {
+    if (!Array.isArray(json)) {
+      throw new Error(`Expected ${what} to be a JSON array.`);
+    }
+    return json;
+  }
+
+  /**
+   * Reads a required string field of a JSON object.
+   */
+  protected requireString(obj: JsonObject, field: string): string {
+    const value = obj[field];
+    if (typeof value !== "string") {
+      throw new Error(`Expected field '${field}' to be a string.`);
+    }
+    return value;
+  }
+
+  /**
+   * Reads a string field of a JSON object that may be null or missing.
+   */
+  protected optionalString(obj: JsonObject, field: string): string | null {
+    const value = obj[field];
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value !== "string") {
+      throw new Error(`Expected field '${field}' to be a string or null.`);
+    }
+    return value;
+  }
+
+  /**
+   * Reads a boolean field of a JSON object, returning the default if it is missing.
+   */
+  protected optionalBoolean(obj: JsonObject, field: string, defaultValue: boolean): boolean {
+    const value = obj[field];
+    if (value === undefined) {
+      return defaultValue;
+    }
+    if (typeof value !== "boolean") {
+      throw new Error(`Expected field '${field}' to be a boolean.`);
+    }
+    return value;
+  }
+
+  /**
+   * Reads a numeric field of a JSON object, returning the default if it is missing.
+   */
+  protected optionalNumber(obj: JsonObject, field: string, defaultValue: number): number {
+    const value = obj[field];
+    if (value === undefined) {
+      return defaultValue;
+    }
+    if (typeof value !== "number") {
+      throw new Error(`Expected field '${field}' to be a number.`);
+    }
+    return value;
+  }
+}
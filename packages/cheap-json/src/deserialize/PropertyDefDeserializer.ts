@@ -0,0 +1,58 @@
+/**
+ * PropertyDefDeserializer implementation
+ */
+
+import { CheapFactory, PropertyDef, PropertyDefImpl, PropertyType } from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonValue } from "../types.js";
+import { JsonDeserializerBase } from "./JsonDeserializerBase.js";
+import { DeserializationProblemKind } from "./DeserializationContext.js";
+
+/**
+ * Deserializes PropertyDefs. Missing flags take the same defaults as
+ * PropertyDefImpl; the default value, if present, is decoded and coerced to
+ * the property's type.
+ */
+export class PropertyDefDeserializer extends JsonDeserializerBase<PropertyDef> {
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    super(factory, options);
+  }
+
+  fromJson(json: JsonValue): PropertyDef {
+    const obj = this.asObject(json, "property def");
+    const name = this.requireString(obj, "name");
+    const typeCode = this.requireString(obj, "type");
+    const type = PropertyType.fromTypeCode(typeCode);
+    if (!type) {
+      throw new Error(`Unknown property type '${typeCode}' for property '${name}'.`);
+    }
+    const isReadable = this.optionalBoolean(obj, "isReadable", true);
+    const isWritable = this.optionalBoolean(obj, "isWritable", true);
+    const isNullable = this.optionalBoolean(obj, "isNullable", false);
+    const isRemovable = this.optionalBoolean(obj, "isRemovable", false);
+    const isMultivalued = this.optionalBoolean(obj, "isMultivalued", false);
+    const hasDefaultValue = this.optionalBoolean(obj, "hasDefaultValue", false);
+
+    let defaultValue: unknown = null;
+    if (hasDefaultValue) {
+      // Coerce the default against a nullable copy of the def, since a null default is always allowed
+      const valueDef = new PropertyDefImpl(name, type, null, false, true, true, true, true, isMultivalued);
+      const context = this.context();
+      defaultValue = context.at("defaultValue", () =>
+        context.guard(DeserializationProblemKind.TYPE_MISMATCH, () => this._codec.decode(valueDef, obj.defaultValue)),
+      );
+    }
+    const propDef = new PropertyDefImpl(
+      name,
+      type,
+      defaultValue,
+      hasDefaultValue,
+      isReadable,
+      isWritable,
+      isNullable,
+      isRemovable,
+      isMultivalued,
+    );
+    this.verifyHash(obj, propDef.hash(), `property '${name}'`);
+    return propDef;
+  }
+}
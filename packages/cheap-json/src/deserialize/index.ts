@@ -0,0 +1,14 @@
+/**
+ * JSON deserializers for the CHEAP model
+ */
+
+export * from "./DeserializationContext.js";
+export * from "./JsonDeserializerBase.js";
+export * from "./PropertyDefDeserializer.js";
+export * from "./AspectDefDeserializer.js";
+export * from "./EntityDeserializer.js";
+export * from "./AspectDeserializer.js";
+export * from "./HierarchyDeserializer.js";
+export * from "./HierarchyDefDeserializer.js";
+export * from "./CatalogDeserializer.js";
+export * from "./CatalogDefDeserializer.js";
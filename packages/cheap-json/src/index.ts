@@ -2,37 +2,16 @@
  * @cheap-ts/json - JSON serialization/deserialization for CHEAP model
  */
 
-import type { Aspect, Entity, Catalog, Hierarchy } from "@cheap-ts/core";
-
-export interface Serializer<T> {
-  serialize(value: T): string;
-}
-
-export interface Deserializer<T> {
-  deserialize(json: string): T;
-}
-
-// Placeholder serializers - to be implemented
-export class AspectSerializer implements Serializer<Aspect> {
-  serialize(_value: Aspect): string {
-    throw new Error("Not implemented");
-  }
-}
-
-export class EntitySerializer implements Serializer<Entity> {
-  serialize(_value: Entity): string {
-    throw new Error("Not implemented");
-  }
-}
-
-export class HierarchySerializer implements Serializer<Hierarchy> {
-  serialize(_value: Hierarchy): string {
-    throw new Error("Not implemented");
-  }
-}
-
-export class CatalogSerializer implements Serializer<Catalog> {
-  serialize(_value: Catalog): string {
-    throw new Error("Not implemented");
-  }
-}
+export * from "./interfaces.js";
+export * from "./types.js";
+export * from "./util/JsonWriter.js";
+export * from "./util/JsonReader.js";
+export * from "./util/JsonMembers.js";
+export * from "./util/PropertyValueCodec.js";
+export * from "./util/HashCodec.js";
+export * from "./serialize/index.js";
+export * from "./deserialize/index.js";
+export * from "./stream/index.js";
+export * from "./schema/index.js";
+export * from "./patch/index.js";
+export * from "./zod/index.js";
@@ -0,0 +1,29 @@
+/**
+ * Serializer and deserializer interfaces
+ */
+
+/**
+ * Converts a CHEAP model object into a JSON string.
+ */
+export interface Serializer<T> {
+  /**
+   * Serializes the given value to a JSON string.
+   *
+   * @param value the value to serialize
+   * @returns the JSON text
+   */
+  serialize(value: T): string;
+}
+
+/**
+ * Rebuilds a CHEAP model object from a JSON string.
+ */
+export interface Deserializer<T> {
+  /**
+   * Deserializes the given JSON text.
+   *
+   * @param json the JSON text to parse
+   * @returns the rebuilt value
+   */
+  deserialize(json: string): T;
+}
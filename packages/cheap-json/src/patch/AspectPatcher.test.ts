@@ -0,0 +1,211 @@
+/**
+ * Unit tests for AspectPatcher and the JSON Pointer helpers
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  Aspect,
+  AspectObjectMapImpl,
+  EntityImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { AspectPatcher } from "./AspectPatcher.js";
+import { parseJsonPointer, toJsonPointer } from "./JsonPatch.js";
+
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+
+function personDef(isWritable: boolean = true): FullAspectDefImpl {
+  const prop = (name: string, type: PropertyType) => new PropertyDefBuilder().setName(name).setType(type);
+  const propDefs = new Map<string, PropertyDef>([
+    ["name", prop("name", PropertyType.String).setIsNullable(false).setIsRemovable(false).build()],
+    ["age", prop("age", PropertyType.Integer).build()],
+    ["born", prop("born", PropertyType.DateTime).build()],
+    ["id", prop("id", PropertyType.UUID).setIsWritable(false).build()],
+    ["scores", prop("scores", PropertyType.Float).setIsMultivalued(true).build()],
+    ["tags", prop("tags", PropertyType.String).setIsMultivalued(true).build()],
+    ["a/b", prop("a/b", PropertyType.String).build()],
+  ]);
+  return new FullAspectDefImpl("person", ASPECT_DEF_ID, propDefs, true, isWritable, false, false);
+}
+
+function person(def: FullAspectDefImpl = personDef()): Aspect {
+  const aspect = new AspectObjectMapImpl(new EntityImpl(), def);
+  aspect.unsafeWrite("name", "Ada");
+  aspect.unsafeWrite("age", 36);
+  aspect.unsafeWrite("id", "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  aspect.unsafeWrite("tags", ["x", "y"]);
+  return aspect;
+}
+
+describe("JSON Pointer", () => {
+  it("should parse and escape reference tokens", () => {
+    expect(parseJsonPointer("")).toEqual([]);
+    expect(parseJsonPointer("/a~1b/~01")).toEqual(["a/b", "~1"]);
+    expect(toJsonPointer(["a/b", "~1", 0])).toBe("/a~1b/~01/0");
+    expect(() => parseJsonPointer("name")).toThrow(/Invalid JSON Pointer/);
+  });
+});
+
+describe("AspectPatcher", () => {
+  let patcher: AspectPatcher;
+  let aspect: Aspect;
+
+  beforeEach(() => {
+    patcher = new AspectPatcher();
+    aspect = person();
+  });
+
+  describe("applyPatch", () => {
+    it("should add, replace and remove properties, coercing values", () => {
+      patcher.applyPatch(aspect, [
+        { op: "replace", path: "/name", value: "Grace" },
+        { op: "add", path: "/born", value: "1906-12-09T00:00:00.000Z" },
+        { op: "remove", path: "/age" },
+        { op: "add", path: "/a~1b", value: "slash" },
+      ]);
+
+      expect(aspect.readObj("name")).toBe("Grace");
+      expect(aspect.readObj("born")).toEqual(new Date("1906-12-09T00:00:00.000Z"));
+      expect(aspect.contains("age")).toBe(false);
+      expect(aspect.readObj("a/b")).toBe("slash");
+    });
+
+    it("should accept the patch as JSON text", () => {
+      patcher.applyPatch(aspect, '[{"op":"replace","path":"/age","value":37}]');
+      expect(aspect.readObj("age")).toBe(37);
+    });
+
+    it("should apply array operations to multivalued properties without mutating the old array", () => {
+      const original = aspect.unsafeReadObj("tags");
+      patcher.applyPatch(aspect, [
+        { op: "add", path: "/tags/-", value: "z" },
+        { op: "add", path: "/tags/0", value: "w" },
+        { op: "replace", path: "/tags/2", value: "Y" },
+        { op: "remove", path: "/tags/1" },
+        { op: "add", path: "/scores", value: [1.5] },
+        { op: "add", path: "/scores/1", value: "NaN" },
+      ]);
+
+      expect(aspect.readObj("tags")).toEqual(["w", "Y", "z"]);
+      expect(aspect.readObj("scores")).toEqual([1.5, NaN]);
+      expect(original).toEqual(["x", "y"]);
+    });
+
+    it("should move and copy values, including between elements and properties", () => {
+      patcher.applyPatch(aspect, [
+        { op: "copy", from: "/tags/1", path: "/a~1b" },
+        { op: "move", from: "/tags/0", path: "/tags/-" },
+      ]);
+
+      expect(aspect.readObj("a/b")).toBe("y");
+      expect(aspect.readObj("tags")).toEqual(["y", "x"]);
+    });
+
+    it("should evaluate test operations against encoded values", () => {
+      expect(() =>
+        patcher.applyPatch(aspect, [
+          { op: "test", path: "/tags", value: ["x", "y"] },
+          { op: "test", path: "/tags/1", value: "y" },
+          { op: "test", path: "/age", value: 36 },
+        ]),
+      ).not.toThrow();
+      expect(() => patcher.applyPatch(aspect, [{ op: "test", path: "/age", value: 35 }])).toThrow(
+        /operation 0 failed: Test of '\/age' failed/,
+      );
+    });
+
+    it("should leave the aspect unchanged when any operation fails", () => {
+      expect(() =>
+        patcher.applyPatch(aspect, [
+          { op: "replace", path: "/name", value: "Grace" },
+          { op: "remove", path: "/born" },
+        ]),
+      ).toThrow(/operation 1 failed: Property 'born' has no value/);
+      expect(aspect.readObj("name")).toBe("Ada");
+    });
+
+    it("should enforce isWritable, isRemovable and nullability", () => {
+      expect(() =>
+        patcher.applyPatch(aspect, [{ op: "replace", path: "/id", value: "00000000-0000-0000-0000-000000000000" }]),
+      ).toThrow(/'id' in Aspect 'person' is not writable/);
+      expect(() => patcher.applyPatch(aspect, [{ op: "remove", path: "/name" }])).toThrow(/not removable/);
+      expect(() => patcher.applyPatch(aspect, [{ op: "replace", path: "/name", value: null }])).toThrow(
+        /cannot be null/,
+      );
+      expect(() => patcher.applyPatch(person(personDef(false)), [{ op: "add", path: "/age", value: 1 }])).toThrow(
+        /Aspect 'person' is not writable/,
+      );
+    });
+
+    it("should reject invalid paths and values", () => {
+      expect(() => patcher.applyPatch(aspect, [{ op: "add", path: "/nope", value: 1 }])).toThrow(
+        /does not contain prop named 'nope'/,
+      );
+      expect(() => patcher.applyPatch(aspect, [{ op: "add", path: "/age/0", value: 1 }])).toThrow(
+        /does not refer to a property or an element/,
+      );
+      expect(() => patcher.applyPatch(aspect, [{ op: "add", path: "/tags/5", value: "q" }])).toThrow(/out of bounds/);
+      expect(() => patcher.applyPatch(aspect, [{ op: "add", path: "/age", value: "old" }])).toThrow(/Cannot coerce/);
+      expect(() => patcher.applyPatch(aspect, [{ op: "move", from: "/tags", path: "/tags/0" }])).toThrow(
+        /its own child/,
+      );
+    });
+
+    it("should coerce moved and copied values to the type of their destination", () => {
+      aspect.unsafeWrite("tags", ["3.5", "not a number"]);
+      aspect.unsafeWrite("scores", [1]);
+
+      patcher.applyPatch(aspect, [{ op: "copy", from: "/tags/0", path: "/scores/-" }]);
+      expect(aspect.readObj("scores")).toEqual([1, 3.5]);
+      expect(() => patcher.applyPatch(aspect, [{ op: "copy", from: "/tags/1", path: "/scores/0" }])).toThrow(
+        /Cannot coerce/,
+      );
+    });
+  });
+
+  describe("applyMergePatch", () => {
+    it("should write members and remove null members", () => {
+      patcher.applyMergePatch(aspect, { "age": null, "born": "2000-01-01T00:00:00Z", "tags": ["only"], "a/b": null });
+
+      expect(aspect.contains("age")).toBe(false);
+      expect(aspect.readObj("born")).toEqual(new Date("2000-01-01T00:00:00Z"));
+      expect(aspect.readObj("tags")).toEqual(["only"]);
+    });
+
+    it("should be atomic and enforce the same checks as JSON Patch", () => {
+      expect(() => patcher.applyMergePatch(aspect, '{"age": 40, "name": null}')).toThrow(/not removable/);
+      expect(aspect.readObj("age")).toBe(36);
+      expect(() => patcher.applyMergePatch(aspect, "[]")).toThrow(/must be a JSON object/);
+    });
+  });
+
+  describe("diff", () => {
+    it("should generate a patch that turns the source into the target", () => {
+      const target = person();
+      target.unsafeWrite("name", "Grace");
+      target.unsafeRemove("age");
+      target.unsafeWrite("born", new Date("1906-12-09T00:00:00.000Z"));
+
+      const patch = patcher.diff(aspect, target);
+      expect(patch).toEqual([
+        { op: "replace", path: "/name", value: "Grace" },
+        { op: "remove", path: "/age" },
+        { op: "add", path: "/born", value: "1906-12-09T00:00:00.000Z" },
+      ]);
+
+      patcher.applyPatch(aspect, patch);
+      expect(patcher.diff(aspect, target)).toEqual([]);
+    });
+
+    it("should reject aspects of different AspectDefs", () => {
+      const other = new AspectObjectMapImpl(
+        new EntityImpl(),
+        new FullAspectDefImpl("other", ASPECT_DEF_ID, new Map(), true, true, false, false),
+      );
+      expect(() => patcher.diff(aspect, other)).toThrow(/different AspectDefs/);
+    });
+  });
+});
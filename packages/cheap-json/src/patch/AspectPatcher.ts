@@ -0,0 +1,373 @@
+/**
+ * AspectPatcher implementation
+ */
+
+import { Aspect, PropertyDef } from "@cheap-ts/core";
+import { JsonObject, JsonValue } from "../types.js";
+import { PropertyValueCodec } from "../util/PropertyValueCodec.js";
+import { JsonReader } from "../util/JsonReader.js";
+import { JsonPatch, JsonPatchOperation, parseJsonPointer, toJsonPointer } from "./JsonPatch.js";
+
+/**
+ * The location a patch path refers to: a whole property, or one element of a
+ * multivalued property ("-" is the position after the last element).
+ */
+interface PatchTarget {
+  propDef: PropertyDef;
+  index?: number | "-";
+}
+
+/**
+ * Applies RFC 6902 JSON Patches and RFC 7386 JSON Merge Patches to aspects,
+ * and generates JSON Patches from the differences between two aspects.
+ *
+ * Patches address an aspect as a JSON object of its property values, in the
+ * encoding of PropertyValueCodec: "/name" is a property, and "/tags/0" or
+ * "/tags/-" is an element of a multivalued property. Values in a patch are
+ * decoded and coerced to the type of their property.
+ *
+ * Every write requires the AspectDef and PropertyDef to be writable, every
+ * removal requires the PropertyDef to be removable, and every changed value must
+ * pass validatePropertyValue. Patches are atomic: the aspect is changed only
+ * if every operation succeeds.
+ */
+export class AspectPatcher {
+  private readonly _codec: PropertyValueCodec;
+  private readonly _reader = new JsonReader();
+
+  /**
+   * Creates a new AspectPatcher.
+   *
+   * @param codec the codec used to decode and encode property values
+   */
+  constructor(codec: PropertyValueCodec = new PropertyValueCodec()) {
+    this._codec = codec;
+  }
+
+  /**
+   * Applies an RFC 6902 JSON Patch to an aspect.
+   *
+   * @param aspect the aspect to patch
+   * @param patch the patch, as a list of operations or as JSON text
+   * @throws Error naming the failing operation; the aspect is then left unchanged
+   */
+  applyPatch(aspect: Aspect, patch: JsonPatch | string): void {
+    const ops: unknown = typeof patch === "string" ? this._reader.read(patch) : patch;
+    if (!Array.isArray(ops)) {
+      throw new Error("A JSON Patch must be an array of operations.");
+    }
+    const values = this.currentValues(aspect);
+    ops.forEach((op: JsonPatchOperation, index) => {
+      try {
+        this.applyOperation(aspect, values, op);
+      } catch (e) {
+        throw new Error(`JSON Patch operation ${index} failed: ${(e as Error).message}`, { cause: e });
+      }
+    });
+    this.commit(aspect, values);
+  }
+
+  /**
+   * Applies an RFC 7386 JSON Merge Patch to an aspect. Each member of the
+   * patch replaces the value of the property of the same name; a null member
+   * removes it. Arrays are replaced as a whole.
+   *
+   * @param aspect the aspect to patch
+   * @param patch the merge patch, as a JSON object or as JSON text
+   * @throws Error if any member cannot be applied; the aspect is then left unchanged
+   */
+  applyMergePatch(aspect: Aspect, patch: JsonObject | string): void {
+    const obj: unknown = typeof patch === "string" ? this._reader.read(patch) : patch;
+    if (obj === null || typeof obj !== "object" || Array.isArray(obj)) {
+      throw new Error("A JSON Merge Patch for an aspect must be a JSON object.");
+    }
+    const values = this.currentValues(aspect);
+    for (const [name, json] of Object.entries(obj as JsonObject)) {
+      if (json === undefined) {
+        continue;
+      }
+      const target = { propDef: this.propertyDef(aspect, name) };
+      if (json === null) {
+        if (values.has(name)) {
+          this.remove(aspect, values, target);
+        }
+      } else {
+        this.write(aspect, values, target, this.decode(target, json), false);
+      }
+    }
+    this.commit(aspect, values);
+  }
+
+  /**
+   * Generates a JSON Patch that turns one aspect into another of the same
+   * AspectDef. Properties only in the source are removed, properties only in
+   * the target are added, and properties whose encoded values differ are replaced.
+   *
+   * @param source the aspect to patch
+   * @param target the aspect the patch should produce
+   * @returns the patch operations, in the order of the AspectDef's properties
+   * @throws Error if the aspects have different AspectDefs
+   */
+  diff(source: Aspect, target: Aspect): JsonPatch {
+    const def = source.def();
+    if (def !== target.def() && !def.fullyEquals(target.def())) {
+      throw new Error(`Cannot diff aspects of different AspectDefs '${def.name()}' and '${target.def().name()}'.`);
+    }
+    const patch: JsonPatch = [];
+    for (const propDef of def.propertyDefs()) {
+      const name = propDef.name();
+      const path = toJsonPointer([name]);
+      const inSource = source.contains(name);
+      const inTarget = target.contains(name);
+      if (inSource && !inTarget) {
+        patch.push({ op: "remove", path });
+      } else if (inTarget) {
+        const value = this._codec.encode(propDef, target.unsafeReadObj(name));
+        if (!inSource) {
+          patch.push({ op: "add", path, value });
+        } else if (!jsonEquals(this._codec.encode(propDef, source.unsafeReadObj(name)), value)) {
+          patch.push({ op: "replace", path, value });
+        }
+      }
+    }
+    return patch;
+  }
+
+  private applyOperation(aspect: Aspect, values: Map<string, unknown>, op: JsonPatchOperation): void {
+    if (op === null || typeof op !== "object" || typeof op.path !== "string") {
+      throw new Error("An operation must be an object with a string 'path'.");
+    }
+    const target = this.target(aspect, op.path);
+    switch (op.op) {
+      case "add":
+        this.write(aspect, values, target, this.decode(target, this.requireValue(op)), true);
+        break;
+      case "remove":
+        this.remove(aspect, values, target);
+        break;
+      case "replace":
+        this.read(aspect, values, target, false);
+        this.write(aspect, values, target, this.decode(target, this.requireValue(op)), false);
+        break;
+      case "move":
+      case "copy": {
+        if (typeof op.from !== "string") {
+          throw new Error(`A '${op.op}' operation requires a string 'from'.`);
+        }
+        if (op.op === "move" && op.path.startsWith(op.from + "/")) {
+          throw new Error(`Cannot move '${op.from}' into its own child '${op.path}'.`);
+        }
+        const from = this.target(aspect, op.from);
+        const value = this.read(aspect, values, from, true);
+        if (op.op === "move") {
+          this.remove(aspect, values, from);
+        }
+        // Re-decode the value, so that it is coerced to the type of its new location
+        this.write(aspect, values, target, this.decode(target, this.encode(from, value)), true);
+        break;
+      }
+      case "test": {
+        const actual = this.encode(target, this.read(aspect, values, target, true));
+        if (!jsonEquals(actual, this.requireValue(op))) {
+          throw new Error(`Test of '${op.path}' failed.`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown operation '${String(op.op)}'.`);
+    }
+  }
+
+  private currentValues(aspect: Aspect): Map<string, unknown> {
+    const values = new Map<string, unknown>();
+    for (const propDef of aspect.def().propertyDefs()) {
+      if (aspect.contains(propDef.name())) {
+        values.set(propDef.name(), aspect.unsafeReadObj(propDef.name()));
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Writes the changed values back to the aspect, after validating all of them.
+   */
+  private commit(aspect: Aspect, values: Map<string, unknown>): void {
+    const removed: string[] = [];
+    const written: [string, unknown][] = [];
+    for (const propDef of aspect.def().propertyDefs()) {
+      const name = propDef.name();
+      const wasPresent = aspect.contains(name);
+      if (!values.has(name)) {
+        if (wasPresent) {
+          removed.push(name);
+        }
+      } else if (!wasPresent || values.get(name) !== aspect.unsafeReadObj(name)) {
+        propDef.validatePropertyValue(values.get(name), true);
+        written.push([name, values.get(name)]);
+      }
+    }
+    for (const name of removed) {
+      aspect.unsafeRemove(name);
+    }
+    for (const [name, value] of written) {
+      aspect.unsafeWrite(name, value);
+    }
+  }
+
+  private target(aspect: Aspect, path: string): PatchTarget {
+    const tokens = parseJsonPointer(path);
+    if (tokens.length === 0) {
+      throw new Error("Operations on the whole aspect are not supported.");
+    }
+    const propDef = this.propertyDef(aspect, tokens[0]);
+    if (tokens.length === 1) {
+      return { propDef };
+    }
+    if (tokens.length > 2 || !propDef.isMultivalued()) {
+      throw new Error(`Path '${path}' does not refer to a property or an element of a multivalued property.`);
+    }
+    const token = tokens[1];
+    if (token !== "-" && !/^(0|[1-9][0-9]*)$/.test(token)) {
+      throw new Error(`Invalid array index '${token}' in path '${path}'.`);
+    }
+    return { propDef, index: token === "-" ? "-" : Number(token) };
+  }
+
+  private propertyDef(aspect: Aspect, name: string): PropertyDef {
+    const propDef = aspect.def().propertyDef(name);
+    if (!propDef) {
+      throw new Error(`Aspect '${aspect.def().name()}' does not contain prop named '${name}'.`);
+    }
+    return propDef;
+  }
+
+  private read(aspect: Aspect, values: Map<string, unknown>, target: PatchTarget, checkReadable: boolean): unknown {
+    const name = target.propDef.name();
+    if (checkReadable && (!aspect.def().isReadable() || !target.propDef.isReadable())) {
+      throw new Error(`Property '${name}' in Aspect '${aspect.def().name()}' is not readable.`);
+    }
+    if (!values.has(name)) {
+      throw new Error(`Property '${name}' has no value.`);
+    }
+    const value = values.get(name);
+    if (target.index === undefined) {
+      return value;
+    }
+    const array = this.array(name, value);
+    if (target.index === "-" || target.index >= array.length) {
+      throw new Error(`Index ${target.index} is out of bounds for property '${name}'.`);
+    }
+    return array[target.index];
+  }
+
+  private write(
+    aspect: Aspect,
+    values: Map<string, unknown>,
+    target: PatchTarget,
+    value: unknown,
+    isAdd: boolean,
+  ): void {
+    const name = target.propDef.name();
+    this.checkWritable(aspect, target.propDef);
+    if (target.index === undefined) {
+      values.set(name, value);
+      return;
+    }
+    const array = [...this.array(name, values.get(name))];
+    const index = target.index === "-" ? array.length : target.index;
+    if (index > array.length || (!isAdd && index === array.length)) {
+      throw new Error(`Index ${target.index} is out of bounds for property '${name}'.`);
+    }
+    if (isAdd) {
+      array.splice(index, 0, value);
+    } else {
+      array[index] = value;
+    }
+    values.set(name, array);
+  }
+
+  private remove(aspect: Aspect, values: Map<string, unknown>, target: PatchTarget): void {
+    const name = target.propDef.name();
+    if (!values.has(name)) {
+      throw new Error(`Property '${name}' has no value.`);
+    }
+    if (target.index === undefined) {
+      if (!aspect.def().isWritable()) {
+        throw new Error(`Aspect '${aspect.def().name()}' is not writable.`);
+      }
+      if (!target.propDef.isRemovable()) {
+        throw new Error(`Property '${name}' in Aspect '${aspect.def().name()}' is not removable.`);
+      }
+      values.delete(name);
+      return;
+    }
+    this.checkWritable(aspect, target.propDef);
+    const array = [...this.array(name, values.get(name))];
+    if (target.index === "-" || target.index >= array.length) {
+      throw new Error(`Index ${target.index} is out of bounds for property '${name}'.`);
+    }
+    array.splice(target.index, 1);
+    values.set(name, array);
+  }
+
+  private checkWritable(aspect: Aspect, propDef: PropertyDef): void {
+    if (!aspect.def().isWritable()) {
+      throw new Error(`Aspect '${aspect.def().name()}' is not writable.`);
+    }
+    if (!propDef.isWritable()) {
+      throw new Error(`Property '${propDef.name()}' in Aspect '${aspect.def().name()}' is not writable.`);
+    }
+  }
+
+  private array(name: string, value: unknown): unknown[] {
+    if (!Array.isArray(value)) {
+      throw new Error(`Property '${name}' has no array value.`);
+    }
+    return value;
+  }
+
+  private requireValue(op: JsonPatchOperation): JsonValue {
+    if (op.value === undefined) {
+      throw new Error(`A '${op.op}' operation requires a 'value'.`);
+    }
+    return op.value;
+  }
+
+  private decode(target: PatchTarget, json: JsonValue): unknown {
+    return target.index === undefined ?
+        this._codec.decode(target.propDef, json)
+      : this._codec.decodeElement(target.propDef, json);
+  }
+
+  private encode(target: PatchTarget, value: unknown): JsonValue {
+    return target.index === undefined ?
+        this._codec.encode(target.propDef, value)
+      : this._codec.encodeSingleValue(target.propDef.type(), value);
+  }
+}
+
+/**
+ * Compares two JSON values structurally, ignoring the order of object members.
+ */
+function jsonEquals(a: JsonValue | undefined, b: JsonValue | undefined): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a === "bigint" || typeof b === "bigint") {
+    return typeof a !== "string" && typeof b !== "string" && String(a) === String(b);
+  }
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((element, i) => jsonEquals(element, b[i]))
+    );
+  }
+  const keysA = Object.keys(a).filter((key) => a[key] !== undefined);
+  const keysB = Object.keys(b).filter((key) => b[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every((key) => jsonEquals(a[key], b[key]));
+}
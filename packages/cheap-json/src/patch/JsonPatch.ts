@@ -0,0 +1,60 @@
+/**
+ * Type definitions and JSON Pointer helpers for JSON Patch
+ */
+
+import { JsonValue } from "../types.js";
+
+/**
+ * The operations of RFC 6902 JSON Patch.
+ */
+export type JsonPatchOp = "add" | "remove" | "replace" | "move" | "copy" | "test";
+
+/**
+ * A single RFC 6902 JSON Patch operation. "value" is used by add, replace and
+ * test; "from" is used by move and copy.
+ */
+export interface JsonPatchOperation {
+  op: JsonPatchOp;
+  path: string;
+  value?: JsonValue;
+  from?: string;
+}
+
+/**
+ * An RFC 6902 JSON Patch document: a list of operations applied in order.
+ */
+export type JsonPatch = JsonPatchOperation[];
+
+/**
+ * Splits an RFC 6901 JSON Pointer into its unescaped reference tokens.
+ *
+ * @param pointer the pointer, e.g. "/tags/0"; the empty string refers to the whole document
+ * @returns the reference tokens
+ * @throws Error if the pointer is neither empty nor starts with "/"
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer '${pointer}': must be empty or start with '/'.`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Builds an RFC 6901 JSON Pointer from reference tokens, escaping "~" and "/".
+ *
+ * @param tokens the reference tokens
+ * @returns the pointer
+ */
+export function toJsonPointer(tokens: Iterable<string | number>): string {
+  let pointer = "";
+  for (const token of tokens) {
+    pointer += "/" + String(token).replace(/~/g, "~0").replace(/\//g, "~1");
+  }
+  return pointer;
+}
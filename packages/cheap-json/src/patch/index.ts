@@ -0,0 +1,6 @@
+/**
+ * JSON Patch and JSON Merge Patch support for aspects
+ */
+
+export * from "./JsonPatch.js";
+export * from "./AspectPatcher.js";
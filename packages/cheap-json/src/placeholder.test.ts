@@ -1,7 +0,0 @@
-import { describe, it, expect } from "@jest/globals";
-
-describe("cheap-json placeholder", () => {
-  it("should pass", () => {
-    expect(true).toBe(true);
-  });
-});
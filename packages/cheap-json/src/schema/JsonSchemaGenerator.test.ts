@@ -0,0 +1,145 @@
+/**
+ * Unit tests for JsonSchemaGenerator
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  CatalogDefImpl,
+  FullAspectDefImpl,
+  HierarchyDefImpl,
+  HierarchyType,
+  ImmutableAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { JSON_SCHEMA_DRAFT_2020_12, JsonSchemaGenerator } from "./JsonSchemaGenerator.js";
+
+const PERSON_ID = "20000000-0000-0000-0000-000000000001";
+const ADDRESS_ID = "20000000-0000-0000-0000-000000000002";
+
+function prop(name: string, type: PropertyType): PropertyDefBuilder {
+  return new PropertyDefBuilder().setName(name).setType(type);
+}
+
+function personDef(): ImmutableAspectDefImpl {
+  return new ImmutableAspectDefImpl(
+    "person",
+    PERSON_ID,
+    new Map<string, PropertyDef>([
+      ["name", prop("name", PropertyType.String).setIsNullable(false).setIsRemovable(false).build()],
+      ["age", prop("age", PropertyType.Integer).setDefaultValue(0).build()],
+      ["nicknames", prop("nicknames", PropertyType.String).setIsMultivalued(true).build()],
+    ]),
+  );
+}
+
+describe("JsonSchemaGenerator", () => {
+  const generator = new JsonSchemaGenerator();
+
+  it("should map every PropertyType to a type and format", () => {
+    expect(generator.typeSchema(PropertyType.Integer)).toEqual({ type: "integer" });
+    expect(generator.typeSchema(PropertyType.Float)).toEqual({
+      anyOf: [{ type: "number" }, { enum: ["NaN", "Infinity", "-Infinity"] }],
+    });
+    expect(generator.typeSchema(PropertyType.Boolean)).toEqual({ type: "boolean" });
+    expect(generator.typeSchema(PropertyType.String)).toEqual({ type: "string", maxLength: 8192 });
+    expect(generator.typeSchema(PropertyType.Text)).toEqual({ type: "string" });
+    expect(generator.typeSchema(PropertyType.CLOB)).toEqual({ type: "string" });
+    expect(generator.typeSchema(PropertyType.BigInteger)).toEqual({ type: "string", pattern: "^-?[0-9]+$" });
+    expect(generator.typeSchema(PropertyType.BigDecimal).type).toBe("string");
+    expect(generator.typeSchema(PropertyType.DateTime)).toEqual({ type: "string", format: "date-time" });
+    expect(generator.typeSchema(PropertyType.URI)).toEqual({ type: "string", format: "uri" });
+    expect(generator.typeSchema(PropertyType.UUID)).toEqual({ type: "string", format: "uuid" });
+    expect(generator.typeSchema(PropertyType.BLOB)).toEqual({ type: "string", contentEncoding: "base64" });
+  });
+
+  it("should check BigDecimal strings with a decimal pattern", () => {
+    const pattern = new RegExp(generator.typeSchema(PropertyType.BigDecimal).pattern as string);
+    expect(pattern.test("-12.5e10")).toBe(true);
+    expect(pattern.test("12.")).toBe(false);
+    expect(pattern.test("abc")).toBe(false);
+  });
+
+  it("should generate an AspectDef schema with required, nullable, multivalued and default properties", () => {
+    expect(generator.aspectDefSchema(personDef())).toEqual({
+      $schema: JSON_SCHEMA_DRAFT_2020_12,
+      $id: `urn:uuid:${PERSON_ID}`,
+      title: "person",
+      type: "object",
+      properties: {
+        name: { type: "string", maxLength: 8192 },
+        age: { type: ["integer", "null"], default: 0 },
+        nicknames: { type: ["array", "null"], items: { type: "string", maxLength: 8192 } },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    });
+  });
+
+  it("should wrap schemas without a single type in anyOf when nullable", () => {
+    expect(generator.propertyDefSchema(prop("ratio", PropertyType.Float).build())).toEqual({
+      anyOf: [{ anyOf: [{ type: "number" }, { enum: ["NaN", "Infinity", "-Infinity"] }] }, { type: "null" }],
+    });
+  });
+
+  it("should encode default values and access flags", () => {
+    const schema = generator.propertyDefSchema(
+      prop("big", PropertyType.BigInteger)
+        .setIsNullable(false)
+        .setDefaultValue(12345678901234567890n)
+        .setIsWritable(false)
+        .build(),
+    );
+    expect(schema).toEqual({ type: "string", pattern: "^-?[0-9]+$", default: "12345678901234567890", readOnly: true });
+  });
+
+  it("should allow additional properties for extensible AspectDefs and omit an empty required list", () => {
+    const open = new FullAspectDefImpl(
+      "open",
+      ADDRESS_ID,
+      new Map([["note", prop("note", PropertyType.Text).build()]]),
+      true,
+      true,
+      true,
+      true,
+    );
+    const schema = generator.aspectDefSchema(open);
+    expect(schema.required).toBeUndefined();
+    expect(schema.additionalProperties).toBeUndefined();
+  });
+
+  it("should bundle the AspectDefs of a CatalogDef under $defs", () => {
+    const address = new ImmutableAspectDefImpl(
+      "address",
+      ADDRESS_ID,
+      new Map([["city", prop("city", PropertyType.String).build()]]),
+    );
+    const catalogDef = new CatalogDefImpl(
+      [new HierarchyDefImpl("people", HierarchyType.ENTITY_SET)],
+      [personDef(), address],
+    );
+
+    const bundle = generator.catalogDefSchema(catalogDef);
+    expect(bundle.$schema).toBe(JSON_SCHEMA_DRAFT_2020_12);
+    expect(Object.keys(bundle.$defs as object)).toEqual(["person", "address"]);
+    expect((bundle.$defs as Record<string, unknown>).address).toEqual({
+      $id: `urn:uuid:${ADDRESS_ID}`,
+      title: "address",
+      type: "object",
+      properties: { city: { type: ["string", "null"], maxLength: 8192 } },
+      additionalProperties: false,
+    });
+  });
+
+  it("should describe the configured encodings", () => {
+    const encoded = new JsonSchemaGenerator({ bigInteger: "number", dateTime: "epochMillis", blob: "hex" });
+    expect(encoded.typeSchema(PropertyType.BigInteger)).toEqual({ type: "integer" });
+    expect(encoded.typeSchema(PropertyType.DateTime)).toEqual({ type: "integer" });
+    expect(encoded.typeSchema(PropertyType.BLOB)).toEqual({ type: "string", pattern: "^([0-9a-f]{2})*$" });
+    expect(new JsonSchemaGenerator({ blob: "base64url" }).typeSchema(PropertyType.BLOB)).toEqual({
+      type: "string",
+      contentEncoding: "base64url",
+    });
+  });
+});
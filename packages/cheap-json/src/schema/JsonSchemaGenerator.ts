@@ -0,0 +1,173 @@
+/**
+ * JsonSchemaGenerator implementation
+ */
+
+import { AspectDef, CatalogDef, PropertyDef, PropertyType } from "@cheap-ts/core";
+import { JsonObject, JsonValueEncodings } from "../types.js";
+import { PropertyValueCodec } from "../util/PropertyValueCodec.js";
+import { setMember } from "../util/JsonMembers.js";
+
+/** The URI of the JSON Schema dialect used by generated schemas. */
+export const JSON_SCHEMA_DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+/** The maximum length of a String property value, in characters. */
+export const STRING_MAX_LENGTH = 8192;
+
+/**
+ * Generates JSON Schema (draft 2020-12) documents describing the property
+ * values of aspects, in the JSON encoding written by PropertyValueCodec.
+ *
+ * With the default encodings, each PropertyType maps to a JSON type and, where
+ * one applies, a format:
+ * - Integer: integer
+ * - Float: number, or one of the strings "NaN", "Infinity", "-Infinity"
+ * - Boolean: boolean
+ * - String: string of at most 8192 characters
+ * - Text, CLOB: string
+ * - BigInteger, BigDecimal: string of decimal digits, checked by pattern
+ * - DateTime: string with format "date-time"
+ * - URI: string with format "uri"
+ * - UUID: string with format "uuid"
+ * - BLOB: string with contentEncoding "base64"
+ *
+ * Other encoding policies change the schemas of BigInteger (integer), DateTime
+ * (integer epoch milliseconds) and BLOB (base64url, or a pattern of hex digits).
+ *
+ * Multivalued properties are arrays of these. Nullable properties also accept
+ * null, non-removable properties are required, and default values are encoded
+ * with the codec. Unless the AspectDef can add properties, aspect objects may
+ * not contain properties outside their AspectDef.
+ */
+export class JsonSchemaGenerator {
+  private readonly _codec: PropertyValueCodec;
+
+  /**
+   * Creates a new JsonSchemaGenerator.
+   *
+   * @param encodings the encoding policies of the JSON being described
+   */
+  constructor(encodings: JsonValueEncodings = {}) {
+    this._codec = new PropertyValueCodec(undefined, encodings);
+  }
+
+  /**
+   * Generates a standalone schema for the property values of an AspectDef.
+   *
+   * @param aspectDef the AspectDef to describe
+   * @returns the JSON Schema document
+   */
+  aspectDefSchema(aspectDef: AspectDef): JsonObject {
+    return {
+      $schema: JSON_SCHEMA_DRAFT_2020_12,
+      ...this.aspectDefSubschema(aspectDef),
+    };
+  }
+
+  /**
+   * Generates a bundle of schemas for every AspectDef in a CatalogDef. Each
+   * AspectDef's schema is a $defs entry keyed by its name, so it can be
+   * referenced as "#/$defs/<name>".
+   *
+   * @param catalogDef the CatalogDef to describe
+   * @returns the JSON Schema bundle
+   */
+  catalogDefSchema(catalogDef: CatalogDef): JsonObject {
+    const defs: JsonObject = {};
+    for (const aspectDef of catalogDef.aspectDefs()) {
+      setMember(defs, aspectDef.name(), this.aspectDefSubschema(aspectDef));
+    }
+    return {
+      $schema: JSON_SCHEMA_DRAFT_2020_12,
+      $defs: defs,
+    };
+  }
+
+  /**
+   * Generates the schema of a single property value.
+   *
+   * @param propDef the PropertyDef to describe
+   * @returns the schema of the property's value
+   */
+  propertyDefSchema(propDef: PropertyDef): JsonObject {
+    let schema = this.typeSchema(propDef.type());
+    if (propDef.isMultivalued()) {
+      schema = { type: "array", items: schema };
+    }
+    if (propDef.isNullable()) {
+      schema = this.nullable(schema);
+    }
+    if (propDef.hasDefaultValue()) {
+      schema.default = this._codec.encode(propDef, propDef.defaultValue());
+    }
+    if (!propDef.isWritable()) {
+      schema.readOnly = true;
+    }
+    if (!propDef.isReadable()) {
+      schema.writeOnly = true;
+    }
+    return schema;
+  }
+
+  /**
+   * Generates the schema of a single (non-collection) value of a PropertyType.
+   *
+   * @param type the property type
+   * @returns the schema of a value of that type
+   */
+  typeSchema(type: PropertyType): JsonObject {
+    const encodings = this._codec.encodings();
+    switch (type) {
+      case PropertyType.Integer:
+        return { type: "integer" };
+      case PropertyType.Float:
+        return { anyOf: [{ type: "number" }, { enum: ["NaN", "Infinity", "-Infinity"] }] };
+      case PropertyType.Boolean:
+        return { type: "boolean" };
+      case PropertyType.String:
+        return { type: "string", maxLength: STRING_MAX_LENGTH };
+      case PropertyType.BigInteger:
+        return encodings.bigInteger === "number" ? { type: "integer" } : { type: "string", pattern: "^-?[0-9]+$" };
+      case PropertyType.BigDecimal:
+        return { type: "string", pattern: "^-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$" };
+      case PropertyType.DateTime:
+        return encodings.dateTime === "epochMillis" ? { type: "integer" } : { type: "string", format: "date-time" };
+      case PropertyType.URI:
+        return { type: "string", format: "uri" };
+      case PropertyType.UUID:
+        return { type: "string", format: "uuid" };
+      case PropertyType.BLOB:
+        return encodings.blob === "hex" ?
+            { type: "string", pattern: "^([0-9a-f]{2})*$" }
+          : { type: "string", contentEncoding: encodings.blob };
+      default:
+        // Text and CLOB are unbounded strings
+        return { type: "string" };
+    }
+  }
+
+  private aspectDefSubschema(aspectDef: AspectDef): JsonObject {
+    const properties: JsonObject = {};
+    const required: string[] = [];
+    for (const propDef of aspectDef.propertyDefs()) {
+      setMember(properties, propDef.name(), this.propertyDefSchema(propDef));
+      if (!propDef.isRemovable()) {
+        required.push(propDef.name());
+      }
+    }
+    return {
+      $id: `urn:uuid:${aspectDef.globalId()}`,
+      title: aspectDef.name(),
+      type: "object",
+      properties,
+      required: required.length > 0 ? required : undefined,
+      additionalProperties: !aspectDef.canAddProperties() ? false : undefined,
+    };
+  }
+
+  private nullable(schema: JsonObject): JsonObject {
+    if (typeof schema.type === "string") {
+      return { ...schema, type: [schema.type, "null"] };
+    }
+    return { anyOf: [schema, { type: "null" }] };
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * JSON Schema generation for the CHEAP model
+ */
+
+export * from "./JsonSchemaGenerator.js";
@@ -0,0 +1,33 @@
+/**
+ * AspectDefSerializer implementation
+ */
+
+import { AspectDef } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+import { PropertyDefSerializer } from "./PropertyDefSerializer.js";
+
+/**
+ * Serializes AspectDefs, including all of their PropertyDefs in definition order.
+ */
+export class AspectDefSerializer extends JsonSerializerBase<AspectDef> {
+  private readonly _propertyDefSerializer: PropertyDefSerializer;
+
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+    this._propertyDefSerializer = new PropertyDefSerializer(options);
+  }
+
+  toJson(aspectDef: AspectDef): JsonObject {
+    return {
+      globalId: aspectDef.globalId(),
+      name: aspectDef.name(),
+      isReadable: aspectDef.isReadable(),
+      isWritable: aspectDef.isWritable(),
+      canAddProperties: aspectDef.canAddProperties(),
+      canRemoveProperties: aspectDef.canRemoveProperties(),
+      propertyDefs: aspectDef.propertyDefs().map((propDef) => this._propertyDefSerializer.toJson(propDef)),
+      hash: this.hashToJson(aspectDef.hash()),
+    };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * AspectSerializer implementation
+ */
+
+import { Aspect } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+import { setMember } from "../util/JsonMembers.js";
+
+/**
+ * Serializes Aspects. A standalone aspect is written with the name of its
+ * AspectDef and the global ID of its entity; inside an AspectMapHierarchy only
+ * the property values are written (see propertiesToJson).
+ */
+export class AspectSerializer extends JsonSerializerBase<Aspect> {
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+  }
+
+  toJson(aspect: Aspect): JsonObject {
+    return {
+      aspectDef: aspect.def().name(),
+      entityId: aspect.entity().globalId(),
+      properties: this.propertiesToJson(aspect),
+    };
+  }
+
+  /**
+   * Converts the property values of an aspect to a JSON object keyed by
+   * property name, in the order of the AspectDef's PropertyDefs. Properties
+   * the aspect does not contain are omitted.
+   *
+   * @param aspect the aspect whose properties should be converted
+   * @returns a JSON object of property values
+   */
+  propertiesToJson(aspect: Aspect): JsonObject {
+    const result: JsonObject = {};
+    for (const propDef of aspect.def().propertyDefs()) {
+      if (!aspect.contains(propDef.name())) {
+        continue;
+      }
+      setMember(result, propDef.name(), this._codec.encode(propDef, aspect.unsafeReadObj(propDef.name())));
+    }
+    return result;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for canonical JSON output and hash verification
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  CatalogDefImpl,
+  FullAspectDefImpl,
+  HierarchyDefImpl,
+  HierarchyType,
+  ImmutableAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { hashFromJson, hashToJson } from "../util/HashCodec.js";
+import { AspectDefSerializer } from "./AspectDefSerializer.js";
+import { CatalogDefSerializer } from "./CatalogDefSerializer.js";
+import { HierarchyDefSerializer } from "./HierarchyDefSerializer.js";
+import { AspectDefDeserializer } from "../deserialize/AspectDefDeserializer.js";
+import { CatalogDefDeserializer } from "../deserialize/CatalogDefDeserializer.js";
+import { HierarchyDefDeserializer } from "../deserialize/HierarchyDefDeserializer.js";
+
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+
+function propDefs(): Map<string, PropertyDef> {
+  return new Map<string, PropertyDef>([
+    ["name", new PropertyDefBuilder().setName("name").setType(PropertyType.String).build()],
+    [
+      "born",
+      new PropertyDefBuilder()
+        .setName("born")
+        .setType(PropertyType.DateTime)
+        .setDefaultValue(new Date("2000-01-01T00:00:00Z"))
+        .build(),
+    ],
+  ]);
+}
+
+function catalogDef(): CatalogDefImpl {
+  return new CatalogDefImpl(
+    [new HierarchyDefImpl("people", HierarchyType.ENTITY_SET)],
+    [new ImmutableAspectDefImpl("person", ASPECT_DEF_ID, propDefs())],
+  );
+}
+
+describe("HashCodec", () => {
+  it("should encode hashes as 16 lowercase hex digits", () => {
+    expect(hashToJson(0xabcn)).toBe("0000000000000abc");
+    expect(hashToJson(0xcbf29ce484222325n)).toBe("cbf29ce484222325");
+    expect(hashToJson(-1n)).toBe("ffffffffffffffff");
+    expect(hashFromJson("cbf29ce484222325")).toBe(0xcbf29ce484222325n);
+    expect(() => hashFromJson("ABC")).toThrow(/16 lowercase hex digits/);
+  });
+});
+
+describe("canonical JSON", () => {
+  it("should write a HierarchyDef with sorted keys and its hash", () => {
+    const def = new HierarchyDefImpl("people", HierarchyType.ENTITY_SET);
+    expect(new HierarchyDefSerializer({ canonical: true, prettyPrint: true }).serialize(def)).toBe(
+      `{"hash":"${hashToJson(def.hash())}","name":"people","type":"ES"}`,
+    );
+  });
+
+  it("should omit hashes outside canonical mode", () => {
+    const def = new HierarchyDefImpl("people", HierarchyType.ENTITY_SET);
+    expect(new HierarchyDefSerializer().serialize(def)).toBe('{"name":"people","type":"ES"}');
+  });
+
+  it("should write the fixed form of an AspectDef", () => {
+    const def = new ImmutableAspectDefImpl("person", ASPECT_DEF_ID, propDefs());
+    const born = def.propertyDef("born")!;
+    const name = def.propertyDef("name")!;
+    expect(new AspectDefSerializer({ canonical: true }).serialize(def)).toBe(
+      "{" +
+        '"canAddProperties":false,"canRemoveProperties":false,' +
+        `"globalId":"${ASPECT_DEF_ID}","hash":"${hashToJson(def.hash())}",` +
+        '"isReadable":true,"isWritable":true,"name":"person","propertyDefs":[' +
+        `{"hasDefaultValue":false,"hash":"${hashToJson(name.hash())}","isMultivalued":false,` +
+        '"isNullable":true,"isReadable":true,"isRemovable":true,"isWritable":true,"name":"name","type":"STR"},' +
+        `{"defaultValue":"2000-01-01T00:00:00.000Z","hasDefaultValue":true,"hash":"${hashToJson(born.hash())}",` +
+        '"isMultivalued":false,"isNullable":true,"isReadable":true,"isRemovable":true,"isWritable":true,' +
+        '"name":"born","type":"DAT"}]}',
+    );
+  });
+
+  it("should give byte-identical output for equal definitions of different classes", () => {
+    const immutable = new ImmutableAspectDefImpl("person", ASPECT_DEF_ID, propDefs());
+    const full = new FullAspectDefImpl("person", ASPECT_DEF_ID, propDefs(), true, true, false, false);
+    const serializer = new AspectDefSerializer({ canonical: true });
+    expect(serializer.serialize(full)).toBe(serializer.serialize(immutable));
+  });
+
+  it("should write CatalogDefs with ordered AspectDefs and HierarchyDefs", () => {
+    const def = catalogDef();
+    const json = JSON.parse(new CatalogDefSerializer({ canonical: true }).serialize(def));
+    expect(Object.keys(json)).toEqual(["aspectDefs", "hash", "hierarchyDefs"]);
+    expect(json.hash).toBe(hashToJson(def.hash()));
+    expect(json.aspectDefs[0].name).toBe("person");
+    expect(json.hierarchyDefs).toEqual([
+      { hash: hashToJson(new HierarchyDefImpl("people", HierarchyType.ENTITY_SET).hash()), name: "people", type: "ES" },
+    ]);
+  });
+});
+
+describe("hash verification", () => {
+  const canonical = () => new CatalogDefSerializer({ canonical: true }).serialize(catalogDef());
+
+  it("should accept definitions whose embedded hashes match", () => {
+    const def = new CatalogDefDeserializer(undefined, { verifyHashes: true }).deserialize(canonical());
+    expect(def.hash()).toBe(catalogDef().hash());
+  });
+
+  it("should reject a tampered AspectDef", () => {
+    const tampered = canonical().replace('"name":"person"', '"name":"human"');
+    expect(() => new CatalogDefDeserializer(undefined, { verifyHashes: true }).deserialize(tampered)).toThrow(
+      /Hash mismatch for AspectDef 'human'/,
+    );
+  });
+
+  it("should reject a tampered HierarchyDef and CatalogDef hash", () => {
+    const json = JSON.parse(canonical());
+    json.hierarchyDefs[0].type = "EL";
+    expect(() =>
+      new HierarchyDefDeserializer(undefined, { verifyHashes: true }).fromJson(json.hierarchyDefs[0]),
+    ).toThrow(/Hash mismatch for hierarchy def 'people'/);
+
+    const wrongCatalogHash = JSON.parse(canonical());
+    wrongCatalogHash.hash = "0000000000000000";
+    expect(() => new CatalogDefDeserializer(undefined, { verifyHashes: true }).fromJson(wrongCatalogHash)).toThrow(
+      /Hash mismatch for catalog def/,
+    );
+  });
+
+  it("should ignore embedded hashes unless verification is enabled", () => {
+    const tampered = canonical().replace('"name":"person"', '"name":"human"');
+    expect(new CatalogDefDeserializer().deserialize(tampered).aspectDef("human")).not.toBeNull();
+  });
+
+  it("should ignore missing hashes when verifying", () => {
+    const plain = new AspectDefSerializer().serialize(new ImmutableAspectDefImpl("person", ASPECT_DEF_ID, propDefs()));
+    expect(new AspectDefDeserializer(undefined, { verifyHashes: true }).deserialize(plain).name()).toBe("person");
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * CatalogDefSerializer implementation
+ */
+
+import { CatalogDef } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+import { AspectDefSerializer } from "./AspectDefSerializer.js";
+import { HierarchyDefSerializer } from "./HierarchyDefSerializer.js";
+
+/**
+ * Serializes CatalogDefs. The AspectDefs and HierarchyDefs are written as
+ * arrays, since their order is part of the CatalogDef's hash.
+ */
+export class CatalogDefSerializer extends JsonSerializerBase<CatalogDef> {
+  private readonly _aspectDefSerializer: AspectDefSerializer;
+  private readonly _hierarchyDefSerializer: HierarchyDefSerializer;
+
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+    this._aspectDefSerializer = new AspectDefSerializer(options);
+    this._hierarchyDefSerializer = new HierarchyDefSerializer(options);
+  }
+
+  toJson(catalogDef: CatalogDef): JsonObject {
+    return {
+      aspectDefs: Array.from(catalogDef.aspectDefs(), (def) => this._aspectDefSerializer.toJson(def)),
+      hierarchyDefs: Array.from(catalogDef.hierarchyDefs(), (def) => this._hierarchyDefSerializer.toJson(def)),
+      hash: this.hashToJson(catalogDef.hash()),
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for CatalogSerializer, AspectDefSerializer, AspectSerializer and EntitySerializer
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  AspectObjectMapImpl,
+  CatalogImpl,
+  CatalogSpecies,
+  EntityImpl,
+  EntityListHierarchyImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { CatalogSerializer } from "./CatalogSerializer.js";
+import { AspectDefSerializer } from "./AspectDefSerializer.js";
+import { AspectSerializer } from "./AspectSerializer.js";
+import { EntitySerializer } from "./EntitySerializer.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+const ENTITY_ID = "00000000-0000-0000-0000-000000000001";
+
+function allTypesAspectDef(): FullAspectDefImpl {
+  const propDefs = new Map<string, PropertyDef>();
+  const add = (name: string, type: PropertyType, isMultivalued: boolean = false) =>
+    propDefs.set(name, new PropertyDefBuilder().setName(name).setType(type).setIsMultivalued(isMultivalued).build());
+  add("int", PropertyType.Integer);
+  add("flt", PropertyType.Float);
+  add("bln", PropertyType.Boolean);
+  add("str", PropertyType.String);
+  add("txt", PropertyType.Text);
+  add("bgi", PropertyType.BigInteger);
+  add("bgf", PropertyType.BigDecimal);
+  add("dat", PropertyType.DateTime);
+  add("uri", PropertyType.URI);
+  add("uid", PropertyType.UUID);
+  add("clb", PropertyType.CLOB);
+  add("blb", PropertyType.BLOB);
+  add("tags", PropertyType.String, true);
+  return new FullAspectDefImpl("allTypes", ASPECT_DEF_ID, propDefs, true, true, false, false);
+}
+
+describe("CatalogSerializer", () => {
+  let catalog: CatalogImpl;
+  let aspectDef: FullAspectDefImpl;
+  let entity: EntityImpl;
+
+  beforeEach(() => {
+    catalog = new CatalogImpl(CATALOG_ID);
+    aspectDef = allTypesAspectDef();
+    entity = new EntityImpl(ENTITY_ID);
+
+    const aspect = new AspectObjectMapImpl(entity, aspectDef);
+    aspect.write("int", 7);
+    aspect.write("flt", 2.5);
+    aspect.write("bln", true);
+    aspect.write("str", "short");
+    aspect.write("txt", "long text");
+    aspect.write("bgi", 12345678901234567890123n);
+    aspect.write("bgf", "3.14159265358979323846");
+    aspect.write("dat", new Date("2025-06-01T12:00:00.000Z"));
+    aspect.write("uri", new URL("https://example.com/x"));
+    aspect.write("uid", "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+    aspect.write("clb", "clob");
+    aspect.write("blb", new Uint8Array([1, 2, 3]));
+    aspect.write("tags", ["a", "b"]);
+    catalog.extend(aspectDef).add(aspect);
+
+    const list = new EntityListHierarchyImpl(catalog, "list");
+    list.push(entity);
+  });
+
+  it("should serialize catalog metadata, AspectDefs and hierarchies", () => {
+    const json = new CatalogSerializer().toJson(catalog);
+
+    expect(json.globalId).toBe(CATALOG_ID);
+    expect(json.species).toBe(CatalogSpecies.SINK);
+    expect(json.uri).toBeNull();
+    expect(json.upstream).toBeNull();
+    expect(json.version).toBe(0);
+    expect(Object.keys(json.aspectDefs as object)).toEqual(["allTypes"]);
+    expect(Object.keys(json.hierarchies as object)).toEqual(["allTypes", "list"]);
+  });
+
+  it("should encode every PropertyType in aspects", () => {
+    const json = JSON.parse(new CatalogSerializer().serialize(catalog));
+
+    expect(json.hierarchies.allTypes.aspects[ENTITY_ID]).toEqual({
+      int: 7,
+      flt: 2.5,
+      bln: true,
+      str: "short",
+      txt: "long text",
+      bgi: "12345678901234567890123",
+      bgf: "3.14159265358979323846",
+      dat: "2025-06-01T12:00:00.000Z",
+      uri: "https://example.com/x",
+      uid: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+      clb: "clob",
+      blb: "AQID",
+      tags: ["a", "b"],
+    });
+  });
+
+  it("should write the catalog URI and upstream when present", () => {
+    const clone = new CatalogImpl("30000000-0000-0000-0000-000000000000", CatalogSpecies.CLONE, CATALOG_ID, 2);
+    clone.setUri(new URL("https://example.com/catalogs/clone"));
+
+    const json = new CatalogSerializer().toJson(clone);
+    expect(json.species).toBe("CLONE");
+    expect(json.uri).toBe("https://example.com/catalogs/clone");
+    expect(json.upstream).toBe(CATALOG_ID);
+    expect(json.version).toBe(2);
+  });
+});
+
+describe("AspectDefSerializer", () => {
+  it("should serialize the AspectDef flags and PropertyDefs in order", () => {
+    const propDefs = new Map<string, PropertyDef>([
+      [
+        "count",
+        new PropertyDefBuilder()
+          .setName("count")
+          .setType(PropertyType.BigInteger)
+          .setDefaultValue(5n)
+          .setIsNullable(false)
+          .setIsRemovable(false)
+          .build(),
+      ],
+      [
+        "labels",
+        new PropertyDefBuilder().setName("labels").setType(PropertyType.String).setIsMultivalued(true).build(),
+      ],
+    ]);
+    const aspectDef = new FullAspectDefImpl("counter", ASPECT_DEF_ID, propDefs, true, false, true, false);
+
+    expect(new AspectDefSerializer().toJson(aspectDef)).toEqual({
+      globalId: ASPECT_DEF_ID,
+      name: "counter",
+      isReadable: true,
+      isWritable: false,
+      canAddProperties: true,
+      canRemoveProperties: false,
+      propertyDefs: [
+        {
+          name: "count",
+          type: "BGI",
+          hasDefaultValue: true,
+          defaultValue: "5",
+          isReadable: true,
+          isWritable: true,
+          isNullable: false,
+          isRemovable: false,
+          isMultivalued: false,
+        },
+        {
+          name: "labels",
+          type: "STR",
+          hasDefaultValue: false,
+          isReadable: true,
+          isWritable: true,
+          isNullable: true,
+          isRemovable: true,
+          isMultivalued: true,
+        },
+      ],
+    });
+  });
+});
+
+describe("AspectSerializer", () => {
+  it("should serialize a standalone aspect with its AspectDef name and entity ID", () => {
+    const aspectDef = allTypesAspectDef();
+    const aspect = new AspectObjectMapImpl(new EntityImpl(ENTITY_ID), aspectDef);
+    aspect.write("int", 1);
+
+    const json = new AspectSerializer().toJson(aspect);
+    expect(json.aspectDef).toBe("allTypes");
+    expect(json.entityId).toBe(ENTITY_ID);
+    expect((json.properties as Record<string, unknown>).int).toBe(1);
+    expect(json.properties).not.toHaveProperty("str");
+  });
+});
+
+describe("EntitySerializer", () => {
+  it("should serialize an entity as its global ID", () => {
+    expect(new EntitySerializer().serialize(new EntityImpl(ENTITY_ID))).toBe(`{"globalId":"${ENTITY_ID}"}`);
+  });
+});
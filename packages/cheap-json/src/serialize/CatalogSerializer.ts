@@ -0,0 +1,59 @@
+/**
+ * CatalogSerializer implementation
+ */
+
+import { Catalog } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+import { AspectDefSerializer } from "./AspectDefSerializer.js";
+import { HierarchySerializer } from "./HierarchySerializer.js";
+import { setMember } from "../util/JsonMembers.js";
+
+/**
+ * Serializes a complete Catalog: its identity and species, every AspectDef it
+ * contains (keyed by name), and every Hierarchy it contains (keyed by name),
+ * including the AspectMapHierarchies that hold its aspects.
+ */
+export class CatalogSerializer extends JsonSerializerBase<Catalog> {
+  private readonly _aspectDefSerializer: AspectDefSerializer;
+  private readonly _hierarchySerializer: HierarchySerializer;
+
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+    this._aspectDefSerializer = new AspectDefSerializer(options);
+    this._hierarchySerializer = new HierarchySerializer(options);
+  }
+
+  toJson(catalog: Catalog): JsonObject {
+    const aspectDefs: JsonObject = {};
+    for (const aspectDef of catalog.aspectDefs()) {
+      setMember(aspectDefs, aspectDef.name(), this._aspectDefSerializer.toJson(aspectDef));
+    }
+    const hierarchies: JsonObject = {};
+    for (const hierarchy of catalog.hierarchies()) {
+      setMember(hierarchies, hierarchy.name(), this._hierarchySerializer.toJson(hierarchy));
+    }
+    return {
+      ...this.headerToJson(catalog),
+      aspectDefs,
+      hierarchies,
+    };
+  }
+
+  /**
+   * Converts the identity of a catalog to JSON, without its AspectDefs or hierarchies.
+   *
+   * @param catalog the catalog to convert
+   * @returns a JSON object with the catalog's global ID, species, URI, upstream and version
+   */
+  headerToJson(catalog: Catalog): JsonObject {
+    const uri = catalog.uri();
+    return {
+      globalId: catalog.globalId(),
+      species: catalog.species(),
+      uri: uri ? uri.toString() : null,
+      upstream: catalog.upstream(),
+      version: catalog.version(),
+    };
+  }
+}
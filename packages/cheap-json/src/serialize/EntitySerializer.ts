@@ -0,0 +1,23 @@
+/**
+ * EntitySerializer implementation
+ */
+
+import { Entity } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+
+/**
+ * Serializes Entities. Since an Entity carries no data other than its global ID,
+ * that is all that is written.
+ */
+export class EntitySerializer extends JsonSerializerBase<Entity> {
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+  }
+
+  toJson(entity: Entity): JsonObject {
+    return {
+      globalId: entity.globalId(),
+    };
+  }
+}
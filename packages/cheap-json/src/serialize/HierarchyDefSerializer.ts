@@ -0,0 +1,24 @@
+/**
+ * HierarchyDefSerializer implementation
+ */
+
+import { HierarchyDef } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+
+/**
+ * Serializes HierarchyDefs as their name and type code.
+ */
+export class HierarchyDefSerializer extends JsonSerializerBase<HierarchyDef> {
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+  }
+
+  toJson(hierarchyDef: HierarchyDef): JsonObject {
+    return {
+      name: hierarchyDef.name(),
+      type: hierarchyDef.type(),
+      hash: this.hashToJson(hierarchyDef.hash()),
+    };
+  }
+}
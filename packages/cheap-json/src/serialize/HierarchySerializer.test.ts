@@ -0,0 +1,121 @@
+/**
+ * Unit tests for HierarchySerializer
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  AspectMapHierarchyImpl,
+  AspectObjectMapImpl,
+  CatalogImpl,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchyImpl,
+  EntityTreeLeafNodeImpl,
+  EntityTreeNodeImpl,
+  ImmutableAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { HierarchySerializer } from "./HierarchySerializer.js";
+
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+describe("HierarchySerializer", () => {
+  let catalog: CatalogImpl;
+  let serializer: HierarchySerializer;
+  const e1 = new EntityImpl(ID1);
+  const e2 = new EntityImpl(ID2);
+  const e3 = new EntityImpl(ID3);
+
+  beforeEach(() => {
+    catalog = new CatalogImpl("10000000-0000-0000-0000-000000000000");
+    serializer = new HierarchySerializer();
+  });
+
+  it("should serialize an entity list, keeping order and duplicates", () => {
+    const list = new EntityListHierarchyImpl(catalog, "list", 3);
+    list.push(e2, e1, e2);
+
+    expect(serializer.serialize(list)).toBe(
+      `{"name":"list","type":"EL","version":3,"entities":["${ID2}","${ID1}","${ID2}"]}`,
+    );
+  });
+
+  it("should serialize an entity set", () => {
+    const set = new EntitySetHierarchyImpl(catalog, "set", [e3, e1]);
+
+    expect(serializer.toJson(set)).toEqual({ name: "set", type: "ES", version: 0, entities: [ID3, ID1] });
+  });
+
+  it("should serialize an entity directory", () => {
+    const dir = new EntityDirectoryHierarchyImpl(catalog, "dir", [
+      ["b", e2],
+      ["a", e1],
+    ]);
+
+    expect(serializer.toJson(dir)).toEqual({ name: "dir", type: "ED", version: 0, entities: { b: ID2, a: ID1 } });
+  });
+
+  it("should serialize an entity tree recursively", () => {
+    const root = new EntityTreeNodeImpl(e1);
+    const folder = new EntityTreeNodeImpl(null, root);
+    root.set("folder", folder);
+    root.set("leaf", new EntityTreeLeafNodeImpl(e2, root));
+    folder.set("nested", new EntityTreeLeafNodeImpl(e3, folder));
+    const tree = new EntityTreeHierarchyImpl(catalog, "tree", root);
+
+    expect(serializer.toJson(tree)).toEqual({
+      name: "tree",
+      type: "ET",
+      version: 0,
+      root: {
+        entityId: ID1,
+        children: {
+          folder: { entityId: null, children: { nested: { entityId: ID3 } } },
+          leaf: { entityId: ID2 },
+        },
+      },
+    });
+  });
+
+  it("should serialize an aspect map keyed by entity ID", () => {
+    const propDefs = new Map<string, PropertyDef>([
+      ["name", new PropertyDefBuilder().setName("name").setType(PropertyType.String).build()],
+      ["age", new PropertyDefBuilder().setName("age").setType(PropertyType.Integer).build()],
+    ]);
+    const aspectDef = new ImmutableAspectDefImpl("person", "20000000-0000-0000-0000-000000000000", propDefs);
+    const aspectMap = new AspectMapHierarchyImpl(catalog, aspectDef);
+    const a1 = new AspectObjectMapImpl(e1, aspectDef);
+    a1.write("name", "Ada");
+    a1.write("age", 36);
+    const a2 = new AspectObjectMapImpl(e2, aspectDef);
+    a2.write("name", "Bob");
+    aspectMap.add(a1);
+    aspectMap.add(a2);
+
+    expect(serializer.toJson(aspectMap)).toEqual({
+      name: "person",
+      type: "AM",
+      version: 0,
+      aspectDef: "person",
+      aspects: {
+        [ID1]: { name: "Ada", age: 36 },
+        [ID2]: { name: "Bob" },
+      },
+    });
+  });
+
+  it("should pretty print when requested", () => {
+    const list = new EntityListHierarchyImpl(catalog, "list");
+    list.push(e1);
+
+    expect(new HierarchySerializer({ prettyPrint: true }).serialize(list)).toBe(
+      `{\n  "name": "list",\n  "type": "EL",\n  "version": 0,\n  "entities": [\n    "${ID1}"\n  ]\n}`,
+    );
+  });
+});
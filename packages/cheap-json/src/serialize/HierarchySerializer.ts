@@ -0,0 +1,118 @@
+/**
+ * HierarchySerializer implementation
+ */
+
+import {
+  AspectMapHierarchy,
+  EntityDirectoryHierarchy,
+  EntityListHierarchy,
+  EntitySetHierarchy,
+  EntityTreeHierarchy,
+  EntityTreeNode,
+  Hierarchy,
+  HierarchyType,
+} from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+import { AspectSerializer } from "./AspectSerializer.js";
+import { setMember } from "../util/JsonMembers.js";
+
+/**
+ * Serializes all five types of Hierarchy. Every hierarchy is written with its
+ * name, type code and version, followed by its type-specific contents:
+ *
+ * - EL, ES: "entities" is an array of entity global IDs
+ * - ED: "entities" is an object mapping keys to entity global IDs
+ * - ET: "root" is the root node; each node has an "entityId" and, unless it is
+ *   a leaf, a "children" object mapping child names to nodes
+ * - AM: "aspectDef" is the AspectDef name, and "aspects" is an object mapping
+ *   entity global IDs to the property values of their aspects
+ */
+export class HierarchySerializer extends JsonSerializerBase<Hierarchy> {
+  private readonly _aspectSerializer: AspectSerializer;
+
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+    this._aspectSerializer = new AspectSerializer(options);
+  }
+
+  toJson(hierarchy: Hierarchy): JsonObject {
+    const result = this.headerToJson(hierarchy);
+    switch (hierarchy.type()) {
+      case HierarchyType.ENTITY_LIST:
+        result.entities = Array.from(hierarchy as EntityListHierarchy, (e) => e.globalId());
+        break;
+      case HierarchyType.ENTITY_SET:
+        result.entities = Array.from(hierarchy as EntitySetHierarchy, (e) => e.globalId());
+        break;
+      case HierarchyType.ENTITY_DIR:
+        result.entities = this.directoryToJson(hierarchy as EntityDirectoryHierarchy);
+        break;
+      case HierarchyType.ENTITY_TREE:
+        result.root = this.treeNodeToJson((hierarchy as EntityTreeHierarchy).root());
+        break;
+      case HierarchyType.ASPECT_MAP:
+        result.aspects = this.aspectsToJson(hierarchy as AspectMapHierarchy);
+        break;
+      default:
+        throw new Error(`Unknown hierarchy type '${hierarchy.type()}' for hierarchy '${hierarchy.name()}'.`);
+    }
+    return result;
+  }
+
+  /**
+   * Converts the name, type and version of a hierarchy to JSON, without its
+   * contents. For an AspectMap hierarchy the name of its AspectDef is included.
+   *
+   * @param hierarchy the hierarchy to convert
+   * @returns the JSON header of the hierarchy
+   */
+  headerToJson(hierarchy: Hierarchy): JsonObject {
+    const result: JsonObject = {
+      name: hierarchy.name(),
+      type: hierarchy.type(),
+      version: hierarchy.version(),
+    };
+    if (hierarchy.type() === HierarchyType.ASPECT_MAP) {
+      result.aspectDef = (hierarchy as AspectMapHierarchy).aspectDef().name();
+    }
+    return result;
+  }
+
+  private directoryToJson(dir: EntityDirectoryHierarchy): JsonObject {
+    const entities: JsonObject = {};
+    for (const [key, entity] of dir) {
+      setMember(entities, key, entity.globalId());
+    }
+    return entities;
+  }
+
+  /**
+   * Converts a tree node and all of its descendants to JSON.
+   *
+   * @param node the node to convert
+   * @returns the JSON object for the node
+   */
+  treeNodeToJson(node: EntityTreeNode): JsonObject {
+    const value = node.value();
+    const result: JsonObject = {
+      entityId: value ? value.globalId() : null,
+    };
+    if (!node.isLeaf()) {
+      const children: JsonObject = {};
+      for (const [name, child] of node) {
+        setMember(children, name, this.treeNodeToJson(child));
+      }
+      result.children = children;
+    }
+    return result;
+  }
+
+  private aspectsToJson(aspectMap: AspectMapHierarchy): JsonObject {
+    const aspects: JsonObject = {};
+    for (const [entity, aspect] of aspectMap) {
+      setMember(aspects, entity.globalId(), this._aspectSerializer.propertiesToJson(aspect));
+    }
+    return aspects;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * JsonSerializerBase implementation
+ */
+
+import { Serializer } from "../interfaces.js";
+import { JsonSerializerOptions, JsonValue } from "../types.js";
+import { JsonWriter } from "../util/JsonWriter.js";
+import { PropertyValueCodec } from "../util/PropertyValueCodec.js";
+import { hashToJson } from "../util/HashCodec.js";
+
+/**
+ * Abstract base class for the JSON serializers. Subclasses convert their model
+ * object into a JsonValue tree, which this class writes as JSON text.
+ */
+export abstract class JsonSerializerBase<T> implements Serializer<T> {
+  /** The options this serializer was created with. */
+  protected readonly _options: JsonSerializerOptions;
+
+  /** The writer used to produce JSON text. */
+  protected readonly _writer: JsonWriter;
+
+  /** The codec used to encode property values. */
+  protected readonly _codec: PropertyValueCodec;
+
+  /**
+   * Creates a new serializer with the given options.
+   *
+   * @param options the serializer options
+   */
+  protected constructor(options: JsonSerializerOptions = {}) {
+    this._options = options;
+    const canonical = options.canonical ?? false;
+    this._writer = new JsonWriter(!canonical && (options.prettyPrint ?? false), canonical);
+    this._codec = new PropertyValueCodec(undefined, canonical ? {} : options.encodings);
+  }
+
+  /**
+   * Returns whether this serializer writes canonical JSON.
+   */
+  isCanonical(): boolean {
+    return this._options.canonical ?? false;
+  }
+
+  /**
+   * Returns the JSON form of a definition's hash in canonical mode, or
+   * undefined (so that the field is omitted) otherwise.
+   *
+   * @param hash the CheapHasher hash of the definition
+   */
+  protected hashToJson(hash: bigint): string | undefined {
+    return this.isCanonical() ? hashToJson(hash) : undefined;
+  }
+
+  /**
+   * Serializes the given value to a JSON string.
+   */
+  serialize(value: T): string {
+    return this._writer.write(this.toJson(value));
+  }
+
+  /**
+   * Converts the given value to its JSON representation.
+   *
+   * @param value the value to convert
+   * @returns the JSON tree for the value
+   */
+  abstract toJson(value: T): JsonValue;
+}
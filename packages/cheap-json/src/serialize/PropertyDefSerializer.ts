@@ -0,0 +1,32 @@
+/**
+ * PropertyDefSerializer implementation
+ */
+
+import { PropertyDef } from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonSerializerBase } from "./JsonSerializerBase.js";
+
+/**
+ * Serializes PropertyDefs. The type is written as its three-letter type code,
+ * and the default value is only written if the PropertyDef has one.
+ */
+export class PropertyDefSerializer extends JsonSerializerBase<PropertyDef> {
+  constructor(options: JsonSerializerOptions = {}) {
+    super(options);
+  }
+
+  toJson(propDef: PropertyDef): JsonObject {
+    return {
+      name: propDef.name(),
+      type: propDef.type().typeCode(),
+      hasDefaultValue: propDef.hasDefaultValue(),
+      defaultValue: propDef.hasDefaultValue() ? this._codec.encode(propDef, propDef.defaultValue()) : undefined,
+      isReadable: propDef.isReadable(),
+      isWritable: propDef.isWritable(),
+      isNullable: propDef.isNullable(),
+      isRemovable: propDef.isRemovable(),
+      isMultivalued: propDef.isMultivalued(),
+      hash: this.hashToJson(propDef.hash()),
+    };
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * JSON serializers for the CHEAP model
+ */
+
+export * from "./JsonSerializerBase.js";
+export * from "./PropertyDefSerializer.js";
+export * from "./AspectDefSerializer.js";
+export * from "./AspectSerializer.js";
+export * from "./EntitySerializer.js";
+export * from "./HierarchySerializer.js";
+export * from "./HierarchyDefSerializer.js";
+export * from "./CatalogSerializer.js";
+export * from "./CatalogDefSerializer.js";
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for CatalogStreamWriter and CatalogStreamReader
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { createReadStream, createWriteStream, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  AspectObjectMapImpl,
+  CatalogImpl,
+  CheapFactory,
+  EntityDirectoryHierarchyImpl,
+  EntityImpl,
+  EntityListHierarchyImpl,
+  EntitySetHierarchyImpl,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNodeImpl,
+  FullAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { CatalogSerializer } from "../serialize/CatalogSerializer.js";
+import { CatalogStreamWriter } from "./CatalogStreamWriter.js";
+import { CatalogStreamReader } from "./CatalogStreamReader.js";
+import { NdjsonRecordType } from "./NdjsonRecord.js";
+
+const CATALOG_ID = "10000000-0000-0000-0000-000000000000";
+const ASPECT_DEF_ID = "20000000-0000-0000-0000-000000000000";
+const ID1 = "00000000-0000-0000-0000-000000000001";
+const ID2 = "00000000-0000-0000-0000-000000000002";
+const ID3 = "00000000-0000-0000-0000-000000000003";
+
+function buildCatalog(): CatalogImpl {
+  const catalog = new CatalogImpl(CATALOG_ID);
+  const e1 = new EntityImpl(ID1);
+  const e2 = new EntityImpl(ID2);
+  const e3 = new EntityImpl(ID3);
+
+  const propDefs = new Map<string, PropertyDef>([
+    ["name", new PropertyDefBuilder().setName("name").setType(PropertyType.String).build()],
+    ["photo", new PropertyDefBuilder().setName("photo").setType(PropertyType.BLOB).build()],
+  ]);
+  const aspects = catalog.extend(new FullAspectDefImpl("person", ASPECT_DEF_ID, propDefs, true, true, false, false));
+  const alice = new AspectObjectMapImpl(e1, aspects.aspectDef());
+  alice.write("name", "Ålice ✓");
+  alice.write("photo", new Uint8Array([255, 0, 1]));
+  aspects.add(alice);
+
+  const list = new EntityListHierarchyImpl(catalog, "list");
+  list.push(e1, e2);
+  new EntitySetHierarchyImpl(catalog, "set", [e3], 2);
+  new EntityDirectoryHierarchyImpl(catalog, "dir", [["k", e2]]);
+  const root = new EntityTreeNodeImpl(null);
+  const child = new EntityTreeNodeImpl(e1, root);
+  root.set("child", child);
+  child.set("grandchild", new EntityTreeNodeImpl(e3, child));
+  new EntityTreeHierarchyImpl(catalog, "tree", root, 1);
+  return catalog;
+}
+
+async function* chunksOf(text: string, size: number): AsyncGenerator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+describe("CatalogStreamWriter", () => {
+  it("should write one record per line in stream order", () => {
+    const lines = Array.from(new CatalogStreamWriter().lines(buildCatalog()));
+
+    expect(lines.every((line) => line.endsWith("\n") && !line.slice(0, -1).includes("\n"))).toBe(true);
+    const records = lines.map((line) => JSON.parse(line));
+    expect(records.map((r) => r.record)).toEqual([
+      NdjsonRecordType.CATALOG,
+      NdjsonRecordType.ASPECT_DEF,
+      NdjsonRecordType.HIERARCHY,
+      NdjsonRecordType.ASPECT,
+      NdjsonRecordType.HIERARCHY,
+      NdjsonRecordType.ENTRY,
+      NdjsonRecordType.ENTRY,
+      NdjsonRecordType.HIERARCHY,
+      NdjsonRecordType.ENTRY,
+      NdjsonRecordType.HIERARCHY,
+      NdjsonRecordType.ENTRY,
+      NdjsonRecordType.HIERARCHY,
+      NdjsonRecordType.ENTRY,
+      NdjsonRecordType.ENTRY,
+      NdjsonRecordType.ENTRY,
+    ]);
+    expect(records[0]).toEqual({
+      record: "catalog",
+      globalId: CATALOG_ID,
+      species: "SINK",
+      uri: null,
+      upstream: null,
+      version: 0,
+    });
+    expect(records[3]).toEqual({
+      record: "aspect",
+      hierarchy: "person",
+      entityId: ID1,
+      properties: { name: "Ålice ✓", photo: "/wAB" },
+    });
+    expect(records[10]).toEqual({ record: "entry", hierarchy: "dir", key: "k", entityId: ID2 });
+    expect(records.slice(12).map((r) => r.path)).toEqual([[], ["child"], ["child", "grandchild"]]);
+  });
+});
+
+describe("CatalogStreamReader", () => {
+  let ndjson: string;
+
+  beforeEach(() => {
+    ndjson = Array.from(new CatalogStreamWriter().lines(buildCatalog())).join("");
+  });
+
+  it("should rebuild the same catalog from chunks split at arbitrary byte boundaries", async () => {
+    const catalog = await new CatalogStreamReader().read(chunksOf(ndjson, 7));
+    expect(new CatalogSerializer().serialize(catalog)).toBe(new CatalogSerializer().serialize(buildCatalog()));
+  });
+
+  it("should share entity instances across hierarchies", async () => {
+    const factory = new CheapFactory();
+    const catalog = await new CatalogStreamReader(factory).read([ndjson]);
+    const tree = catalog.hierarchy("tree") as EntityTreeHierarchy;
+
+    expect(tree.root().get("child")?.value()).toBe(factory.getEntity(ID1));
+    expect(catalog.aspects("person")?.get(factory.getEntity(ID1)!)?.readObj("photo")).toEqual(
+      new Uint8Array([255, 0, 1]),
+    );
+  });
+
+  it("should round-trip a catalog through a file on disk", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "cheap-ndjson-"));
+    try {
+      const file = join(dir, "catalog.ndjson");
+      await new CatalogStreamWriter().write(buildCatalog(), createWriteStream(file));
+      const catalog = await new CatalogStreamReader().read(createReadStream(file));
+      expect(new CatalogSerializer().serialize(catalog)).toBe(new CatalogSerializer().serialize(buildCatalog()));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should tolerate CRLF line endings and blank lines", async () => {
+    const catalog = await new CatalogStreamReader().read([ndjson.replace(/\n/g, "\r\n\r\n")]);
+    expect(catalog.hierarchy("list")).not.toBeNull();
+  });
+
+  describe("errors", () => {
+    it("should require the catalog record first", async () => {
+      const lines = ndjson.split("\n");
+      await expect(new CatalogStreamReader().read([lines.slice(1).join("\n")])).rejects.toThrow(
+        /Line 1: The first record must be a catalog record/,
+      );
+    });
+
+    it("should report records for unknown hierarchies with their line number", async () => {
+      const extra = JSON.stringify({ record: "entry", hierarchy: "missing", entityId: ID1 });
+      await expect(new CatalogStreamReader().read([ndjson + extra + "\n"])).rejects.toThrow(
+        /Line 16: Record refers to unknown hierarchy 'missing'/,
+      );
+    });
+
+    it("should reject an empty stream", async () => {
+      await expect(new CatalogStreamReader().read([])).rejects.toThrow(/does not contain a catalog record/);
+    });
+  });
+});
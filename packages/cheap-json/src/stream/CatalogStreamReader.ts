@@ -0,0 +1,214 @@
+/**
+ * CatalogStreamReader implementation
+ */
+
+import {
+  AspectDef,
+  AspectMapHierarchy,
+  Catalog,
+  CatalogImpl,
+  CheapFactory,
+  Entity,
+  EntityDirectoryHierarchy,
+  EntityListHierarchy,
+  EntitySetHierarchy,
+  EntityTreeHierarchy,
+  EntityTreeHierarchyImpl,
+  EntityTreeNode,
+  EntityTreeNodeImpl,
+  Hierarchy,
+  HierarchyType,
+} from "@cheap-ts/core";
+import { JsonDeserializerOptions, JsonObject, JsonValue } from "../types.js";
+import { AspectDefDeserializer } from "../deserialize/AspectDefDeserializer.js";
+import { AspectDeserializer } from "../deserialize/AspectDeserializer.js";
+import { CatalogDeserializer } from "../deserialize/CatalogDeserializer.js";
+import { HierarchyDeserializer } from "../deserialize/HierarchyDeserializer.js";
+import { JsonReader } from "../util/JsonReader.js";
+import { NdjsonInput, NdjsonRecordType } from "./NdjsonRecord.js";
+
+/**
+ * Reads a Catalog from newline-delimited JSON, as written by CatalogStreamWriter.
+ *
+ * Input is consumed one line at a time from any async iterable of text or bytes,
+ * which includes Node Readable streams, so only the catalog being rebuilt is
+ * held in memory. Errors are reported with the line number of the bad record.
+ */
+export class CatalogStreamReader {
+  private readonly _factory: CheapFactory;
+  private readonly _options: JsonDeserializerOptions;
+  private readonly _reader = new JsonReader();
+  private readonly _catalogDeserializer: CatalogDeserializer;
+  private readonly _aspectDefDeserializer: AspectDefDeserializer;
+  private readonly _aspectDeserializer: AspectDeserializer;
+
+  /**
+   * Creates a new CatalogStreamReader.
+   *
+   * @param factory the factory used to resolve entities and AspectDefs
+   * @param options the deserializer options
+   */
+  constructor(factory: CheapFactory = new CheapFactory(), options: JsonDeserializerOptions = {}) {
+    this._factory = factory;
+    this._options = options;
+    this._catalogDeserializer = new CatalogDeserializer(factory, options);
+    this._aspectDefDeserializer = new AspectDefDeserializer(factory, options);
+    this._aspectDeserializer = new AspectDeserializer(factory, options);
+  }
+
+  /**
+   * Splits an async iterable of text or UTF-8 bytes into lines, skipping blank lines.
+   *
+   * @param input the chunks to split
+   * @returns an async generator of lines, without their line terminators
+   */
+  static async *lines(input: NdjsonInput): AsyncGenerator<string> {
+    const decoder = new TextDecoder("utf-8");
+    let buffered = "";
+    for await (const chunk of input) {
+      buffered += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+      let newline = buffered.indexOf("\n");
+      while (newline >= 0) {
+        const line = buffered.slice(0, newline).trim();
+        buffered = buffered.slice(newline + 1);
+        if (line) {
+          yield line;
+        }
+        newline = buffered.indexOf("\n");
+      }
+    }
+    buffered += decoder.decode();
+    if (buffered.trim()) {
+      yield buffered.trim();
+    }
+  }
+
+  /**
+   * Reads a complete catalog.
+   *
+   * @param input the NDJSON text, as chunks of text or UTF-8 bytes
+   * @returns the rebuilt catalog
+   */
+  async read(input: NdjsonInput): Promise<Catalog> {
+    let catalog: CatalogImpl | null = null;
+    let hierarchyDeserializer: HierarchyDeserializer | null = null;
+    const aspectDefs: AspectDef[] = [];
+    let lineNumber = 0;
+
+    for await (const line of CatalogStreamReader.lines(input)) {
+      lineNumber++;
+      try {
+        const record = this.parseRecord(line);
+        if (record.record === NdjsonRecordType.CATALOG) {
+          if (catalog) {
+            throw new Error("Duplicate catalog record.");
+          }
+          catalog = this._catalogDeserializer.headerFromJson(record);
+          hierarchyDeserializer = new HierarchyDeserializer(catalog, this._factory, this._options);
+        } else if (!catalog || !hierarchyDeserializer) {
+          throw new Error("The first record must be a catalog record.");
+        } else if (record.record === NdjsonRecordType.ASPECT_DEF) {
+          aspectDefs.push(this._aspectDefDeserializer.fromJson(record));
+        } else if (record.record === NdjsonRecordType.HIERARCHY) {
+          hierarchyDeserializer.fromJson(record);
+        } else if (record.record === NdjsonRecordType.ENTRY) {
+          this.readEntry(this.hierarchyOf(catalog, record), record);
+        } else if (record.record === NdjsonRecordType.ASPECT) {
+          this.readAspect(this.hierarchyOf(catalog, record), record);
+        } else {
+          throw new Error(`Unknown record type '${String(record.record)}'.`);
+        }
+      } catch (e) {
+        throw new Error(`Line ${lineNumber}: ${(e as Error).message}`, { cause: e });
+      }
+    }
+
+    if (!catalog) {
+      throw new Error("The stream does not contain a catalog record.");
+    }
+    for (const aspectDef of aspectDefs) {
+      catalog.extend(aspectDef);
+    }
+    return catalog;
+  }
+
+  private parseRecord(line: string): JsonObject {
+    const json = this._reader.read(line);
+    if (json === null || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error("Expected record to be a JSON object.");
+    }
+    return json;
+  }
+
+  private hierarchyOf(catalog: Catalog, record: JsonObject): Hierarchy {
+    const name = record.hierarchy;
+    const hierarchy = typeof name === "string" ? catalog.hierarchy(name) : null;
+    if (!hierarchy) {
+      throw new Error(`Record refers to unknown hierarchy '${String(name)}'.`);
+    }
+    return hierarchy;
+  }
+
+  private readEntry(hierarchy: Hierarchy, record: JsonObject): void {
+    switch (hierarchy.type()) {
+      case HierarchyType.ENTITY_LIST:
+        (hierarchy as EntityListHierarchy).push(this.entity(record.entityId));
+        break;
+      case HierarchyType.ENTITY_SET:
+        (hierarchy as EntitySetHierarchy).add(this.entity(record.entityId));
+        break;
+      case HierarchyType.ENTITY_DIR:
+        if (typeof record.key !== "string") {
+          throw new Error("Expected field 'key' to be a string.");
+        }
+        (hierarchy as EntityDirectoryHierarchy).set(record.key, this.entity(record.entityId));
+        break;
+      case HierarchyType.ENTITY_TREE:
+        this.readTreeEntry(hierarchy as EntityTreeHierarchy, record);
+        break;
+      default:
+        throw new Error(`Hierarchy '${hierarchy.name()}' of type '${hierarchy.type()}' does not take entry records.`);
+    }
+  }
+
+  private readTreeEntry(tree: EntityTreeHierarchy, record: JsonObject): void {
+    const path = record.path;
+    if (!Array.isArray(path) || !path.every((name) => typeof name === "string")) {
+      throw new Error("Expected field 'path' to be an array of strings.");
+    }
+    const entity = record.entityId === null ? null : this.entity(record.entityId);
+    if (path.length === 0) {
+      // The hierarchy was created from its header record, so it is always an EntityTreeHierarchyImpl
+      (tree as EntityTreeHierarchyImpl).setRoot(new EntityTreeNodeImpl(entity, null));
+      return;
+    }
+    let parent: EntityTreeNode = tree.root();
+    for (const name of path.slice(0, -1) as string[]) {
+      const next = parent.get(name);
+      if (!next) {
+        throw new Error(`Tree entry '${path.join("/")}' precedes its parent.`);
+      }
+      parent = next;
+    }
+    parent.set(path[path.length - 1] as string, new EntityTreeNodeImpl(entity, parent));
+  }
+
+  private readAspect(hierarchy: Hierarchy, record: JsonObject): void {
+    if (hierarchy.type() !== HierarchyType.ASPECT_MAP) {
+      throw new Error(`Hierarchy '${hierarchy.name()}' is not an AspectMap hierarchy.`);
+    }
+    const aspectMap = hierarchy as AspectMapHierarchy;
+    const entity = this.entity(record.entityId);
+    aspectMap.set(
+      entity,
+      this._aspectDeserializer.propertiesFromJson(entity, aspectMap.aspectDef(), record.properties ?? {}),
+    );
+  }
+
+  private entity(id: JsonValue | undefined): Entity {
+    if (typeof id !== "string") {
+      throw new Error("Expected field 'entityId' to be a string.");
+    }
+    return this._factory.getOrRegisterNewEntity(id);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * CatalogStreamWriter implementation
+ */
+
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  AspectMapHierarchy,
+  Catalog,
+  EntityDirectoryHierarchy,
+  EntityListHierarchy,
+  EntitySetHierarchy,
+  EntityTreeHierarchy,
+  EntityTreeNode,
+  Hierarchy,
+  HierarchyType,
+} from "@cheap-ts/core";
+import { JsonObject, JsonSerializerOptions } from "../types.js";
+import { JsonWriter } from "../util/JsonWriter.js";
+import { AspectDefSerializer } from "../serialize/AspectDefSerializer.js";
+import { AspectSerializer } from "../serialize/AspectSerializer.js";
+import { CatalogSerializer } from "../serialize/CatalogSerializer.js";
+import { HierarchySerializer } from "../serialize/HierarchySerializer.js";
+import { NdjsonRecordType } from "./NdjsonRecord.js";
+
+/**
+ * Writes a Catalog as newline-delimited JSON, one record per line (see
+ * NdjsonRecordType). Records are generated lazily while the catalog is walked,
+ * so the output is never held in memory as a whole.
+ */
+export class CatalogStreamWriter {
+  private readonly _writer: JsonWriter;
+  private readonly _catalogSerializer: CatalogSerializer;
+  private readonly _aspectDefSerializer: AspectDefSerializer;
+  private readonly _hierarchySerializer: HierarchySerializer;
+  private readonly _aspectSerializer: AspectSerializer;
+
+  /**
+   * Creates a new CatalogStreamWriter.
+   *
+   * @param options the serializer options; prettyPrint is ignored, since every record must be a single line
+   */
+  constructor(options: JsonSerializerOptions = {}) {
+    const lineOptions = { ...options, prettyPrint: false };
+    this._writer = new JsonWriter(false, options.canonical ?? false);
+    this._catalogSerializer = new CatalogSerializer(lineOptions);
+    this._aspectDefSerializer = new AspectDefSerializer(lineOptions);
+    this._hierarchySerializer = new HierarchySerializer(lineOptions);
+    this._aspectSerializer = new AspectSerializer(lineOptions);
+  }
+
+  /**
+   * Generates the records of a catalog, in stream order.
+   *
+   * @param catalog the catalog to write
+   * @returns a generator of JSON records
+   */
+  *records(catalog: Catalog): Generator<JsonObject> {
+    yield { record: NdjsonRecordType.CATALOG, ...this._catalogSerializer.headerToJson(catalog) };
+    for (const aspectDef of catalog.aspectDefs()) {
+      yield { record: NdjsonRecordType.ASPECT_DEF, ...this._aspectDefSerializer.toJson(aspectDef) };
+    }
+    for (const hierarchy of catalog.hierarchies()) {
+      yield { record: NdjsonRecordType.HIERARCHY, ...this._hierarchySerializer.headerToJson(hierarchy) };
+      yield* this.hierarchyRecords(hierarchy);
+    }
+  }
+
+  /**
+   * Generates the lines of a catalog, each terminated by a newline.
+   *
+   * @param catalog the catalog to write
+   * @returns a generator of NDJSON lines
+   */
+  *lines(catalog: Catalog): Generator<string> {
+    for (const record of this.records(catalog)) {
+      yield this._writer.write(record) + "\n";
+    }
+  }
+
+  /**
+   * Returns a Readable stream of the lines of a catalog.
+   *
+   * @param catalog the catalog to write
+   * @returns a Readable that produces the NDJSON text
+   */
+  toReadable(catalog: Catalog): Readable {
+    return Readable.from(this.lines(catalog));
+  }
+
+  /**
+   * Writes a catalog to a Writable stream, respecting backpressure, and ends the stream.
+   *
+   * @param catalog the catalog to write
+   * @param output the stream to write to
+   */
+  async write(catalog: Catalog, output: Writable): Promise<void> {
+    await pipeline(this.toReadable(catalog), output);
+  }
+
+  private *hierarchyRecords(hierarchy: Hierarchy): Generator<JsonObject> {
+    const name = hierarchy.name();
+    switch (hierarchy.type()) {
+      case HierarchyType.ENTITY_LIST:
+      case HierarchyType.ENTITY_SET:
+        for (const entity of hierarchy as EntityListHierarchy | EntitySetHierarchy) {
+          yield { record: NdjsonRecordType.ENTRY, hierarchy: name, entityId: entity.globalId() };
+        }
+        break;
+      case HierarchyType.ENTITY_DIR:
+        for (const [key, entity] of hierarchy as EntityDirectoryHierarchy) {
+          yield { record: NdjsonRecordType.ENTRY, hierarchy: name, key, entityId: entity.globalId() };
+        }
+        break;
+      case HierarchyType.ENTITY_TREE:
+        yield* this.treeRecords(name, (hierarchy as EntityTreeHierarchy).root(), []);
+        break;
+      case HierarchyType.ASPECT_MAP:
+        for (const [entity, aspect] of hierarchy as AspectMapHierarchy) {
+          yield {
+            record: NdjsonRecordType.ASPECT,
+            hierarchy: name,
+            entityId: entity.globalId(),
+            properties: this._aspectSerializer.propertiesToJson(aspect),
+          };
+        }
+        break;
+      default:
+        throw new Error(`Unknown hierarchy type '${hierarchy.type()}' for hierarchy '${name}'.`);
+    }
+  }
+
+  private *treeRecords(name: string, node: EntityTreeNode, path: string[]): Generator<JsonObject> {
+    const value = node.value();
+    yield { record: NdjsonRecordType.ENTRY, hierarchy: name, path, entityId: value ? value.globalId() : null };
+    if (!node.isLeaf()) {
+      for (const [childName, child] of node) {
+        yield* this.treeRecords(name, child, [...path, childName]);
+      }
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Record types of the NDJSON catalog format
+ */
+
+/**
+ * The kinds of record in a streamed catalog. Every line of the stream is a JSON
+ * object whose "record" field holds one of these values.
+ *
+ * A stream consists of exactly one CATALOG record, followed by the ASPECT_DEF
+ * records, followed by each hierarchy as a HIERARCHY record and then its ENTRY
+ * or ASPECT records. Entry records always follow the header of their hierarchy.
+ */
+export enum NdjsonRecordType {
+  /**
+   * The catalog header: globalId, species, uri, upstream and version.
+   */
+  CATALOG = "catalog",
+
+  /**
+   * An AspectDef, in the format written by AspectDefSerializer.
+   */
+  ASPECT_DEF = "aspectDef",
+
+  /**
+   * A hierarchy header: name, type and version, plus aspectDef for AspectMap hierarchies.
+   */
+  HIERARCHY = "hierarchy",
+
+  /**
+   * One entry of an entity hierarchy, named by "hierarchy". Entries have an
+   * "entityId"; directory entries add a "key", and tree entries add a "path"
+   * of child names from the root (an empty path for the root itself). Tree
+   * entries are written parents first.
+   */
+  ENTRY = "entry",
+
+  /**
+   * One aspect of an AspectMap hierarchy, named by "hierarchy", with its
+   * "entityId" and "properties".
+   */
+  ASPECT = "aspect",
+}
+
+/**
+ * NDJSON input for a reader: chunks of text or UTF-8 bytes, such as a Node
+ * Readable stream. Chunks need not be aligned with lines or characters.
+ */
+export type NdjsonInput = AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
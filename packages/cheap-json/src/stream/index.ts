@@ -0,0 +1,7 @@
+/**
+ * Streaming NDJSON export and import of catalogs
+ */
+
+export * from "./NdjsonRecord.js";
+export * from "./CatalogStreamWriter.js";
+export * from "./CatalogStreamReader.js";
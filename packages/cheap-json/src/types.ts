@@ -0,0 +1,130 @@
+/**
+ * Type definitions for the JSON representation of the CHEAP model
+ */
+
+/**
+ * A JSON value as produced by the serializers.
+ *
+ * Values of type bigint are written as raw JSON numbers, so integers larger than
+ * Number.MAX_SAFE_INTEGER keep their full precision in the serialized text.
+ */
+export type JsonValue = null | boolean | number | bigint | string | JsonArray | JsonObject;
+
+/**
+ * A JSON array.
+ */
+export type JsonArray = JsonValue[];
+
+/**
+ * A JSON object. Properties with an undefined value are omitted when written.
+ */
+export interface JsonObject {
+  [key: string]: JsonValue | undefined;
+}
+
+/**
+ * How BigInteger values are written: as a JSON string of decimal digits, or as
+ * a JSON number with every digit kept.
+ */
+export type BigIntegerEncoding = "string" | "number";
+
+/**
+ * How DateTime values are written: as an ISO-8601 string with a UTC ("Z")
+ * offset, or as a JSON number of milliseconds since the epoch.
+ */
+export type DateTimeEncoding = "iso8601" | "epochMillis";
+
+/**
+ * How BLOB values are written: as a base64 string (with padding), a base64url
+ * string (without padding), or a string of lowercase hex digits.
+ */
+export type BlobEncoding = "base64" | "base64url" | "hex";
+
+/**
+ * How URI values are written. Only the string form is defined.
+ */
+export type UriEncoding = "string";
+
+/**
+ * Encoding policies for the property types that JSON has no native type for.
+ * Every policy defaults to the first value of its type.
+ *
+ * Decoding accepts both forms of BigInteger and DateTime, but a BLOB can only be
+ * decoded with the policy it was written with.
+ */
+export interface JsonValueEncodings {
+  bigInteger?: BigIntegerEncoding;
+  dateTime?: DateTimeEncoding;
+  blob?: BlobEncoding;
+  uri?: UriEncoding;
+}
+
+/**
+ * Options shared by all serializers.
+ */
+export interface JsonSerializerOptions {
+  /**
+   * Whether to indent the output for readability. Defaults to false.
+   */
+  prettyPrint?: boolean;
+
+  /**
+   * Whether to write canonical JSON, whose bytes are identical for identical
+   * definitions in every CHEAP implementation. Defaults to false.
+   *
+   * Canonical output has no whitespace (prettyPrint is ignored), object keys
+   * sorted by UTF-16 code units, and numbers in ECMAScript shortest round-trip
+   * form, as in RFC 8785. Property values use the fixed encodings of
+   * PropertyValueCodec, and every PropertyDef, AspectDef, HierarchyDef and
+   * CatalogDef carries its CheapHasher hash in a "hash" field.
+   */
+  canonical?: boolean;
+
+  /**
+   * Encoding policies for property values. Ignored in canonical mode, which
+   * always uses the default encodings.
+   */
+  encodings?: JsonValueEncodings;
+}
+
+/**
+ * How deserializers handle problems in their input: strict deserialization
+ * throws on the first problem, while lenient deserialization skips the record
+ * that contains it and reports every problem found.
+ */
+export type DeserializationMode = "strict" | "lenient";
+
+/**
+ * Options shared by all deserializers.
+ */
+export interface JsonDeserializerOptions {
+  /**
+   * How problems in the input are handled. Defaults to "strict".
+   *
+   * In both modes, every problem is identified by a JSON Pointer to the value
+   * that caused it. In lenient mode, a bad property value is left out of its
+   * aspect, a bad aspect, entity reference or tree node is left out of its
+   * hierarchy, and a bad AspectDef or hierarchy is left out of its catalog.
+   */
+  mode?: DeserializationMode;
+
+  /**
+   * Whether every entity referenced by a list, set, directory or tree hierarchy
+   * of a catalog must have an aspect in one of the catalog's AspectMap
+   * hierarchies. References to any other entity are reported as dangling.
+   * Defaults to false.
+   */
+  checkEntityReferences?: boolean;
+
+  /**
+   * Whether to check every embedded "hash" field against the hash recomputed
+   * from the deserialized definition, and throw if they differ. Definitions
+   * without an embedded hash are not checked. Defaults to false.
+   */
+  verifyHashes?: boolean;
+
+  /**
+   * Encoding policies the property values were written with.
+   */
+  encodings?: JsonValueEncodings;
+}
@@ -0,0 +1,31 @@
+/**
+ * JSON encoding of CheapHasher hashes
+ */
+
+const HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+/**
+ * Encodes a 64-bit CheapHasher hash as exactly 16 lowercase hex digits. The
+ * unsigned hex form reads the same whether an implementation holds hashes as
+ * signed or unsigned 64-bit integers.
+ *
+ * @param hash the hash to encode
+ * @returns the hash as a 16-digit hex string
+ */
+export function hashToJson(hash: bigint): string {
+  return BigInt.asUintN(64, hash).toString(16).padStart(16, "0");
+}
+
+/**
+ * Decodes a hash written by hashToJson.
+ *
+ * @param json the 16-digit hex string
+ * @returns the unsigned 64-bit hash
+ * @throws Error if the string is not 16 lowercase hex digits
+ */
+export function hashFromJson(json: string): bigint {
+  if (!HASH_PATTERN.test(json)) {
+    throw new Error(`Invalid hash '${json}': expected 16 lowercase hex digits.`);
+  }
+  return BigInt("0x" + json);
+}
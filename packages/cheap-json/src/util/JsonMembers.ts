@@ -0,0 +1,18 @@
+/**
+ * Helpers for building JSON objects
+ */
+
+import { JsonObject, JsonValue } from "../types.js";
+
+/**
+ * Sets a member of a JSON object. The member is defined rather than assigned,
+ * so that a "__proto__" key becomes an ordinary member instead of replacing
+ * the object's prototype, as JsonReader reads it.
+ *
+ * @param obj the object
+ * @param key the key of the member
+ * @param value the value of the member
+ */
+export function setMember(obj: JsonObject, key: string, value: JsonValue | undefined): void {
+  Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
+}
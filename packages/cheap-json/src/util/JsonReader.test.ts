@@ -0,0 +1,48 @@
+/**
+ * Unit tests for JsonReader
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { JsonReader } from "./JsonReader.js";
+import { JsonWriter } from "./JsonWriter.js";
+
+describe("JsonReader", () => {
+  const reader = new JsonReader();
+
+  it("should parse documents exactly as JSON.parse does", () => {
+    const texts = [
+      '{"a":[1,-2.5,3e2,0.1,-0],"b":{"c":null,"d":true,"e":false},"f":"x\\ny\\u00e9\\"","g":[]}',
+      ' \r\n\t[ {} , [ ] , "" ] ',
+      "9007199254740991",
+      '"\\ud83d\\ude00"',
+    ];
+    for (const text of texts) {
+      expect(reader.read(text)).toEqual(JSON.parse(text));
+    }
+  });
+
+  it("should read integers beyond the safe range as bigint", () => {
+    expect(reader.read("[9007199254740992, -123456789012345678901234567890, 1.5e300]")).toEqual([
+      9007199254740992n,
+      -123456789012345678901234567890n,
+      1.5e300,
+    ]);
+  });
+
+  it("should round-trip bigint values written by JsonWriter", () => {
+    const value = { big: 123456789012345678901234567890n, list: [1, 2n ** 70n] };
+    expect(reader.read(new JsonWriter().write(value))).toEqual({ big: value.big, list: [1, 2n ** 70n] });
+  });
+
+  it("should keep a __proto__ key as an ordinary member", () => {
+    const obj = reader.read('{"__proto__":{"polluted":true}}') as Record<string, unknown>;
+    expect(Object.keys(obj)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(obj)).toBe(Object.prototype);
+  });
+
+  it("should reject invalid JSON", () => {
+    for (const text of ["", "{", "[1,]", "{'a':1}", "01", "tru", '"abc', "1 2", '{"a" 1}', '"\u0001"']) {
+      expect(() => reader.read(text)).toThrow(SyntaxError);
+    }
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * JsonReader implementation
+ */
+
+import { JsonArray, JsonObject, JsonValue } from "../types.js";
+import { setMember } from "./JsonMembers.js";
+
+const NUMBER_PATTERN = /-?(?:0|[1-9][0-9]*)(\.[0-9]+)?([eE][-+]?[0-9]+)?/y;
+
+/**
+ * Parses JSON text into JsonValue trees.
+ *
+ * Unlike JSON.parse, this reader returns integers outside the safe integer range
+ * of a JS number as bigint values, so that BigInteger values written as JSON
+ * numbers (see JsonWriter) are read back without losing precision. All other
+ * values are parsed exactly as JSON.parse parses them.
+ */
+export class JsonReader {
+  private _text = "";
+  private _pos = 0;
+
+  /**
+   * Parses the given JSON text.
+   *
+   * @param text the JSON text
+   * @returns the parsed value
+   * @throws SyntaxError if the text is not valid JSON
+   */
+  read(text: string): JsonValue {
+    this._text = text;
+    this._pos = 0;
+    try {
+      const value = this.readValue();
+      this.skipWhitespace();
+      if (this._pos < this._text.length) {
+        throw this.unexpected();
+      }
+      return value;
+    } finally {
+      this._text = "";
+    }
+  }
+
+  private readValue(): JsonValue {
+    this.skipWhitespace();
+    const c = this._text[this._pos];
+    switch (c) {
+      case "{":
+        return this.readObject();
+      case "[":
+        return this.readArray();
+      case '"':
+        return this.readString();
+      case "t":
+        return this.readLiteral("true", true);
+      case "f":
+        return this.readLiteral("false", false);
+      case "n":
+        return this.readLiteral("null", null);
+      default:
+        return this.readNumber();
+    }
+  }
+
+  private readObject(): JsonObject {
+    const obj: JsonObject = {};
+    this._pos++;
+    this.skipWhitespace();
+    if (this._text[this._pos] === "}") {
+      this._pos++;
+      return obj;
+    }
+    for (;;) {
+      this.skipWhitespace();
+      if (this._text[this._pos] !== '"') {
+        throw this.unexpected();
+      }
+      const key = this.readString();
+      this.skipWhitespace();
+      this.expect(":");
+      const value = this.readValue();
+      setMember(obj, key, value);
+      this.skipWhitespace();
+      if (this._text[this._pos] === ",") {
+        this._pos++;
+      } else {
+        this.expect("}");
+        return obj;
+      }
+    }
+  }
+
+  private readArray(): JsonArray {
+    const array: JsonArray = [];
+    this._pos++;
+    this.skipWhitespace();
+    if (this._text[this._pos] === "]") {
+      this._pos++;
+      return array;
+    }
+    for (;;) {
+      array.push(this.readValue());
+      this.skipWhitespace();
+      if (this._text[this._pos] === ",") {
+        this._pos++;
+      } else {
+        this.expect("]");
+        return array;
+      }
+    }
+  }
+
+  private readString(): string {
+    const start = this._pos;
+    let end = start + 1;
+    for (;;) {
+      const c = this._text[end];
+      if (c === undefined) {
+        throw new SyntaxError(`Unterminated string in JSON at position ${start}`);
+      }
+      if (c === '"') {
+        break;
+      }
+      end += c === "\\" ? 2 : 1;
+    }
+    this._pos = end + 1;
+    // JSON.parse handles escapes and rejects control characters
+    return JSON.parse(this._text.slice(start, end + 1)) as string;
+  }
+
+  private readNumber(): number | bigint {
+    NUMBER_PATTERN.lastIndex = this._pos;
+    const match = NUMBER_PATTERN.exec(this._text);
+    if (!match) {
+      throw this.unexpected();
+    }
+    this._pos += match[0].length;
+    const value = Number(match[0]);
+    if (match[1] === undefined && match[2] === undefined && !Number.isSafeInteger(value)) {
+      return BigInt(match[0]);
+    }
+    return value;
+  }
+
+  private readLiteral<T>(literal: string, value: T): T {
+    if (!this._text.startsWith(literal, this._pos)) {
+      throw this.unexpected();
+    }
+    this._pos += literal.length;
+    return value;
+  }
+
+  private expect(c: string): void {
+    if (this._text[this._pos] !== c) {
+      throw this.unexpected();
+    }
+    this._pos++;
+  }
+
+  private skipWhitespace(): void {
+    for (;;) {
+      const c = this._text[this._pos];
+      if (c !== " " && c !== "\t" && c !== "\n" && c !== "\r") {
+        return;
+      }
+      this._pos++;
+    }
+  }
+
+  private unexpected(): SyntaxError {
+    if (this._pos >= this._text.length) {
+      return new SyntaxError("Unexpected end of JSON input");
+    }
+    return new SyntaxError(`Unexpected token '${this._text[this._pos]}' in JSON at position ${this._pos}`);
+  }
+}
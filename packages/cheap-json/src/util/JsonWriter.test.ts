@@ -0,0 +1,44 @@
+/**
+ * Unit tests for JsonWriter
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { JsonWriter } from "./JsonWriter.js";
+
+describe("JsonWriter", () => {
+  it("should write the same compact output as JSON.stringify for plain values", () => {
+    const value = { a: 1, b: "two", c: [true, false, null], d: { e: 1.5 }, f: [], g: {} };
+    expect(new JsonWriter().write(value)).toBe(JSON.stringify(value));
+  });
+
+  it("should write the same pretty output as JSON.stringify with two-space indent", () => {
+    const value = { a: 1, b: ["x", { y: null }], c: {}, d: [] };
+    expect(new JsonWriter(true).write(value)).toBe(JSON.stringify(value, null, 2));
+  });
+
+  it("should write bigint values as raw numbers without losing precision", () => {
+    const big = 123456789012345678901234567890n;
+    expect(new JsonWriter().write({ big })).toBe('{"big":123456789012345678901234567890}');
+  });
+
+  it("should omit undefined object properties", () => {
+    expect(new JsonWriter().write({ a: undefined, b: 1 })).toBe('{"b":1}');
+  });
+
+  it("should escape strings and keys", () => {
+    expect(new JsonWriter().write({ 'k"1': 'line\n"quoted"' })).toBe('{"k\\"1":"line\\n\\"quoted\\""}');
+  });
+
+  it("should reject non-finite numbers", () => {
+    expect(() => new JsonWriter().write(NaN)).toThrow(/non-finite/);
+  });
+
+  it("should sort object keys by UTF-16 code units when asked", () => {
+    const value = { b: 1, a: { z: true, y: [{ d: 1, c: 2 }] }, B: null, é: 0 };
+    expect(new JsonWriter(false, true).write(value)).toBe('{"B":null,"a":{"y":[{"c":2,"d":1}],"z":true},"b":1,"é":0}');
+  });
+
+  it("should write numbers in shortest round-trip form", () => {
+    expect(new JsonWriter().write([-0, 1e21, 0.1, 100])).toBe("[0,1e+21,0.1,100]");
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * JsonWriter implementation
+ */
+
+import { JsonValue, JsonObject } from "../types.js";
+
+/**
+ * Writes JsonValue trees as JSON text.
+ *
+ * Unlike JSON.stringify, this writer emits bigint values as raw JSON numbers
+ * instead of throwing, which is required to write BigInteger values without
+ * losing precision.
+ *
+ * Numbers are written in ECMAScript shortest round-trip form (so -0 is written
+ * as 0), which together with sorted keys and no indentation gives the canonical
+ * form of RFC 8785.
+ */
+export class JsonWriter {
+  private readonly _indent: string;
+  private readonly _sortKeys: boolean;
+
+  /**
+   * Creates a new JsonWriter.
+   *
+   * @param prettyPrint whether to indent the output with two spaces per level
+   * @param sortKeys whether to write object keys sorted by UTF-16 code units instead of in insertion order
+   */
+  constructor(prettyPrint: boolean = false, sortKeys: boolean = false) {
+    this._indent = prettyPrint ? "  " : "";
+    this._sortKeys = sortKeys;
+  }
+
+  /**
+   * Returns whether this writer indents its output.
+   */
+  isPrettyPrint(): boolean {
+    return this._indent !== "";
+  }
+
+  /**
+   * Returns whether this writer sorts object keys.
+   */
+  isSortKeys(): boolean {
+    return this._sortKeys;
+  }
+
+  /**
+   * Writes the given value as JSON text.
+   *
+   * @param value the value to write
+   * @returns the JSON text
+   */
+  write(value: JsonValue): string {
+    const parts: string[] = [];
+    this.writeValue(value, parts, "");
+    return parts.join("");
+  }
+
+  private writeValue(value: JsonValue, parts: string[], currentIndent: string): void {
+    if (value === null) {
+      parts.push("null");
+    } else if (typeof value === "string") {
+      parts.push(JSON.stringify(value));
+    } else if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot write non-finite number ${value} as JSON.`);
+      }
+      parts.push(String(value));
+    } else if (typeof value === "bigint") {
+      parts.push(value.toString());
+    } else if (typeof value === "boolean") {
+      parts.push(value ? "true" : "false");
+    } else if (Array.isArray(value)) {
+      this.writeArray(value, parts, currentIndent);
+    } else {
+      this.writeObject(value, parts, currentIndent);
+    }
+  }
+
+  private writeArray(array: JsonValue[], parts: string[], currentIndent: string): void {
+    if (array.length === 0) {
+      parts.push("[]");
+      return;
+    }
+    const childIndent = currentIndent + this._indent;
+    parts.push("[");
+    array.forEach((element, i) => {
+      if (i > 0) {
+        parts.push(",");
+      }
+      this.writeNewline(parts, childIndent);
+      this.writeValue(element, parts, childIndent);
+    });
+    this.writeNewline(parts, currentIndent);
+    parts.push("]");
+  }
+
+  private writeObject(obj: JsonObject, parts: string[], currentIndent: string): void {
+    const childIndent = currentIndent + this._indent;
+    const separator = this._indent ? ": " : ":";
+    let first = true;
+    parts.push("{");
+    const entries = Object.entries(obj);
+    if (this._sortKeys) {
+      entries.sort(([a], [b]) =>
+        a < b ? -1
+        : a > b ? 1
+        : 0,
+      );
+    }
+    for (const [key, element] of entries) {
+      if (element === undefined) {
+        continue;
+      }
+      if (!first) {
+        parts.push(",");
+      }
+      first = false;
+      this.writeNewline(parts, childIndent);
+      parts.push(JSON.stringify(key), separator);
+      this.writeValue(element, parts, childIndent);
+    }
+    if (!first) {
+      this.writeNewline(parts, currentIndent);
+    }
+    parts.push("}");
+  }
+
+  private writeNewline(parts: string[], indent: string): void {
+    if (this._indent) {
+      parts.push("\n", indent);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for PropertyValueCodec
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { PropertyDefBuilder, PropertyType } from "@cheap-ts/core";
+import { PropertyValueCodec } from "./PropertyValueCodec.js";
+
+function def(type: PropertyType, isMultivalued: boolean = false) {
+  return new PropertyDefBuilder().setName("p").setType(type).setIsMultivalued(isMultivalued).build();
+}
+
+describe("PropertyValueCodec", () => {
+  const codec = new PropertyValueCodec();
+
+  describe("encode", () => {
+    it("should encode null as null for every type", () => {
+      expect(codec.encode(def(PropertyType.Integer), null)).toBeNull();
+      expect(codec.encode(def(PropertyType.BLOB), undefined)).toBeNull();
+      expect(codec.encode(def(PropertyType.String, true), null)).toBeNull();
+    });
+
+    it("should encode numbers and booleans natively", () => {
+      expect(codec.encode(def(PropertyType.Integer), 42)).toBe(42);
+      expect(codec.encode(def(PropertyType.Float), 3.25)).toBe(3.25);
+      expect(codec.encode(def(PropertyType.Boolean), false)).toBe(false);
+    });
+
+    it("should encode non-finite floats as strings", () => {
+      expect(codec.encode(def(PropertyType.Float), NaN)).toBe("NaN");
+      expect(codec.encode(def(PropertyType.Float), Infinity)).toBe("Infinity");
+      expect(codec.encode(def(PropertyType.Float), -Infinity)).toBe("-Infinity");
+    });
+
+    it("should encode BigInteger and BigDecimal as strings", () => {
+      expect(codec.encode(def(PropertyType.BigInteger), 98765432109876543210987654321n)).toBe(
+        "98765432109876543210987654321",
+      );
+      expect(codec.encode(def(PropertyType.BigDecimal), "1234.5678901234567890")).toBe("1234.5678901234567890");
+    });
+
+    it("should encode DateTime as an ISO-8601 UTC string", () => {
+      expect(codec.encode(def(PropertyType.DateTime), new Date(Date.UTC(2025, 0, 2, 3, 4, 5, 6)))).toBe(
+        "2025-01-02T03:04:05.006Z",
+      );
+    });
+
+    it("should encode URI and UUID as strings", () => {
+      expect(codec.encode(def(PropertyType.URI), new URL("https://example.com/a?b=c"))).toBe(
+        "https://example.com/a?b=c",
+      );
+      expect(codec.encode(def(PropertyType.UUID), "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f")).toBe(
+        "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+      );
+    });
+
+    it("should encode BLOB as base64", () => {
+      expect(codec.encode(def(PropertyType.BLOB), new Uint8Array([0, 1, 2, 253, 254, 255]))).toBe("AAEC/f7/");
+    });
+
+    it("should encode only the viewed bytes of a Uint8Array subarray", () => {
+      const bytes = new Uint8Array([9, 1, 2, 9]).subarray(1, 3);
+      expect(codec.encode(def(PropertyType.BLOB), bytes)).toBe("AQI=");
+    });
+
+    it("should encode multivalued properties as arrays", () => {
+      expect(codec.encode(def(PropertyType.BigInteger, true), [1n, 2n])).toEqual(["1", "2"]);
+      expect(codec.encode(def(PropertyType.String, true), [])).toEqual([]);
+    });
+
+    it("should reject non-array values for multivalued properties", () => {
+      expect(() => codec.encode(def(PropertyType.String, true), "x")).toThrow(/multivalued/);
+    });
+  });
+
+  describe("decode", () => {
+    it("should decode null for nullable properties and reject it otherwise", () => {
+      expect(codec.decode(def(PropertyType.Integer), null)).toBeNull();
+      const required = new PropertyDefBuilder().setName("p").setType(PropertyType.Integer).setIsNullable(false).build();
+      expect(() => codec.decode(required, null)).toThrow(/cannot be null/);
+    });
+
+    it("should decode non-finite float strings", () => {
+      expect(codec.decode(def(PropertyType.Float), "NaN")).toBeNaN();
+      expect(codec.decode(def(PropertyType.Float), "Infinity")).toBe(Infinity);
+      expect(codec.decode(def(PropertyType.Float), "-Infinity")).toBe(-Infinity);
+    });
+
+    it("should coerce values to the JS type of the property", () => {
+      expect(codec.decode(def(PropertyType.BigInteger), "98765432109876543210987654321")).toBe(
+        98765432109876543210987654321n,
+      );
+      expect(codec.decode(def(PropertyType.DateTime), "2025-01-02T03:04:05.678Z")).toEqual(
+        new Date("2025-01-02T03:04:05.678Z"),
+      );
+      expect(codec.decode(def(PropertyType.URI), "https://example.com/a")).toEqual(new URL("https://example.com/a"));
+      expect(codec.decode(def(PropertyType.BigDecimal), "1234.5678901234567890")).toBe("1234.5678901234567890");
+    });
+
+    it("should decode BLOB from base64", () => {
+      expect(codec.decode(def(PropertyType.BLOB), "AAEC/w==")).toEqual(new Uint8Array([0, 1, 2, 255]));
+    });
+
+    it("should decode multivalued properties element by element", () => {
+      expect(codec.decode(def(PropertyType.Float, true), [1.5, "NaN"])).toEqual([1.5, NaN]);
+      expect(() => codec.decode(def(PropertyType.Float, true), 1.5)).toThrow(/multivalued/);
+    });
+
+    it("should keep null elements of multivalued properties as null", () => {
+      expect(codec.decode(def(PropertyType.String, true), ["a", null, "c"])).toEqual(["a", null, "c"]);
+      expect(codec.decode(def(PropertyType.BigInteger, true), [null, "7"])).toEqual([null, 7n]);
+      expect(codec.decodeElement(def(PropertyType.String, true), null)).toBeNull();
+    });
+
+    it("should reject values that cannot be coerced", () => {
+      expect(() => codec.decode(def(PropertyType.Integer), "abc")).toThrow(/Cannot coerce/);
+    });
+  });
+
+  describe("encodings", () => {
+    const policies = new PropertyValueCodec(undefined, {
+      bigInteger: "number",
+      dateTime: "epochMillis",
+      blob: "hex",
+      uri: "string",
+    });
+
+    it("should report the policies with defaults filled in", () => {
+      expect(codec.encodings()).toEqual({ bigInteger: "string", dateTime: "iso8601", blob: "base64", uri: "string" });
+      expect(new PropertyValueCodec(undefined, { blob: "base64url" }).encodings().blob).toBe("base64url");
+    });
+
+    it("should write BigInteger as a number when asked", () => {
+      expect(policies.encode(def(PropertyType.BigInteger), 98765432109876543210987654321n)).toBe(
+        98765432109876543210987654321n,
+      );
+      expect(policies.decode(def(PropertyType.BigInteger), 98765432109876543210987654321n)).toBe(
+        98765432109876543210987654321n,
+      );
+      expect(policies.decode(def(PropertyType.BigInteger), 42)).toBe(42n);
+    });
+
+    it("should write DateTime as epoch milliseconds when asked and decode either form", () => {
+      const date = new Date("2025-01-02T03:04:05.678Z");
+      expect(policies.encode(def(PropertyType.DateTime), date)).toBe(date.getTime());
+      expect(policies.decode(def(PropertyType.DateTime), date.getTime())).toEqual(date);
+      expect(policies.decode(def(PropertyType.DateTime), "2025-01-02T05:04:05.678+02:00")).toEqual(date);
+    });
+
+    it("should write BLOB as hex or base64url when asked", () => {
+      const bytes = new Uint8Array([0xfb, 0xff, 0x00]);
+      expect(policies.encode(def(PropertyType.BLOB), bytes)).toBe("fbff00");
+      expect(policies.decode(def(PropertyType.BLOB), "fbff00")).toEqual(bytes);
+
+      const base64url = new PropertyValueCodec(undefined, { blob: "base64url" });
+      expect(base64url.encode(def(PropertyType.BLOB), bytes)).toBe("-_8A");
+      expect(base64url.decode(def(PropertyType.BLOB), "-_8A")).toEqual(bytes);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * PropertyValueCodec implementation
+ */
+
+import { PropertyDef, PropertyType, PropertyValueAdapter } from "@cheap-ts/core";
+import { JsonValue, JsonValueEncodings } from "../types.js";
+
+/**
+ * Converts property values to their JSON representation, according to the
+ * PropertyType of their PropertyDef.
+ *
+ * The encodings are:
+ * - Integer, Float: JSON number (non-finite floats as the strings "NaN", "Infinity", "-Infinity")
+ * - Boolean: JSON boolean
+ * - String, Text, CLOB, UUID, BigDecimal: JSON string
+ * - BigInteger: JSON string of decimal digits, or a JSON number per the bigInteger policy
+ * - DateTime: ISO-8601 string in UTC, or epoch milliseconds per the dateTime policy
+ * - URI: JSON string
+ * - BLOB: base64 string, or base64url or hex per the blob policy
+ *
+ * Multivalued properties are written as JSON arrays of the encoded elements.
+ *
+ * Decoding reverses the JSON-specific parts of these encodings (encoded BLOBs and
+ * non-finite floats) and then coerces the result through a PropertyValueAdapter,
+ * so decoded values have the JS types that PropertyType.getJsType() declares.
+ * Null elements of multivalued properties are kept as null in both directions.
+ */
+export class PropertyValueCodec {
+  private readonly _adapter: PropertyValueAdapter;
+  private readonly _encodings: Required<JsonValueEncodings>;
+
+  /**
+   * Creates a new PropertyValueCodec.
+   *
+   * @param adapter the adapter used to coerce decoded values; defaults to a new adapter in the local time zone
+   * @param encodings the encoding policies; unset policies use the defaults
+   */
+  constructor(adapter?: PropertyValueAdapter, encodings: JsonValueEncodings = {}) {
+    this._adapter = adapter ?? new PropertyValueAdapter();
+    this._encodings = {
+      bigInteger: encodings.bigInteger ?? "string",
+      dateTime: encodings.dateTime ?? "iso8601",
+      blob: encodings.blob ?? "base64",
+      uri: encodings.uri ?? "string",
+    };
+  }
+
+  /**
+   * Returns the encoding policies of this codec, with defaults filled in.
+   */
+  encodings(): Required<JsonValueEncodings> {
+    return { ...this._encodings };
+  }
+
+  /**
+   * Encodes a property value for the given PropertyDef.
+   *
+   * @param propDef the definition of the property
+   * @param value the value to encode, which may be null
+   * @returns the JSON representation of the value
+   */
+  encode(propDef: PropertyDef, value: unknown): JsonValue {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (propDef.isMultivalued()) {
+      if (!Array.isArray(value)) {
+        throw new Error(`Property '${propDef.name()}' is multivalued but its value is not an Array.`);
+      }
+      return value.map((element) => this.encodeSingleValue(propDef.type(), element));
+    }
+    return this.encodeSingleValue(propDef.type(), value);
+  }
+
+  /**
+   * Encodes a single (non-collection) value of the given PropertyType.
+   *
+   * @param type the property type
+   * @param value the value to encode, which may be null
+   * @returns the JSON representation of the value
+   */
+  encodeSingleValue(type: PropertyType, value: unknown): JsonValue {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    switch (type) {
+      case PropertyType.Integer:
+        return typeof value === "bigint" ? Number(value) : (value as number);
+      case PropertyType.Float:
+        return this.encodeFloat(value as number);
+      case PropertyType.Boolean:
+        return value as boolean;
+      case PropertyType.BigInteger:
+        return this._encodings.bigInteger === "number" ? BigInt(value as bigint) : String(value);
+      case PropertyType.BigDecimal:
+        return String(value);
+      case PropertyType.DateTime:
+        return this.encodeDate(value);
+      case PropertyType.BLOB:
+        return this.encodeBytes(value);
+      default:
+        // String, Text, CLOB, UUID and URI are all written as strings
+        return String(value);
+    }
+  }
+
+  private encodeFloat(value: number): JsonValue {
+    if (Number.isFinite(value)) {
+      return value;
+    }
+    return (
+      Number.isNaN(value) ? "NaN"
+      : value > 0 ? "Infinity"
+      : "-Infinity"
+    );
+  }
+
+  private encodeDate(value: unknown): JsonValue {
+    const date = value instanceof Date ? value : this._adapter.coerceToDate(value);
+    return this._encodings.dateTime === "epochMillis" ? date.getTime() : date.toISOString();
+  }
+
+  private encodeBytes(value: unknown): string {
+    if (value instanceof Uint8Array) {
+      return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString(this._encodings.blob);
+    }
+    if (value instanceof ArrayBuffer) {
+      return Buffer.from(value).toString(this._encodings.blob);
+    }
+    throw new Error(`Cannot encode value of type ${typeof value} as a BLOB.`);
+  }
+
+  /**
+   * Decodes a JSON value into a property value for the given PropertyDef.
+   *
+   * @param propDef the definition of the property
+   * @param json the JSON representation of the value
+   * @returns the decoded value, coerced to the JS type of the property
+   * @throws Error if the value cannot be converted to the property's type, or is null for a non-nullable property
+   */
+  decode(propDef: PropertyDef, json: JsonValue | undefined): unknown {
+    if (json === null || json === undefined) {
+      return this._adapter.coerce(propDef, null);
+    }
+    if (propDef.isMultivalued()) {
+      if (!Array.isArray(json)) {
+        throw new Error(`Property '${propDef.name()}' is multivalued but its JSON value is not an array.`);
+      }
+      // Null elements stay null; only the others go through the adapter, which
+      // would otherwise turn a null String element into ""
+      const elements = json.map((element) =>
+        element === null ? null : this.decodeSingleValue(propDef.type(), element),
+      );
+      const coerced = this._adapter.coerce(
+        propDef,
+        elements.filter((element) => element !== null),
+      ) as unknown[];
+      let next = 0;
+      return elements.map((element) => (element === null ? null : coerced[next++]));
+    }
+    return this._adapter.coerce(propDef, this.decodeSingleValue(propDef.type(), json));
+  }
+
+  /**
+   * Decodes a single element of a multivalued property.
+   *
+   * @param propDef the definition of the multivalued property
+   * @param json the JSON representation of the element
+   * @returns the decoded element, coerced to the JS type of the property
+   */
+  decodeElement(propDef: PropertyDef, json: JsonValue): unknown {
+    return (this.decode(propDef, [json]) as unknown[])[0];
+  }
+
+  /**
+   * Reverses the JSON-specific encoding of a single (non-collection) value of
+   * the given PropertyType. The result still needs to be coerced to the
+   * property's JS type.
+   *
+   * @param type the property type
+   * @param json the JSON representation of the value
+   * @returns the value with its JSON-specific encoding removed
+   */
+  decodeSingleValue(type: PropertyType, json: JsonValue): unknown {
+    if (typeof json !== "string") {
+      return json;
+    }
+    switch (type) {
+      case PropertyType.Float:
+        return this.decodeFloat(json);
+      case PropertyType.BLOB:
+        // The adapter parses hex strings itself
+        return this._encodings.blob === "hex" ? json : new Uint8Array(Buffer.from(json, this._encodings.blob));
+      default:
+        return json;
+    }
+  }
+
+  private decodeFloat(json: string): unknown {
+    switch (json) {
+      case "NaN":
+        return NaN;
+      case "Infinity":
+        return Infinity;
+      case "-Infinity":
+        return -Infinity;
+      default:
+        return json;
+    }
+  }
+}
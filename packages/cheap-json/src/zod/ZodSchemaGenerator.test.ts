@@ -0,0 +1,134 @@
+/**
+ * Unit tests for ZodSchemaGenerator
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  EntityImpl,
+  FullAspectDefImpl,
+  ImmutableAspectDefImpl,
+  PropertyDef,
+  PropertyDefBuilder,
+  PropertyType,
+} from "@cheap-ts/core";
+import { ZodSchemaGenerator, aspectFromZodOutput } from "./ZodSchemaGenerator.js";
+
+const PERSON_ID = "30000000-0000-0000-0000-000000000001";
+
+function prop(name: string, type: PropertyType): PropertyDefBuilder {
+  return new PropertyDefBuilder().setName(name).setType(type);
+}
+
+function personDef(): ImmutableAspectDefImpl {
+  return new ImmutableAspectDefImpl(
+    "person",
+    PERSON_ID,
+    new Map<string, PropertyDef>([
+      ["name", prop("name", PropertyType.String).setIsNullable(false).setIsRemovable(false).build()],
+      ["age", prop("age", PropertyType.Integer).setDefaultValue(0).build()],
+      ["born", prop("born", PropertyType.DateTime).build()],
+      ["nicknames", prop("nicknames", PropertyType.String).setIsMultivalued(true).build()],
+    ]),
+  );
+}
+
+describe("ZodSchemaGenerator", () => {
+  const generator = new ZodSchemaGenerator();
+
+  it("should accept values of every PropertyType and coerce them to their JS types", () => {
+    expect(generator.typeSchema(PropertyType.Integer).parse(42)).toBe(42);
+    expect(generator.typeSchema(PropertyType.Float).parse(1.5)).toBe(1.5);
+    expect(generator.typeSchema(PropertyType.Float).parse("NaN")).toBeNaN();
+    expect(generator.typeSchema(PropertyType.Float).parse(-Infinity)).toBe(-Infinity);
+    expect(generator.typeSchema(PropertyType.Boolean).parse(true)).toBe(true);
+    expect(generator.typeSchema(PropertyType.Text).parse("x".repeat(10000))).toHaveLength(10000);
+    expect(generator.typeSchema(PropertyType.BigInteger).parse("123456789012345678901234567890")).toBe(
+      123456789012345678901234567890n,
+    );
+    expect(generator.typeSchema(PropertyType.BigInteger).parse(7)).toBe(7n);
+    expect(generator.typeSchema(PropertyType.BigDecimal).parse("-1.25e3")).toBe("-1.25e3");
+    expect(generator.typeSchema(PropertyType.DateTime).parse("2024-01-02T03:04:05.000Z")).toEqual(
+      new Date("2024-01-02T03:04:05.000Z"),
+    );
+    expect(generator.typeSchema(PropertyType.DateTime).parse(0)).toEqual(new Date(0));
+    expect(generator.typeSchema(PropertyType.URI).parse("https://example.com/a")).toEqual(
+      new URL("https://example.com/a"),
+    );
+    expect(generator.typeSchema(PropertyType.UUID).parse(PERSON_ID)).toBe(PERSON_ID);
+    expect(generator.typeSchema(PropertyType.BLOB).parse("AQID")).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("should reject values of the wrong type", () => {
+    expect(generator.typeSchema(PropertyType.Integer).safeParse(1.5).success).toBe(false);
+    expect(generator.typeSchema(PropertyType.Boolean).safeParse("true").success).toBe(false);
+    expect(generator.typeSchema(PropertyType.BigInteger).safeParse("12a").success).toBe(false);
+    expect(generator.typeSchema(PropertyType.DateTime).safeParse("yesterday").success).toBe(false);
+    expect(generator.typeSchema(PropertyType.URI).safeParse("not a uri").success).toBe(false);
+    expect(generator.typeSchema(PropertyType.UUID).safeParse("1234").success).toBe(false);
+  });
+
+  it("should limit String values to 8192 characters", () => {
+    const schema = generator.typeSchema(PropertyType.String);
+    expect(schema.safeParse("x".repeat(8192)).success).toBe(true);
+    expect(schema.safeParse("x".repeat(8193)).success).toBe(false);
+  });
+
+  it("should follow the BLOB encoding policy", () => {
+    const hex = new ZodSchemaGenerator({ blob: "hex" });
+    expect(hex.typeSchema(PropertyType.BLOB).parse("0a0b")).toEqual(new Uint8Array([10, 11]));
+    expect(hex.typeSchema(PropertyType.BLOB).safeParse("AQID").success).toBe(false);
+  });
+
+  it("should apply nullability, defaults and removability to properties", () => {
+    const schema = generator.aspectDefSchema(personDef());
+
+    const parsed = schema.parse({ name: "Ada", born: "1815-12-10T00:00:00Z", nicknames: ["Countess"] });
+    expect(parsed).toEqual({
+      name: "Ada",
+      age: 0,
+      born: new Date("1815-12-10T00:00:00Z"),
+      nicknames: ["Countess"],
+    });
+    expect(schema.parse({ name: "Ada", born: null })).toEqual({ name: "Ada", age: 0, born: null });
+    expect(schema.safeParse({ age: 1 }).success).toBe(false);
+    expect(schema.safeParse({ name: null }).success).toBe(false);
+    expect(schema.safeParse({ name: "Ada", nicknames: "Countess" }).success).toBe(false);
+  });
+
+  it("should reject unknown properties unless the AspectDef can add properties", () => {
+    expect(generator.aspectDefSchema(personDef()).safeParse({ name: "Ada", extra: 1 }).success).toBe(false);
+
+    const open = new FullAspectDefImpl(
+      "open",
+      PERSON_ID,
+      new Map<string, PropertyDef>([["name", prop("name", PropertyType.String).build()]]),
+      true,
+      true,
+      true,
+      true,
+    );
+    expect(generator.aspectDefSchema(open).parse({ name: "Ada", extra: 1 })).toEqual({ name: "Ada" });
+  });
+
+  it("should build an Aspect from the parsed values", () => {
+    const aspectDef = personDef();
+    const entity = new EntityImpl();
+    const parsed = generator.aspectDefSchema(aspectDef).parse({ name: "Ada", born: "1815-12-10T00:00:00Z" });
+
+    const aspect = aspectFromZodOutput(entity, aspectDef, parsed);
+
+    expect(aspect.entity()).toBe(entity);
+    expect(aspect.def()).toBe(aspectDef);
+    expect(aspect.readObj("name")).toBe("Ada");
+    expect(aspect.readObj("age")).toBe(0);
+    expect(aspect.readObj("born")).toEqual(new Date("1815-12-10T00:00:00Z"));
+    expect(aspect.contains("nicknames")).toBe(false);
+  });
+
+  it("should reject values that do not belong to the AspectDef", () => {
+    expect(() => aspectFromZodOutput(new EntityImpl(), personDef(), { name: "Ada", extra: 1 })).toThrow(
+      "is not defined in AspectDef",
+    );
+    expect(() => aspectFromZodOutput(new EntityImpl(), personDef(), { name: 12 })).toThrow("expects type String");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * ZodSchemaGenerator implementation
+ */
+
+import { Aspect, AspectDef, AspectPropertyMapBuilder, Entity, PropertyDef, PropertyType } from "@cheap-ts/core";
+import { z } from "zod";
+import { JsonValueEncodings } from "../types.js";
+import { PropertyValueCodec } from "../util/PropertyValueCodec.js";
+import { STRING_MAX_LENGTH } from "../schema/JsonSchemaGenerator.js";
+
+/**
+ * The Zod schema of the property values of an aspect, keyed by property name.
+ */
+export type AspectZodSchema = z.ZodObject<Record<string, z.ZodType>, z.core.$ZodObjectConfig>;
+
+/**
+ * Generates Zod schemas that validate the property values of aspects and
+ * coerce them to the JS types that PropertyType.getJsType() declares.
+ *
+ * Each PropertyType accepts its JS type as well as its JSON encoding, as
+ * written by PropertyValueCodec with the same encoding policies:
+ * - Integer: safe integer number
+ * - Float: number, or one of the strings "NaN", "Infinity", "-Infinity"
+ * - Boolean: boolean
+ * - String: string of at most 8192 characters
+ * - Text, CLOB: string
+ * - BigInteger: bigint, integer number or string of decimal digits, coerced to bigint
+ * - BigDecimal: string of decimal digits
+ * - DateTime: Date, ISO-8601 string with an offset, or epoch milliseconds, coerced to Date
+ * - URI: URL or URL string, coerced to URL
+ * - UUID: UUID string
+ * - BLOB: Uint8Array, or a string in the blob encoding, coerced to Uint8Array
+ *
+ * Multivalued properties are arrays of these. Nullable properties also accept
+ * null, properties with a default value get it when absent, and removable
+ * properties without a default may be absent. Properties outside the AspectDef
+ * are rejected, unless the AspectDef can add properties; their types are
+ * unknown, so they are then stripped from the result.
+ */
+export class ZodSchemaGenerator {
+  private readonly _encodings: Required<JsonValueEncodings>;
+
+  /**
+   * Creates a new ZodSchemaGenerator.
+   *
+   * @param encodings the encoding policies of the JSON values to accept
+   */
+  constructor(encodings: JsonValueEncodings = {}) {
+    this._encodings = new PropertyValueCodec(undefined, encodings).encodings();
+  }
+
+  /**
+   * Generates the schema of an object holding the property values of an
+   * aspect of the given AspectDef.
+   *
+   * @param aspectDef the AspectDef to describe
+   * @returns the Zod object schema
+   */
+  aspectDefSchema(aspectDef: AspectDef): AspectZodSchema {
+    const shape: Record<string, z.ZodType> = {};
+    for (const propDef of aspectDef.propertyDefs()) {
+      shape[propDef.name()] = this.propertyDefSchema(propDef);
+    }
+    return aspectDef.canAddProperties() ? z.object(shape) : z.strictObject(shape);
+  }
+
+  /**
+   * Generates the schema of a single property value.
+   *
+   * @param propDef the PropertyDef to describe
+   * @returns the Zod schema of the property's value
+   */
+  propertyDefSchema(propDef: PropertyDef): z.ZodType {
+    let schema = this.typeSchema(propDef.type());
+    if (propDef.isMultivalued()) {
+      schema = z.array(schema);
+    }
+    if (propDef.isNullable()) {
+      schema = schema.nullable();
+    }
+    if (propDef.hasDefaultValue()) {
+      return schema.default(() => propDef.defaultValue());
+    }
+    return propDef.isRemovable() ? schema.optional() : schema;
+  }
+
+  /**
+   * Generates the schema of a single (non-collection) value of a PropertyType.
+   *
+   * @param type the property type
+   * @returns the Zod schema of a value of that type
+   */
+  typeSchema(type: PropertyType): z.ZodType {
+    switch (type) {
+      case PropertyType.Integer:
+        return z.number().int();
+      case PropertyType.Float:
+        return z.union([
+          z.number(),
+          z.nan(),
+          z.literal([Infinity, -Infinity]),
+          z.enum(["NaN", "Infinity", "-Infinity"]).transform(Number),
+        ]);
+      case PropertyType.Boolean:
+        return z.boolean();
+      case PropertyType.String:
+        return z.string().max(STRING_MAX_LENGTH);
+      case PropertyType.BigInteger:
+        return z
+          .union([z.bigint(), z.number().int(), z.string().regex(/^-?[0-9]+$/)])
+          .transform((value) => BigInt(value));
+      case PropertyType.BigDecimal:
+        return z.string().regex(/^-?[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?$/);
+      case PropertyType.DateTime:
+        return z
+          .union([z.date(), z.iso.datetime({ offset: true }), z.number().int()])
+          .transform((value) => (value instanceof Date ? value : new Date(value)));
+      case PropertyType.URI:
+        return z.union([z.instanceof(URL), z.url().transform((value) => new URL(value))]);
+      case PropertyType.UUID:
+        // Any 8-4-4-4-12 hex string, since CHEAP does not restrict UUID versions
+        return z.guid();
+      case PropertyType.BLOB:
+        return z.union([
+          z.instanceof(Uint8Array),
+          this.blobStringSchema().transform((value) => new Uint8Array(Buffer.from(value, this._encodings.blob))),
+        ]);
+      default:
+        // Text and CLOB are unbounded strings
+        return z.string();
+    }
+  }
+
+  private blobStringSchema(): z.ZodString | z.ZodBase64 | z.ZodBase64URL | z.ZodCustomStringFormat<"hex"> {
+    switch (this._encodings.blob) {
+      case "base64url":
+        return z.base64url();
+      case "hex":
+        return z.hex();
+      default:
+        return z.base64();
+    }
+  }
+}
+
+/**
+ * Builds an Aspect from the result of parsing with a schema generated by
+ * ZodSchemaGenerator.aspectDefSchema(). Properties that are absent from the
+ * result are left out of the aspect.
+ *
+ * @param entity the entity the aspect belongs to
+ * @param aspectDef the AspectDef the schema was generated from
+ * @param values the parsed property values, keyed by property name
+ * @returns the new aspect
+ * @throws Error if a value does not belong to a property of the AspectDef or has the wrong type
+ */
+export function aspectFromZodOutput(entity: Entity, aspectDef: AspectDef, values: Record<string, unknown>): Aspect {
+  const builder = new AspectPropertyMapBuilder().entity(entity).aspectDef(aspectDef);
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      builder.property(name, value);
+    }
+  }
+  return builder.build();
+}
@@ -0,0 +1,5 @@
+/**
+ * Zod schema generation for the CHEAP model
+ */
+
+export * from "./ZodSchemaGenerator.js";